@@ -16,10 +16,28 @@ import CallsAnalytics from "@/pages/calls-analytics";
 import CampaignTimingAnalytics from "@/pages/campaign-timing-analytics";
 import WhatsAppChats from "@/pages/whatsapp-chats";
 import WhatsAppMessaging from "@/pages/whatsapp-messaging";
+import ContactTimeline from "@/pages/contact-timeline";
+import SegmentsPage from "@/pages/segments";
+import UsersPage from "@/pages/users";
+import LoginPage from "@/pages/login";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
 import NotFound from "@/pages/not-found";
+import type { Permission } from "@shared/schema";
 // ...existing code...
 
 function Router() {
+  const { user, isLoading, can } = useAuth();
+
+  if (isLoading) {
+    return <div className="flex h-screen items-center justify-center text-muted-foreground">Loading...</div>;
+  }
+  if (!user) {
+    return <LoginPage />;
+  }
+
+  // Pages the role cannot use are hidden from the sidebar and show as not found
+  const allowed = (permission: Permission, component: React.ComponentType<any>) => can(permission) ? component : NotFound;
+
   return (
     <div className="flex h-screen palette-background">
       <Sidebar />
@@ -28,16 +46,19 @@ function Router() {
           <Switch>
             <Route path="/" component={ContactCampaigns} />
             <Route path="/campaign-dashboard" component={CampaignDashboard} />
-            <Route path="/whatsapp-bulk" component={WhatsAppBulk} />
+            <Route path="/whatsapp-bulk" component={allowed('campaigns.manage', WhatsAppBulk)} />
             <Route path="/live-calls" component={LiveCallsPage} />
             <Route path="/calls-analytics" component={CallsAnalytics} />
             <Route path="/campaign-timing" component={CampaignTimingAnalytics} />
-            <Route path="/campaign-manager" component={CampaignManager} />
+            <Route path="/campaign-manager" component={allowed('campaigns.manage', CampaignManager)} />
             <Route path="/contact-campaigns" component={ContactCampaigns} />
+            <Route path="/contacts/:id" component={ContactTimeline} />
+            <Route path="/segments" component={SegmentsPage} />
             <Route path="/whatsapp-chats" component={WhatsAppChats} />
             <Route path="/whatsapp-messaging" component={WhatsAppMessaging} />
-            <Route path="/settings" component={SettingsPage} />
-            <Route path="/enhanced-settings" component={EnhancedSettings} />
+            <Route path="/settings" component={allowed('settings.manage', SettingsPage)} />
+            <Route path="/enhanced-settings" component={allowed('settings.manage', EnhancedSettings)} />
+            <Route path="/users" component={allowed('users.manage', UsersPage)} />
             <Route component={NotFound} />
           </Switch>
         </main>
@@ -49,8 +70,10 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <Toaster />
-      <Router />
+      <AuthProvider>
+        <Toaster />
+        <Router />
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,125 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save, X } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Contact, ContactFieldDefinition, CustomFieldValue } from "@shared/schema";
+
+const NONE = '__none__';
+
+interface ContactDetailsCardProps {
+  contact: Contact;
+  onSaved: () => void;
+}
+
+// Tags and custom field values of one contact
+export function ContactDetailsCard({ contact, onSaved }: ContactDetailsCardProps) {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<string[]>([]);
+  const [newTag, setNewTag] = useState('');
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const { data: fields = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+  });
+
+  useEffect(() => {
+    setTags(contact.tags || []);
+    const stored = (contact.customFields as Record<string, CustomFieldValue> | null) || {};
+    setValues(Object.fromEntries(Object.entries(stored).map(([key, value]) => [key, String(value)])));
+  }, [contact]);
+
+  const saveMutation = useMutation({
+    mutationFn: () => apiRequest('PUT', `/api/contacts/${contact.id}`, {
+      tags,
+      // Only defined fields are sent; values of deleted fields would be rejected
+      customFields: Object.fromEntries(fields.map(field => [field.key, values[field.key] || null]))
+    }),
+    onSuccess: () => {
+      toast({ title: "Details saved" });
+      onSaved();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to save details", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const addTag = () => {
+    const tag = newTag.trim().toLowerCase();
+    if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+    setNewTag('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Details</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <div className="space-y-2">
+          <Label>Tags</Label>
+          {tags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {tags.map(tag => (
+                <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => setTags(tags.filter(t => t !== tag))}>
+                  {tag}
+                  <X className="h-3 w-3 ml-1" />
+                </Badge>
+              ))}
+            </div>
+          )}
+          <Input
+            value={newTag}
+            placeholder="Add a tag and press Enter"
+            onChange={(e) => setNewTag(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                addTag();
+              }
+            }}
+          />
+        </div>
+
+        {fields.map(field => (
+          <div key={field.key} className="space-y-1">
+            <Label>{field.label}</Label>
+            {field.type === 'enum' ? (
+              <Select
+                value={values[field.key] || NONE}
+                onValueChange={(value) => setValues({ ...values, [field.key]: value === NONE ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NONE}>Not set</SelectItem>
+                  {((field.options as string[] | null) || []).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Input
+                type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                value={values[field.key] || ''}
+                onChange={(e) => setValues({ ...values, [field.key]: e.target.value })}
+              />
+            )}
+          </div>
+        ))}
+
+        <Button className="w-full" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+          <Save className="w-4 h-4 mr-2" />
+          {saveMutation.isPending ? 'Saving...' : 'Save details'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Copy, GitMerge, Phone, RefreshCw } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DuplicateContactGroup, DuplicateMatchReason } from "@shared/schema";
+
+const REASON_LABELS: Record<DuplicateMatchReason, string> = {
+  phone: 'Same phone',
+  email: 'Same email',
+  name_city: 'Similar name, same city'
+};
+
+// Lists contacts that look like the same person and merges each group into the contact picked to keep
+export function ContactDuplicatesDialog() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  // Survivor picked per group, keyed by the group's first contact; the oldest contact is kept otherwise
+  const [survivors, setSurvivors] = useState<Record<string, string>>({});
+
+  const { data: groups = [], isLoading, refetch, isFetching } = useQuery<DuplicateContactGroup[]>({
+    queryKey: ['/api/contacts/duplicates'],
+    enabled: open,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/contacts/duplicates'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/contacts/enhanced'] });
+  };
+
+  const mergeMutation = useMutation({
+    mutationFn: (group: DuplicateContactGroup) => {
+      const survivorId = survivors[group.contacts[0].id] || group.contacts[0].id;
+      return apiRequest('POST', '/api/contacts/merge', {
+        survivorId,
+        duplicateIds: group.contacts.map(contact => contact.id).filter(id => id !== survivorId)
+      });
+    },
+    onSuccess: () => {
+      toast({ title: "Contacts merged" });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to merge contacts", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const normalizeMutation = useMutation({
+    mutationFn: async () => (await apiRequest('POST', '/api/contacts/normalize-phones')).json(),
+    onSuccess: (result: { updated: number; unreadable: string[] }) => {
+      toast({
+        title: `Normalized ${result.updated} contacts`,
+        description: result.unreadable.length > 0
+          ? `${result.unreadable.length} numbers could not be read and were left as they are`
+          : undefined
+      });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to normalize phone numbers", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Copy className="h-4 w-4 mr-2" />
+          Find Duplicates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Duplicate contacts</DialogTitle>
+          <DialogDescription>
+            Pick the contact to keep in each group. Calls, messages, engagements and notes of the others move to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={() => normalizeMutation.mutate()} disabled={normalizeMutation.isPending}>
+            <Phone className="h-4 w-4 mr-2" />
+            {normalizeMutation.isPending ? 'Normalizing...' : 'Normalize phone numbers'}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+            <RefreshCw className={`h-4 w-4 mr-2 ${isFetching ? 'animate-spin' : ''}`} />
+            Rescan
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <RefreshCw className="h-6 w-6 animate-spin" />
+          </div>
+        ) : groups.length === 0 ? (
+          <p className="text-center py-8 text-muted-foreground">No duplicates found</p>
+        ) : (
+          <div className="space-y-4">
+            {groups.map(group => {
+              const groupKey = group.contacts[0].id;
+              return (
+                <div key={groupKey} className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div className="flex gap-2">
+                      {group.reasons.map(reason => (
+                        <Badge key={reason} variant="outline">{REASON_LABELS[reason]}</Badge>
+                      ))}
+                    </div>
+                    <Button size="sm" onClick={() => mergeMutation.mutate(group)} disabled={mergeMutation.isPending}>
+                      <GitMerge className="h-4 w-4 mr-2" />
+                      Merge {group.contacts.length}
+                    </Button>
+                  </div>
+                  <RadioGroup
+                    value={survivors[groupKey] || groupKey}
+                    onValueChange={(id) => setSurvivors({ ...survivors, [groupKey]: id })}
+                  >
+                    {group.contacts.map(contact => (
+                      <label key={contact.id} className="flex items-center gap-3 text-sm cursor-pointer">
+                        <RadioGroupItem value={contact.id} />
+                        <span className="font-medium">{contact.name}</span>
+                        <span>{contact.phone}</span>
+                        {contact.email && <span className="text-muted-foreground">{contact.email}</span>}
+                        {contact.city && <span className="text-muted-foreground">{contact.city}</span>}
+                        <Badge variant="outline">{contact.leadStage.replace('_', ' ')}</Badge>
+                        <span className="text-xs text-muted-foreground">
+                          added {new Date(contact.createdAt).toLocaleDateString()}
+                        </span>
+                      </label>
+                    ))}
+                  </RadioGroup>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
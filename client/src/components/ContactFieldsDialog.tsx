@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Pencil, Plus, SlidersHorizontal, Trash2 } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { CUSTOM_FIELD_TYPES, type ContactFieldDefinition, type CustomFieldType } from "@shared/schema";
+
+const TYPE_LABELS: Record<CustomFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  enum: 'List of options'
+};
+
+const toKey = (label: string) => {
+  const key = label.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(key) ? `field_${key}` : key;
+};
+
+const emptyForm = { label: '', key: '', type: 'text' as CustomFieldType, options: '' };
+
+// Defines the custom fields every contact can have, such as lab type or test volume
+export function ContactFieldsDialog() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [editing, setEditing] = useState<ContactFieldDefinition | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [keyEdited, setKeyEdited] = useState(false);
+
+  const { data: fields = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+    enabled: open,
+  });
+
+  const reset = () => {
+    setEditing(null);
+    setForm(emptyForm);
+    setKeyEdited(false);
+  };
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/contact-fields'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/contacts/enhanced'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const options = form.type === 'enum'
+        ? form.options.split(',').map(option => option.trim()).filter(Boolean)
+        : undefined;
+      return editing
+        ? apiRequest('PUT', `/api/contact-fields/${editing.id}`, { label: form.label, options })
+        : apiRequest('POST', '/api/contact-fields', { key: form.key, label: form.label, type: form.type, options });
+    },
+    onSuccess: () => {
+      toast({ title: editing ? 'Field updated' : 'Field added' });
+      reset();
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to save field', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/contact-fields/${id}`),
+    onSuccess: () => {
+      toast({ title: 'Field deleted' });
+      invalidate();
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to delete field', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startEdit = (field: ContactFieldDefinition) => {
+    setEditing(field);
+    setForm({
+      label: field.label,
+      key: field.key,
+      type: field.type as CustomFieldType,
+      options: ((field.options as string[] | null) || []).join(', ')
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Custom Fields
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Custom contact fields</DialogTitle>
+          <DialogDescription>
+            Extra details kept on every contact. Use them in filters and imports, and in prompts as {'{{contact.custom.<key>}}'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {fields.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No custom fields yet</p>
+          ) : fields.map(field => (
+            <div key={field.id} className="flex items-center justify-between border rounded-lg p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{field.label}</span>
+                  <Badge variant="outline">{TYPE_LABELS[field.type as CustomFieldType] || field.type}</Badge>
+                  <code className="text-xs text-muted-foreground">{field.key}</code>
+                </div>
+                {field.type === 'enum' && (
+                  <p className="text-xs text-muted-foreground">{((field.options as string[] | null) || []).join(', ')}</p>
+                )}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => startEdit(field)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Delete "${field.label}"? Its values are removed from every contact.`)) {
+                      deleteMutation.mutate(field.id);
+                    }
+                  }}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-medium">{editing ? `Edit ${editing.label}` : 'Add a field'}</h4>
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label>Label</Label>
+              <Input
+                value={form.label}
+                placeholder="Lab type"
+                onChange={(e) => setForm({
+                  ...form,
+                  label: e.target.value,
+                  key: editing || keyEdited ? form.key : toKey(e.target.value)
+                })}
+              />
+            </div>
+            <div>
+              <Label>Key</Label>
+              <Input
+                value={form.key}
+                placeholder="lab_type"
+                disabled={!!editing}
+                onChange={(e) => {
+                  setKeyEdited(true);
+                  setForm({ ...form, key: e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_') });
+                }}
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={form.type}
+                onValueChange={(value) => setForm({ ...form, type: value as CustomFieldType })}
+                disabled={!!editing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CUSTOM_FIELD_TYPES.map(type => (
+                    <SelectItem key={type} value={type}>{TYPE_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {form.type === 'enum' && (
+            <div>
+              <Label>Options (comma separated)</Label>
+              <Input
+                value={form.options}
+                placeholder="Pathology, Radiology, Diagnostic centre"
+                onChange={(e) => setForm({ ...form, options: e.target.value })}
+              />
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={() => saveMutation.mutate()} disabled={!form.label.trim() || !form.key || saveMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              {editing ? 'Save field' : 'Add field'}
+            </Button>
+            {editing && <Button size="sm" variant="outline" onClick={reset}>Cancel</Button>}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Download, RefreshCw, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useWebSocket } from "@/hooks/use-websocket";
+import {
+  CONTACT_IMPORT_FIELDS,
+  type ContactImportColumn,
+  type ContactImportDryRun,
+  type ContactImportField,
+  type ContactImportJob,
+  type ContactFieldDefinition
+} from "@shared/schema";
+
+type Step = 'upload' | 'map' | 'review' | 'progress';
+
+interface UploadResult {
+  job: ContactImportJob;
+  headers: string[];
+  sampleRows: string[][];
+}
+
+const FIELD_LABELS: Record<ContactImportField, string> = {
+  name: 'Name',
+  phone: 'Phone',
+  email: 'Email',
+  whatsappNumber: 'WhatsApp number',
+  company: 'Company',
+  notes: 'Notes',
+  city: 'City',
+  state: 'State',
+  tags: 'Tags'
+};
+
+const SKIP = 'skip';
+const NEW_CUSTOM = 'custom';
+
+// Same rule as the server: keys use a-z, 0-9 and _ and start with a letter
+const customKey = (header: string) => {
+  const key = header.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[0-9]/.test(key) ? `field_${key}` : key;
+};
+
+async function sendJson(url: string, body: FormData | object) {
+  const res = await fetch(url, body instanceof FormData
+    ? { method: 'POST', body, credentials: 'include' }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), credentials: 'include' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+  }
+  return data;
+}
+
+// Upload a CSV or Excel file, map its columns, dry-run it, then import it in the background
+export function ContactImportWizard() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { lastMessage } = useWebSocket();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [open, setOpen] = useState(false);
+  const [step, setStep] = useState<Step>('upload');
+  const [upload, setUpload] = useState<UploadResult | null>(null);
+  const [mapping, setMapping] = useState<ContactImportColumn[]>([]);
+  const [dryRun, setDryRun] = useState<ContactImportDryRun | null>(null);
+
+  const { data: definitions = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+    enabled: open,
+  });
+
+  const jobId = upload?.job.id;
+  const { data: job } = useQuery<ContactImportJob>({
+    queryKey: ['/api/contacts/imports', jobId],
+    enabled: step === 'progress' && !!jobId,
+    // Progress arrives over the websocket; polling only covers a dropped connection
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'completed' || status === 'failed' ? false : 10000;
+    },
+  });
+
+  useEffect(() => {
+    if (lastMessage?.type === 'contact_import_progress' && lastMessage.job.id === jobId) {
+      queryClient.setQueryData(['/api/contacts/imports', jobId], lastMessage.job);
+      if (lastMessage.job.status === 'completed') {
+        queryClient.invalidateQueries({ queryKey: ['/api/contacts/enhanced'] });
+      }
+    }
+  }, [lastMessage, jobId, queryClient]);
+
+  const uploadMutation = useMutation({
+    mutationFn: (file: File) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      return sendJson('/api/contacts/imports', formData) as Promise<UploadResult>;
+    },
+    onSuccess: (result) => {
+      setUpload(result);
+      setMapping(result.job.mapping as ContactImportColumn[]);
+      setDryRun(null);
+      setStep('map');
+    },
+    onError: (error: any) => {
+      toast({ title: 'Upload failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const dryRunMutation = useMutation({
+    mutationFn: () => sendJson(`/api/contacts/imports/${jobId}/dry-run`, { mapping }) as Promise<ContactImportDryRun>,
+    onSuccess: (result) => {
+      setDryRun(result);
+      setStep('review');
+    },
+    onError: (error: any) => {
+      toast({ title: 'Check failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: () => sendJson(`/api/contacts/imports/${jobId}/start`, { mapping }) as Promise<ContactImportJob>,
+    onSuccess: (started) => {
+      queryClient.setQueryData(['/api/contacts/imports', started.id], started);
+      // Starting creates fields for new custom columns
+      queryClient.invalidateQueries({ queryKey: ['/api/contact-fields'] });
+      setStep('progress');
+    },
+    onError: (error: any) => {
+      toast({ title: 'Import failed to start', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const reset = () => {
+    setStep('upload');
+    setUpload(null);
+    setMapping([]);
+    setDryRun(null);
+  };
+
+  const handleOpenChange = (value: boolean) => {
+    setOpen(value);
+    // A running import carries on in the background; the next open starts a new one
+    if (!value && (step !== 'map' && step !== 'review')) reset();
+  };
+
+  const updateColumn = (index: number, field: ContactImportColumn['field']) =>
+    setMapping(mapping.map((column, i) => i === index ? { ...column, field } : column));
+
+  const usedFields = new Set(mapping.map(column => column.field).filter(Boolean));
+  const missingRequired = (['name', 'phone'] as const).filter(field => !usedFields.has(field));
+
+  const processed = job ? Math.round((job.processedRows / Math.max(1, job.totalRows)) * 100) : 0;
+  const skipped = job ? job.duplicateRows + job.invalidRows : 0;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button>
+          <Upload className="h-4 w-4 mr-2" />
+          Import Contacts
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import contacts</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Choose a CSV or Excel file with one contact per row and a header row.'}
+            {step === 'map' && 'Choose where each column goes. Columns without a built-in field can go to a custom field; new custom fields are created as text.'}
+            {step === 'review' && 'Nothing has been imported yet. Check the counts, then start the import.'}
+            {step === 'progress' && 'The import runs in the background; you can close this window.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="py-8 flex justify-center">
+            <Input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.xlsx,.xls"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) uploadMutation.mutate(file);
+                e.target.value = '';
+              }}
+            />
+            <Button onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+              {uploadMutation.isPending ? (
+                <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Upload className="h-4 w-4 mr-2" />
+              )}
+              {uploadMutation.isPending ? 'Uploading...' : 'Choose File'}
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && upload && (
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              {upload.job.fileName}: {upload.job.totalRows} rows
+            </p>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Column</TableHead>
+                  <TableHead>Sample values</TableHead>
+                  <TableHead className="w-72">Import as</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mapping.map((column, i) => {
+                  const customKeyOf = column.field?.startsWith('custom:') ? column.field.slice('custom:'.length) : null;
+                  const isNewCustom = customKeyOf !== null && !definitions.some(definition => definition.key === customKeyOf);
+                  return (
+                    <TableRow key={i}>
+                      <TableCell className="font-medium">{column.header || `Column ${i + 1}`}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground max-w-xs truncate">
+                        {upload.sampleRows.map(row => row[i]).filter(Boolean).slice(0, 3).join(', ')}
+                      </TableCell>
+                      <TableCell className="space-y-2">
+                        <Select
+                          value={isNewCustom ? NEW_CUSTOM : column.field || SKIP}
+                          onValueChange={(value) => updateColumn(i,
+                            value === SKIP ? null
+                              : value === NEW_CUSTOM ? `custom:${customKey(column.header) || `column_${i + 1}`}`
+                              : value as ContactImportColumn['field']
+                          )}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP}>Don't import</SelectItem>
+                            {CONTACT_IMPORT_FIELDS.map(field => (
+                              <SelectItem key={field} value={field} disabled={usedFields.has(field) && column.field !== field}>
+                                {FIELD_LABELS[field]}
+                              </SelectItem>
+                            ))}
+                            {definitions.map(definition => (
+                              <SelectItem
+                                key={definition.key}
+                                value={`custom:${definition.key}`}
+                                disabled={usedFields.has(`custom:${definition.key}`) && column.field !== `custom:${definition.key}`}
+                              >
+                                {definition.label} ({definition.type})
+                              </SelectItem>
+                            ))}
+                            <SelectItem value={NEW_CUSTOM}>New custom field</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        {isNewCustom && (
+                          <Input
+                            value={customKeyOf}
+                            placeholder="field_key"
+                            onChange={(e) => updateColumn(i, `custom:${e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_')}`)}
+                          />
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+            {missingRequired.length > 0 && (
+              <p className="text-sm text-red-600">
+                Map a column to {missingRequired.map(field => FIELD_LABELS[field]).join(' and ')} to continue.
+              </p>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={reset}>Choose another file</Button>
+              <Button onClick={() => dryRunMutation.mutate()} disabled={missingRequired.length > 0 || dryRunMutation.isPending}>
+                {dryRunMutation.isPending ? 'Checking...' : 'Check rows'}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'review' && dryRun && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-4 gap-4 text-center">
+              <div className="p-3 border rounded-lg">
+                <div className="text-2xl font-bold">{dryRun.totalRows}</div>
+                <div className="text-sm text-muted-foreground">Rows</div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-2xl font-bold text-green-600">{dryRun.validRows}</div>
+                <div className="text-sm text-muted-foreground">Will be imported</div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-2xl font-bold text-yellow-600">{dryRun.duplicateRows}</div>
+                <div className="text-sm text-muted-foreground">Duplicates</div>
+              </div>
+              <div className="p-3 border rounded-lg">
+                <div className="text-2xl font-bold text-red-600">{dryRun.invalidRows}</div>
+                <div className="text-sm text-muted-foreground">Invalid</div>
+              </div>
+            </div>
+            {dryRun.issues.length > 0 && (
+              <div className="space-y-1 text-sm">
+                <p className="font-medium">Examples of rows that will be skipped</p>
+                {dryRun.issues.map(issue => (
+                  <p key={issue.rowNumber}>
+                    <Badge variant="outline" className="mr-2">Row {issue.rowNumber}</Badge>
+                    {issue.error}
+                  </p>
+                ))}
+              </div>
+            )}
+            <div className="flex justify-between">
+              <Button variant="outline" onClick={() => setStep('map')}>Back to mapping</Button>
+              <Button onClick={() => startMutation.mutate()} disabled={dryRun.validRows === 0 || startMutation.isPending}>
+                {startMutation.isPending ? 'Starting...' : `Import ${dryRun.validRows} contacts`}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {step === 'progress' && job && (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between text-sm">
+              <span>{job.processedRows} of {job.totalRows} rows processed</span>
+              <Badge>{job.status}</Badge>
+            </div>
+            <Progress value={processed} />
+            <div className="flex gap-4 text-sm">
+              <span className="text-green-600">{job.importedRows} imported</span>
+              <span className="text-yellow-600">{job.duplicateRows} duplicates</span>
+              <span className="text-red-600">{job.invalidRows} invalid</span>
+            </div>
+            {job.status === 'failed' && <p className="text-sm text-red-600">{job.lastError}</p>}
+            {skipped > 0 && (
+              <Button variant="outline" asChild>
+                <a href={`/api/contacts/imports/${job.id}/errors.csv`}>
+                  <Download className="h-4 w-4 mr-2" />
+                  Download skipped rows ({skipped})
+                </a>
+              </Button>
+            )}
+            {(job.status === 'completed' || job.status === 'failed') && (
+              <div className="flex justify-end">
+                <Button onClick={reset}>Import another file</Button>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,76 @@
+import { useQuery } from "@tanstack/react-query";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ContactFieldDefinition, CustomFieldFilter } from "@shared/schema";
+
+const ANY = '__any__';
+
+interface CustomFieldFiltersProps {
+  value: CustomFieldFilter[];
+  onChange: (filters: CustomFieldFilter[]) => void;
+}
+
+// One filter input per custom field: text search, an option picker, or a min/max range for numbers and dates
+export function CustomFieldFilters({ value, onChange }: CustomFieldFiltersProps) {
+  const { data: fields = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+  });
+
+  if (fields.length === 0) return null;
+
+  const filterFor = (key: string) => value.find(filter => filter.key === key) || { key };
+  const update = (key: string, changes: Partial<CustomFieldFilter>) => {
+    const updated = { ...filterFor(key), ...changes };
+    const others = value.filter(filter => filter.key !== key);
+    onChange(updated.value || updated.min || updated.max ? [...others, updated] : others);
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+      {fields.map(field => {
+        const filter = filterFor(field.key);
+        const rangeType = field.type === 'date' ? 'date' : 'number';
+        return (
+          <div key={field.key}>
+            <Label>{field.label}</Label>
+            {field.type === 'enum' ? (
+              <Select value={filter.value || ANY} onValueChange={(option) => update(field.key, { value: option === ANY ? undefined : option })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ANY}>Any</SelectItem>
+                  {((field.options as string[] | null) || []).map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : field.type === 'number' || field.type === 'date' ? (
+              <div className="flex gap-2">
+                <Input
+                  type={rangeType}
+                  placeholder="Min"
+                  value={filter.min || ''}
+                  onChange={(e) => update(field.key, { min: e.target.value || undefined })}
+                />
+                <Input
+                  type={rangeType}
+                  placeholder="Max"
+                  value={filter.max || ''}
+                  onChange={(e) => update(field.key, { max: e.target.value || undefined })}
+                />
+              </div>
+            ) : (
+              <Input
+                placeholder={`Search ${field.label.toLowerCase()}...`}
+                value={filter.value || ''}
+                onChange={(e) => update(field.key, { value: e.target.value || undefined })}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Pause, Play, Square } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { DialQueueProgress } from "@shared/schema";
+
+interface DialerControlsProps {
+  campaignId: string;
+  dialerStatus: string;
+}
+
+// Live dialing-queue progress with pause/resume/cancel for one campaign.
+// Progress is refreshed from `dialer_progress` WebSocket events by the parent page.
+export function DialerControls({ campaignId, dialerStatus }: DialerControlsProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: progress } = useQuery<DialQueueProgress>({
+    queryKey: ['/api/campaigns', campaignId, 'dialer'],
+    enabled: dialerStatus !== 'idle',
+  });
+
+  const dialerMutation = useMutation({
+    mutationFn: async (action: 'pause' | 'resume' | 'cancel') => {
+      const res = await apiRequest('POST', `/api/campaigns/${campaignId}/dialer/${action}`);
+      return res.json() as Promise<DialQueueProgress>;
+    },
+    onSuccess: (data) => {
+      queryClient.setQueryData(['/api/campaigns', campaignId, 'dialer'], data);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update dialer",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (dialerStatus === 'idle' || !progress) {
+    return <span className="text-xs text-gray-400">-</span>;
+  }
+
+  const finished = progress.completed + progress.failed + progress.cancelled;
+  const percent = progress.total > 0 ? Math.round((finished / progress.total) * 100) : 0;
+  const status = progress.dialerStatus;
+
+  return (
+    <div className="space-y-1 min-w-[160px]">
+      <div className="flex items-center gap-2">
+        <Badge variant="outline">{status}</Badge>
+        <span className="text-xs text-gray-500">
+          {finished}/{progress.total} · {progress.dialing} live
+        </span>
+      </div>
+      <Progress value={percent} className="h-1.5" />
+      {(status === 'running' || status === 'paused') && (
+        <div className="flex gap-1">
+          {status === 'running' ? (
+            <Button size="sm" variant="ghost" onClick={() => dialerMutation.mutate('pause')} disabled={dialerMutation.isPending}>
+              <Pause className="h-3 w-3" />
+            </Button>
+          ) : (
+            <Button size="sm" variant="ghost" onClick={() => dialerMutation.mutate('resume')} disabled={dialerMutation.isPending}>
+              <Play className="h-3 w-3" />
+            </Button>
+          )}
+          <Button size="sm" variant="ghost" onClick={() => dialerMutation.mutate('cancel')} disabled={dialerMutation.isPending}>
+            <Square className="h-3 w-3" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
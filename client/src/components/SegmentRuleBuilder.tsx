@@ -0,0 +1,273 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, X } from "lucide-react";
+import {
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  type ContactFieldDefinition,
+  type CustomFieldType,
+  type SegmentCondition,
+  type SegmentField,
+  type SegmentFieldKind,
+  type SegmentOperator,
+  type SegmentRule,
+  type SegmentRuleGroup
+} from "@shared/schema";
+
+// Nesting allowed by the server
+const MAX_DEPTH = 3;
+
+const OPERATOR_LABELS: Record<SegmentOperator, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  contains: 'contains',
+  not_contains: 'does not contain',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+  gt: 'is more than',
+  gte: 'is at least',
+  lt: 'is less than',
+  lte: 'is at most',
+  before: 'is before',
+  after: 'is after',
+  in: 'is any of',
+  not_in: 'is none of',
+  has_any: 'has any of',
+  has_all: 'has all of',
+  has_none: 'has none of'
+};
+
+const CUSTOM_FIELD_KINDS: Record<CustomFieldType, SegmentFieldKind> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  enum: 'option'
+};
+
+interface FieldInfo {
+  label: string;
+  kind: SegmentFieldKind;
+  options?: readonly string[];
+}
+
+const isGroup = (rule: SegmentRule): rule is SegmentRuleGroup => 'combinator' in rule;
+
+const fieldInfo = (field: SegmentField, definitions: ContactFieldDefinition[]): FieldInfo | undefined => {
+  if (field.startsWith('custom:')) {
+    const definition = definitions.find(candidate => `custom:${candidate.key}` === field);
+    return definition && {
+      label: definition.label,
+      kind: CUSTOM_FIELD_KINDS[definition.type as CustomFieldType] || 'text',
+      options: (definition.options as string[] | null) || undefined
+    };
+  }
+  const builtIn = SEGMENT_FIELDS[field as keyof typeof SEGMENT_FIELDS];
+  return builtIn && { label: builtIn.label, kind: builtIn.kind, options: 'options' in builtIn ? builtIn.options : undefined };
+};
+
+const newCondition = (): SegmentCondition => ({ field: 'name', operator: 'contains', value: '' });
+
+export const emptySegmentRules = (): SegmentRuleGroup => ({ combinator: 'and', rules: [newCondition()] });
+
+// Picks several values: fixed options are toggled, free values (tags) are typed in
+function MultiValueInput({ value, options, onChange }: {
+  value: string[];
+  options?: readonly string[];
+  onChange: (value: string[]) => void;
+}) {
+  const [draft, setDraft] = useState('');
+  const toggle = (item: string) => onChange(value.includes(item) ? value.filter(v => v !== item) : [...value, item]);
+
+  if (options) {
+    return (
+      <div className="flex flex-wrap gap-1">
+        {options.map(option => (
+          <Badge
+            key={option}
+            variant={value.includes(option) ? 'default' : 'outline'}
+            className="cursor-pointer"
+            onClick={() => toggle(option)}
+          >
+            {option}
+          </Badge>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {value.map(item => (
+        <Badge key={item} variant="secondary" className="cursor-pointer" onClick={() => toggle(item)}>
+          {item}
+          <X className="h-3 w-3 ml-1" />
+        </Badge>
+      ))}
+      <Input
+        className="w-40 h-8"
+        value={draft}
+        placeholder="Type and press Enter"
+        onChange={(e) => setDraft(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key !== 'Enter') return;
+          e.preventDefault();
+          const item = draft.trim().toLowerCase();
+          if (item && !value.includes(item)) onChange([...value, item]);
+          setDraft('');
+        }}
+      />
+    </div>
+  );
+}
+
+function ConditionEditor({ condition, definitions, onChange, onRemove }: {
+  condition: SegmentCondition;
+  definitions: ContactFieldDefinition[];
+  onChange: (condition: SegmentCondition) => void;
+  onRemove: () => void;
+}) {
+  const info = fieldInfo(condition.field, definitions);
+  const operators: readonly SegmentOperator[] = info ? SEGMENT_OPERATORS[info.kind] : [];
+  const needsValue = condition.operator !== 'is_empty' && condition.operator !== 'is_not_empty';
+
+  // A new field starts with its first operator and an empty value of the right shape
+  const changeField = (field: SegmentField) => {
+    const kind = fieldInfo(field, definitions)?.kind || 'text';
+    onChange({ field, operator: SEGMENT_OPERATORS[kind][0], value: kind === 'option' || kind === 'list' ? [] : undefined });
+  };
+
+  return (
+    <div className="flex flex-wrap items-start gap-2">
+      <Select value={condition.field} onValueChange={(field) => changeField(field as SegmentField)}>
+        <SelectTrigger className="w-48">
+          <SelectValue placeholder={info ? undefined : 'Deleted field'} />
+        </SelectTrigger>
+        <SelectContent>
+          {Object.entries(SEGMENT_FIELDS).map(([field, { label }]) => (
+            <SelectItem key={field} value={field}>{label}</SelectItem>
+          ))}
+          {definitions.map(definition => (
+            <SelectItem key={definition.key} value={`custom:${definition.key}`}>{definition.label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value={condition.operator} onValueChange={(operator) => onChange({ ...condition, operator: operator as SegmentOperator })}>
+        <SelectTrigger className="w-40">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {operators.map(operator => (
+            <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {info && needsValue && (
+        <div className="flex-1 min-w-48">
+          {info.kind === 'option' || info.kind === 'list' ? (
+            <MultiValueInput
+              value={Array.isArray(condition.value) ? condition.value : []}
+              options={info.options}
+              onChange={(value) => onChange({ ...condition, value })}
+            />
+          ) : (
+            <Input
+              type={info.kind === 'number' ? 'number' : info.kind === 'date' ? 'date' : 'text'}
+              value={condition.value === undefined ? '' : String(condition.value)}
+              onChange={(e) => onChange({
+                ...condition,
+                value: e.target.value === '' ? undefined : info.kind === 'number' ? Number(e.target.value) : e.target.value
+              })}
+            />
+          )}
+        </div>
+      )}
+
+      <Button variant="ghost" size="sm" onClick={onRemove}>
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+}
+
+interface SegmentRuleBuilderProps {
+  value: SegmentRuleGroup;
+  onChange: (value: SegmentRuleGroup) => void;
+  onRemove?: () => void;
+  depth?: number;
+}
+
+// Editor for a group of AND/OR rules; groups can hold nested groups up to the server's depth limit
+export function SegmentRuleBuilder({ value, onChange, onRemove, depth = 1 }: SegmentRuleBuilderProps) {
+  const { data: definitions = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+  });
+
+  const updateRule = (index: number, rule: SegmentRule) =>
+    onChange({ ...value, rules: value.rules.map((current, i) => i === index ? rule : current) });
+  const removeRule = (index: number) =>
+    onChange({ ...value, rules: value.rules.filter((_, i) => i !== index) });
+
+  return (
+    <div className={depth > 1 ? 'border-l-2 pl-4 space-y-3' : 'space-y-3'}>
+      <div className="flex items-center gap-2">
+        <span className="text-sm text-muted-foreground">Match</span>
+        <Select value={value.combinator} onValueChange={(combinator) => onChange({ ...value, combinator: combinator as 'and' | 'or' })}>
+          <SelectTrigger className="w-24">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="and">all</SelectItem>
+            <SelectItem value="or">any</SelectItem>
+          </SelectContent>
+        </Select>
+        <span className="text-sm text-muted-foreground">of these rules</span>
+        {onRemove && (
+          <Button variant="ghost" size="sm" className="ml-auto" onClick={onRemove}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {value.rules.map((rule, index) => isGroup(rule) ? (
+        <SegmentRuleBuilder
+          key={index}
+          value={rule}
+          depth={depth + 1}
+          onChange={(group) => updateRule(index, group)}
+          onRemove={() => removeRule(index)}
+        />
+      ) : (
+        <ConditionEditor
+          key={index}
+          condition={rule}
+          definitions={definitions}
+          onChange={(condition) => updateRule(index, condition)}
+          onRemove={() => removeRule(index)}
+        />
+      ))}
+
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" onClick={() => onChange({ ...value, rules: [...value.rules, newCondition()] })}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add rule
+        </Button>
+        {depth < MAX_DEPTH && (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => onChange({ ...value, rules: [...value.rules, { combinator: value.combinator === 'and' ? 'or' : 'and', rules: [newCondition()] }] })}
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add group
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Save } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  CONTACT_VARIABLE_FIELDS,
+  type ContactVariableField,
+  type ContactFieldDefinition,
+  type TemplateVariableBinding,
+  type TemplateVariableMapping
+} from "@shared/schema";
+
+interface TemplateStructure {
+  headerFormat: string | null;
+  headerText: string | null;
+  headerPlaceholders: number;
+  bodyText: string;
+  bodyPlaceholders: number;
+  urlButtons: { index: number; text: string; url: string }[];
+}
+
+interface TemplateMappingResponse {
+  structure: TemplateStructure;
+  mapping: TemplateVariableMapping;
+  isDefault: boolean;
+  errors: string[];
+}
+
+interface TemplateVariableMappingEditorProps {
+  templateId: string;
+  onSaved?: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  firstName: 'First name',
+  company: 'Company',
+  city: 'City',
+  state: 'State',
+  email: 'Email',
+  phone: 'Phone',
+  tags: 'Tags'
+};
+
+const CONSTANT = '__constant__';
+const CUSTOM_PREFIX = 'custom:';
+
+function BindingEditor({ label, binding, customFields, onChange }: {
+  label: string;
+  binding: TemplateVariableBinding | undefined;
+  customFields: ContactFieldDefinition[];
+  onChange: (binding: TemplateVariableBinding) => void;
+}) {
+  const selected = binding?.source === 'field' ? binding.field
+    : binding?.source === 'custom_field' ? `${CUSTOM_PREFIX}${binding.key}`
+    : CONSTANT;
+
+  return (
+    <div className="grid grid-cols-3 gap-2 items-center">
+      <Label className="text-sm">{label}</Label>
+      <Select
+        value={selected}
+        onValueChange={(value) => onChange(
+          value === CONSTANT
+            ? { source: 'constant', value: binding?.source === 'constant' ? binding.value : '' }
+            : value.startsWith(CUSTOM_PREFIX)
+            ? { source: 'custom_field', key: value.slice(CUSTOM_PREFIX.length) }
+            : { source: 'field', field: value as ContactVariableField }
+        )}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {CONTACT_VARIABLE_FIELDS.map(field => (
+            <SelectItem key={field} value={field}>Contact: {FIELD_LABELS[field]}</SelectItem>
+          ))}
+          {customFields.map(field => (
+            <SelectItem key={field.key} value={`${CUSTOM_PREFIX}${field.key}`}>Contact: {field.label}</SelectItem>
+          ))}
+          <SelectItem value={CONSTANT}>Constant value</SelectItem>
+        </SelectContent>
+      </Select>
+      {binding?.source === 'constant' ? (
+        <Input
+          value={binding.value}
+          placeholder="Value"
+          onChange={(e) => onChange({ source: 'constant', value: e.target.value })}
+        />
+      ) : <span />}
+    </div>
+  );
+}
+
+// Binds a template's {{n}} placeholders, header media link and URL button suffixes
+// to contact fields, custom fields or constant values; bulk sends fill them per recipient
+export function TemplateVariableMappingEditor({ templateId, onSaved }: TemplateVariableMappingEditorProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [mapping, setMapping] = useState<TemplateVariableMapping | null>(null);
+
+  const { data } = useQuery<TemplateMappingResponse>({
+    queryKey: ['/api/whatsapp/templates', templateId, 'mapping'],
+  });
+
+  const { data: customFields = [] } = useQuery<ContactFieldDefinition[]>({
+    queryKey: ['/api/contact-fields'],
+  });
+
+  useEffect(() => {
+    if (data) setMapping(data.mapping);
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (value: TemplateVariableMapping) => {
+      const res = await apiRequest('PUT', `/api/whatsapp/templates/${templateId}/mapping`, { mapping: value });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: 'Variable mapping saved' });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/templates', templateId, 'mapping'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/templates'] });
+      onSaved?.();
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to save variable mapping',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  if (!data || !mapping) return null;
+
+  const { structure } = data;
+  const hasMediaHeader = !!structure.headerFormat && structure.headerFormat !== 'TEXT';
+  const hasVariables = structure.bodyPlaceholders > 0 || structure.headerPlaceholders > 0
+    || hasMediaHeader || structure.urlButtons.length > 0;
+
+  if (!hasVariables) {
+    return <p className="text-xs text-muted-foreground">This template has no variables.</p>;
+  }
+
+  const update = (changes: Partial<TemplateVariableMapping>) => setMapping({ ...mapping, ...changes });
+
+  return (
+    <div className="space-y-3 p-3 border rounded-lg">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">Variable mapping</h4>
+        {data.isDefault && <Badge variant="outline">Not saved yet</Badge>}
+      </div>
+
+      {(mapping.header || []).map((binding, i) => (
+        <BindingEditor
+          key={`header-${i}`}
+          label={`Header {{${i + 1}}}`}
+          binding={binding}
+          customFields={customFields}
+          onChange={(value) => update({ header: (mapping.header || []).map((b, j) => j === i ? value : b) })}
+        />
+      ))}
+
+      {hasMediaHeader && (
+        <BindingEditor
+          label={`Header ${structure.headerFormat?.toLowerCase()} URL`}
+          binding={mapping.headerMedia}
+          customFields={customFields}
+          onChange={(value) => update({ headerMedia: value })}
+        />
+      )}
+
+      {mapping.body.map((binding, i) => (
+        <BindingEditor
+          key={`body-${i}`}
+          label={`Body {{${i + 1}}}`}
+          binding={binding}
+          customFields={customFields}
+          onChange={(value) => update({ body: mapping.body.map((b, j) => j === i ? value : b) })}
+        />
+      ))}
+
+      {structure.urlButtons.map(button => (
+        <BindingEditor
+          key={`button-${button.index}`}
+          label={`Button "${button.text}" URL suffix`}
+          binding={mapping.buttons?.[String(button.index)]}
+          customFields={customFields}
+          onChange={(value) => update({ buttons: { ...(mapping.buttons || {}), [String(button.index)]: value } })}
+        />
+      ))}
+
+      {data.errors.length > 0 && !data.isDefault && (
+        <ul className="text-xs text-red-600 list-disc pl-4">
+          {data.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <Button size="sm" onClick={() => saveMutation.mutate(mapping)} disabled={saveMutation.isPending}>
+        <Save className="h-4 w-4 mr-2" />
+        Save mapping
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ListChecks, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  LEAD_STAGES,
+  type LeadStage,
+  type WhatsAppInteractiveContent,
+  type WhatsAppInteractiveOption,
+  type WhatsAppReplyAction
+} from "@shared/schema";
+
+interface InteractivePreset {
+  name: string;
+  content: WhatsAppInteractiveContent;
+}
+
+interface WhatsAppInteractiveDialogProps {
+  contactId: string;
+  phone: string;
+  disabled?: boolean;
+}
+
+const MAX_OPTIONS = { button: 3, list: 10 };
+const NO_ACTION = 'none';
+
+// Select value for an option's action: none, stage:<stage>, call or handoff
+const actionValue = (action?: WhatsAppReplyAction) =>
+  !action ? NO_ACTION : action.type === 'stage' ? `stage:${action.stage}` : action.type;
+
+const toAction = (value: string, current?: WhatsAppReplyAction): WhatsAppReplyAction | undefined => {
+  if (value === NO_ACTION) return undefined;
+  if (value === 'call') return { type: 'call', delayMinutes: current?.type === 'call' ? current.delayMinutes : 240 };
+  if (value === 'handoff') return { type: 'handoff' };
+  return { type: 'stage', stage: value.slice('stage:'.length) as LeadStage };
+};
+
+const emptyContent = (): WhatsAppInteractiveContent => ({
+  type: 'button',
+  body: '',
+  options: [{ id: 'option_1', title: '' }]
+});
+
+// Composes reply-button and list messages; each option can move the lead, queue a call or hand off when tapped
+export function WhatsAppInteractiveDialog({ contactId, phone, disabled }: WhatsAppInteractiveDialogProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [content, setContent] = useState<WhatsAppInteractiveContent>(emptyContent);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const { data: presets = [] } = useQuery<InteractivePreset[]>({
+    queryKey: ['/api/whatsapp/interactive/presets'],
+    enabled: open,
+  });
+
+  const sendMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/whatsapp/messages/interactive', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contactId, phone, interactive: content }),
+        credentials: 'include',
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setErrors(Array.isArray(result.details) ? result.details : [result.details || result.error]);
+        throw new Error(result.error || 'Failed to send message');
+      }
+      return result;
+    },
+    onSuccess: () => {
+      toast({ title: "Interactive message sent!" });
+      setOpen(false);
+      setContent(emptyContent());
+      setErrors([]);
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to send message", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    },
+  });
+
+  const update = (changes: Partial<WhatsAppInteractiveContent>) => setContent({ ...content, ...changes });
+  const updateOption = (index: number, changes: Partial<WhatsAppInteractiveOption>) =>
+    update({ options: content.options.map((option, i) => i === index ? { ...option, ...changes } : option) });
+
+  const addOption = () => {
+    // Ids only have to be unique within the message
+    const used = new Set(content.options.map(option => option.id));
+    let n = content.options.length + 1;
+    while (used.has(`option_${n}`)) n++;
+    update({ options: [...content.options, { id: `option_${n}`, title: '' }] });
+  };
+
+  const maxOptions = MAX_OPTIONS[content.type];
+  const titleLimit = content.type === 'button' ? 20 : 24;
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" disabled={disabled} title="Send reply buttons or a list">
+          <ListChecks className="w-4 h-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send buttons or a list</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {presets.length > 0 && (
+            <div className="flex gap-2 flex-wrap">
+              {presets.map(preset => (
+                <Button key={preset.name} variant="outline" size="sm" onClick={() => setContent(preset.content)}>
+                  {preset.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select
+                value={content.type}
+                onValueChange={(type: 'button' | 'list') => update({
+                  type,
+                  options: content.options.slice(0, MAX_OPTIONS[type]),
+                  buttonText: type === 'list' ? content.buttonText || 'Choose' : undefined
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="button">Reply buttons (up to 3)</SelectItem>
+                  <SelectItem value="list">List (up to 10 rows)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {content.type === 'list' && (
+              <div className="space-y-2">
+                <Label>List button label</Label>
+                <Input value={content.buttonText || ''} maxLength={20} onChange={(e) => update({ buttonText: e.target.value })} />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label>Header (optional)</Label>
+            <Input value={content.header || ''} maxLength={60} onChange={(e) => update({ header: e.target.value || undefined })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Message</Label>
+            <Textarea value={content.body} maxLength={1024} rows={3} onChange={(e) => update({ body: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Footer (optional)</Label>
+            <Input value={content.footer || ''} maxLength={60} onChange={(e) => update({ footer: e.target.value || undefined })} />
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>{content.type === 'button' ? 'Buttons' : 'Rows'}</Label>
+              <Button variant="outline" size="sm" onClick={addOption} disabled={content.options.length >= maxOptions}>
+                <Plus className="w-4 h-4 mr-1" />
+                Add
+              </Button>
+            </div>
+            {content.options.map((option, i) => (
+              <div key={i} className="p-3 border rounded-lg space-y-2">
+                <div className="flex gap-2">
+                  <Input
+                    value={option.title}
+                    maxLength={titleLimit}
+                    placeholder="Title"
+                    onChange={(e) => updateOption(i, { title: e.target.value })}
+                  />
+                  <Select
+                    value={actionValue(option.action)}
+                    onValueChange={(value) => updateOption(i, { action: toAction(value, option.action) })}
+                  >
+                    <SelectTrigger className="w-56">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_ACTION}>No action</SelectItem>
+                      {LEAD_STAGES.map(stage => (
+                        <SelectItem key={stage} value={`stage:${stage}`}>Move to {stage.replace('_', ' ')}</SelectItem>
+                      ))}
+                      <SelectItem value="call">Queue a follow-up call</SelectItem>
+                      <SelectItem value="handoff">Hand to a person</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={content.options.length === 1}
+                    onClick={() => update({ options: content.options.filter((_, j) => j !== i) })}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+                {option.action?.type === 'call' && (
+                  <div className="flex items-center gap-2 text-sm">
+                    <span>Call after</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      className="w-24"
+                      value={option.action.delayMinutes}
+                      onChange={(e) => updateOption(i, { action: { type: 'call', delayMinutes: Math.max(0, parseInt(e.target.value) || 0) } })}
+                    />
+                    <span>minutes</span>
+                  </div>
+                )}
+                {content.type === 'list' && (
+                  <div className="grid grid-cols-2 gap-2">
+                    <Input
+                      value={option.description || ''}
+                      maxLength={72}
+                      placeholder="Description (optional)"
+                      onChange={(e) => updateOption(i, { description: e.target.value || undefined })}
+                    />
+                    <Input
+                      value={option.section || ''}
+                      maxLength={24}
+                      placeholder="Section (optional)"
+                      onChange={(e) => updateOption(i, { section: e.target.value || undefined })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {errors.length > 0 && (
+            <ul className="text-sm text-red-600 list-disc pl-4">
+              {errors.map(error => <li key={error}>{error}</li>)}
+            </ul>
+          )}
+
+          <div className="flex justify-end">
+            <Button
+              onClick={() => sendMutation.mutate()}
+              disabled={!content.body.trim() || content.options.some(option => !option.title.trim()) || sendMutation.isPending}
+            >
+              {sendMutation.isPending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,364 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, RefreshCw, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { WhatsAppTemplatePreview } from "@/components/WhatsAppTemplatePreview";
+
+type HeaderFormat = 'NONE' | 'TEXT' | 'IMAGE' | 'VIDEO' | 'DOCUMENT';
+type ButtonType = 'QUICK_REPLY' | 'URL' | 'PHONE_NUMBER';
+
+interface BuilderButton {
+  type: ButtonType;
+  text: string;
+  url: string;
+  phoneNumber: string;
+  example: string;
+}
+
+// A template example from /api/whatsapp/templates/examples
+export interface TemplateDraft {
+  name?: string;
+  category?: string;
+  language?: string;
+  components?: any[];
+}
+
+interface WhatsAppTemplateBuilderProps {
+  draft?: TemplateDraft | null;
+}
+
+// Meta's limits, mirrored here for the character counters; the server enforces them
+const LIMITS = { headerText: 60, body: 1024, footer: 60, buttonText: 25, buttons: 10 };
+
+const variableCount = (text: string) => new Set(
+  Array.from(text.matchAll(/\{\{\s*(\d+)\s*\}\}/g), match => match[1])
+).size;
+
+const resize = (values: string[], length: number) =>
+  Array.from({ length }, (_, i) => values[i] || '');
+
+function Counter({ value, max }: { value: string; max: number }) {
+  return (
+    <span className={`text-xs ${value.length > max ? 'text-red-600' : 'text-muted-foreground'}`}>
+      {value.length}/{max}
+    </span>
+  );
+}
+
+// Builds a header/body/footer/buttons template with sample values and submits it to Meta for review
+export function WhatsAppTemplateBuilder({ draft }: WhatsAppTemplateBuilderProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const [name, setName] = useState('');
+  const [category, setCategory] = useState('UTILITY');
+  const [language, setLanguage] = useState('en_US');
+  const [headerFormat, setHeaderFormat] = useState<HeaderFormat>('NONE');
+  const [headerText, setHeaderText] = useState('');
+  const [headerExample, setHeaderExample] = useState('');
+  const [headerHandle, setHeaderHandle] = useState('');
+  const [body, setBody] = useState('');
+  const [bodyExamples, setBodyExamples] = useState<string[]>([]);
+  const [footer, setFooter] = useState('');
+  const [buttons, setButtons] = useState<BuilderButton[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const reset = (source?: TemplateDraft | null) => {
+    const find = (type: string) => source?.components?.find(component => component.type === type);
+    const header = find('HEADER');
+    setName(source?.name || '');
+    setCategory(source?.category || 'UTILITY');
+    setLanguage(source?.language || 'en_US');
+    setHeaderFormat(header ? (header.format || 'TEXT') : 'NONE');
+    setHeaderText(header?.text || '');
+    setHeaderExample('');
+    setHeaderHandle('');
+    setBody(find('BODY')?.text || '');
+    setBodyExamples([]);
+    setFooter(find('FOOTER')?.text || '');
+    setButtons((find('BUTTONS')?.buttons || []).map((button: any) => ({
+      type: button.type,
+      text: button.text || '',
+      url: button.url || '',
+      phoneNumber: button.phone_number || '',
+      example: ''
+    })));
+    setErrors([]);
+  };
+
+  useEffect(() => {
+    if (draft) reset(draft);
+  }, [draft]);
+
+  const bodyVariables = variableCount(body);
+  const headerHasVariable = headerFormat === 'TEXT' && variableCount(headerText) > 0;
+  const examples = resize(bodyExamples, bodyVariables);
+
+  const buildDefinition = () => {
+    const components: any[] = [];
+    if (headerFormat === 'TEXT') {
+      components.push({
+        type: 'HEADER',
+        format: 'TEXT',
+        text: headerText,
+        ...(headerHasVariable && { example: { header_text: [headerExample] } })
+      });
+    } else if (headerFormat !== 'NONE') {
+      components.push({ type: 'HEADER', format: headerFormat, example: { header_handle: [headerHandle] } });
+    }
+    components.push({
+      type: 'BODY',
+      text: body,
+      ...(bodyVariables > 0 && { example: { body_text: [examples] } })
+    });
+    if (footer.trim()) {
+      components.push({ type: 'FOOTER', text: footer });
+    }
+    if (buttons.length > 0) {
+      components.push({
+        type: 'BUTTONS',
+        buttons: buttons.map(button => ({
+          type: button.type,
+          text: button.text,
+          ...(button.type === 'URL' && { url: button.url }),
+          ...(button.type === 'URL' && variableCount(button.url) > 0 && { example: [button.example] }),
+          ...(button.type === 'PHONE_NUMBER' && { phone_number: button.phoneNumber })
+        }))
+      });
+    }
+    return { name, category, language, components };
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await fetch('/api/whatsapp/templates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(buildDefinition()),
+        credentials: 'include',
+      });
+      const result = await res.json();
+      if (!res.ok) {
+        setErrors(Array.isArray(result.details) ? result.details : [result.details || result.error]);
+        throw new Error(result.error || 'Failed to create template');
+      }
+      return result;
+    },
+    onSuccess: (template: any) => {
+      toast({ title: `Template ${template.name} submitted for review`, description: `Status: ${template.status}` });
+      reset();
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/templates'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Failed to create template',
+        description: error.message,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const updateButton = (index: number, changes: Partial<BuilderButton>) =>
+    setButtons(buttons.map((button, i) => i === index ? { ...button, ...changes } : button));
+
+  const definition = buildDefinition();
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="templateName">Template Name</Label>
+        <Input
+          id="templateName"
+          placeholder="order_confirmation"
+          value={name}
+          onChange={(e) => setName(e.target.value.toLowerCase().replace(/\s+/g, '_'))}
+        />
+        <p className="text-xs text-muted-foreground">
+          Use lowercase letters, numbers, and underscores only
+        </p>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <Label>Category</Label>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="UTILITY">Utility</SelectItem>
+              <SelectItem value="MARKETING">Marketing</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Language</Label>
+          <Select value={language} onValueChange={setLanguage}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="en_US">English (US)</SelectItem>
+              <SelectItem value="en">English</SelectItem>
+              <SelectItem value="hi">Hindi</SelectItem>
+              <SelectItem value="es">Spanish</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label>Header</Label>
+        <Select value={headerFormat} onValueChange={(value) => setHeaderFormat(value as HeaderFormat)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="NONE">No header</SelectItem>
+            <SelectItem value="TEXT">Text</SelectItem>
+            <SelectItem value="IMAGE">Image</SelectItem>
+            <SelectItem value="VIDEO">Video</SelectItem>
+            <SelectItem value="DOCUMENT">Document</SelectItem>
+          </SelectContent>
+        </Select>
+        {headerFormat === 'TEXT' && (
+          <>
+            <div className="flex items-center gap-2">
+              <Input value={headerText} placeholder="Your order {{1}}" onChange={(e) => setHeaderText(e.target.value)} />
+              <Counter value={headerText} max={LIMITS.headerText} />
+            </div>
+            {headerHasVariable && (
+              <Input value={headerExample} placeholder="Sample value for {{1}}" onChange={(e) => setHeaderExample(e.target.value)} />
+            )}
+          </>
+        )}
+        {headerFormat !== 'NONE' && headerFormat !== 'TEXT' && (
+          <>
+            <Input value={headerHandle} placeholder="Sample media handle" onChange={(e) => setHeaderHandle(e.target.value)} />
+            <p className="text-xs text-muted-foreground">
+              Upload a sample {headerFormat.toLowerCase()} with Meta's resumable upload API and paste the returned handle.
+              The actual media link is set per send in the variable mapping.
+            </p>
+          </>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="templateText">Body</Label>
+          <Counter value={body} max={LIMITS.body} />
+        </div>
+        <Textarea
+          id="templateText"
+          placeholder="Hello {{1}}! Your order #{{2}} has been confirmed."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          rows={4}
+        />
+        <p className="text-xs text-muted-foreground">
+          Use {`{{1}}, {{2}}`}, etc. for variables, in order. The body cannot start or end with a variable. Use *bold*, _italic_ for formatting.
+        </p>
+        {examples.map((example, i) => (
+          <Input
+            key={i}
+            value={example}
+            placeholder={`Sample value for {{${i + 1}}}`}
+            onChange={(e) => setBodyExamples(examples.map((value, j) => j === i ? e.target.value : value))}
+          />
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Footer (optional)</Label>
+          <Counter value={footer} max={LIMITS.footer} />
+        </div>
+        <Input value={footer} placeholder="Reply STOP to opt out" onChange={(e) => setFooter(e.target.value)} />
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label>Buttons (optional)</Label>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={buttons.length >= LIMITS.buttons}
+            onClick={() => setButtons([...buttons, { type: 'QUICK_REPLY', text: '', url: '', phoneNumber: '', example: '' }])}
+          >
+            <Plus className="h-3 w-3 mr-1" />
+            Add button
+          </Button>
+        </div>
+        {buttons.map((button, i) => (
+          <div key={i} className="p-2 border rounded-lg space-y-2">
+            <div className="flex items-center gap-2">
+              <Select value={button.type} onValueChange={(value) => updateButton(i, { type: value as ButtonType })}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="QUICK_REPLY">Quick reply</SelectItem>
+                  <SelectItem value="URL">Visit website</SelectItem>
+                  <SelectItem value="PHONE_NUMBER">Call phone</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input value={button.text} placeholder="Button text" onChange={(e) => updateButton(i, { text: e.target.value })} />
+              <Counter value={button.text} max={LIMITS.buttonText} />
+              <Button variant="ghost" size="sm" onClick={() => setButtons(buttons.filter((_, j) => j !== i))}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+            {button.type === 'URL' && (
+              <>
+                <Input value={button.url} placeholder="https://example.com/orders/{{1}}" onChange={(e) => updateButton(i, { url: e.target.value })} />
+                {variableCount(button.url) > 0 && (
+                  <Input value={button.example} placeholder="Sample URL, e.g. https://example.com/orders/123" onChange={(e) => updateButton(i, { example: e.target.value })} />
+                )}
+              </>
+            )}
+            {button.type === 'PHONE_NUMBER' && (
+              <Input value={button.phoneNumber} placeholder="+919876543210" onChange={(e) => updateButton(i, { phoneNumber: e.target.value })} />
+            )}
+          </div>
+        ))}
+      </div>
+
+      {body.trim() && (
+        <WhatsAppTemplatePreview
+          template={{ id: 'draft', name: name || 'new_template', category, language, status: 'DRAFT', components: definition.components }}
+          values={{ header: headerHasVariable ? [headerExample] : [], body: examples, buttons: {} }}
+        />
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-xs text-red-600 list-disc pl-4">
+          {errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      )}
+
+      <Button
+        onClick={() => createMutation.mutate()}
+        disabled={createMutation.isPending || !name || !body.trim()}
+        className="w-full"
+      >
+        {createMutation.isPending ? (
+          <>
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            Submitting Template...
+          </>
+        ) : (
+          <>
+            <Plus className="h-4 w-4 mr-2" />
+            Submit for Approval
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
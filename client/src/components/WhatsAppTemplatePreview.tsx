@@ -1,6 +1,7 @@
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
-import { ExternalLink, Smartphone } from 'lucide-react';
+import { ExternalLink, FileText, Smartphone } from 'lucide-react';
+import type { ResolvedTemplateVariables } from '@shared/schema';
 
 interface WhatsAppTemplateComponent {
   type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
@@ -30,26 +31,48 @@ interface WhatsAppTemplate {
 
 interface WhatsAppTemplatePreviewProps {
   template: WhatsAppTemplate;
+  values?: ResolvedTemplateVariables; // One recipient's resolved variables; sample text is shown without them
 }
 
-export function WhatsAppTemplatePreview({ template }: WhatsAppTemplatePreviewProps) {
+const fillPlaceholders = (text: string, values: string[]) =>
+  text.replace(/\{\{\s*(\d+)\s*\}\}/g, (match, n) => values[parseInt(n) - 1] || match);
+
+export function WhatsAppTemplatePreview({ template, values }: WhatsAppTemplatePreviewProps) {
   // Use metaTemplate if available (complete structure), otherwise fall back to components
   const components = template.metaTemplate?.components || template.components || [];
   
   const renderComponent = (component: WhatsAppTemplateComponent, index: number) => {
     switch (component.type) {
       case 'HEADER':
+        if (component.format && component.format !== 'TEXT') {
+          const mediaUrl = values?.headerMediaUrl;
+          return (
+            <div key={index} className="bg-gray-100 dark:bg-gray-800 rounded-t-2xl overflow-hidden">
+              {component.format === 'IMAGE' && mediaUrl ? (
+                <img src={mediaUrl} alt="Header" className="w-full max-h-40 object-cover" />
+              ) : (
+                <div className="p-3 flex items-center gap-2 text-xs text-gray-600 dark:text-gray-300">
+                  <FileText className="w-4 h-4" />
+                  <span className="truncate">{mediaUrl || `${component.format.toLowerCase()} header`}</span>
+                </div>
+              )}
+            </div>
+          );
+        }
         return (
           <div key={index} className="bg-gray-100 dark:bg-gray-800 p-3 rounded-t-2xl">
             <div className="font-semibold text-gray-900 dark:text-white text-sm">
-              {component.text || 'Header'}
+              {values ? fillPlaceholders(component.text || '', values.header) : component.text || 'Header'}
             </div>
           </div>
         );
       
       case 'BODY':
-        // Replace {{variables}} with sample text for preview
+        // Replace {{variables}} with the recipient's values, or sample text for preview
         let bodyText = component.text || '';
+        if (values) {
+          bodyText = fillPlaceholders(bodyText, values.body);
+        }
         bodyText = bodyText.replace(/\{\{(\w+)\}\}/g, (match, variable) => {
           // Common variable replacements for preview
           const replacements: Record<string, string> = {
@@ -94,7 +117,9 @@ export function WhatsAppTemplatePreview({ template }: WhatsAppTemplatePreviewPro
                 >
                   {button.type === 'URL' && <ExternalLink className="w-3 h-3 mr-1" />}
                   {button.type === 'PHONE_NUMBER' && <Smartphone className="w-3 h-3 mr-1" />}
-                  {button.text}
+                  <span title={button.url && values ? fillPlaceholders(button.url, [values.buttons[String(buttonIndex)] || '']) : button.url}>
+                    {button.text}
+                  </span>
                 </Button>
               )) || <div className="text-xs text-gray-500 dark:text-gray-400">No buttons defined</div>}
             </div>
@@ -1,5 +1,8 @@
 import { Link, useLocation } from 'wouter';
 import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/use-auth';
+import { USER_ROLE_LABELS, type Permission, type UserRole } from '@shared/schema';
 import {
   Home,
   Users,
@@ -14,25 +17,32 @@ import {
   Monitor,
   PhoneCall,
   Megaphone,
-  Send
+  Send,
+  Filter,
+  UserCog,
+  LogOut
 } from 'lucide-react';
 
-const navigation = [
-  { name: 'Contact Campaigns', href: '/contact-campaigns', icon: Users },
-  { name: 'Live Calls', href: '/live-calls', icon: Phone },
-  { name: 'Call Analytics', href: '/calls-analytics', icon: BarChart3 },
-  { name: 'Campaign Timing', href: '/campaign-timing', icon: BarChart3 },
-  { name: 'Campaign Manager', href: '/campaign-manager', icon: Megaphone },
-  { name: 'Dashboard', href: '/campaign-dashboard', icon: Home },
-  { name: 'Settings', href: '/settings', icon: SettingsIcon },
-  { name: 'App Settings', href: '/enhanced-settings', icon: Upload },
-  { name: 'WhatsApp Bulk', href: '/whatsapp-bulk', icon: Send },
-  { name: 'WhatsApp Chats', href: '/whatsapp-chats', icon: MessageCircle },
+// Each link shows only to roles with its permission
+const navigation: { name: string; href: string; icon: typeof Users; permission: Permission }[] = [
+  { name: 'Contact Campaigns', href: '/contact-campaigns', icon: Users, permission: 'data.view' },
+  { name: 'Segments', href: '/segments', icon: Filter, permission: 'data.view' },
+  { name: 'Live Calls', href: '/live-calls', icon: Phone, permission: 'data.view' },
+  { name: 'Call Analytics', href: '/calls-analytics', icon: BarChart3, permission: 'data.view' },
+  { name: 'Campaign Timing', href: '/campaign-timing', icon: BarChart3, permission: 'data.view' },
+  { name: 'Campaign Manager', href: '/campaign-manager', icon: Megaphone, permission: 'campaigns.manage' },
+  { name: 'Dashboard', href: '/campaign-dashboard', icon: Home, permission: 'data.view' },
+  { name: 'Settings', href: '/settings', icon: SettingsIcon, permission: 'settings.manage' },
+  { name: 'App Settings', href: '/enhanced-settings', icon: Upload, permission: 'settings.manage' },
+  { name: 'WhatsApp Bulk', href: '/whatsapp-bulk', icon: Send, permission: 'campaigns.manage' },
+  { name: 'WhatsApp Chats', href: '/whatsapp-chats', icon: MessageCircle, permission: 'data.view' },
+  { name: 'Users', href: '/users', icon: UserCog, permission: 'users.manage' },
   // { name: 'WhatsApp Messaging', href: '/whatsapp-messaging', icon: MessageSquare },
 ];
 
 export default function Sidebar() {
   const [location] = useLocation();
+  const { user, can, logout } = useAuth();
 
   return (
     <div className="flex h-full w-64 flex-col bg-white dark:bg-gray-900 border-r">
@@ -41,7 +51,7 @@ export default function Sidebar() {
         <span className="ml-2 text-xl font-bold">LabsCheck AI</span>
       </div>
       <nav className="flex-1 space-y-1 px-4 py-4">
-        {navigation.map((item) => {
+        {navigation.filter((item) => can(item.permission)).map((item) => {
           const isActive = location === item.href || (item.href === '/contact-campaigns' && location === '/');
           return (
             <Link key={item.name} href={item.href}>
@@ -67,6 +77,17 @@ export default function Sidebar() {
           );
         })}
       </nav>
+      {user && (
+        <div className="flex items-center justify-between border-t px-4 py-3">
+          <div className="min-w-0">
+            <p className="truncate text-sm font-medium">{user.displayName || user.username}</p>
+            <p className="text-xs text-gray-500">{USER_ROLE_LABELS[user.role as UserRole] || user.role}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={logout} title="Sign out">
+            <LogOut className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,58 @@
+import { createContext, useContext, type ReactNode } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { hasPermission, type Permission, type PublicUser } from "@shared/schema";
+
+export interface AuthState {
+  user: PublicUser | null;
+  setupRequired: boolean; // No account exists yet; the login page offers to create the first admin
+}
+
+export const AUTH_QUERY_KEY = ['/api/auth/me'];
+
+interface AuthContextValue extends AuthState {
+  isLoading: boolean;
+  can: (permission: Permission) => boolean;
+  logout: () => void;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { data, isLoading } = useQuery<AuthState>({
+    queryKey: AUTH_QUERY_KEY,
+    staleTime: Infinity,
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/auth/logout'),
+    onSettled: () => {
+      // Nothing cached for this user should show to whoever signs in next
+      queryClient.clear();
+      queryClient.setQueryData<AuthState>(AUTH_QUERY_KEY, { user: null, setupRequired: false });
+    },
+  });
+
+  const user = data?.user || null;
+  return (
+    <AuthContext.Provider
+      value={{
+        user,
+        setupRequired: !!data?.setupRequired,
+        isLoading,
+        can: (permission) => hasPermission(user, permission),
+        logout: () => logoutMutation.mutate(),
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
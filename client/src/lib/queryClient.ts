@@ -1,5 +1,12 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
 
+// A 401 means the session has ended; clearing the signed-in user brings back the login page
+function handleUnauthorized(res: Response) {
+  if (res.status === 401) {
+    queryClient.setQueryData(['/api/auth/me'], { user: null, setupRequired: false });
+  }
+}
+
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
@@ -19,6 +26,7 @@ export async function apiRequest(
     credentials: "include",
   });
 
+  handleUnauthorized(res);
   await throwIfResNotOk(res);
   return res;
 }
@@ -33,6 +41,7 @@ export const getQueryFn: <T>(options: {
       credentials: "include",
     });
 
+    handleUnauthorized(res);
     if (unauthorizedBehavior === "returnNull" && res.status === 401) {
       return null;
     }
@@ -1,5 +1,5 @@
-import { useState } from 'react';
-import { useQuery } from '@tanstack/react-query';
+import { useEffect, useState } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
@@ -7,6 +7,8 @@ import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { TotalCampaignAnalytics } from '@/components/TotalCampaignAnalytics';
+import { DialerControls } from '@/components/DialerControls';
+import { useWebSocket } from '@/hooks/use-websocket';
 import { 
   Calendar, 
   Users, 
@@ -28,6 +30,15 @@ const formatToDateDisplayString = (date: Date) => {
 export default function CampaignDashboard() {
   const [selectedDate, setSelectedDate] = useState(new Date());
   const [activeTab, setActiveTab] = useState("today");
+  const queryClient = useQueryClient();
+  const { lastMessage } = useWebSocket();
+
+  // Keep dialing-queue progress live from server broadcasts
+  useEffect(() => {
+    if (lastMessage?.type === 'dialer_progress') {
+      queryClient.setQueryData(['/api/campaigns', lastMessage.progress.campaignId, 'dialer'], lastMessage.progress);
+    }
+  }, [lastMessage, queryClient]);
 
   // Get campaigns data with query - only real data
   const dateString = selectedDate.toISOString().split('T')[0]; // Format as YYYY-MM-DD
@@ -348,6 +359,7 @@ export default function CampaignDashboard() {
                       <TableHead>Completed</TableHead>
                       <TableHead>Success Rate</TableHead>
                       <TableHead>Status</TableHead>
+                      <TableHead>Dialer</TableHead>
                       <TableHead>Created</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -399,6 +411,9 @@ export default function CampaignDashboard() {
                               {campaign.status}
                             </Badge>
                           </TableCell>
+                          <TableCell>
+                            <DialerControls campaignId={campaign.id} dialerStatus={campaign.dialerStatus || 'idle'} />
+                          </TableCell>
                           <TableCell>
                             <div className="text-sm text-gray-500">
                               {campaign.createdAt ? format(new Date(campaign.createdAt), 'MMM dd, yyyy') : 'N/A'}
@@ -408,7 +423,7 @@ export default function CampaignDashboard() {
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={8} className="text-center py-8">
+                        <TableCell colSpan={9} className="text-center py-8">
                           <div className="text-gray-500">
                             No campaigns found. Create your first campaign to get started.
                           </div>
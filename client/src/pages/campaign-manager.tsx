@@ -9,23 +9,84 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Badge } from "@/components/ui/badge";
 import { Plus, Edit, Trash2, Phone, Settings, Mic, Volume2 } from "lucide-react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { CallGoal, CallGoalType } from "@shared/schema";
 
 // Campaign form schema
 const campaignSchema = z.object({
   name: z.string().min(1, "Campaign name is required"),
+  agentName: z.string().min(1, "Agent name is required"),
+  openaiModel: z.string().min(1, "OpenAI model is required"),
+  objectives: z.array(z.object({
+    name: z.string().min(1, "Objective name is required"),
+    description: z.string().min(1, "Objective description is required"),
+  })),
+  callGoals: z.array(z.object({
+    key: z.string().regex(/^[a-zA-Z][a-zA-Z0-9_]*$/, "Key must be alphanumeric and start with a letter"),
+    label: z.string().min(1, "Goal label is required"),
+    type: z.enum(["text", "phone", "email", "number", "boolean", "choice", "datetime"]),
+    required: z.boolean(),
+    options: z.string(), // comma separated, only used by choice goals
+  })).refine(
+    (goals) => goals.every((goal) => goal.type !== "choice" || goal.options.trim().length > 0),
+    "Choice goals need at least one option"
+  ),
   introLine: z.string().min(1, "Introduction script is required"),
   aiPrompt: z.string().min(1, "AI prompt is required"),
+  voicemailMessage: z.string(),
+  whatsappAutoReply: z.boolean(),
   language: z.string().min(1, "Language is required"),
   elevenlabsModel: z.string().min(1, "ElevenLabs model is required"),
   voiceId: z.string().min(1, "Voice selection is required"),
 });
 
 type CampaignFormData = z.infer<typeof campaignSchema>;
+type CampaignPayload = Omit<CampaignFormData, "callGoals"> & { callGoals: CallGoal[] };
+
+const GOAL_TYPES: { value: CallGoalType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "phone", label: "Phone" },
+  { value: "email", label: "Email" },
+  { value: "number", label: "Number" },
+  { value: "boolean", label: "Yes / No" },
+  { value: "choice", label: "Choice" },
+  { value: "datetime", label: "Date & time" },
+];
+
+// Form rows keep options as comma separated text; the API stores an array
+const toCampaignPayload = (data: CampaignFormData): CampaignPayload => ({
+  ...data,
+  callGoals: data.callGoals.map(({ options, ...goal }) => ({
+    ...goal,
+    ...(goal.type === "choice" ? { options: options.split(",").map((option) => option.trim()).filter(Boolean) } : {}),
+  })),
+});
+
+const toGoalFormRows = (goals: unknown): CampaignFormData["callGoals"] =>
+  Array.isArray(goals)
+    ? goals.map((goal: CallGoal) => ({
+        key: goal.key,
+        label: goal.label,
+        type: goal.type,
+        required: goal.required,
+        options: (goal.options || []).join(", "),
+      }))
+    : [];
+
+const OPENAI_MODELS = [
+  { value: "gpt-4o", label: "GPT-4o (Latest)" },
+  { value: "gpt-4o-mini", label: "GPT-4o Mini (Fast)" },
+  { value: "gpt-4-turbo", label: "GPT-4 Turbo" },
+  { value: "gpt-3.5-turbo", label: "GPT-3.5 Turbo" },
+];
+
+// Variables that can be used in the intro line, AI prompt and objectives
+const TEMPLATE_VARIABLES = ["{{agentName}}", "{{contact.name}}", "{{contact.company}}", "{{contact.city}}"];
 
 const ELEVENLABS_MODELS = [
   { value: "eleven_multilingual_v2", label: "Multilingual V2 (Recommended)" },
@@ -74,17 +135,33 @@ export default function CampaignManagerPage() {
     resolver: zodResolver(campaignSchema),
     defaultValues: {
       name: "",
+      agentName: "Anvika",
+      openaiModel: "gpt-4o",
+      objectives: [],
+      callGoals: [],
       introLine: "",
       aiPrompt: "",
+      voicemailMessage: "",
+      whatsappAutoReply: false,
       language: "en",
       elevenlabsModel: "eleven_multilingual_v2",
       voiceId: voices[0]?.voice_id || "21m00Tcm4TlvDq8ikWAM",
     },
   });
 
+  const objectiveFields = useFieldArray({
+    control: form.control,
+    name: "objectives",
+  });
+
+  const goalFields = useFieldArray({
+    control: form.control,
+    name: "callGoals",
+  });
+
   // Create campaign mutation
   const createCampaignMutation = useMutation({
-    mutationFn: (data: CampaignFormData) => fetch('/api/campaigns', {
+    mutationFn: (data: CampaignPayload) => fetch('/api/campaigns', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
@@ -109,7 +186,7 @@ export default function CampaignManagerPage() {
 
   // Update campaign mutation
   const updateCampaignMutation = useMutation({
-    mutationFn: ({ id, data }: { id: string; data: CampaignFormData }) => 
+    mutationFn: ({ id, data }: { id: string; data: CampaignPayload }) => 
       fetch(`/api/campaigns/${id}`, {
         method: 'PUT',
         headers: { 'Content-Type': 'application/json' },
@@ -156,10 +233,11 @@ export default function CampaignManagerPage() {
   });
 
   const handleSubmit = (data: CampaignFormData) => {
+    const payload = toCampaignPayload(data);
     if (editingCampaign) {
-      updateCampaignMutation.mutate({ id: editingCampaign.id, data });
+      updateCampaignMutation.mutate({ id: editingCampaign.id, data: payload });
     } else {
-      createCampaignMutation.mutate(data);
+      createCampaignMutation.mutate(payload);
     }
   };
 
@@ -167,8 +245,14 @@ export default function CampaignManagerPage() {
     setEditingCampaign(campaign);
     form.reset({
       name: campaign.name,
+      agentName: campaign.agentName || "Anvika",
+      openaiModel: campaign.openaiModel || "gpt-4o",
+      objectives: Array.isArray(campaign.objectives) ? campaign.objectives : [],
+      callGoals: toGoalFormRows(campaign.callGoals),
       introLine: campaign.introLine || "",
       aiPrompt: campaign.aiPrompt || "",
+      voicemailMessage: campaign.voicemailMessage || "",
+      whatsappAutoReply: campaign.whatsappAutoReply === true,
       language: campaign.language || "en",
       elevenlabsModel: campaign.elevenlabsModel || "eleven_multilingual_v2",
       voiceId: campaign.voiceId || "21m00Tcm4TlvDq8ikWAM",
@@ -286,6 +370,19 @@ export default function CampaignManagerPage() {
                   )}
                 </div>
 
+                {/* Agent Name */}
+                <div className="space-y-2">
+                  <Label htmlFor="agentName">Agent Name</Label>
+                  <Input
+                    id="agentName"
+                    {...form.register("agentName")}
+                    placeholder="e.g., Anvika"
+                  />
+                  {form.formState.errors.agentName && (
+                    <p className="text-sm text-red-500">{form.formState.errors.agentName.message}</p>
+                  )}
+                </div>
+
                 {/* Introduction Script */}
                 <div className="space-y-2">
                   <Label htmlFor="introLine">Introduction Script</Label>
@@ -298,6 +395,9 @@ export default function CampaignManagerPage() {
                   {form.formState.errors.introLine && (
                     <p className="text-sm text-red-500">{form.formState.errors.introLine.message}</p>
                   )}
+                  <p className="text-xs text-gray-500">
+                    Available variables: {TEMPLATE_VARIABLES.join(", ")}
+                  </p>
                 </div>
 
                 {/* AI Prompt */}
@@ -314,6 +414,174 @@ export default function CampaignManagerPage() {
                   )}
                 </div>
 
+                {/* Voicemail Message */}
+                <div className="space-y-2">
+                  <Label htmlFor="voicemailMessage">Voicemail Message</Label>
+                  <Textarea
+                    id="voicemailMessage"
+                    {...form.register("voicemailMessage")}
+                    placeholder="Hi, this is {{agentName}} from LabsCheck. We'd love to tell you how labs get more bookings with us - we'll try you again later."
+                    rows={3}
+                  />
+                  <p className="text-xs text-gray-500">
+                    Left when an answering machine picks up. Leave empty to hang up without a message.
+                  </p>
+                </div>
+
+                {/* WhatsApp Auto-Reply */}
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="whatsappAutoReply"
+                      checked={form.watch("whatsappAutoReply")}
+                      onCheckedChange={(checked) => form.setValue("whatsappAutoReply", checked === true)}
+                    />
+                    <Label htmlFor="whatsappAutoReply">Answer WhatsApp replies with AI</Label>
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Replies to this campaign's contacts are answered with the prompt above within Meta's 24-hour window.
+                    Conversations are handed to a person when the contact asks for one or the AI is unsure.
+                  </p>
+                </div>
+
+                {/* Conversation Objectives */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Conversation Objectives</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => objectiveFields.append({ name: "", description: "" })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Objective
+                    </Button>
+                  </div>
+                  {objectiveFields.fields.length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      No objectives set - the agent will qualify the contact, pitch and collect WhatsApp and email.
+                    </p>
+                  )}
+                  {objectiveFields.fields.map((field, index) => (
+                    <div key={field.id} className="flex items-start gap-2">
+                      <Input
+                        {...form.register(`objectives.${index}.name`)}
+                        placeholder="Name, e.g. Qualify"
+                        className="w-1/3"
+                      />
+                      <Input
+                        {...form.register(`objectives.${index}.description`)}
+                        placeholder="e.g. Confirm {{contact.name}} manages the lab"
+                        className="flex-1"
+                      />
+                      <Button type="button" variant="ghost" size="sm" onClick={() => objectiveFields.remove(index)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  {form.formState.errors.objectives && (
+                    <p className="text-sm text-red-500">Every objective needs a name and a description</p>
+                  )}
+                </div>
+
+                {/* Call Goals */}
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <Label>Call Goals (Data to Collect)</Label>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => goalFields.append({ key: "", label: "", type: "text", required: true, options: "" })}
+                    >
+                      <Plus className="h-4 w-4 mr-1" />
+                      Add Goal
+                    </Button>
+                  </div>
+                  {goalFields.fields.length === 0 && (
+                    <p className="text-xs text-gray-500">
+                      No goals set - the agent will collect a WhatsApp number and email address.
+                    </p>
+                  )}
+                  {goalFields.fields.map((field, index) => (
+                    <div key={field.id} className="space-y-2 rounded-md border p-3">
+                      <div className="flex items-start gap-2">
+                        <Input
+                          {...form.register(`callGoals.${index}.key`)}
+                          placeholder="Key, e.g. labSize"
+                          className="w-1/3"
+                        />
+                        <Input
+                          {...form.register(`callGoals.${index}.label`)}
+                          placeholder="Label, e.g. Number of tests per day"
+                          className="flex-1"
+                        />
+                        <Button type="button" variant="ghost" size="sm" onClick={() => goalFields.remove(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Select
+                          value={form.watch(`callGoals.${index}.type`)}
+                          onValueChange={(value) => form.setValue(`callGoals.${index}.type`, value as CallGoalType)}
+                        >
+                          <SelectTrigger className="w-1/3">
+                            <SelectValue placeholder="Type" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {GOAL_TYPES.map((type) => (
+                              <SelectItem key={type.value} value={type.value}>
+                                {type.label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        {form.watch(`callGoals.${index}.type`) === "choice" && (
+                          <Input
+                            {...form.register(`callGoals.${index}.options`)}
+                            placeholder="Options, comma separated"
+                            className="flex-1"
+                          />
+                        )}
+                        <div className="flex items-center gap-2 ml-auto">
+                          <Checkbox
+                            id={`goal-required-${index}`}
+                            checked={form.watch(`callGoals.${index}.required`)}
+                            onCheckedChange={(checked) => form.setValue(`callGoals.${index}.required`, checked === true)}
+                          />
+                          <Label htmlFor={`goal-required-${index}`} className="text-sm">Required</Label>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                  {form.formState.errors.callGoals && (
+                    <p className="text-sm text-red-500">
+                      {form.formState.errors.callGoals.message || form.formState.errors.callGoals.root?.message || "Every goal needs a valid key and a label"}
+                    </p>
+                  )}
+                </div>
+
+                {/* OpenAI Model Selection */}
+                <div className="space-y-2">
+                  <Label>OpenAI Model</Label>
+                  <Select value={form.watch("openaiModel")} onValueChange={(value) => form.setValue("openaiModel", value)}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select conversation model" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {OPENAI_MODELS.map((model) => (
+                        <SelectItem key={model.value} value={model.value}>
+                          {model.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {form.formState.errors.openaiModel && (
+                    <p className="text-sm text-red-500">{form.formState.errors.openaiModel.message}</p>
+                  )}
+                </div>
+
                 {/* Language Selection */}
                 <div className="space-y-2">
                   <Label>Language</Label>
@@ -1,4 +1,5 @@
-import { useState, useRef, useMemo, useEffect } from 'react';
+import { useState, useMemo, useEffect } from 'react';
+import { Link } from 'wouter';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -16,6 +17,11 @@ import { useToast } from '@/hooks/use-toast';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import Sidebar from '@/components/sidebar';
+import { ContactDuplicatesDialog } from '@/components/ContactDuplicatesDialog';
+import { ContactImportWizard } from '@/components/ContactImportWizard';
+import { ContactFieldsDialog } from '@/components/ContactFieldsDialog';
+import { CustomFieldFilters } from '@/components/CustomFieldFilters';
+import type { CustomFieldFilter, SegmentWithCount } from '@shared/schema';
 import { 
   Upload, 
   Download, 
@@ -36,9 +42,14 @@ import {
   MapPin,
   Building,
   ChevronDown,
+  Tag,
+  UserX,
   X
 } from 'lucide-react';
 
+// Select value for "no segment"; Radix selects cannot use an empty string
+const NO_SEGMENT = '__none__';
+
 interface Contact {
   id: number;
   name: string;
@@ -47,6 +58,9 @@ interface Contact {
   city?: string;
   state?: string;
   status?: string;
+  leadStage?: string;
+  leadScore?: number;
+  tags?: string[];
   lastContactedAt?: string;
   nextFollowUp?: string;
   totalEngagements: number;
@@ -58,7 +72,8 @@ interface CampaignAnalytics {
   responded: number;
   onboarded: number;
   pending: number;
-  failed: number;
+  failed: number; // Calls that failed
+  lost: number; // Contacts in the lost lead stage
   followUpsDue: number;
   todayActivity: {
     reached: number;
@@ -70,7 +85,6 @@ interface CampaignAnalytics {
 export default function ContactCampaigns() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
-  const fileInputRef = useRef<HTMLInputElement>(null);
   
   const [selectedContacts, setSelectedContacts] = useState<string[]>([]);
   const [activeTab, setActiveTab] = useState('contacts');
@@ -80,7 +94,8 @@ export default function ContactCampaigns() {
     followUpDays: 7,
     campaignTemplate: '',
     variableMapping: {} as Record<string, string>,
-    delaySeconds: 10
+    delaySeconds: 10,
+    segmentId: '' // When set, the campaign goes to the whole segment instead of the selected contacts
   });
   const [showAddContact, setShowAddContact] = useState(false);
   const [newContact, setNewContact] = useState({
@@ -97,6 +112,9 @@ export default function ContactCampaigns() {
     selectedCities: [] as string[],
     selectedStates: [] as string[],
     selectedStatuses: [] as string[],
+    selectedTags: [] as string[],
+    customFields: [] as CustomFieldFilter[],
+    segmentId: '',
     searchTerm: '',
     engagementMin: 0
   });
@@ -107,6 +125,7 @@ export default function ContactCampaigns() {
   const [showCityFilter, setShowCityFilter] = useState(false);
   const [showStateFilter, setShowStateFilter] = useState(false);
   const [showStatusFilter, setShowStatusFilter] = useState(false);
+  const [showTagFilter, setShowTagFilter] = useState(false);
   const [showFilterPopup, setShowFilterPopup] = useState(false);
   const [filterPopupMessage, setFilterPopupMessage] = useState('');
 
@@ -124,6 +143,9 @@ export default function ContactCampaigns() {
       if (filters.selectedStates.length > 0) params.set('states', filters.selectedStates.join(','));
       if (filters.selectedStatuses.length > 0) params.set('statuses', filters.selectedStatuses.join(','));
       if (filters.engagementMin > 0) params.set('engagementMin', filters.engagementMin.toString());
+      if (filters.selectedTags.length > 0) params.set('tags', filters.selectedTags.join(','));
+      if (filters.customFields.length > 0) params.set('customFields', JSON.stringify(filters.customFields));
+      if (filters.segmentId) params.set('segmentId', filters.segmentId);
       
       return fetch(`/api/contacts/enhanced?${params.toString()}`).then(res => res.json());
     },
@@ -148,17 +170,23 @@ export default function ContactCampaigns() {
   }, [contactsResponse, pageSize]);
 
   // Fetch unique filter options separately for better performance
+  const { data: segments = [] } = useQuery<SegmentWithCount[]>({
+    queryKey: ['/api/segments'],
+  });
+  const campaignSegment = segments.find(segment => segment.id === campaignConfig.segmentId);
+
   const { data: filterOptions } = useQuery({
     queryKey: ['/api/contacts/filter-options'],
     queryFn: () => fetch('/api/contacts/filter-options').then(res => res.json()),
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes since this changes rarely
   });
   
-  const { uniqueCities, uniqueStates, uniqueStatuses } = useMemo(() => {
+  const { uniqueCities, uniqueStates, uniqueStatuses, uniqueTags } = useMemo(() => {
     return {
       uniqueCities: filterOptions?.cities || [],
       uniqueStates: filterOptions?.states || [],
-      uniqueStatuses: filterOptions?.statuses || []
+      uniqueStatuses: filterOptions?.statuses || [],
+      uniqueTags: filterOptions?.tags || []
     };
   }, [filterOptions]);
 
@@ -181,11 +209,14 @@ export default function ContactCampaigns() {
 
   // Show popup when filter results change
   useEffect(() => {
-    if (paginationInfo.total > 0 && (filters.selectedCities.length > 0 || filters.selectedStates.length > 0 || filters.selectedStatuses.length > 0 || filters.searchTerm)) {
+    if (paginationInfo.total > 0 && (filters.selectedCities.length > 0 || filters.selectedStates.length > 0 || filters.selectedStatuses.length > 0 || filters.selectedTags.length > 0 || filters.customFields.length > 0 || filters.segmentId || filters.searchTerm)) {
       const filterDescriptions = [];
       if (filters.selectedCities.length > 0) filterDescriptions.push(`${filters.selectedCities.length} cities`);
       if (filters.selectedStates.length > 0) filterDescriptions.push(`${filters.selectedStates.length} states`);
       if (filters.selectedStatuses.length > 0) filterDescriptions.push(`${filters.selectedStatuses.length} statuses`);
+      if (filters.selectedTags.length > 0) filterDescriptions.push(`${filters.selectedTags.length} tags`);
+      if (filters.customFields.length > 0) filterDescriptions.push(`${filters.customFields.length} custom fields`);
+      if (filters.segmentId) filterDescriptions.push('segment');
       if (filters.searchTerm) filterDescriptions.push('search term');
       
       const message = `Found ${paginationInfo.total} labs matching your filter criteria (${filterDescriptions.join(', ')}). All pages will show only these filtered results.`;
@@ -210,29 +241,6 @@ export default function ContactCampaigns() {
     refetchInterval: 30000, // Refresh every 30 seconds
   });
 
-  // CSV upload mutation
-  const csvUploadMutation = useMutation({
-    mutationFn: (formData: FormData) => 
-      fetch('/api/contacts/upload', {
-        method: 'POST',
-        body: formData
-      }).then(res => res.json()),
-    onSuccess: (data) => {
-      toast({ 
-        title: 'CSV uploaded successfully',
-        description: `Imported ${data.imported} contacts`
-      });
-      queryClient.invalidateQueries({ queryKey: ['/api/contacts/enhanced'] });
-    },
-    onError: (error: any) => {
-      toast({ 
-        title: 'Upload failed', 
-        description: error.message,
-        variant: 'destructive' 
-      });
-    }
-  });
-
   // Helper functions for filter management
   const toggleCityFilter = (city: string) => {
     const newFilters = {
@@ -264,11 +272,24 @@ export default function ContactCampaigns() {
     handleFilterChange(newFilters);
   };
 
+  const toggleTagFilter = (tag: string) => {
+    const newFilters = {
+      ...filters,
+      selectedTags: filters.selectedTags.includes(tag)
+        ? filters.selectedTags.filter(t => t !== tag)
+        : [...filters.selectedTags, tag]
+    };
+    handleFilterChange(newFilters);
+  };
+
   const clearAllFilters = () => {
     const newFilters = {
       selectedCities: [],
       selectedStates: [],
       selectedStatuses: [],
+      selectedTags: [],
+      customFields: [],
+      segmentId: '',
       searchTerm: '',
       engagementMin: 0
     };
@@ -355,23 +376,13 @@ export default function ContactCampaigns() {
     }
   });
 
-  // Handle CSV file upload
-  const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      const formData = new FormData();
-      formData.append('file', file);
-      csvUploadMutation.mutate(formData);
-    }
-  };
-
   // Handle campaign start
   const handleStartCampaign = () => {
     console.log('🚀 handleStartCampaign called - selectedContacts:', selectedContacts);
     console.log('📊 selectedContacts.length:', selectedContacts.length);
     
-    if (selectedContacts.length === 0) {
-      toast({ title: 'Please select contacts', variant: 'destructive' });
+    if (selectedContacts.length === 0 && !campaignConfig.segmentId) {
+      toast({ title: 'Please select contacts or a segment', variant: 'destructive' });
       return;
     }
 
@@ -382,7 +393,7 @@ export default function ContactCampaigns() {
 
     console.log('📤 Sending campaign data with contactIds:', selectedContacts);
     startCampaignMutation.mutate({
-      contactIds: selectedContacts,
+      ...(campaignConfig.segmentId ? { segmentId: campaignConfig.segmentId } : { contactIds: selectedContacts }),
       channel: campaignConfig.channel,
       whatsappTemplate: campaignConfig.whatsappTemplate,
       followUpDays: campaignConfig.followUpDays,
@@ -434,14 +445,18 @@ export default function ContactCampaigns() {
       case 'REACHED': return 'bg-yellow-500';
       case 'PENDING': return 'bg-gray-500';
       case 'FAILED': return 'bg-red-500';
+      // Lead pipeline stages
+      case 'onboarded': return 'bg-green-500';
+      case 'demo_scheduled': return 'bg-purple-500';
+      case 'interested': return 'bg-blue-500';
+      case 'contacted': return 'bg-yellow-500';
+      case 'lost': return 'bg-red-500';
       default: return 'bg-gray-500';
     }
   };
 
-  // Debug templates and show all available for now
-  const approvedTemplates = (templates as any[]) || [];
-  console.log('📋 Available templates:', templates);
-  console.log('📋 Filtered templates:', approvedTemplates);
+  // Rejected, paused and pending templates cannot be sent, so they are not offered
+  const approvedTemplates = ((templates as any[]) || []).filter(t => t.status === 'APPROVED');
 
   // Get selected template details
   const selectedTemplate = approvedTemplates.find(t => t.name === campaignConfig.whatsappTemplate);
@@ -624,7 +639,7 @@ export default function ContactCampaigns() {
                 </div>
                 
                 <div>
-                  <Label htmlFor="engagement">Min Engagements</Label>
+                  <Label htmlFor="engagement">Min Lead Score</Label>
                   <Input
                     id="engagement"
                     type="number"
@@ -653,7 +668,7 @@ export default function ContactCampaigns() {
                   <Button 
                     onClick={clearAllFilters}
                     variant="outline"
-                    disabled={filters.selectedCities.length === 0 && filters.selectedStates.length === 0 && filters.selectedStatuses.length === 0 && !filters.searchTerm && filters.engagementMin === 0}
+                    disabled={filters.selectedCities.length === 0 && filters.selectedStates.length === 0 && filters.selectedStatuses.length === 0 && filters.selectedTags.length === 0 && filters.customFields.length === 0 && !filters.segmentId && !filters.searchTerm && filters.engagementMin === 0}
                   >
                     <X className="h-4 w-4 mr-2" />
                     Clear Filters
@@ -662,7 +677,7 @@ export default function ContactCampaigns() {
               </div>
 
               {/* Multi-Select Filters */}
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                 {/* City Filter */}
                 <div>
                   <Label>Cities ({filters.selectedCities.length} selected)</Label>
@@ -767,10 +782,72 @@ export default function ContactCampaigns() {
                     </PopoverContent>
                   </Popover>
                 </div>
+
+                {/* Tag Filter */}
+                <div>
+                  <Label>Tags ({filters.selectedTags.length} selected)</Label>
+                  <Popover open={showTagFilter} onOpenChange={setShowTagFilter}>
+                    <PopoverTrigger asChild>
+                      <Button variant="outline" className="w-full justify-between">
+                        <span className="flex items-center gap-2">
+                          <Tag className="h-4 w-4" />
+                          {filters.selectedTags.length === 0 ? 'Select Tags' : `${filters.selectedTags.length} tags selected`}
+                        </span>
+                        <ChevronDown className="h-4 w-4" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-80 p-0">
+                      <Command>
+                        <CommandInput placeholder="Search tags..." />
+                        <CommandList>
+                          <CommandEmpty>No tags found.</CommandEmpty>
+                          <CommandGroup>
+                            {uniqueTags.map((tag: string) => (
+                              <CommandItem key={tag} onSelect={() => toggleTagFilter(tag)}>
+                                <Checkbox
+                                  checked={filters.selectedTags.includes(tag)}
+                                  className="mr-2"
+                                />
+                                {tag}
+                              </CommandItem>
+                            ))}
+                          </CommandGroup>
+                        </CommandList>
+                      </Command>
+                    </PopoverContent>
+                  </Popover>
+                </div>
               </div>
 
+              {/* Saved Segment Filter */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                <div>
+                  <Label>Segment</Label>
+                  <Select
+                    value={filters.segmentId || NO_SEGMENT}
+                    onValueChange={(value) => handleFilterChange({ ...filters, segmentId: value === NO_SEGMENT ? '' : value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NO_SEGMENT}>All contacts</SelectItem>
+                      {segments.map(segment => (
+                        <SelectItem key={segment.id} value={segment.id}>{segment.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              {/* Custom Field Filters */}
+              <CustomFieldFilters
+                value={filters.customFields}
+                onChange={(customFields) => handleFilterChange({ ...filters, customFields })}
+              />
+
               {/* Filter Summary */}
-              {(filters.selectedCities.length > 0 || filters.selectedStates.length > 0 || filters.selectedStatuses.length > 0) && (
+              {(filters.selectedCities.length > 0 || filters.selectedStates.length > 0 || filters.selectedStatuses.length > 0 || filters.selectedTags.length > 0) && (
                 <div className="flex flex-wrap gap-2 pt-2 border-t">
                   <span className="text-sm font-medium">Active Filters:</span>
                   {filters.selectedCities.map(city => (
@@ -793,6 +870,13 @@ export default function ContactCampaigns() {
                       <X className="h-3 w-3 ml-1" />
                     </Badge>
                   ))}
+                  {filters.selectedTags.map(tag => (
+                    <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => toggleTagFilter(tag)}>
+                      <Tag className="h-3 w-3 mr-1" />
+                      {tag}
+                      <X className="h-3 w-3 ml-1" />
+                    </Badge>
+                  ))}
                 </div>
               )}
 
@@ -846,7 +930,7 @@ export default function ContactCampaigns() {
                 Add Contacts
               </CardTitle>
               <CardDescription>
-                Upload CSV file or add individual contacts manually
+                Import a CSV or Excel file or add individual contacts manually
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -854,29 +938,7 @@ export default function ContactCampaigns() {
               <div>
                 <h4 className="text-sm font-medium mb-2">Bulk Upload</h4>
                 <div className="flex items-center gap-4">
-                  <Input
-                    ref={fileInputRef}
-                    type="file"
-                    accept=".csv"
-                    onChange={handleFileUpload}
-                    className="hidden"
-                  />
-                  <Button
-                    onClick={() => fileInputRef.current?.click()}
-                    disabled={csvUploadMutation.isPending}
-                  >
-                    {csvUploadMutation.isPending ? (
-                      <>
-                        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                        Uploading...
-                      </>
-                    ) : (
-                      <>
-                        <Upload className="h-4 w-4 mr-2" />
-                        Choose CSV File
-                      </>
-                    )}
-                  </Button>
+                  <ContactImportWizard />
                   <Button variant="outline">
                     <Download className="h-4 w-4 mr-2" />
                     Download Template
@@ -1000,6 +1062,8 @@ export default function ContactCampaigns() {
                   </CardDescription>
                 </div>
                 <div className="flex gap-2">
+                  <ContactFieldsDialog />
+                  <ContactDuplicatesDialog />
                   <Button
                     variant="outline"
                     size="sm"
@@ -1035,7 +1099,7 @@ export default function ContactCampaigns() {
                   <h3 className="text-lg font-medium text-gray-900 mb-2">No contacts found</h3>
                   <p className="text-gray-500 mb-4">
                     {contacts.length === 0 
-                      ? "No contacts in database. Upload a CSV file or add contacts manually."
+                      ? "No contacts in database. Import a file or add contacts manually."
                       : "No contacts match your current filters. Try adjusting the filter criteria above."
                     }
                   </p>
@@ -1055,8 +1119,8 @@ export default function ContactCampaigns() {
                       <TableHead>Phone</TableHead>
                       <TableHead>Email</TableHead>
                       <TableHead>Location</TableHead>
-                      <TableHead>Status</TableHead>
-                      <TableHead>Engagements</TableHead>
+                      <TableHead>Stage</TableHead>
+                      <TableHead>Lead Score</TableHead>
                       <TableHead>Last Contacted</TableHead>
                       <TableHead>Next Follow-up</TableHead>
                     </TableRow>
@@ -1072,7 +1136,18 @@ export default function ContactCampaigns() {
                             className="rounded"
                           />
                         </TableCell>
-                        <TableCell className="font-medium">{contact.name}</TableCell>
+                        <TableCell className="font-medium">
+                          <Link href={`/contacts/${contact.id}`} className="hover:underline">
+                            {contact.name}
+                          </Link>
+                          {contact.tags?.length > 0 && (
+                            <div className="flex flex-wrap gap-1 mt-1">
+                              {contact.tags.map((tag: string) => (
+                                <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                              ))}
+                            </div>
+                          )}
+                        </TableCell>
                         <TableCell>{contact.phone}</TableCell>
                         <TableCell>{contact.email || 'N/A'}</TableCell>
                         <TableCell>
@@ -1082,13 +1157,13 @@ export default function ContactCampaigns() {
                           }
                         </TableCell>
                         <TableCell>
-                          <Badge className={getStatusColor(contact.status || 'PENDING')}>
-                            {contact.status || 'PENDING'}
+                          <Badge className={getStatusColor(contact.leadStage || 'new')}>
+                            {(contact.leadStage || 'new').replace('_', ' ')}
                           </Badge>
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">
-                            {contact.totalEngagements || 0}
+                            {contact.leadScore || 0}
                           </Badge>
                         </TableCell>
                         <TableCell>
@@ -1155,6 +1230,26 @@ export default function ContactCampaigns() {
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label>Audience</Label>
+                <Select
+                  value={campaignConfig.segmentId || NO_SEGMENT}
+                  onValueChange={(value) => setCampaignConfig(prev => ({ ...prev, segmentId: value === NO_SEGMENT ? '' : value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SEGMENT}>Selected contacts ({selectedContacts.length})</SelectItem>
+                    {segments.map(segment => (
+                      <SelectItem key={segment.id} value={segment.id} disabled={!segment.contactCount}>
+                        {segment.name} ({segment.contactCount ?? 0} contacts)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label>Campaign Channel</Label>
@@ -1381,7 +1476,11 @@ export default function ContactCampaigns() {
               <div className="bg-blue-50 p-4 rounded-lg">
                 <h4 className="font-medium mb-2">Campaign Summary</h4>
                 <ul className="space-y-1 text-sm text-muted-foreground">
-                  <li>• Selected contacts: {selectedContacts.length}</li>
+                  {campaignSegment ? (
+                    <li>• Segment: {campaignSegment.name} ({campaignSegment.contactCount ?? 0} contacts)</li>
+                  ) : (
+                    <li>• Selected contacts: {selectedContacts.length}</li>
+                  )}
                   <li>• Channel: {campaignConfig.channel}</li>
                   {campaignConfig.campaignTemplate && campaignConfig.campaignTemplate !== 'default' && (
                     <li>• Campaign template: {(campaigns as any[]).find((c: any) => c.id === campaignConfig.campaignTemplate)?.name || 'Selected template'}</li>
@@ -1398,7 +1497,7 @@ export default function ContactCampaigns() {
 
               <Button 
                 onClick={handleStartCampaign}
-                disabled={startCampaignMutation.isPending || selectedContacts.length === 0}
+                disabled={startCampaignMutation.isPending || (selectedContacts.length === 0 && !campaignSegment)}
                 className="w-full"
               >
                 {startCampaignMutation.isPending ? (
@@ -1409,7 +1508,7 @@ export default function ContactCampaigns() {
                 ) : (
                   <>
                     <PlayCircle className="h-4 w-4 mr-2" />
-                    Start Campaign ({selectedContacts.length} contacts)
+                    Start Campaign ({campaignSegment ? campaignSegment.contactCount ?? 0 : selectedContacts.length} contacts)
                   </>
                 )}
               </Button>
@@ -1511,6 +1610,14 @@ export default function ContactCampaigns() {
                       </div>
                       <span className="font-medium">{analytics.failed}</span>
                     </div>
+
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <UserX className="h-4 w-4 text-gray-500" />
+                        <span className="text-sm">Lost</span>
+                      </div>
+                      <span className="font-medium">{analytics.lost}</span>
+                    </div>
                   </CardContent>
                 </Card>
               </div>
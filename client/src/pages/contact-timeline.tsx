@@ -0,0 +1,400 @@
+import { useState } from "react";
+import { Link, useRoute } from "wouter";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, ArrowRight, Phone, MessageCircle, Mail, StickyNote, Trash2, Send, ChevronDown, ChevronUp } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { ContactDetailsCard } from "@/components/ContactDetailsCard";
+import type { Campaign, ContactTimeline, TimelineEvent, WhatsAppTemplate } from "@shared/schema";
+
+const STATUS_COLORS: Record<string, string> = {
+  completed: 'bg-green-500',
+  delivered: 'bg-green-500',
+  read: 'bg-blue-500',
+  opened: 'bg-blue-500',
+  sent: 'bg-gray-500',
+  pending: 'bg-gray-400',
+  active: 'bg-yellow-500',
+  failed: 'bg-red-500',
+  bounced: 'bg-red-500',
+  abandoned: 'bg-red-500'
+};
+
+const formatTime = (at: Date | string) => new Date(at).toLocaleString();
+
+const formatDuration = (seconds?: number | null) =>
+  seconds ? `${Math.floor(seconds / 60)}m ${seconds % 60}s` : null;
+
+function StatusBadge({ status }: { status: string }) {
+  return <Badge className={STATUS_COLORS[status] || 'bg-gray-500'}>{status}</Badge>;
+}
+
+function CallEvent({ event }: { event: Extract<TimelineEvent, { kind: 'call' }> }) {
+  const [showTranscript, setShowTranscript] = useState(false);
+  const { call } = event;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span className="font-medium">Call attempt {call.attemptNumber}</span>
+        <StatusBadge status={call.status} />
+        {call.outcome && <Badge variant="outline">{call.outcome}</Badge>}
+        {formatDuration(call.duration) && <span className="text-sm text-muted-foreground">{formatDuration(call.duration)}</span>}
+        {event.campaignName && <span className="text-sm text-muted-foreground">· {event.campaignName}</span>}
+      </div>
+      {call.conversationSummary && <p className="text-sm">{call.conversationSummary}</p>}
+      {event.transcript.length > 0 && (
+        <>
+          <Button variant="ghost" size="sm" className="px-0" onClick={() => setShowTranscript(!showTranscript)}>
+            {showTranscript ? <ChevronUp className="w-4 h-4 mr-1" /> : <ChevronDown className="w-4 h-4 mr-1" />}
+            Transcript ({event.transcript.length} turns)
+          </Button>
+          {showTranscript && (
+            <div className="space-y-1 text-sm p-3 rounded bg-muted">
+              {event.transcript.map((turn, i) => (
+                <p key={i}>
+                  <span className="font-medium">{turn.role === 'user' ? 'Contact' : 'Agent'}:</span> {turn.content}
+                </p>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
+
+function EventBody({ event, onDeleteNote }: { event: TimelineEvent; onDeleteNote: (noteId: string) => void }) {
+  switch (event.kind) {
+    case 'call':
+      return <CallEvent event={event} />;
+    case 'whatsapp': {
+      const { message } = event;
+      return (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium">
+              WhatsApp {message.direction === 'inbound' ? 'from contact' : message.author === 'ai' ? 'sent by AI' : 'sent'}
+            </span>
+            {message.direction === 'outbound' && <StatusBadge status={message.status} />}
+            {message.messageType !== 'text' && <Badge variant="outline">{message.messageType}</Badge>}
+          </div>
+          <p className="text-sm whitespace-pre-wrap">{message.message || `[${message.messageType}]`}</p>
+          {message.status === 'failed' && message.failedReason && (
+            <p className="text-xs text-red-600">
+              {message.failedReason}{message.errorCode ? ` (code ${message.errorCode})` : ''}
+            </p>
+          )}
+        </div>
+      );
+    }
+    case 'email': {
+      const { email } = event;
+      return (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium">Email to {email.toAddress}</span>
+            <StatusBadge status={email.status} />
+          </div>
+          <p className="text-sm">{email.subject}</p>
+          {email.failedReason && <p className="text-xs text-red-600">{email.failedReason}</p>}
+        </div>
+      );
+    }
+    case 'stage_change': {
+      const { entry } = event;
+      return (
+        <div className="space-y-1">
+          <div className="flex items-center gap-2 flex-wrap">
+            <span className="font-medium">Stage</span>
+            <Badge variant="outline">{(entry.fromStage || 'none').replace('_', ' ')}</Badge>
+            <ArrowRight className="w-3 h-3" />
+            <Badge variant="outline">{entry.toStage.replace('_', ' ')}</Badge>
+            <span className="text-sm text-muted-foreground">({entry.source})</span>
+          </div>
+          {entry.reason && <p className="text-sm">{entry.reason}</p>}
+        </div>
+      );
+    }
+    case 'note': {
+      const { note } = event;
+      return (
+        <div className="flex items-start justify-between gap-2">
+          <div className="space-y-1">
+            <span className="font-medium">Note{note.author ? ` by ${note.author}` : ''}</span>
+            <p className="text-sm whitespace-pre-wrap">{note.body}</p>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => onDeleteNote(note.id)}>
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+      );
+    }
+  }
+}
+
+const EVENT_ICONS: Record<TimelineEvent['kind'], typeof Phone> = {
+  call: Phone,
+  whatsapp: MessageCircle,
+  email: Mail,
+  stage_change: ArrowRight,
+  note: StickyNote
+};
+
+const eventKey = (event: TimelineEvent) => {
+  switch (event.kind) {
+    case 'call': return `call-${event.call.id}`;
+    case 'whatsapp': return `whatsapp-${event.message.id}`;
+    case 'email': return `email-${event.email.id}`;
+    case 'stage_change': return `stage-${event.entry.id}`;
+    case 'note': return `note-${event.note.id}`;
+  }
+};
+
+// Everything that has happened with one contact across calls, WhatsApp and email, with quick actions
+export default function ContactTimelinePage() {
+  const [, params] = useRoute('/contacts/:id');
+  const contactId = params?.id || '';
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [note, setNote] = useState('');
+  const [campaignId, setCampaignId] = useState('');
+  const [templateId, setTemplateId] = useState('');
+
+  const timelineKey = ['/api/contacts', contactId, 'timeline'];
+  const { data: timeline, isLoading } = useQuery<ContactTimeline>({
+    queryKey: timelineKey,
+    enabled: !!contactId,
+    refetchInterval: 15000,
+  });
+
+  const { data: campaigns = [] } = useQuery<Campaign[]>({
+    queryKey: ['/api/campaigns'],
+  });
+
+  const { data: templates = [] } = useQuery<WhatsAppTemplate[]>({
+    queryKey: ['/api/whatsapp/templates'],
+  });
+  const approvedTemplates = templates.filter(template => template.status === 'APPROVED');
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: timelineKey });
+
+  const callMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/calls', {
+      contactId,
+      campaignId,
+      phoneNumber: timeline!.contact.phone
+    }),
+    onSuccess: () => {
+      toast({ title: "Call started" });
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to start call", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const templateMutation = useMutation({
+    mutationFn: async () => {
+      const contact = timeline!.contact;
+      const res = await fetch('/api/whatsapp/messages', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contactId, phone: contact.whatsappNumber || contact.phone, templateId }),
+        credentials: 'include',
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+      }
+      return data;
+    },
+    onSuccess: () => {
+      toast({ title: "Template sent" });
+      setTemplateId('');
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to send template", description: error.message, variant: "destructive" });
+      refresh();
+    },
+  });
+
+  const addNoteMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/contacts/${contactId}/notes`, { body: note }),
+    onSuccess: () => {
+      setNote('');
+      refresh();
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to add note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: (noteId: string) => apiRequest('DELETE', `/api/contacts/${contactId}/notes/${noteId}`),
+    onSuccess: refresh,
+    onError: (error: any) => {
+      toast({ title: "Failed to delete note", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="container mx-auto p-6">Loading timeline...</div>;
+  }
+  if (!timeline) {
+    return <div className="container mx-auto p-6">Contact not found</div>;
+  }
+
+  const { contact, engagements, events } = timeline;
+  // Default the call to the campaign that last called this contact
+  const lastCallCampaign = events.find(event => event.kind === 'call' && event.call.campaignId);
+  const selectedCampaignId = campaignId ||
+    (lastCallCampaign?.kind === 'call' ? lastCallCampaign.call.campaignId || '' : '');
+
+  return (
+    <div className="container mx-auto p-6">
+      <div className="mb-6">
+        <Link href="/contact-campaigns" className="flex items-center gap-1 text-sm text-muted-foreground mb-2">
+          <ArrowLeft className="w-4 h-4" />
+          Contacts
+        </Link>
+        <div className="flex items-center gap-3">
+          <h1 className="text-3xl font-bold">{contact.name}</h1>
+          <Badge>{(contact.leadStage || 'new').replace('_', ' ')}</Badge>
+          <Badge variant="outline">Score {contact.leadScore || 0}</Badge>
+        </div>
+        <p className="text-muted-foreground">
+          {[contact.phone, contact.email, contact.company].filter(Boolean).join(' · ')}
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Call now</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Select
+                value={selectedCampaignId}
+                onValueChange={setCampaignId}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Choose a campaign" />
+                </SelectTrigger>
+                <SelectContent>
+                  {campaigns.map(campaign => (
+                    <SelectItem key={campaign.id} value={campaign.id}>{campaign.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="w-full"
+                onClick={() => callMutation.mutate()}
+                disabled={!selectedCampaignId || callMutation.isPending}
+              >
+                <Phone className="w-4 h-4 mr-2" />
+                {callMutation.isPending ? 'Calling...' : 'Call now'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Send template</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={approvedTemplates.length > 0 ? "Choose an approved template" : "No approved templates"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {approvedTemplates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                className="w-full"
+                onClick={() => templateMutation.mutate()}
+                disabled={!templateId || templateMutation.isPending}
+              >
+                <Send className="w-4 h-4 mr-2" />
+                {templateMutation.isPending ? 'Sending...' : 'Send template'}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>Add a note</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Textarea value={note} rows={3} onChange={(e) => setNote(e.target.value)} placeholder="What happened?" />
+              <Button
+                className="w-full"
+                onClick={() => addNoteMutation.mutate()}
+                disabled={!note.trim() || addNoteMutation.isPending}
+              >
+                <StickyNote className="w-4 h-4 mr-2" />
+                Add note
+              </Button>
+            </CardContent>
+          </Card>
+
+          <ContactDetailsCard contact={contact} onSaved={refresh} />
+
+          {engagements.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Campaign engagement</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-2 text-sm">
+                {engagements.map(engagement => (
+                  <div key={engagement.id} className="flex items-center justify-between">
+                    <span>{campaigns.find(campaign => campaign.id === engagement.campaignId)?.name || 'Campaign'}</span>
+                    <Badge variant="outline">{engagement.status}</Badge>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>Timeline</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {events.length === 0 ? (
+              <p className="text-muted-foreground">Nothing has happened with this contact yet</p>
+            ) : (
+              <div className="space-y-4">
+                {events.map(event => {
+                  const Icon = EVENT_ICONS[event.kind];
+                  return (
+                    <div key={eventKey(event)} className="flex gap-3 border-b pb-4 last:border-0">
+                      <div className="mt-1 h-8 w-8 shrink-0 rounded-full bg-muted flex items-center justify-center">
+                        <Icon className="w-4 h-4" />
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <EventBody event={event} onDeleteNote={(noteId) => deleteNoteMutation.mutate(noteId)} />
+                        <p className="text-xs text-muted-foreground mt-1">{formatTime(event.at)}</p>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,96 @@
+import { useState, type FormEvent } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { PhoneCall } from "lucide-react";
+import { queryClient } from "@/lib/queryClient";
+import { AUTH_QUERY_KEY, useAuth, type AuthState } from "@/hooks/use-auth";
+import type { PublicUser } from "@shared/schema";
+
+// POST credentials; failures carry the server's explanation instead of the raw response
+async function postCredentials(url: string, body: object): Promise<PublicUser> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    credentials: 'include'
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+  }
+  return data;
+}
+
+// Sign-in form, or the first admin account when none exists yet
+export default function LoginPage() {
+  const { setupRequired } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [displayName, setDisplayName] = useState('');
+
+  const loginMutation = useMutation({
+    mutationFn: () => setupRequired
+      ? postCredentials('/api/auth/setup', { username, password, displayName })
+      : postCredentials('/api/auth/login', { username, password }),
+    onSuccess: (user) => {
+      queryClient.setQueryData<AuthState>(AUTH_QUERY_KEY, { user, setupRequired: false });
+    },
+  });
+
+  const submit = (e: FormEvent) => {
+    e.preventDefault();
+    loginMutation.mutate();
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center palette-background p-4">
+      <Card className="w-full max-w-sm">
+        <CardHeader>
+          <div className="flex items-center gap-2 mb-2">
+            <PhoneCall className="h-8 w-8 text-blue-600" />
+            <span className="text-xl font-bold">LabsCheck AI</span>
+          </div>
+          <CardTitle>{setupRequired ? 'Create the admin account' : 'Sign in'}</CardTitle>
+          <CardDescription>
+            {setupRequired
+              ? 'No accounts exist yet. This first account can add everyone else.'
+              : 'Sign in with the account your admin gave you'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="username">Username</Label>
+              <Input id="username" autoComplete="username" value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            {setupRequired && (
+              <div className="space-y-1">
+                <Label htmlFor="displayName">Your name</Label>
+                <Input id="displayName" value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="password">Password</Label>
+              <Input
+                id="password"
+                type="password"
+                autoComplete={setupRequired ? 'new-password' : 'current-password'}
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+            </div>
+            {loginMutation.error && (
+              <p className="text-sm text-red-600">{loginMutation.error.message}</p>
+            )}
+            <Button type="submit" className="w-full" disabled={!username.trim() || !password || loginMutation.isPending}>
+              {loginMutation.isPending ? 'Please wait...' : setupRequired ? 'Create account' : 'Sign in'}
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
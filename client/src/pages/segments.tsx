@@ -0,0 +1,204 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Edit, Filter, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { SegmentRuleBuilder, emptySegmentRules } from "@/components/SegmentRuleBuilder";
+import type { SegmentPreview, SegmentRuleGroup, SegmentWithCount } from "@shared/schema";
+
+// Wait for the user to stop typing before counting
+const PREVIEW_DELAY_MS = 400;
+
+// Send JSON to the segments API; failures carry the server's explanation instead of the raw response
+async function sendJson(method: string, url: string, body?: object) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+  }
+  return data;
+}
+
+interface SegmentForm {
+  id: string | null;
+  name: string;
+  description: string;
+  rules: SegmentRuleGroup;
+}
+
+const newForm = (): SegmentForm => ({ id: null, name: '', description: '', rules: emptySegmentRules() });
+
+export default function SegmentsPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [form, setForm] = useState<SegmentForm | null>(null);
+  const [previewRules, setPreviewRules] = useState<SegmentRuleGroup | null>(null);
+
+  const { data: segments = [], isLoading } = useQuery<SegmentWithCount[]>({
+    queryKey: ['/api/segments'],
+  });
+
+  useEffect(() => {
+    if (!form) return;
+    const timer = setTimeout(() => setPreviewRules(form.rules), PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [form?.rules]);
+
+  const { data: preview, error: previewError, isFetching: previewLoading } = useQuery<SegmentPreview, Error>({
+    queryKey: ['/api/segments/preview', previewRules],
+    queryFn: () => sendJson('POST', '/api/segments/preview', { rules: previewRules }),
+    enabled: !!form && !!previewRules,
+    retry: false,
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: (segment: SegmentForm) => {
+      const body = { name: segment.name, description: segment.description, rules: segment.rules };
+      return segment.id ? sendJson('PUT', `/api/segments/${segment.id}`, body) : sendJson('POST', '/api/segments', body);
+    },
+    onSuccess: () => {
+      toast({ title: form?.id ? 'Segment updated' : 'Segment saved' });
+      setForm(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to save segment', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => apiRequest('DELETE', `/api/segments/${id}`),
+    onSuccess: () => {
+      toast({ title: 'Segment deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/segments'] });
+    },
+    onError: (error: any) => {
+      toast({ title: 'Failed to delete segment', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const edit = (segment: SegmentWithCount) => setForm({
+    id: segment.id,
+    name: segment.name,
+    description: segment.description || '',
+    rules: segment.rules as SegmentRuleGroup
+  });
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold">Segments</h1>
+          <p className="text-muted-foreground">Saved audiences for campaigns and WhatsApp bulk sends</p>
+        </div>
+        {!form && (
+          <Button onClick={() => setForm(newForm())}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Segment
+          </Button>
+        )}
+      </div>
+
+      {form && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{form.id ? 'Edit segment' : 'New segment'}</CardTitle>
+            <CardDescription>Contacts matching these rules, counted live as you change them</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>Name</Label>
+                <Input value={form.name} placeholder="Hot leads in Maharashtra" onChange={(e) => setForm({ ...form, name: e.target.value })} />
+              </div>
+              <div>
+                <Label>Description</Label>
+                <Input value={form.description} onChange={(e) => setForm({ ...form, description: e.target.value })} />
+              </div>
+            </div>
+
+            <SegmentRuleBuilder value={form.rules} onChange={(rules) => setForm({ ...form, rules })} />
+
+            <div className="rounded-lg border p-3 space-y-2">
+              {previewError ? (
+                <p className="text-sm text-red-600">{previewError.message}</p>
+              ) : (
+                <p className="text-sm font-medium">
+                  {preview ? `${preview.count.toLocaleString()} matching contacts` : 'Counting...'}
+                  {previewLoading && preview && <span className="text-muted-foreground"> (updating)</span>}
+                </p>
+              )}
+              {preview && !previewError && preview.sample.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {preview.sample.map(contact => (
+                    <Link key={contact.id} href={`/contacts/${contact.id}`}>
+                      <Badge variant="outline" className="cursor-pointer">{contact.name}</Badge>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+                {saveMutation.isPending ? 'Saving...' : 'Save segment'}
+              </Button>
+              <Button variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="pt-6 space-y-2">
+          {isLoading ? (
+            <p className="text-center py-4 text-muted-foreground">Loading segments...</p>
+          ) : segments.length === 0 ? (
+            <p className="text-center py-4 text-muted-foreground">No segments yet</p>
+          ) : segments.map(segment => (
+            <div key={segment.id} className="flex items-center justify-between border rounded-lg p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Filter className="h-4 w-4 text-muted-foreground" />
+                  <span className="font-medium">{segment.name}</span>
+                  {segment.contactCount === null ? (
+                    <Badge variant="destructive">Uses a deleted field</Badge>
+                  ) : (
+                    <Badge variant="secondary">{segment.contactCount.toLocaleString()} contacts</Badge>
+                  )}
+                </div>
+                {segment.description && <p className="text-sm text-muted-foreground">{segment.description}</p>}
+              </div>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => edit(segment)}>
+                  <Edit className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(`Delete "${segment.name}"?`)) deleteMutation.mutate(segment.id);
+                  }}
+                  disabled={deleteMutation.isPending}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { KeyRound, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { USER_ROLES, USER_ROLE_LABELS, type PublicUser, type UserRole } from "@shared/schema";
+
+// Send JSON to the users API; failures carry the server's explanation instead of the raw response
+async function sendJson(method: string, url: string, body?: object) {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+  }
+  return data;
+}
+
+const emptyForm = { username: '', displayName: '', password: '', role: 'agent' as UserRole };
+
+export default function UsersPage() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const [form, setForm] = useState(emptyForm);
+
+  const { data: users = [], isLoading } = useQuery<PublicUser[]>({
+    queryKey: ['/api/users'],
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => sendJson('POST', '/api/users', form),
+    onSuccess: () => {
+      toast({ title: 'User added' });
+      setForm(emptyForm);
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Failed to add user'),
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, changes }: { id: string; changes: Record<string, unknown> }) => sendJson('PUT', `/api/users/${id}`, changes),
+    onSuccess: () => {
+      toast({ title: 'User updated' });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Failed to update user'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => sendJson('DELETE', `/api/users/${id}`),
+    onSuccess: () => {
+      toast({ title: 'User deleted' });
+      queryClient.invalidateQueries({ queryKey: ['/api/users'] });
+    },
+    onError: onError('Failed to delete user'),
+  });
+
+  const resetPassword = (user: PublicUser) => {
+    const password = prompt(`New password for ${user.username} (at least 8 characters)`);
+    if (password) updateMutation.mutate({ id: user.id, changes: { password } });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Users</h1>
+        <p className="text-muted-foreground">Who can sign in, and what their role lets them do</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Add a user</CardTitle>
+          <CardDescription>
+            Campaign managers run campaigns and manage contacts, callers make calls and send messages, read-only users can only look
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+            <div>
+              <Label>Username</Label>
+              <Input value={form.username} onChange={(e) => setForm({ ...form, username: e.target.value })} />
+            </div>
+            <div>
+              <Label>Name</Label>
+              <Input value={form.displayName} onChange={(e) => setForm({ ...form, displayName: e.target.value })} />
+            </div>
+            <div>
+              <Label>Password</Label>
+              <Input type="password" autoComplete="new-password" value={form.password} onChange={(e) => setForm({ ...form, password: e.target.value })} />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={form.role} onValueChange={(role) => setForm({ ...form, role: role as UserRole })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {USER_ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button onClick={() => createMutation.mutate()} disabled={!form.username.trim() || !form.password || createMutation.isPending}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add user
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="pt-6">
+          {isLoading ? (
+            <p className="text-center py-4 text-muted-foreground">Loading users...</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>User</TableHead>
+                  <TableHead>Role</TableHead>
+                  <TableHead>Active</TableHead>
+                  <TableHead>Last sign-in</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {users.map(user => (
+                  <TableRow key={user.id}>
+                    <TableCell>
+                      <div className="font-medium">{user.displayName || user.username}</div>
+                      <div className="text-xs text-muted-foreground">
+                        {user.username}
+                        {user.id === currentUser?.id && <Badge variant="outline" className="ml-2">You</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Select
+                        value={user.role}
+                        onValueChange={(role) => updateMutation.mutate({ id: user.id, changes: { role } })}
+                      >
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {USER_ROLES.map(role => (
+                            <SelectItem key={role} value={role}>{USER_ROLE_LABELS[role]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={user.active}
+                        onCheckedChange={(active) => updateMutation.mutate({ id: user.id, changes: { active } })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {user.lastLoginAt ? new Date(user.lastLoginAt).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex justify-end gap-1">
+                        <Button variant="ghost" size="sm" title="Reset password" onClick={() => resetPassword(user)}>
+                          <KeyRound className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={user.id === currentUser?.id || deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete ${user.username}? They will be signed out.`)) deleteMutation.mutate(user.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -26,6 +26,12 @@ import {
   RefreshCw
 } from 'lucide-react';
 import { WhatsAppTemplatePreview } from '@/components/WhatsAppTemplatePreview';
+import { TemplateVariableMappingEditor } from '@/components/TemplateVariableMappingEditor';
+import { WhatsAppTemplateBuilder, type TemplateDraft } from '@/components/WhatsAppTemplateBuilder';
+import type { ResolvedTemplateVariables, SegmentWithCount } from '@shared/schema';
+
+// Select value for "no segment"; Radix selects cannot use an empty string
+const NO_SEGMENT = '__none__';
 
 interface WhatsAppTemplate {
   id: string;
@@ -33,6 +39,8 @@ interface WhatsAppTemplate {
   category: string;
   language: string;
   status: string;
+  rejectedReason?: string | null;
+  statusUpdatedAt?: string | null;
   content: string;
   variables?: any;
   metaTemplateId?: string;
@@ -41,17 +49,56 @@ interface WhatsAppTemplate {
   createdAt: string;
 }
 
+interface RecipientPreview {
+  contactId: string;
+  name: string;
+  phone: string;
+  values: ResolvedTemplateVariables;
+  body: string;
+  errors: string[];
+}
+
+interface BulkPreviewResponse {
+  mappingErrors: string[];
+  newPhones: string[];
+  recipients: RecipientPreview[];
+}
+
+interface BulkJobRecurrence {
+  frequency: 'daily' | 'weekly';
+  daysOfWeek?: number[];
+  time: string;
+  timezone: string;
+}
+
+const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const describeRecurrence = (recurrence: BulkJobRecurrence) => {
+  const days = recurrence.frequency === 'weekly'
+    ? (recurrence.daysOfWeek || []).map(day => WEEKDAY_LABELS[day]).join(', ')
+    : 'day';
+  return `Every ${days} at ${recurrence.time} (${recurrence.timezone})`;
+};
+
 interface BulkMessageJob {
   id: string;
-  templateName: string;
-  recipients: any[];
-  status: 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'FAILED';
+  name: string;
+  templateId: string | null;
+  contactIds: string[];
+  status: 'pending' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
   totalMessages: number;
   sentMessages: number;
   failedMessages: number;
+  skippedMessages: number;
+  cooldownHours: number;
+  scheduledAt?: string | null;
+  recurrence?: BulkJobRecurrence | null;
   languageCode: string;
+  delayMs: number;
+  lastError?: string | null;
   createdAt: string;
-  completedAt?: string;
+  startedAt?: string | null;
+  completedAt?: string | null;
 }
 
 export default function WhatsAppBulk() {
@@ -60,14 +107,18 @@ export default function WhatsAppBulk() {
   
   const [selectedTemplate, setSelectedTemplate] = useState('');
   const [recipientsList, setRecipientsList] = useState('');
+  const [segmentId, setSegmentId] = useState('');
   const [languageCode, setLanguageCode] = useState('en_US');
   const [delayMs, setDelayMs] = useState(1000);
-  const [newTemplate, setNewTemplate] = useState({
-    name: '',
-    category: 'UTILITY' as const,
-    language: 'en_US',
-    text: ''
-  });
+  const [scheduledAt, setScheduledAt] = useState('');
+  const [repeat, setRepeat] = useState<'none' | 'daily' | 'weekly'>('none');
+  const [repeatDays, setRepeatDays] = useState<number[]>([1]);
+  const [repeatTime, setRepeatTime] = useState('10:00');
+  const [repeatTimezone, setRepeatTimezone] = useState('Asia/Kolkata');
+  const [cooldownHours, setCooldownHours] = useState(0);
+  const [recipientPreview, setRecipientPreview] = useState<BulkPreviewResponse | null>(null);
+  const [previewIndex, setPreviewIndex] = useState(0);
+  const [templateDraft, setTemplateDraft] = useState<TemplateDraft | null>(null);
 
   // Fetch templates with refresh
   const { data: templates = [], isLoading: templatesLoading, refetch: refetchTemplates } = useQuery({
@@ -77,7 +128,7 @@ export default function WhatsAppBulk() {
 
   // Sync templates mutation
   const syncTemplatesMutation = useMutation({
-    mutationFn: () => apiRequest('/api/whatsapp/templates/sync', 'POST'),
+    mutationFn: () => apiRequest('POST', '/api/whatsapp/templates/sync'),
     onSuccess: () => {
       toast({ title: 'Templates synced successfully' });
       refetchTemplates();
@@ -91,6 +142,10 @@ export default function WhatsAppBulk() {
     }
   });
 
+  const { data: segments = [] } = useQuery<SegmentWithCount[]>({
+    queryKey: ['/api/segments'],
+  });
+
   // Fetch template examples
   const { data: templateExamples = [] } = useQuery({
     queryKey: ['/api/whatsapp/templates/examples'],
@@ -102,41 +157,65 @@ export default function WhatsAppBulk() {
     refetchInterval: 5000, // Refresh every 5 seconds
   });
 
-  // Create template mutation
-  const createTemplateMutation = useMutation({
-    mutationFn: (templateData: any) => 
-      apiRequest('/api/whatsapp/templates', 'POST', templateData),
-    onSuccess: () => {
-      toast({ title: 'Template created and submitted for approval' });
-      setNewTemplate({ name: '', category: 'UTILITY', language: 'en_US', text: '' });
-      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/templates'] });
+  // Send bulk messages mutation
+  const sendBulkMutation = useMutation<any, Error, any>({
+    mutationFn: async (bulkData: any) => {
+      const response = await apiRequest('POST', '/api/whatsapp/bulk/send', bulkData);
+      return response.json();
+    },
+    onSuccess: (job: BulkMessageJob) => {
+      toast({ 
+        title: 'Bulk messaging job started',
+        description: `Job ${job.id} created with ${job.totalMessages} messages`
+      });
+      setRecipientsList('');
+      setSegmentId('');
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/bulk/jobs'] });
     },
     onError: (error: any) => {
       toast({ 
-        title: 'Failed to create template', 
+        title: 'Failed to start bulk messaging', 
         description: error.message,
         variant: 'destructive' 
       });
     }
   });
 
-  // Send bulk messages mutation
-  const sendBulkMutation = useMutation<any, Error, any>({
-    mutationFn: async (bulkData: any) => {
-      const response = await apiRequest('/api/whatsapp/bulk/send', 'POST', bulkData);
-      return response;
+  // Resolve every recipient's template values before sending
+  const previewMutation = useMutation<BulkPreviewResponse, Error, any>({
+    mutationFn: async (previewData: any) => {
+      const response = await apiRequest('POST', '/api/whatsapp/bulk/preview', previewData);
+      return response.json();
     },
-    onSuccess: (job: BulkMessageJob) => {
+    onSuccess: (data) => {
+      setRecipientPreview(data);
+      setPreviewIndex(0);
+    },
+    onError: (error: any) => {
       toast({ 
-        title: 'Bulk messaging job started',
-        description: `Job ${job.id} created with ${job.totalMessages} messages`
+        title: 'Failed to check recipients', 
+        description: error.message,
+        variant: 'destructive' 
       });
-      setRecipientsList('');
+    }
+  });
+
+  const parseRecipients = () => recipientsList
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    .map(phoneNumber => ({ phoneNumber }));
+
+  // Cancel a scheduled or running bulk job
+  const cancelJobMutation = useMutation({
+    mutationFn: (jobId: string) => apiRequest('POST', `/api/whatsapp/bulk/jobs/${jobId}/cancel`),
+    onSuccess: () => {
+      toast({ title: 'Bulk job cancelled' });
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/bulk/jobs'] });
     },
     onError: (error: any) => {
       toast({ 
-        title: 'Failed to start bulk messaging', 
+        title: 'Failed to cancel bulk job', 
         description: error.message,
         variant: 'destructive' 
       });
@@ -150,19 +229,15 @@ export default function WhatsAppBulk() {
       return;
     }
 
-    if (!recipientsList.trim()) {
-      toast({ title: 'Please enter recipient phone numbers', variant: 'destructive' });
+    if (!recipientsList.trim() && !segmentId) {
+      toast({ title: 'Please choose a segment or enter recipient phone numbers', variant: 'destructive' });
       return;
     }
 
     // Parse recipients (one per line)
-    const phoneNumbers = recipientsList
-      .split('\n')
-      .map(line => line.trim())
-      .filter(line => line.length > 0)
-      .map(phoneNumber => ({ phoneNumber }));
+    const phoneNumbers = parseRecipients();
 
-    if (phoneNumbers.length === 0) {
+    if (phoneNumbers.length === 0 && !segmentId) {
       toast({ title: 'No valid phone numbers found', variant: 'destructive' });
       return;
     }
@@ -170,48 +245,39 @@ export default function WhatsAppBulk() {
     sendBulkMutation.mutate({
       templateName: selectedTemplate,
       recipients: phoneNumbers,
+      segmentId: segmentId || undefined,
       languageCode,
-      delayMs
+      delayMs,
+      cooldownHours,
+      scheduledAt: scheduledAt ? new Date(scheduledAt).toISOString() : null,
+      recurrence: repeat === 'none' ? null : {
+        frequency: repeat,
+        daysOfWeek: repeat === 'weekly' ? repeatDays : undefined,
+        time: repeatTime,
+        timezone: repeatTimezone
+      }
     });
   };
 
-  // Handle template creation
-  const handleCreateTemplate = () => {
-    if (!newTemplate.name || !newTemplate.text) {
-      toast({ title: 'Please fill in template name and text', variant: 'destructive' });
-      return;
-    }
-
-    const templateData = {
-      name: newTemplate.name.toLowerCase().replace(/\s+/g, '_'),
-      category: newTemplate.category,
-      language: newTemplate.language,
-      components: [
-        {
-          type: 'BODY',
-          text: newTemplate.text
-        }
-      ]
-    };
-
-    createTemplateMutation.mutate(templateData);
-  };
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'APPROVED': return 'bg-green-500';
       case 'PENDING': return 'bg-yellow-500';
       case 'REJECTED': return 'bg-red-500';
-      case 'COMPLETED': return 'bg-green-500';
-      case 'IN_PROGRESS': return 'bg-blue-500';
-      case 'FAILED': return 'bg-red-500';
+      case 'PAUSED': return 'bg-orange-500';
+      case 'DISABLED': return 'bg-red-700';
+      case 'completed': return 'bg-green-500';
+      case 'in_progress': return 'bg-blue-500';
+      case 'pending': return 'bg-yellow-500';
+      case 'failed': return 'bg-red-500';
+      case 'cancelled': return 'bg-gray-400';
       default: return 'bg-gray-500';
     }
   };
 
   const getJobProgress = (job: BulkMessageJob) => {
     if (job.totalMessages === 0) return 0;
-    return Math.round(((job.sentMessages + job.failedMessages) / job.totalMessages) * 100);
+    return Math.round(((job.sentMessages + job.failedMessages + job.skippedMessages) / job.totalMessages) * 100);
   };
 
   return (
@@ -280,7 +346,13 @@ export default function WhatsAppBulk() {
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="template">Template</Label>
-                  <Select value={selectedTemplate} onValueChange={setSelectedTemplate}>
+                  <Select
+                    value={selectedTemplate}
+                    onValueChange={(value) => {
+                      setSelectedTemplate(value);
+                      setRecipientPreview(null);
+                    }}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder={`Select template (${(templates as WhatsAppTemplate[]).filter(t => t.status === 'APPROVED').length} available)`} />
                     </SelectTrigger>
@@ -315,7 +387,16 @@ export default function WhatsAppBulk() {
                           </div>
                         );
                         
-                        return <WhatsAppTemplatePreview template={template} />;
+                        const previewed = recipientPreview?.recipients[previewIndex];
+                        return (
+                          <div className="space-y-3">
+                            <WhatsAppTemplatePreview template={template} values={previewed?.values} />
+                            <TemplateVariableMappingEditor
+                              templateId={template.id}
+                              onSaved={() => setRecipientPreview(null)}
+                            />
+                          </div>
+                        );
                       })()}
                     </div>
                   )}
@@ -338,6 +419,26 @@ export default function WhatsAppBulk() {
                 </div>
               </div>
 
+              <div className="space-y-2">
+                <Label htmlFor="segment">Segment (optional)</Label>
+                <Select value={segmentId || NO_SEGMENT} onValueChange={(value) => setSegmentId(value === NO_SEGMENT ? '' : value)}>
+                  <SelectTrigger id="segment">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_SEGMENT}>No segment</SelectItem>
+                    {segments.map(segment => (
+                      <SelectItem key={segment.id} value={segment.id} disabled={segment.contactCount === null}>
+                        {segment.name} ({segment.contactCount ?? 0} contacts)
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-sm text-muted-foreground">
+                  Everyone in the segment is sent the message, together with any numbers entered below
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="recipients">Recipients (one phone number per line)</Label>
                 <Textarea
@@ -350,8 +451,67 @@ export default function WhatsAppBulk() {
                 <p className="text-sm text-muted-foreground">
                   Enter phone numbers with country code, one per line. Example: +1234567890
                 </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => previewMutation.mutate({ templateName: selectedTemplate, recipients: parseRecipients(), segmentId: segmentId || undefined })}
+                  disabled={!selectedTemplate || (!recipientsList.trim() && !segmentId) || previewMutation.isPending}
+                >
+                  <Eye className="h-4 w-4 mr-2" />
+                  Check recipients
+                </Button>
               </div>
 
+              {recipientPreview && (
+                <div className="space-y-3 p-3 border rounded-lg">
+                  <div className="flex flex-wrap gap-2 text-sm">
+                    <Badge variant="outline">{recipientPreview.recipients.length} recipients</Badge>
+                    <Badge className="bg-green-500">
+                      {recipientPreview.recipients.filter(r => r.errors.length === 0).length} ready
+                    </Badge>
+                    {recipientPreview.recipients.some(r => r.errors.length > 0) && (
+                      <Badge className="bg-red-500">
+                        {recipientPreview.recipients.filter(r => r.errors.length > 0).length} invalid
+                      </Badge>
+                    )}
+                    {recipientPreview.newPhones.length > 0 && (
+                      <Badge variant="secondary">{recipientPreview.newPhones.length} new contacts</Badge>
+                    )}
+                  </div>
+
+                  {recipientPreview.mappingErrors.length > 0 && (
+                    <ul className="text-xs text-red-600 list-disc pl-4">
+                      {recipientPreview.mappingErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  )}
+
+                  {recipientPreview.recipients.length > 0 && (
+                    <div className="space-y-2">
+                      <Label>Preview for</Label>
+                      <Select value={String(previewIndex)} onValueChange={(value) => setPreviewIndex(parseInt(value))}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {recipientPreview.recipients.map((recipient, index) => (
+                            <SelectItem key={`${recipient.contactId}-${recipient.phone}`} value={String(index)}>
+                              {recipient.errors.length > 0 ? '⚠️ ' : ''}{recipient.name} ({recipient.phone})
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
+                  {recipientPreview.recipients.filter(r => r.errors.length > 0).slice(0, 20).map(recipient => (
+                    <div key={`${recipient.contactId}-${recipient.phone}`} className="text-xs">
+                      <span className="font-medium">{recipient.name} ({recipient.phone}):</span>{' '}
+                      <span className="text-red-600">{recipient.errors.join('; ')}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="delay">Delay between messages (ms)</Label>
                 <Input
@@ -367,6 +527,82 @@ export default function WhatsAppBulk() {
                 </p>
               </div>
 
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="scheduledAt">Send at (optional)</Label>
+                  <Input
+                    id="scheduledAt"
+                    type="datetime-local"
+                    value={scheduledAt}
+                    onChange={(e) => setScheduledAt(e.target.value)}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Leave empty to send now
+                  </p>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="cooldown">Cool-down (hours)</Label>
+                  <Input
+                    id="cooldown"
+                    type="number"
+                    value={cooldownHours}
+                    onChange={(e) => setCooldownHours(Math.max(0, parseInt(e.target.value) || 0))}
+                    min={0}
+                  />
+                  <p className="text-sm text-muted-foreground">
+                    Skip contacts who were sent a WhatsApp message within this many hours (0 = off)
+                  </p>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="repeat">Repeat</Label>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <Select value={repeat} onValueChange={(value: 'none' | 'daily' | 'weekly') => setRepeat(value)}>
+                    <SelectTrigger id="repeat">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">Does not repeat</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  {repeat !== 'none' && (
+                    <>
+                      <Input
+                        type="time"
+                        value={repeatTime}
+                        onChange={(e) => setRepeatTime(e.target.value)}
+                      />
+                      <Input
+                        placeholder="Asia/Kolkata"
+                        value={repeatTimezone}
+                        onChange={(e) => setRepeatTimezone(e.target.value)}
+                      />
+                    </>
+                  )}
+                </div>
+                {repeat === 'weekly' && (
+                  <div className="flex flex-wrap gap-2">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                      <Button
+                        key={label}
+                        type="button"
+                        size="sm"
+                        variant={repeatDays.includes(day) ? 'default' : 'outline'}
+                        onClick={() => setRepeatDays(prev =>
+                          prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()
+                        )}
+                      >
+                        {label}
+                      </Button>
+                    ))}
+                  </div>
+                )}
+              </div>
+
               <Button 
                 onClick={handleSendBulk}
                 disabled={sendBulkMutation.isPending}
@@ -397,90 +633,11 @@ export default function WhatsAppBulk() {
                   Create New Template
                 </CardTitle>
                 <CardDescription>
-                  Create a new WhatsApp message template. Templates require Meta approval.
+                  Build a header, body, footer and buttons with sample values. Meta reviews every template before it can be sent.
                 </CardDescription>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="templateName">Template Name</Label>
-                  <Input
-                    id="templateName"
-                    placeholder="order_confirmation"
-                    value={newTemplate.name}
-                    onChange={(e) => setNewTemplate(prev => ({ ...prev, name: e.target.value }))}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Use lowercase letters, numbers, and underscores only
-                  </p>
-                </div>
-
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="space-y-2">
-                    <Label htmlFor="category">Category</Label>
-                    <Select 
-                      value={newTemplate.category} 
-                      onValueChange={(value: any) => setNewTemplate(prev => ({ ...prev, category: value }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="UTILITY">Utility</SelectItem>
-                        <SelectItem value="MARKETING">Marketing</SelectItem>
-                        <SelectItem value="AUTHENTICATION">Authentication</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-
-                  <div className="space-y-2">
-                    <Label htmlFor="templateLang">Language</Label>
-                    <Select 
-                      value={newTemplate.language} 
-                      onValueChange={(value) => setNewTemplate(prev => ({ ...prev, language: value }))}
-                    >
-                      <SelectTrigger>
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="en_US">English (US)</SelectItem>
-                        <SelectItem value="hi">Hindi</SelectItem>
-                        <SelectItem value="es">Spanish</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                </div>
-
-                <div className="space-y-2">
-                  <Label htmlFor="templateText">Template Text</Label>
-                  <Textarea
-                    id="templateText"
-                    placeholder="Hello {{1}}! Your order #{{2}} has been confirmed."
-                    value={newTemplate.text}
-                    onChange={(e) => setNewTemplate(prev => ({ ...prev, text: e.target.value }))}
-                    rows={4}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Use {`{{1}}, {{2}}`}, etc. for variables. Use *bold*, _italic_ for formatting.
-                  </p>
-                </div>
-
-                <Button 
-                  onClick={handleCreateTemplate}
-                  disabled={createTemplateMutation.isPending}
-                  className="w-full"
-                >
-                  {createTemplateMutation.isPending ? (
-                    <>
-                      <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
-                      Creating Template...
-                    </>
-                  ) : (
-                    <>
-                      <Plus className="h-4 w-4 mr-2" />
-                      Create Template
-                    </>
-                  )}
-                </Button>
+              <CardContent>
+                <WhatsAppTemplateBuilder draft={templateDraft} />
               </CardContent>
             </Card>
 
@@ -502,17 +659,12 @@ export default function WhatsAppBulk() {
                       <Badge variant="outline">{example.category}</Badge>
                     </div>
                     <p className="text-sm text-muted-foreground">
-                      {example.components?.[0]?.text || 'No text content'}
+                      {example.components?.find((component: any) => component.type === 'BODY')?.text || 'No text content'}
                     </p>
                     <Button
                       variant="outline"
                       size="sm"
-                      onClick={() => setNewTemplate({
-                        name: example.name || '',
-                        category: example.category || 'UTILITY',
-                        language: example.language || 'en_US',
-                        text: example.components?.[0]?.text || ''
-                      })}
+                      onClick={() => setTemplateDraft({ ...example })}
                     >
                       Use Template
                     </Button>
@@ -553,8 +705,16 @@ export default function WhatsAppBulk() {
                         <TableCell>{template.language}</TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(template.status)}>
-                            {template.status}
+                            {template.status || 'NOT SUBMITTED'}
                           </Badge>
+                          {template.rejectedReason && (
+                            <p className="text-xs text-red-600 mt-1">{template.rejectedReason}</p>
+                          )}
+                          {template.statusUpdatedAt && (
+                            <p className="text-xs text-muted-foreground mt-1">
+                              Updated {new Date(template.statusUpdatedAt).toLocaleString()}
+                            </p>
+                          )}
                         </TableCell>
                         <TableCell>
                           {new Date(template.createdAt).toLocaleDateString()}
@@ -590,17 +750,42 @@ export default function WhatsAppBulk() {
                     <div key={job.id} className="p-4 border rounded-lg space-y-3">
                       <div className="flex items-center justify-between">
                         <div>
-                          <h4 className="font-medium">{job.templateName}</h4>
+                          <h4 className="font-medium">{job.name}</h4>
                           <p className="text-sm text-muted-foreground">
                             Job ID: {job.id}
                           </p>
                         </div>
-                        <Badge className={getStatusColor(job.status)}>
-                          {job.status}
-                        </Badge>
+                        <div className="flex items-center gap-2">
+                          <Badge className={getStatusColor(job.status)}>
+                            {job.status}
+                          </Badge>
+                          {(job.status === 'pending' || job.status === 'in_progress') && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => cancelJobMutation.mutate(job.id)}
+                              disabled={cancelJobMutation.isPending}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              Cancel
+                            </Button>
+                          )}
+                        </div>
                       </div>
 
-                      <div className="grid grid-cols-3 gap-4 text-sm">
+                      {(job.scheduledAt || job.recurrence) && (
+                        <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                          {job.scheduledAt && job.status === 'pending' && (
+                            <span className="flex items-center gap-1">
+                              <Clock className="h-3 w-3" />
+                              Scheduled for {new Date(job.scheduledAt).toLocaleString()}
+                            </span>
+                          )}
+                          {job.recurrence && <span>{describeRecurrence(job.recurrence)}</span>}
+                        </div>
+                      )}
+
+                      <div className="grid grid-cols-4 gap-4 text-sm">
                         <div>
                           <p className="text-muted-foreground">Total Messages</p>
                           <p className="font-medium">{job.totalMessages}</p>
@@ -613,6 +798,10 @@ export default function WhatsAppBulk() {
                           <p className="text-muted-foreground">Failed</p>
                           <p className="font-medium text-red-600">{job.failedMessages}</p>
                         </div>
+                        <div>
+                          <p className="text-muted-foreground">Skipped</p>
+                          <p className="font-medium text-gray-600">{job.skippedMessages}</p>
+                        </div>
                       </div>
 
                       <div className="space-y-2">
@@ -624,11 +813,15 @@ export default function WhatsAppBulk() {
                       </div>
 
                       <div className="flex justify-between text-xs text-muted-foreground">
-                        <span>Started: {new Date(job.createdAt).toLocaleString()}</span>
+                        <span>Started: {new Date(job.startedAt || job.createdAt).toLocaleString()}</span>
                         {job.completedAt && (
                           <span>Completed: {new Date(job.completedAt).toLocaleString()}</span>
                         )}
                       </div>
+
+                      {job.lastError && (
+                        <p className="text-xs text-red-600">{job.lastError}</p>
+                      )}
                     </div>
                   ))}
 
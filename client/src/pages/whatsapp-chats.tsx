@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,10 +8,12 @@ import { Textarea } from "@/components/ui/textarea";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Trash2, Edit, Send, Check, CheckCheck, MessageCircle, Phone, Clock, Users, Plus } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Trash2, Edit, Send, Check, CheckCheck, MessageCircle, Phone, Clock, Users, Plus, Bot, UserRound, Paperclip, FileText, X } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Contact } from "@shared/schema";
+import { WhatsAppInteractiveDialog } from "@/components/WhatsAppInteractiveDialog";
+import type { Contact, WhatsAppInteractiveContent, WhatsAppInteractiveReply, WhatsAppTemplate } from "@shared/schema";
 
 interface WhatsAppMessage {
   id: string;
@@ -20,9 +22,109 @@ interface WhatsAppMessage {
   contactName: string;
   message: string;
   direction: 'outbound' | 'inbound';
-  status: 'sent' | 'delivered' | 'read' | 'failed';
+  status: 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
   timestamp: string;
-  messageType: 'text' | 'template';
+  messageType: 'text' | 'template' | 'image' | 'document' | 'audio' | 'video' | 'sticker' | 'interactive' | 'button';
+  author?: 'ai' | 'human' | null; // Who wrote an outbound conversation reply
+  media?: WhatsAppMedia | null;
+  failedReason?: string | null;
+  errorCode?: number | null; // Meta's error code for failed sends
+  interactive?: WhatsAppInteractiveContent | null; // Buttons or list rows we sent
+  interactiveReply?: WhatsAppInteractiveReply | null; // The option the contact tapped and what it triggered
+}
+
+interface WhatsAppMedia {
+  url: string;
+  mimeType: string | null;
+  fileName: string | null;
+  stored: boolean; // False until the file has been downloaded from Meta
+}
+
+// Meta only delivers free-form messages within 24 hours of the contact's last message
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const isSessionWindowOpen = (lastInboundAt?: string | null) =>
+  !!lastInboundAt && Date.now() - new Date(lastInboundAt).getTime() < SESSION_WINDOW_MS;
+
+// POST to the messages API; failures carry the server's explanation instead of the raw response
+async function postMessage(url: string, body: FormData | object) {
+  const res = await fetch(url, body instanceof FormData
+    ? { method: 'POST', body, credentials: 'include' }
+    : { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body), credentials: 'include' });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) {
+    throw new Error(data.details ? ([] as string[]).concat(data.details).join('; ') : data.error || res.statusText);
+  }
+  return data;
+}
+
+// Composer shown outside the 24-hour window, when only approved templates can be sent
+function TemplateComposer({ templates, notice, isPending, onSend }: {
+  templates: WhatsAppTemplate[];
+  notice: string;
+  isPending: boolean;
+  onSend: (templateId: string) => void;
+}) {
+  const [templateId, setTemplateId] = useState("");
+  const template = templates.find(t => t.id === templateId);
+
+  return (
+    <div className="space-y-2">
+      <p className="flex items-center gap-1 text-xs text-muted-foreground">
+        <Clock className="h-3 w-3" />
+        {notice}
+      </p>
+      <div className="flex gap-2">
+        <Select value={templateId} onValueChange={setTemplateId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder={templates.length > 0 ? "Choose an approved template" : "No approved templates"} />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map(t => (
+              <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={() => template && onSend(template.id)} disabled={!template || isPending}>
+          <Send className="w-4 h-4" />
+        </Button>
+      </div>
+      {template && (
+        <p className="text-xs p-2 rounded bg-muted whitespace-pre-wrap">{template.content}</p>
+      )}
+    </div>
+  );
+}
+
+// Attachment shown inside a message bubble
+function MessageMedia({ message }: { message: WhatsAppMessage }) {
+  const media = message.media;
+  if (!media) return null;
+
+  if (message.messageType === 'image' || message.messageType === 'sticker') {
+    return (
+      <a href={media.url} target="_blank" rel="noreferrer">
+        <img src={media.url} alt={media.fileName || 'Image'} className="max-h-64 rounded mb-2" />
+      </a>
+    );
+  }
+  if (message.messageType === 'audio') {
+    return <audio controls src={media.url} className="mb-2 max-w-full" />;
+  }
+  if (message.messageType === 'video') {
+    return <video controls src={media.url} className="max-h-64 rounded mb-2" />;
+  }
+  return (
+    <a
+      href={media.url}
+      target="_blank"
+      rel="noreferrer"
+      className="flex items-center gap-2 mb-2 p-2 rounded bg-black/10 text-sm underline-offset-2 hover:underline"
+    >
+      <FileText className="h-4 w-4 shrink-0" />
+      <span className="truncate">{media.fileName || 'Document'}</span>
+    </a>
+  );
 }
 
 interface WhatsAppChat {
@@ -33,13 +135,18 @@ interface WhatsAppChat {
   lastMessageTime: string;
   unreadCount: number;
   status: 'active' | 'archived';
+  mode: 'ai' | 'human'; // Whether the AI or a person is answering this conversation
+  handoffReason?: string | null;
+  lastInboundAt?: string | null;
   messages: WhatsAppMessage[];
 }
 
 export default function WhatsAppChats() {
-  const [selectedChat, setSelectedChat] = useState<WhatsAppChat | null>(null);
+  const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
   const [selectedContact, setSelectedContact] = useState<Contact | null>(null);
   const [newMessage, setNewMessage] = useState("");
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [newContactMessage, setNewContactMessage] = useState("");
   const [editingMessage, setEditingMessage] = useState<WhatsAppMessage | null>(null);
   const [editMessageText, setEditMessageText] = useState("");
@@ -62,6 +169,14 @@ export default function WhatsAppChats() {
     staleTime: 15000, // Consider data stale after 15 seconds
   });
 
+  const { data: templates = [] } = useQuery<WhatsAppTemplate[]>({
+    queryKey: ['/api/whatsapp/templates'],
+  });
+  const approvedTemplates = templates.filter(template => template.status === 'APPROVED');
+
+  // Look the selected chat up on every refresh so new messages and handoffs show up
+  const selectedChat = chats.find(chat => chat.id === selectedChatId) || null;
+
   // Extract contacts from the paginated response
   const contacts = contactsResponse?.contacts || [];
 
@@ -76,8 +191,8 @@ export default function WhatsAppChats() {
 
   // Send message to existing chat
   const sendMessageMutation = useMutation({
-    mutationFn: (messageData: { contactId: string; phone: string; message: string; campaignId?: string }) => 
-      apiRequest("POST", "/api/whatsapp/messages", messageData),
+    mutationFn: (messageData: { contactId: string; phone: string; message?: string; templateId?: string; campaignId?: string }) => 
+      postMessage("/api/whatsapp/messages", messageData),
     onSuccess: () => {
       toast({
         title: "Message sent!",
@@ -86,19 +201,57 @@ export default function WhatsAppChats() {
       setNewMessage("");
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Failed to send message",
-        description: "There was an error sending your WhatsApp message.",
+        description: error.message,
         variant: "destructive",
       });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    }
+  });
+
+  // Send a file from the composer; the message text goes along as its caption
+  const sendMediaMutation = useMutation({
+    mutationFn: async ({ contactId, phone, file, caption }: { contactId: string; phone: string; file: File; caption: string }) => {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('contactId', contactId);
+      formData.append('phone', phone);
+      formData.append('caption', caption);
+      return postMessage('/api/whatsapp/messages/media', formData);
+    },
+    onSuccess: () => {
+      toast({ title: "Attachment sent!" });
+      setNewMessage("");
+      setAttachment(null);
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to send attachment", description: error.message, variant: "destructive" });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    }
+  });
+
+  // Hand the conversation to a person, or back to the AI
+  const updateModeMutation = useMutation({
+    mutationFn: async ({ contactId, mode }: { contactId: string; mode: 'ai' | 'human' }) => {
+      const response = await apiRequest("PUT", `/api/whatsapp/conversations/${contactId}/mode`, { mode });
+      return response.json();
+    },
+    onSuccess: (_conversation, { mode }) => {
+      toast({ title: mode === 'ai' ? "AI replies resumed" : "You are now answering this chat" });
+      queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
+    },
+    onError: (error: any) => {
+      toast({ title: "Failed to update chat", description: error.message, variant: "destructive" });
     }
   });
 
   // Send message to new contact
   const sendNewMessageMutation = useMutation({
-    mutationFn: (messageData: { contactId: string; phone: string; message: string }) => 
-      apiRequest("POST", "/api/whatsapp/messages", messageData),
+    mutationFn: (messageData: { contactId: string; phone: string; message?: string; templateId?: string }) => 
+      postMessage("/api/whatsapp/messages", messageData),
     onSuccess: () => {
       toast({
         title: "Message sent!",
@@ -108,10 +261,10 @@ export default function WhatsAppChats() {
       setSelectedContact(null);
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Failed to send message",
-        description: "There was an error sending your WhatsApp message.",
+        description: error.message,
         variant: "destructive",
       });
     }
@@ -119,7 +272,18 @@ export default function WhatsAppChats() {
 
   // Send message function for existing chats
   const handleSendMessage = () => {
-    if (!selectedChat || !newMessage.trim()) return;
+    if (!selectedChat) return;
+
+    if (attachment) {
+      sendMediaMutation.mutate({
+        contactId: selectedChat.id,
+        phone: selectedChat.contactPhone,
+        file: attachment,
+        caption: newMessage.trim()
+      });
+      return;
+    }
+    if (!newMessage.trim()) return;
     
     sendMessageMutation.mutate({
       contactId: selectedChat.id,
@@ -128,6 +292,15 @@ export default function WhatsAppChats() {
     });
   };
 
+  // Send an approved template, e.g. when the 24-hour window has closed
+  const handleSendTemplate = (templateId: string) => {
+    if (selectedChat) {
+      sendMessageMutation.mutate({ contactId: selectedChat.id, phone: selectedChat.contactPhone, templateId });
+    } else if (selectedContact) {
+      sendNewMessageMutation.mutate({ contactId: selectedContact.id, phone: selectedContact.phone, templateId });
+    }
+  };
+
   // Send message function for new contacts
   const handleSendNewMessage = () => {
     if (!selectedContact || !newContactMessage.trim()) return;
@@ -191,6 +364,7 @@ export default function WhatsAppChats() {
       lastMessageTime: "2025-01-07T09:30:00Z",
       unreadCount: 0,
       status: "active",
+      mode: "ai",
       messages: [
         {
           id: "msg1",
@@ -246,6 +420,7 @@ export default function WhatsAppChats() {
       lastMessageTime: "2025-01-06T18:45:00Z",
       unreadCount: 1,
       status: "active",
+      mode: "ai",
       messages: [
         {
           id: "msg5",
@@ -283,7 +458,7 @@ export default function WhatsAppChats() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
-      setSelectedChat(null);
+      setSelectedChatId(null);
       toast({ title: "Chat deleted successfully" });
     },
     onError: (error: any) => {
@@ -391,13 +566,16 @@ export default function WhatsAppChats() {
                     className={`p-4 border-b cursor-pointer hover:bg-muted/50 transition-colors ${
                       selectedChat?.id === chat.id ? 'bg-muted' : ''
                     }`}
-                    onClick={() => setSelectedChat(chat)}
+                    onClick={() => setSelectedChatId(chat.id)}
                   >
                     <div className="flex items-start justify-between">
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <Phone className="w-4 h-4 text-green-600" />
                           <p className="font-medium truncate">{chat.contactName}</p>
+                          {chat.mode === 'human' && (
+                            <Badge variant="outline" className="text-xs">Needs a person</Badge>
+                          )}
                           {chat.unreadCount > 0 && (
                             <Badge variant="default" className="ml-auto">
                               {chat.unreadCount}
@@ -447,7 +625,7 @@ export default function WhatsAppChats() {
                         }`}
                         onClick={() => {
                           setSelectedContact(contact);
-                          setSelectedChat(null);
+                          setSelectedChatId(null);
                         }}
                       >
                         <div className="flex items-start justify-between">
@@ -474,7 +652,7 @@ export default function WhatsAppChats() {
                             onClick={(e) => {
                               e.stopPropagation();
                               setSelectedContact(contact);
-                              setSelectedChat(null);
+                              setSelectedChatId(null);
                             }}
                           >
                             <Plus className="w-4 h-4 mr-1" />
@@ -509,8 +687,45 @@ export default function WhatsAppChats() {
                       {selectedChat.contactName}
                     </CardTitle>
                     <p className="text-sm text-muted-foreground">{selectedChat.contactPhone}</p>
+                    <div className="flex items-center gap-2 mt-1">
+                      {selectedChat.mode === 'human' ? (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <UserRound className="w-3 h-3" />
+                          Handled by a person
+                        </Badge>
+                      ) : (
+                        <Badge variant="outline" className="flex items-center gap-1">
+                          <Bot className="w-3 h-3" />
+                          AI replies on
+                        </Badge>
+                      )}
+                      {selectedChat.mode === 'human' && selectedChat.handoffReason && (
+                        <span className="text-xs text-muted-foreground">{selectedChat.handoffReason}</span>
+                      )}
+                    </div>
                   </div>
                   <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={updateModeMutation.isPending}
+                      onClick={() => updateModeMutation.mutate({
+                        contactId: selectedChat.id,
+                        mode: selectedChat.mode === 'human' ? 'ai' : 'human'
+                      })}
+                    >
+                      {selectedChat.mode === 'human' ? (
+                        <>
+                          <Bot className="w-4 h-4 mr-2" />
+                          Hand back to AI
+                        </>
+                      ) : (
+                        <>
+                          <UserRound className="w-4 h-4 mr-2" />
+                          Take over
+                        </>
+                      )}
+                    </Button>
                     <Button 
                       variant="outline" 
                       size="sm"
@@ -565,8 +780,38 @@ export default function WhatsAppChats() {
                             : 'bg-muted'
                         }`}
                       >
-                        <p className="text-sm">{message.message}</p>
+                        <MessageMedia message={message} />
+                        {message.message && <p className="text-sm">{message.message}</p>}
+                        {message.interactive && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                            {message.interactive.options.map(option => (
+                              <span key={option.id} className="text-xs px-2 py-1 rounded border border-current opacity-90">
+                                {option.title}
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {message.interactiveReply?.result && (
+                          <p className="text-xs mt-1 text-muted-foreground">→ {message.interactiveReply.result}</p>
+                        )}
+                        {message.status === 'failed' && message.failedReason && (
+                          <p className="text-xs mt-1 opacity-90">
+                            {message.failedReason}{message.errorCode ? ` (code ${message.errorCode})` : ''}
+                          </p>
+                        )}
                         <div className="flex items-center justify-end gap-2 mt-2">
+                          {message.author === 'ai' && (
+                            <span className="flex items-center gap-1 text-xs opacity-75">
+                              <Bot className="h-3 w-3" />
+                              AI
+                            </span>
+                          )}
+                          {message.author === 'human' && (
+                            <span className="flex items-center gap-1 text-xs opacity-75">
+                              <UserRound className="h-3 w-3" />
+                              Team
+                            </span>
+                          )}
                           <span className="text-xs opacity-75">
                             {formatTime(message.timestamp)}
                           </span>
@@ -623,21 +868,55 @@ export default function WhatsAppChats() {
 
               {/* Message Input */}
               <div className="border-t p-4">
+                {!isSessionWindowOpen(selectedChat.lastInboundAt) ? (
+                  <TemplateComposer
+                    templates={approvedTemplates}
+                    notice={`${selectedChat.contactName} has not written in the last 24 hours, so only approved templates can be sent until they reply.`}
+                    isPending={sendMessageMutation.isPending}
+                    onSend={handleSendTemplate}
+                  />
+                ) : (
+                <>
+                {attachment && (
+                  <div className="flex items-center gap-2 mb-2 text-sm text-muted-foreground">
+                    <Paperclip className="w-4 h-4" />
+                    <span className="truncate">{attachment.name}</span>
+                    <Button variant="ghost" size="sm" className="h-auto p-1" onClick={() => setAttachment(null)}>
+                      <X className="w-3 h-3" />
+                    </Button>
+                  </div>
+                )}
                 <div className="flex gap-2">
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    className="hidden"
+                    accept="image/jpeg,image/png,video/mp4,video/3gpp,audio/*,application/pdf,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt"
+                    onChange={(e) => {
+                      setAttachment(e.target.files?.[0] || null);
+                      e.target.value = "";
+                    }}
+                  />
+                  <Button variant="outline" onClick={() => fileInputRef.current?.click()} title="Attach a file">
+                    <Paperclip className="w-4 h-4" />
+                  </Button>
+                  <WhatsAppInteractiveDialog contactId={selectedChat.id} phone={selectedChat.contactPhone} />
                   <Input
                     value={newMessage}
                     onChange={(e) => setNewMessage(e.target.value)}
-                    placeholder="Type a message..."
+                    placeholder={attachment ? "Add a caption..." : "Type a message..."}
                     onKeyPress={(e) => e.key === 'Enter' && handleSendMessage()}
                     className="flex-1"
                   />
                   <Button 
                     onClick={handleSendMessage}
-                    disabled={!newMessage.trim() || sendMessageMutation.isPending}
+                    disabled={(!newMessage.trim() && !attachment) || sendMessageMutation.isPending || sendMediaMutation.isPending}
                   >
                     <Send className="w-4 h-4" />
                   </Button>
                 </div>
+                </>
+                )}
               </div>
             </Card>
           ) : selectedContact ? (
@@ -671,6 +950,14 @@ export default function WhatsAppChats() {
 
               {/* Message Input for New Contact */}
               <div className="border-t p-4">
+                {!isSessionWindowOpen(chats.find(chat => chat.id === selectedContact.id)?.lastInboundAt) ? (
+                  <TemplateComposer
+                    templates={approvedTemplates}
+                    notice={`${selectedContact.name} has not written to us in the last 24 hours, so the first message must be an approved template.`}
+                    isPending={sendNewMessageMutation.isPending}
+                    onSend={handleSendTemplate}
+                  />
+                ) : (
                 <div className="space-y-3">
                   <Textarea
                     value={newContactMessage}
@@ -696,6 +983,7 @@ export default function WhatsAppChats() {
                     </Button>
                   </div>
                 </div>
+                )}
               </div>
             </Card>
           ) : (
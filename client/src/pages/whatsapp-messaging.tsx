@@ -93,10 +93,10 @@ export default function WhatsAppMessaging() {
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/chats'] });
       queryClient.invalidateQueries({ queryKey: ['/api/whatsapp/messages', selectedContact?.id] });
     },
-    onError: () => {
+    onError: (error: any) => {
       toast({
         title: "Failed to send message",
-        description: "There was an error sending your WhatsApp message.",
+        description: error.message,
         variant: "destructive",
       });
     }
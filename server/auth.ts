@@ -0,0 +1,232 @@
+import type { Express, NextFunction, Request, RequestHandler, Response } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { pool } from "./db";
+import { storage } from "./storage";
+import { env } from "./config/environment";
+import { hasPermission, type Permission, type PublicUser, type User } from "@shared/schema";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+const MIN_PASSWORD_LENGTH = 8;
+
+interface RouteMatch {
+  methods?: string[];
+  path: RegExp; // Matched against the path below /api
+}
+
+// Called by Meta, Twilio, SendGrid and email clients, which cannot sign in. The Meta, Twilio and
+// SendGrid webhooks check the provider's request signature; the email open pixel only marks an email opened
+const PUBLIC_ROUTES: RouteMatch[] = [
+  { path: /^\/auth\/(login|logout|me|setup)$/ },
+  { path: /^\/health$/ },
+  { path: /^\/whatsapp\/webhook$/ },
+  { methods: ['POST'], path: /^\/email\/webhook\/sendgrid$/ },
+  { methods: ['GET'], path: /^\/email\/open\/[^/]+$/ },
+  { methods: ['POST'], path: /^\/calls\/webhook(\/answer|\/status)?$/ },
+  { methods: ['POST'], path: /^\/calls\/recording-complete$/ },
+  { methods: ['POST'], path: /^\/calls\/[^/]+\/process-speech$/ }
+];
+
+const WRITE = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
+// First match wins. Reads not listed need data.view and changes not listed need settings.manage
+const PERMISSION_RULES: (RouteMatch & { permission: Permission })[] = [
+  { path: /^\/users(\/|$)/, permission: 'users.manage' },
+  { methods: ['GET'], path: /^\/contacts\/(export|imports\/[^/]+\/errors\.csv)$/, permission: 'contacts.export' },
+  // Counting a segment changes nothing
+  { methods: ['POST'], path: /^\/segments\/preview$/, permission: 'data.view' },
+  { methods: WRITE, path: /^\/(contacts\/(imports|merge|normalize-phones)|contact-fields|segments|suppression)(\/|$)/, permission: 'contacts.manage' },
+  { methods: ['DELETE'], path: /^\/contacts\/[^/]+$/, permission: 'contacts.manage' },
+  { methods: WRITE, path: /^\/contacts(\/|$)/, permission: 'contacts.edit' },
+  { methods: WRITE, path: /^\/calls(\/initiate|\/direct|\/[^/]+\/(transcriptions|recording))?$/, permission: 'calls.make' },
+  { methods: WRITE, path: /^\/whatsapp\/(messages|conversations)(\/|$)/, permission: 'messages.send' },
+  { methods: WRITE, path: /^\/(campaigns|whatsapp\/(templates|bulk|dead-letters))(\/|$)/, permission: 'campaigns.manage' }
+];
+
+const matches = (rule: RouteMatch, req: Request) =>
+  (!rule.methods || rule.methods.includes(req.method)) && rule.path.test(req.path);
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hash, salt] = stored.split(".");
+  // Rows written before passwords were hashed have no salt and can never match
+  if (!hash || !salt) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Problems with a new password; empty when it can be used
+export function passwordErrors(password: unknown): string[] {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return [`password must be at least ${MIN_PASSWORD_LENGTH} characters`];
+  }
+  return [];
+}
+
+export function toPublicUser(user: User): PublicUser {
+  const { password: _password, ...rest } = user;
+  return rest;
+}
+
+// Only a signed-in user whose role grants the permission may continue
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req, res, next) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ error: 'Not signed in' });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: 'Your role does not allow this' });
+    }
+    next();
+  };
+}
+
+// Checks every /api request against PUBLIC_ROUTES and PERMISSION_RULES
+function authorizeApi(req: Request, res: Response, next: NextFunction) {
+  if (PUBLIC_ROUTES.some(route => matches(route, req))) return next();
+  const rule = PERMISSION_RULES.find(candidate => matches(candidate, req));
+  const permission = rule?.permission || (req.method === 'GET' || req.method === 'HEAD' ? 'data.view' : 'settings.manage');
+  return requirePermission(permission)(req, res, next);
+}
+
+// Sessions, passport and the /api/auth routes; returns the session middleware so the
+// websocket server can check the same cookie
+export function setupAuth(app: Express): RequestHandler {
+  let secret = env.SESSION_SECRET;
+  if (!secret) {
+    console.warn('⚠️ SESSION_SECRET is not set - using a random secret, everyone is signed out on restart');
+    secret = randomBytes(32).toString("hex");
+  }
+
+  const PostgresSessionStore = connectPg(session);
+  const sessionMiddleware = session({
+    store: new PostgresSessionStore({ pool, createTableIfMissing: true }),
+    secret,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: env.NODE_ENV === 'production',
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  });
+
+  // Render and other hosts terminate TLS in front of the app
+  app.set("trust proxy", 1);
+  app.use(sessionMiddleware);
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username.trim());
+        if (!user || !user.active || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+        return done(null, toPublicUser(user));
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: string, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Deactivated and deleted users are signed out on their next request
+      done(null, user && user.active ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.use('/api', authorizeApi);
+
+  app.post('/api/auth/login', (req, res, next) => {
+    passport.authenticate('local', (error: unknown, user: PublicUser | false) => {
+      if (error) return next(error);
+      if (!user) {
+        return res.status(401).json({ error: 'Invalid username or password' });
+      }
+      req.login(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        console.log(`🔐 ${user.username} signed in`);
+        res.json(user);
+      });
+    })(req, res, next);
+  });
+
+  app.post('/api/auth/logout', (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => res.json({ success: true }));
+    });
+  });
+
+  // The signed-in user, or null; setupRequired is true until the first account exists
+  app.get('/api/auth/me', async (req, res) => {
+    try {
+      if (req.isAuthenticated()) {
+        return res.json({ user: req.user, setupRequired: false });
+      }
+      const users = await storage.getUsers();
+      res.json({ user: null, setupRequired: users.length === 0 });
+    } catch (error) {
+      console.error('Error fetching current user:', error);
+      res.status(500).json({ error: 'Failed to fetch current user' });
+    }
+  });
+
+  // Create the first admin account; refused once any account exists
+  app.post('/api/auth/setup', async (req, res, next) => {
+    try {
+      const users = await storage.getUsers();
+      if (users.length > 0) {
+        return res.status(409).json({ error: 'Setup has already been completed' });
+      }
+      const { username, password, displayName } = req.body;
+      const errors = passwordErrors(password);
+      if (typeof username !== 'string' || !username.trim()) errors.unshift('username is required');
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid account', details: errors });
+      }
+
+      const user = toPublicUser(await storage.createUser({
+        username: username.trim(),
+        password: await hashPassword(password),
+        displayName: typeof displayName === 'string' && displayName.trim() ? displayName.trim() : null,
+        role: 'admin',
+        lastLoginAt: new Date()
+      }));
+      console.log(`🔐 First admin account created: ${user.username}`);
+      req.login(user, (error) => error ? next(error) : res.status(201).json(user));
+    } catch (error) {
+      console.error('Error creating first admin:', error);
+      res.status(500).json({ error: 'Failed to create account' });
+    }
+  });
+
+  return sessionMiddleware;
+}
@@ -20,13 +20,31 @@ export interface EnvironmentConfig {
   WHATSAPP_ACCESS_TOKEN: string;
   WHATSAPP_PHONE_NUMBER_ID: string;
   WHATSAPP_WEBHOOK_VERIFY_TOKEN: string;
+  WHATSAPP_APP_SECRET?: string; // Meta app secret; webhook POSTs must carry a matching X-Hub-Signature-256
   
   // AI Services
   OPENAI_API_KEY: string;
   ELEVENLABS_API_KEY: string;
   
+  // Email
+  EMAIL_TRANSPORT?: string; // 'smtp', 'sendgrid' or 'mailbox'; picked from the other settings when unset
+  EMAIL_FROM?: string;
+  SMTP_HOST?: string;
+  SMTP_PORT?: number;
+  SMTP_USER?: string;
+  SMTP_PASS?: string;
+  EMAIL_MAILBOX_DIR?: string;
+
+  // Media (WhatsApp attachments)
+  MEDIA_STORAGE?: string; // 'local' (default)
+  MEDIA_STORAGE_DIR?: string;
+
+  // Contacts
+  DEFAULT_PHONE_COUNTRY?: string; // ISO country code for numbers written without a country code; 'IN' when unset
+
   // Optional
   SENDGRID_API_KEY?: string;
+  SENDGRID_WEBHOOK_VERIFICATION_KEY?: string; // Base64 public key; signed event webhook POSTs must verify against it
   SESSION_SECRET: string;
 }
 
@@ -49,6 +67,7 @@ function validateEnvironment(): EnvironmentConfig {
       'WHATSAPP_ACCESS_TOKEN',
       'WHATSAPP_PHONE_NUMBER_ID',
       'WHATSAPP_WEBHOOK_VERIFY_TOKEN',
+      'WHATSAPP_APP_SECRET',
       'OPENAI_API_KEY',
       'ELEVENLABS_API_KEY',
       'SESSION_SECRET'
@@ -72,13 +91,34 @@ function validateEnvironment(): EnvironmentConfig {
     WHATSAPP_ACCESS_TOKEN: process.env.WHATSAPP_ACCESS_TOKEN!,
     WHATSAPP_PHONE_NUMBER_ID: process.env.WHATSAPP_PHONE_NUMBER_ID!,
     WHATSAPP_WEBHOOK_VERIFY_TOKEN: process.env.WHATSAPP_WEBHOOK_VERIFY_TOKEN!,
+    WHATSAPP_APP_SECRET: process.env.WHATSAPP_APP_SECRET,
     OPENAI_API_KEY: process.env.OPENAI_API_KEY!,
     ELEVENLABS_API_KEY: process.env.ELEVENLABS_API_KEY!,
+    EMAIL_TRANSPORT: process.env.EMAIL_TRANSPORT,
+    EMAIL_FROM: process.env.EMAIL_FROM,
+    SMTP_HOST: process.env.SMTP_HOST,
+    SMTP_PORT: process.env.SMTP_PORT ? parseInt(process.env.SMTP_PORT) : undefined,
+    SMTP_USER: process.env.SMTP_USER,
+    SMTP_PASS: process.env.SMTP_PASS,
+    EMAIL_MAILBOX_DIR: process.env.EMAIL_MAILBOX_DIR,
+    MEDIA_STORAGE: process.env.MEDIA_STORAGE,
+    MEDIA_STORAGE_DIR: process.env.MEDIA_STORAGE_DIR,
+    DEFAULT_PHONE_COUNTRY: process.env.DEFAULT_PHONE_COUNTRY,
     SENDGRID_API_KEY: process.env.SENDGRID_API_KEY,
+    SENDGRID_WEBHOOK_VERIFICATION_KEY: process.env.SENDGRID_WEBHOOK_VERIFICATION_KEY,
     SESSION_SECRET: process.env.SESSION_SECRET!
   };
 }
 
+// The email transport to use: EMAIL_TRANSPORT, else whichever provider is configured. The on-disk
+// mailbox is only a default outside production, where nothing would ever be delivered
+export function getEmailTransportName(config: EnvironmentConfig = env): string | undefined {
+  if (config.EMAIL_TRANSPORT) return config.EMAIL_TRANSPORT;
+  if (config.SENDGRID_API_KEY) return 'sendgrid';
+  if (config.SMTP_HOST) return 'smtp';
+  return config.NODE_ENV === 'production' ? undefined : 'mailbox';
+}
+
 // Get base URL for webhooks
 export function getBaseUrl(): string {
   const config = env;
@@ -113,6 +153,14 @@ export function logEnvironmentInfo() {
   console.log(`   DATABASE: ${env.DATABASE_URL ? '✅ Configured' : '❌ Missing'}`);
   console.log(`   TWILIO: ${env.TWILIO_ACCOUNT_SID ? '✅ Configured' : '❌ Missing'}`);
   console.log(`   WHATSAPP: ${env.WHATSAPP_ACCESS_TOKEN ? '✅ Configured' : '❌ Missing'}`);
+  console.log(`   WHATSAPP WEBHOOK SIGNATURES: ${env.WHATSAPP_APP_SECRET ? '✅ Verified' : '⚠️ Not verified (WHATSAPP_APP_SECRET missing)'}`);
   console.log(`   OPENAI: ${env.OPENAI_API_KEY ? '✅ Configured' : '❌ Missing'}`);
   console.log(`   ELEVENLABS: ${env.ELEVENLABS_API_KEY ? '✅ Configured' : '❌ Missing'}`);
+  const emailTransport = getEmailTransportName();
+  console.log(`   EMAIL: ${emailTransport || '❌ Not configured'}`);
+  if (!emailTransport) {
+    console.error('❌ No email transport configured - set SENDGRID_API_KEY, SMTP_HOST or EMAIL_TRANSPORT. Follow-up emails will fail until one is set');
+  }
+  console.log(`   MEDIA STORAGE: ${env.MEDIA_STORAGE || 'local'}`);
+  console.log(`   DEFAULT PHONE COUNTRY: ${env.DEFAULT_PHONE_COUNTRY || 'IN'}`);
 }
\ No newline at end of file
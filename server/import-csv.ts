@@ -2,6 +2,7 @@ import fs from 'fs';
 import { parse } from 'csv-parse';
 import { db } from './db';
 import { contacts } from '../shared/schema';
+import { PhoneNumberService } from './services/phoneNumberService';
 
 async function importCSV() {
   const csvPath = './import_file.csv';
@@ -32,7 +33,7 @@ async function importCSV() {
           
           const contactsToInsert = batch.map(row => {
             const name = row.name?.toString().trim() || '';
-            const phone = row.phone_number?.toString().trim() || '';
+            const phone = PhoneNumberService.normalize(row.phone_number?.toString() || '');
             
             return {
               name: name || 'Unknown Lab',
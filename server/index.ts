@@ -2,12 +2,27 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
 import { env, logEnvironmentInfo, getBaseUrl } from "./config/environment";
+import { dialerService } from "./services/dialerService";
+import { SuppressionService } from "./services/suppressionService";
+import { bulkMessageWorker } from "./services/bulkMessageWorker";
+import { contactImportWorker } from "./services/contactImportWorker";
+import { WhatsAppTemplateService } from "./services/whatsappTemplateService";
 
 // CRITICAL: Ensure webhook routes return TwiML XML, not HTML
 // Removed seedData import - calling functionality deleted
 
+declare module 'http' {
+  interface IncomingMessage {
+    rawBody?: Buffer; // Exact request bytes, needed to check webhook signatures
+  }
+}
+
 const app = express();
-app.use(express.json());
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: false }));
 
 app.use((req, res, next) => {
@@ -88,6 +103,23 @@ app.use((req, res, next) => {
     } else {
       log('🔧 Development mode - Some services may use defaults');
     }
+
+    // The dialer and bulk sends check the do-not-call list by E.164 number, so older entries are re-keyed first
+    SuppressionService.migrateLegacyKeys()
+      .catch(error => console.error('❌ Failed to re-key the do-not-call list:', error))
+      .finally(() => {
+        // Resume dialing queues for running campaigns (state is persisted in dial_queue)
+        dialerService.start();
+
+        // Resume unfinished bulk WhatsApp jobs (progress is persisted per recipient in whatsapp_messages)
+        bulkMessageWorker.start();
+      });
+
+    // Resume contact imports (progress is committed with every batch)
+    contactImportWorker.start();
+
+    // Pick up Meta's review results for submitted templates (also delivered by webhook)
+    WhatsAppTemplateService.startStatusPolling();
   });
   
   } catch (error) {
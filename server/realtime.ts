@@ -0,0 +1,21 @@
+// Updates pushed to signed-in browsers over the /ws WebSocket; the client switches on type
+export interface ClientEvent {
+  type: string;
+  [key: string]: unknown;
+}
+
+let sendToClients: ((event: ClientEvent) => void) | null = null;
+
+// Called once by registerRoutes when the WebSocket server is up
+export function setClientBroadcaster(send: (event: ClientEvent) => void): void {
+  sendToClients = send;
+}
+
+// Send an event to every connected browser; does nothing before the server starts and never throws
+export function broadcastToClients(event: ClientEvent): void {
+  try {
+    sendToClients?.(event);
+  } catch (error) {
+    console.error(`Error broadcasting ${event.type}:`, error);
+  }
+}
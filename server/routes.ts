@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { WebSocketServer, WebSocket } from "ws";
 import path from 'path';
@@ -16,14 +16,46 @@ import {
   insertCampaignSchema,
   insertCallSchema,
   insertWhatsAppTemplateSchema, 
-  insertBulkMessageJobSchema
+  LEAD_STAGES,
+  USER_ROLES,
+  type Contact,
+  type ContactImportColumn,
+  type ContactFieldDefinition,
+  type DialingConfig,
+  type SegmentRuleGroup,
+  type SegmentWithCount,
+  type WhatsAppDeadLetterStatus,
+  type WhatsAppTemplate,
+  whatsappInteractiveSchema
 } from "@shared/schema";
 import { sql, eq, desc, and } from "drizzle-orm";
 import { MessagingService } from "./services/messagingService";
-import { WhatsAppTemplateService } from "./services/whatsappTemplateService";
-import { WhatsAppService } from "./services/whatsappService";
+import { WhatsAppTemplateService, type TemplateSendComponent } from "./services/whatsappTemplateService";
+import { setClientBroadcaster, type ClientEvent } from "./realtime";
+import { WhatsAppAutoReplyService } from "./services/whatsappAutoReplyService";
+import { WhatsAppInteractiveService, DEMO_FOLLOW_UP } from "./services/whatsappInteractiveService";
+import { WhatsAppService, WhatsAppApiError, whatsappService, mediaTypeForMimeType, MEDIA_SIZE_LIMITS } from "./services/whatsappService";
+import { buildMediaKey, getMediaStorage } from "./services/mediaStorageService";
 import { callManager } from "./services/callManager";
+import { PromptTemplateService } from "./services/promptTemplateService";
+import { CallGoalService } from "./services/callGoalService";
+import { dialerService } from "./services/dialerService";
+import { bulkMessageWorker } from "./services/bulkMessageWorker";
+import { TemplateVariableService } from "./services/templateVariableService";
+import { CallRetryService } from "./services/callRetryService";
+import { VoicemailService, VOICEMAIL_DIR } from "./services/voicemailService";
+import { emailService, TRACKING_PIXEL } from "./services/emailService";
+import { SuppressionService } from "./services/suppressionService";
+import { LeadPipelineService } from "./services/leadPipelineService";
+import { TimelineService } from "./services/timelineService";
+import { ContactDedupService } from "./services/contactDedupService";
+import { PhoneNumberService } from "./services/phoneNumberService";
+import { CustomFieldService } from "./services/customFieldService";
+import { SegmentService } from "./services/segmentService";
+import { contactImportWorker } from "./services/contactImportWorker";
 import { twilioService } from "./services/twilioService";
+import { getBaseUrl } from "./config/environment";
+import { setupAuth, hashPassword, passwordErrors, toPublicUser } from "./auth";
 import express from "express";  
 import multer from "multer";
 
@@ -34,6 +66,8 @@ const upload = multer({
 });
 
 export async function registerRoutes(app: Express): Promise<Server> {
+  // Sessions, sign-in and the permission check for every /api route; webhooks stay public
+  const sessionMiddleware = setupAuth(app);
   
   // CRITICAL: Register webhook routes FIRST to bypass Vite middleware
   // WhatsApp webhook verification (GET) - highest priority
@@ -79,6 +113,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('📨 PRIORITY WhatsApp webhook received');
       
       const { whatsappService } = await import('./services/whatsappService');
+      if (!whatsappService.verifyWebhookSignature(req.rawBody, req.get('X-Hub-Signature-256'))) {
+        console.log('❌ WhatsApp webhook signature check failed');
+        return res.status(401).send('Invalid signature');
+      }
+
       await whatsappService.processWebhook(req.body);
       
       res.status(200).send('OK');
@@ -91,10 +130,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
   const httpServer = createServer(app);
 
   // WebSocket server for real-time updates
-  const wss = new WebSocketServer({ server: httpServer, path: '/ws' });
+  const wss = new WebSocketServer({
+    server: httpServer,
+    path: '/ws',
+    // Updates carry contact details, so only signed-in browsers may listen
+    verifyClient: ({ req }, done) => {
+      sessionMiddleware(req as any, {} as any, () => done(!!(req as any).session?.passport?.user, 401));
+    }
+  });
 
   // Broadcast to all connected clients
-  const broadcast = (data: any) => {
+  const broadcast = (data: ClientEvent) => {
     wss.clients.forEach(client => {
       if (client.readyState === WebSocket.OPEN) {
         client.send(JSON.stringify(data));
@@ -102,8 +148,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   };
 
-  // Export broadcast function for use in other modules
-  (global as any).broadcastToClients = broadcast;
+  // Services send their updates through broadcastToClients in realtime.ts
+  setClientBroadcaster(broadcast);
 
   wss.on('connection', (ws) => {
     console.log('WebSocket client connected');
@@ -113,6 +159,104 @@ export async function registerRoutes(app: Express): Promise<Server> {
     });
   });
 
+  // Users
+  const userErrors = (input: Record<string, any>, isNew: boolean) => {
+    const errors: string[] = [];
+    if (isNew && (typeof input.username !== 'string' || !input.username.trim())) errors.push('username is required');
+    if (isNew || input.password !== undefined) errors.push(...passwordErrors(input.password));
+    if ((isNew || input.role !== undefined) && !USER_ROLES.includes(input.role)) {
+      errors.push(`role must be one of: ${USER_ROLES.join(', ')}`);
+    }
+    return errors;
+  };
+
+  // Whether the change would leave nobody able to manage users
+  const removesLastAdmin = async (userId: string) => {
+    const admins = (await storage.getUsers()).filter(user => user.role === 'admin' && user.active);
+    return admins.length === 1 && admins[0].id === userId;
+  };
+
+  app.get('/api/users', async (req, res) => {
+    try {
+      const users = await storage.getUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error('Error fetching users:', error);
+      res.status(500).json({ error: 'Failed to fetch users' });
+    }
+  });
+
+  app.post('/api/users', async (req, res) => {
+    try {
+      const errors = userErrors(req.body, true);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid user', details: errors });
+      }
+      const username = req.body.username.trim();
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ error: `Username "${username}" is already taken` });
+      }
+      const user = await storage.createUser({
+        username,
+        password: await hashPassword(req.body.password),
+        displayName: req.body.displayName?.trim() || null,
+        role: req.body.role
+      });
+      console.log(`👤 User created: ${user.username} (${user.role})`);
+      res.status(201).json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error creating user:', error);
+      res.status(500).json({ error: 'Failed to create user' });
+    }
+  });
+
+  app.put('/api/users/:id', async (req, res) => {
+    try {
+      const errors = userErrors(req.body, false);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid user', details: errors });
+      }
+      const { displayName, role, active, password } = req.body;
+      const demoted = (role !== undefined && role !== 'admin') || active === false;
+      if (demoted && await removesLastAdmin(req.params.id)) {
+        return res.status(400).json({ error: 'There must be at least one active admin' });
+      }
+
+      const user = await storage.updateUser(req.params.id, {
+        ...(displayName !== undefined && { displayName: displayName?.trim() || null }),
+        ...(role !== undefined && { role }),
+        ...(active !== undefined && { active: !!active }),
+        ...(password !== undefined && { password: await hashPassword(password) })
+      });
+      if (!user) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json(toPublicUser(user));
+    } catch (error) {
+      console.error('Error updating user:', error);
+      res.status(500).json({ error: 'Failed to update user' });
+    }
+  });
+
+  app.delete('/api/users/:id', async (req, res) => {
+    try {
+      if (req.params.id === req.user?.id) {
+        return res.status(400).json({ error: 'You cannot delete your own account' });
+      }
+      if (await removesLastAdmin(req.params.id)) {
+        return res.status(400).json({ error: 'There must be at least one active admin' });
+      }
+      const deleted = await storage.deleteUser(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'User not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting user:', error);
+      res.status(500).json({ error: 'Failed to delete user' });
+    }
+  });
+
   // Health check routes
   const { HealthController } = await import('./controllers/HealthController');
   const healthController = new HealthController();
@@ -156,9 +300,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/campaigns', async (req, res) => {
     try {
+      const goalErrors = CallGoalService.validateGoals(req.body.callGoals);
+      if (goalErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid call goals', details: goalErrors });
+      }
+      const retryPolicyErrors = CallRetryService.validateRetryPolicy(req.body.retryPolicy);
+      if (retryPolicyErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid retry policy', details: retryPolicyErrors });
+      }
+
       const campaignData = insertCampaignSchema.parse(req.body);
       const campaign = await storage.createCampaign(campaignData);
 
+      // Pre-render the voicemail drop in the background so the first machine-answered call doesn't wait
+      VoicemailService.prepareVoicemail(campaign).catch(error => console.error('Error rendering voicemail:', error));
+
       broadcast({ type: 'campaign_created', campaign });
 
       res.status(201).json(campaign);
@@ -171,10 +327,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/campaigns/:id', async (req, res) => {
     try {
       const { id } = req.params;
+      const goalErrors = CallGoalService.validateGoals(req.body.callGoals);
+      if (goalErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid call goals', details: goalErrors });
+      }
+      const retryPolicyErrors = CallRetryService.validateRetryPolicy(req.body.retryPolicy);
+      if (retryPolicyErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid retry policy', details: retryPolicyErrors });
+      }
+
       const campaignData = req.body;
 
       const updatedCampaign = await storage.updateCampaign(id, campaignData);
 
+      if (updatedCampaign) {
+        VoicemailService.prepareVoicemail(updatedCampaign).catch(error => console.error('Error rendering voicemail:', error));
+      }
+
       broadcast({ type: 'campaign_updated', campaign: updatedCampaign });
 
       res.json(updatedCampaign);
@@ -210,6 +379,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // A saved segment's rules, checked against the current custom fields since one may have been deleted
+  const loadSegmentRules = async (segmentId: string, definitions: ContactFieldDefinition[]) => {
+    const segment = await storage.getSegment(segmentId);
+    if (!segment) return { status: 404, body: { error: 'Segment not found' } };
+    const errors = SegmentService.validate(segment.rules, definitions);
+    if (errors.length > 0) return { status: 400, body: { error: `Segment "${segment.name}" has invalid rules`, details: errors } };
+    return { segment, rules: segment.rules as SegmentRuleGroup };
+  };
+
+  // Contact IDs of a segment for campaign and bulk send audiences
+  const loadSegmentAudience = async (segmentId: string) => {
+    const definitions = await storage.getContactFieldDefinitions();
+    const loaded = await loadSegmentRules(segmentId, definitions);
+    if (!loaded.rules) return { status: loaded.status, body: loaded.body };
+    return { segment: loaded.segment, contactIds: await storage.getContactIdsWhere(SegmentService.compile(loaded.rules, definitions)) };
+  };
+
+  // Picked contacts plus, when a segment is chosen, everyone in it
+  const bulkAudience = async (contactIds: unknown, segmentId?: string) => {
+    const picked: string[] = Array.isArray(contactIds) ? contactIds : [];
+    if (!segmentId) return { contactIds: picked };
+    const audience = await loadSegmentAudience(segmentId);
+    if (!audience.contactIds) return { status: audience.status, body: audience.body };
+    return { contactIds: Array.from(new Set([...picked, ...audience.contactIds])) };
+  };
+
   // Enhanced contacts with pagination and filtering
   app.get('/api/contacts/enhanced', async (req, res) => {
     try {
@@ -227,6 +422,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const states = req.query.states ? (req.query.states as string).split(',').filter(s => s.trim()) : [];
       const statuses = req.query.statuses ? (req.query.statuses as string).split(',').filter(s => s.trim()) : [];
       const engagementMin = parseInt(req.query.engagementMin as string) || 0;
+      const tags = CustomFieldService.normalizeTags(req.query.tags || '') || [];
+      const definitions = await storage.getContactFieldDefinitions();
+      const customFields = CustomFieldService.parseFilters(req.query.customFields, definitions);
+      const segmentId = req.query.segmentId as string || '';
+
+      // Tags, custom fields and the segment are compiled together into one parameterized condition
+      const rules = SegmentService.filterRules(tags, customFields, definitions);
+      if (segmentId) {
+        const segment = await loadSegmentRules(segmentId, definitions);
+        if (!segment.rules) {
+          return res.status(segment.status).json(segment.body);
+        }
+        rules.rules.push(segment.rules);
+      }
       
       // Backward compatibility for single city/state filters
       const singleCity = req.query.city as string || '';
@@ -235,7 +444,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       if (singleState && !states.length) states.push(singleState);
       
       console.log(`📋 Pagination: page=${page}, limit=${limit}, offset=${offset}`);
-      console.log(`🔍 Filters: search="${searchTerm}", cities=[${cities.join(', ')}], states=[${states.join(', ')}], statuses=[${statuses.join(', ')}], engagementMin=${engagementMin}`);
+      console.log(`🔍 Filters: search="${searchTerm}", cities=[${cities.join(', ')}], states=[${states.join(', ')}], statuses=[${statuses.join(', ')}], engagementMin=${engagementMin}, tags=[${tags.join(', ')}], customFields=${customFields.length}, segment=${segmentId || 'none'}`);
       
       const contactsResult = await storage.getContactsPaginated({
         limit,
@@ -244,7 +453,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         cities,
         states,
         statuses,
-        engagementMin
+        engagementMin,
+        where: rules.rules.length > 0 ? SegmentService.compile(rules, definitions) : undefined
       });
       
       const endTime = Date.now();
@@ -276,6 +486,142 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Move a contact to another lead stage by hand
+  app.put('/api/contacts/:id/stage', async (req, res) => {
+    try {
+      const { stage, reason } = req.body;
+      if (!LeadPipelineService.isLeadStage(stage)) {
+        return res.status(400).json({ error: `Invalid lead stage. Expected one of: ${LEAD_STAGES.join(', ')}` });
+      }
+
+      const contact = await LeadPipelineService.setStage(req.params.id, stage, { source: 'manual', reason });
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(contact);
+    } catch (error) {
+      console.error('Error updating lead stage:', error);
+      res.status(500).json({ error: 'Failed to update lead stage' });
+    }
+  });
+
+  app.get('/api/contacts/:id/stage-history', async (req, res) => {
+    try {
+      const history = await storage.getLeadStageHistory(req.params.id);
+      res.json(history);
+    } catch (error) {
+      console.error('Error fetching lead stage history:', error);
+      res.status(500).json({ error: 'Failed to fetch lead stage history' });
+    }
+  });
+
+  // Calls, WhatsApp messages, emails, stage changes and notes for one contact, newest first
+  app.get('/api/contacts/:id/timeline', async (req, res) => {
+    try {
+      const timeline = await TimelineService.getTimeline(req.params.id);
+      if (!timeline) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(timeline);
+    } catch (error) {
+      console.error('Error fetching contact timeline:', error);
+      res.status(500).json({ error: 'Failed to fetch contact timeline' });
+    }
+  });
+
+  app.post('/api/contacts/:id/notes', async (req, res) => {
+    try {
+      const body = typeof req.body.body === 'string' ? req.body.body.trim() : '';
+      if (!body) {
+        return res.status(400).json({ error: 'Invalid note', details: 'Note text is required' });
+      }
+
+      const contact = await storage.getContact(req.params.id);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+
+      const note = await storage.createContactNote({
+        contactId: contact.id,
+        body,
+        author: req.user?.displayName || req.user?.username || null
+      });
+      res.status(201).json(note);
+    } catch (error) {
+      console.error('Error creating contact note:', error);
+      res.status(500).json({ error: 'Failed to create note' });
+    }
+  });
+
+  app.delete('/api/contacts/:id/notes/:noteId', async (req, res) => {
+    try {
+      const deleted = await storage.deleteContactNote(req.params.id, req.params.noteId);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Note not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting contact note:', error);
+      res.status(500).json({ error: 'Failed to delete note' });
+    }
+  });
+
+  // Number of contacts in each lead stage
+  app.get('/api/leads/pipeline', async (req, res) => {
+    try {
+      const counts = await storage.getLeadStageCounts();
+      res.json(LEAD_STAGES.map(stage => ({ stage, count: counts[stage] || 0 })));
+    } catch (error) {
+      console.error('Error fetching lead pipeline:', error);
+      res.status(500).json({ error: 'Failed to fetch lead pipeline' });
+    }
+  });
+
+  // Groups of contacts that look like the same person
+  app.get('/api/contacts/duplicates', async (req, res) => {
+    try {
+      const groups = await ContactDedupService.findDuplicates();
+      res.json(groups);
+    } catch (error) {
+      console.error('Error finding duplicate contacts:', error);
+      res.status(500).json({ error: 'Failed to find duplicate contacts' });
+    }
+  });
+
+  // Fold duplicates into one contact, keeping their calls, messages, engagements and notes
+  app.post('/api/contacts/merge', async (req, res) => {
+    try {
+      const { survivorId, duplicateIds } = req.body;
+      const ids: string[] = Array.isArray(duplicateIds) ? Array.from(new Set(duplicateIds.filter((id: unknown) => typeof id === 'string'))) : [];
+      if (typeof survivorId !== 'string' || ids.length === 0 || ids.includes(survivorId)) {
+        return res.status(400).json({
+          error: 'Invalid merge request',
+          details: 'survivorId and at least one other contact in duplicateIds are required'
+        });
+      }
+
+      const contact = await ContactDedupService.merge(survivorId, ids);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      res.json(contact);
+    } catch (error) {
+      console.error('Error merging contacts:', error);
+      res.status(500).json({ error: 'Failed to merge contacts' });
+    }
+  });
+
+  // Rewrite existing phone and WhatsApp numbers in E.164
+  app.post('/api/contacts/normalize-phones', async (req, res) => {
+    try {
+      const result = await ContactDedupService.normalizePhones();
+      res.json(result);
+    } catch (error) {
+      console.error('Error normalizing phone numbers:', error);
+      res.status(500).json({ error: 'Failed to normalize phone numbers' });
+    }
+  });
+
   // Get unique filter options for contacts
   app.get('/api/contacts/filter-options', async (req, res) => {
     try {
@@ -287,9 +633,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Phone fields that were given but cannot be read as a number of any supported format
+  const phoneFieldErrors = (contact: { phone?: string | null; whatsappNumber?: string | null }) =>
+    (['phone', 'whatsappNumber'] as const)
+      .filter(field => contact[field] && !PhoneNumberService.toE164(contact[field]))
+      .map(field => `${field} "${contact[field]}" is not a valid phone number for ${PhoneNumberService.defaultCountry()} or in international format`);
+
+  // Coerce custom field values to their field types and normalize tags, in place; returns a list of problems
+  const customFieldErrors = async (contact: { customFields?: unknown; tags?: unknown }): Promise<string[]> => {
+    const errors: string[] = [];
+    if (contact.customFields !== undefined) {
+      const result = CustomFieldService.validateValues(contact.customFields, await storage.getContactFieldDefinitions());
+      contact.customFields = result.values;
+      errors.push(...result.errors);
+    }
+    if (contact.tags !== undefined) {
+      const tags = CustomFieldService.normalizeTags(contact.tags);
+      if (tags) contact.tags = tags;
+      else errors.push('tags must be a list of strings');
+    }
+    return errors;
+  };
+
   app.post('/api/contacts', async (req, res) => {
     try {
       const contactData = insertContactSchema.parse(req.body);
+      const phoneErrors = phoneFieldErrors(contactData);
+      if (phoneErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid phone number', details: phoneErrors });
+      }
+      const fieldErrors = await customFieldErrors(contactData);
+      if (fieldErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields or tags', details: fieldErrors });
+      }
       const contact = await storage.createContact(contactData);
       res.status(201).json(contact);
     } catch (error) {
@@ -302,6 +678,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { id } = req.params;
       const contactData = req.body;
+      const phoneErrors = phoneFieldErrors(contactData);
+      if (phoneErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid phone number', details: phoneErrors });
+      }
+      const fieldErrors = await customFieldErrors(contactData);
+      if (fieldErrors.length > 0) {
+        return res.status(400).json({ error: 'Invalid custom fields or tags', details: fieldErrors });
+      }
 
       const updatedContact = await storage.updateContact(id, contactData);
       res.json(updatedContact);
@@ -322,11 +706,205 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Custom contact fields
+  app.get('/api/contact-fields', async (req, res) => {
+    try {
+      const definitions = await storage.getContactFieldDefinitions();
+      res.json(definitions);
+    } catch (error) {
+      console.error('Error fetching contact fields:', error);
+      res.status(500).json({ error: 'Failed to fetch contact fields' });
+    }
+  });
+
+  app.post('/api/contact-fields', async (req, res) => {
+    try {
+      const { key, label, type, options } = req.body;
+      const errors = CustomFieldService.validateDefinition({ key, label, type, options });
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid contact field', details: errors });
+      }
+      const existing = await storage.getContactFieldDefinitions();
+      if (existing.some(definition => definition.key === key)) {
+        return res.status(409).json({ error: `A contact field with key "${key}" already exists` });
+      }
+
+      const definition = await storage.createContactFieldDefinition({
+        key,
+        label: label.trim(),
+        type,
+        options: type === 'enum' ? options.map((option: string) => option.trim()) : null
+      });
+      console.log(`🏷️ Contact field created: ${definition.key} (${definition.type})`);
+      res.status(201).json(definition);
+    } catch (error) {
+      console.error('Error creating contact field:', error);
+      res.status(500).json({ error: 'Failed to create contact field' });
+    }
+  });
+
+  app.put('/api/contact-fields/:id', async (req, res) => {
+    try {
+      const existing = await storage.getContactFieldDefinition(req.params.id);
+      if (!existing) {
+        return res.status(404).json({ error: 'Contact field not found' });
+      }
+      const { key, label, type, options } = req.body;
+      const errors = CustomFieldService.validateDefinition({ key, label, type, options }, existing);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid contact field', details: errors });
+      }
+
+      // Values already stored keep working if an enum option is removed; they just can't be chosen again
+      const definition = await storage.updateContactFieldDefinition(existing.id, {
+        ...(label !== undefined && { label: label.trim() }),
+        ...(existing.type === 'enum' && options !== undefined && { options: options.map((option: string) => option.trim()) })
+      });
+      res.json(definition);
+    } catch (error) {
+      console.error('Error updating contact field:', error);
+      res.status(500).json({ error: 'Failed to update contact field' });
+    }
+  });
+
+  app.delete('/api/contact-fields/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteContactFieldDefinition(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Contact field not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting contact field:', error);
+      res.status(500).json({ error: 'Failed to delete contact field' });
+    }
+  });
+
+  // Segments
+  app.get('/api/segments', async (req, res) => {
+    try {
+      const segments = await storage.getSegments();
+      const definitions = await storage.getContactFieldDefinitions();
+      const withCounts: SegmentWithCount[] = [];
+      for (const segment of segments) {
+        const valid = SegmentService.validate(segment.rules, definitions).length === 0;
+        const result = valid
+          ? await storage.getContactsPaginated({ limit: 0, offset: 0, where: SegmentService.compile(segment.rules as SegmentRuleGroup, definitions) })
+          : null;
+        withCounts.push({ ...segment, contactCount: result ? result.total : null });
+      }
+      res.json(withCounts);
+    } catch (error) {
+      console.error('Error fetching segments:', error);
+      res.status(500).json({ error: 'Failed to fetch segments' });
+    }
+  });
+
+  app.get('/api/segments/:id', async (req, res) => {
+    try {
+      const segment = await storage.getSegment(req.params.id);
+      if (!segment) {
+        return res.status(404).json({ error: 'Segment not found' });
+      }
+      res.json(segment);
+    } catch (error) {
+      console.error('Error fetching segment:', error);
+      res.status(500).json({ error: 'Failed to fetch segment' });
+    }
+  });
+
+  // Count and sample the contacts matching unsaved rules, so the builder can show live counts
+  app.post('/api/segments/preview', async (req, res) => {
+    try {
+      const errors = SegmentService.validate(req.body.rules, await storage.getContactFieldDefinitions());
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid segment rules', details: errors });
+      }
+      const preview = await SegmentService.preview(req.body.rules);
+      res.json(preview);
+    } catch (error) {
+      console.error('Error previewing segment:', error);
+      res.status(500).json({ error: 'Failed to preview segment' });
+    }
+  });
+
+  app.post('/api/segments', async (req, res) => {
+    try {
+      const { name, description, rules } = req.body;
+      const errors = SegmentService.validate(rules, await storage.getContactFieldDefinitions());
+      if (typeof name !== 'string' || !name.trim()) errors.unshift('name is required');
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid segment', details: errors });
+      }
+      const segment = await storage.createSegment({ name: name.trim(), description: description || null, rules });
+      console.log(`🎯 Segment created: ${segment.name}`);
+      res.status(201).json(segment);
+    } catch (error) {
+      console.error('Error creating segment:', error);
+      res.status(500).json({ error: 'Failed to create segment' });
+    }
+  });
+
+  app.put('/api/segments/:id', async (req, res) => {
+    try {
+      const { name, description, rules } = req.body;
+      const errors = rules === undefined ? [] : SegmentService.validate(rules, await storage.getContactFieldDefinitions());
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) errors.unshift('name is required');
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid segment', details: errors });
+      }
+      const segment = await storage.updateSegment(req.params.id, {
+        ...(name !== undefined && { name: name.trim() }),
+        ...(description !== undefined && { description: description || null }),
+        ...(rules !== undefined && { rules })
+      });
+      if (!segment) {
+        return res.status(404).json({ error: 'Segment not found' });
+      }
+      res.json(segment);
+    } catch (error) {
+      console.error('Error updating segment:', error);
+      res.status(500).json({ error: 'Failed to update segment' });
+    }
+  });
+
+  app.delete('/api/segments/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteSegment(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Segment not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting segment:', error);
+      res.status(500).json({ error: 'Failed to delete segment' });
+    }
+  });
+
   // ===========================
   // AUDIO SERVING ENDPOINT
   // ===========================
 
   // Serve audio files for Twilio to play
+  // Serve pre-rendered voicemail audio (kept on disk, unlike per-call audio)
+  app.get('/audio/voicemail/:filename', (req, res) => {
+    try {
+      const audioFilePath = path.join(VOICEMAIL_DIR, path.basename(req.params.filename));
+
+      if (!fs.existsSync(audioFilePath)) {
+        console.log('Voicemail audio not found:', audioFilePath);
+        return res.status(404).send('Audio file not found');
+      }
+
+      res.setHeader('Content-Type', 'audio/mpeg');
+      res.setHeader('Cache-Control', 'public, max-age=3600');
+      fs.createReadStream(audioFilePath).pipe(res);
+    } catch (error) {
+      console.error('Error serving voicemail audio:', error);
+      res.status(500).send('Error serving audio file');
+    }
+  });
+
   app.get('/audio/:filename', (req, res) => {
     try {
       const filename = req.params.filename;
@@ -357,32 +935,111 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Contact import/export with timeout protection
-  app.post('/api/contacts/upload', upload.single('file'), async (req, res) => {
+  // Contact import wizard: upload → map columns → dry run → background import
+  app.post('/api/contacts/imports', upload.single('file'), async (req, res) => {
     try {
       if (!req.file) {
         return res.status(400).json({ error: 'No file uploaded' });
       }
 
-      // Set extended timeout for bulk uploads
-      req.setTimeout(15 * 60 * 1000); // 15 minutes for large files
-      res.setTimeout(15 * 60 * 1000);
+      let result;
+      try {
+        result = await contactImportWorker.createJob(req.file.originalname, req.file.mimetype, req.file.buffer);
+      } catch (error) {
+        return res.status(400).json({
+          error: 'Could not read the file',
+          details: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+      res.status(201).json(result);
+    } catch (error) {
+      console.error('Error uploading contact import:', error);
+      res.status(500).json({ error: 'Failed to upload contact import' });
+    }
+  });
 
-      console.log(`Starting bulk CSV import of ${req.file.originalname} (${req.file.size} bytes)`);
-      const { ExcelService } = await import('./services/excelService');
-      
-      // Process without timeout restriction for bulk uploads
-      const result = await ExcelService.importContactsFromExcel(req.file.buffer);
-      
-      console.log(`CSV import completed: ${result.imported} imported, ${result.errors.length} errors`);
+  app.get('/api/contacts/imports', async (req, res) => {
+    try {
+      const jobs = await storage.getContactImportJobs();
+      res.json(jobs);
+    } catch (error) {
+      console.error('Error fetching contact imports:', error);
+      res.status(500).json({ error: 'Failed to fetch contact imports' });
+    }
+  });
+
+  app.get('/api/contacts/imports/:id', async (req, res) => {
+    try {
+      const job = await storage.getContactImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error fetching contact import:', error);
+      res.status(500).json({ error: 'Failed to fetch contact import' });
+    }
+  });
+
+  // Mapping from the request body, checked against the columns the uploaded file has
+  const loadImportDraft = async (jobId: string, mapping: unknown) => {
+    const job = await storage.getContactImportJob(jobId);
+    if (!job) return { status: 404, body: { error: 'Import not found' } };
+    if (job.status !== 'draft') return { status: 409, body: { error: 'Import has already been started' } };
+
+    const headers = ((job.mapping as ContactImportColumn[] | null) || []).map(column => column.header);
+    const errors = contactImportWorker.validateMapping(mapping, headers);
+    if (errors.length > 0) return { status: 400, body: { error: 'Invalid column mapping', details: errors } };
+    return { job, mapping: mapping as ContactImportColumn[] };
+  };
+
+  // Count valid, invalid and duplicate rows without importing anything
+  app.post('/api/contacts/imports/:id/dry-run', async (req, res) => {
+    try {
+      const draft = await loadImportDraft(req.params.id, req.body.mapping);
+      if (!draft.job) {
+        return res.status(draft.status).json(draft.body);
+      }
+      const result = await contactImportWorker.dryRun(draft.job, draft.mapping);
       res.json(result);
-    } catch (error: any) {
-      console.error('Error importing contacts:', error);
-      res.status(500).json({ 
-        error: error.message?.includes('timeout') ? 
-          'File too large - try splitting into smaller files' : 
-          'Failed to import contacts' 
-      });
+    } catch (error) {
+      console.error('Error running contact import dry run:', error);
+      res.status(500).json({ error: 'Failed to check contact import' });
+    }
+  });
+
+  app.post('/api/contacts/imports/:id/start', async (req, res) => {
+    try {
+      const draft = await loadImportDraft(req.params.id, req.body.mapping);
+      if (!draft.job) {
+        return res.status(draft.status).json(draft.body);
+      }
+      const job = await contactImportWorker.startJob(draft.job.id, draft.mapping);
+      if (!job) {
+        return res.status(409).json({ error: 'Import has already been started' });
+      }
+      res.json(job);
+    } catch (error) {
+      console.error('Error starting contact import:', error);
+      res.status(500).json({ error: 'Failed to start contact import' });
+    }
+  });
+
+  // Every skipped row with the reason, as CSV
+  app.get('/api/contacts/imports/:id/errors.csv', async (req, res) => {
+    try {
+      const job = await storage.getContactImportJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Import not found' });
+      }
+      const csv = await contactImportWorker.buildErrorReport(job);
+      const fileName = `${path.parse(job.fileName).name}-errors.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`);
+      res.send(csv);
+    } catch (error) {
+      console.error('Error building contact import error report:', error);
+      res.status(500).json({ error: 'Failed to build error report' });
     }
   });
 
@@ -412,14 +1069,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/whatsapp/templates/examples', (req, res) => {
+    res.json(WhatsAppTemplateService.getTemplateExamples());
+  });
+
+  // Validate a new template against Meta's rules and submit it for review
   app.post('/api/whatsapp/templates', async (req, res) => {
     try {
-      const templateData = insertWhatsAppTemplateSchema.parse(req.body);
-      const template = await storage.createWhatsAppTemplate(templateData);
+      const errors = WhatsAppTemplateService.validateTemplate(req.body);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid template', details: errors });
+      }
+      const template = await WhatsAppTemplateService.createTemplate(req.body);
+      console.log(`📋 Template ${template.name} submitted to Meta: ${template.status}`);
       res.status(201).json(template);
     } catch (error) {
       console.error('Error creating WhatsApp template:', error);
-      res.status(500).json({ error: 'Failed to create template' });
+      res.status(500).json({
+        error: 'Failed to create template',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
     }
   });
 
@@ -431,6 +1100,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Fetch approved templates from Meta
       const metaTemplates = await whatsappService.fetchApprovedTemplates();
+
+      // Pending, rejected and paused templates are not in the approved list; update their review status separately
+      try {
+        await WhatsAppTemplateService.refreshTemplateStatuses();
+      } catch (error) {
+        console.error('❌ Error refreshing template statuses:', error);
+      }
       
       if (metaTemplates.length === 0) {
         return res.json({ 
@@ -504,7 +1180,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/whatsapp/bulk-jobs', async (req, res) => {
+  // Placeholder structure of a template and its current variable mapping
+  app.get('/api/whatsapp/templates/:id/mapping', async (req, res) => {
+    try {
+      const template = await storage.getWhatsAppTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      const mapping = TemplateVariableService.getMapping(template);
+      res.json({
+        structure: TemplateVariableService.getStructure(template),
+        mapping,
+        isDefault: !template.variableMapping,
+        errors: TemplateVariableService.validateMapping(template, mapping)
+      });
+    } catch (error) {
+      console.error('Error fetching template mapping:', error);
+      res.status(500).json({ error: 'Failed to fetch template mapping' });
+    }
+  });
+
+  app.put('/api/whatsapp/templates/:id/mapping', async (req, res) => {
+    try {
+      const template = await storage.getWhatsAppTemplate(req.params.id);
+      if (!template) {
+        return res.status(404).json({ error: 'Template not found' });
+      }
+      const definitions = await storage.getContactFieldDefinitions();
+      const errors = TemplateVariableService.validateMapping(template, req.body.mapping, definitions.map(definition => definition.key));
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid variable mapping', details: errors });
+      }
+      const updated = await storage.updateWhatsAppTemplate(template.id, { variableMapping: req.body.mapping });
+      console.log(`🔗 Variable mapping saved for template ${template.name}`);
+      res.json(updated);
+    } catch (error) {
+      console.error('Error saving template mapping:', error);
+      res.status(500).json({ error: 'Failed to save template mapping' });
+    }
+  });
+
+  app.get('/api/whatsapp/bulk/jobs', async (req, res) => {
     try {
       const jobs = await storage.getBulkMessageJobs();
       res.json(jobs);
@@ -514,15 +1230,162 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/whatsapp/bulk-send', async (req, res) => {
-    try {
-      const jobData = insertBulkMessageJobSchema.parse(req.body);
-      const job = await storage.createBulkMessageJob(jobData);
+  // A job with the per-recipient message rows it has produced so far
+  app.get('/api/whatsapp/bulk/jobs/:id', async (req, res) => {
+    try {
+      const job = await storage.getBulkMessageJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Bulk job not found' });
+      }
+      const messages = await storage.getBulkJobMessages(job.id);
+      res.json({ ...job, messages });
+    } catch (error) {
+      console.error('Error fetching bulk message job:', error);
+      res.status(500).json({ error: 'Failed to fetch job' });
+    }
+  });
+
+  // Resolve and check every recipient for a template, with the rendered message per contact
+  app.post('/api/whatsapp/bulk/preview', async (req, res) => {
+    try {
+      const { templateId, templateName, recipients, segmentId } = req.body;
+      const audience = await bulkAudience(req.body.contactIds, segmentId);
+      if (!audience.contactIds) {
+        return res.status(audience.status).json(audience.body);
+      }
+      const templates = await storage.getWhatsAppTemplates();
+      const template = templates.find(t => (templateId && t.id === templateId) || (templateName && t.name === templateName));
+      if (!template) {
+        return res.status(404).json({ error: `Template ${templateName || templateId} not found` });
+      }
+
+      const phoneNumbers: string[] = (Array.isArray(recipients) ? recipients : []).map((recipient: any) => String(recipient?.phoneNumber || ''));
+      const resolved = await bulkMessageWorker.resolveRecipients(template, audience.contactIds, phoneNumbers);
+      res.json({
+        mappingErrors: TemplateVariableService.validateMapping(template, TemplateVariableService.getMapping(template)),
+        newPhones: resolved.newPhones,
+        recipients: resolved.previews
+      });
+    } catch (error) {
+      console.error('Error previewing bulk recipients:', error);
+      res.status(500).json({ error: 'Failed to preview recipients' });
+    }
+  });
+
+  // Edit a scheduled job before it starts: name, recipients, timing, recurrence and cool-down
+  app.put('/api/whatsapp/bulk/jobs/:id', async (req, res) => {
+    try {
+      const job = await storage.getBulkMessageJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Bulk job not found' });
+      }
+      if (job.status !== 'pending') {
+        return res.status(409).json({ error: `Job is ${job.status}; only jobs that have not started can be edited` });
+      }
+      const template = job.templateId ? await storage.getWhatsAppTemplate(job.templateId) : undefined;
+      if (!template) {
+        return res.status(404).json({ error: 'Template for this job no longer exists' });
+      }
+
+      const { name, contactIds, languageCode, delayMs, scheduledAt, recurrence, cooldownHours } = req.body;
+      const current = bulkMessageWorker.toRequest(job, template);
+      const request = {
+        ...current,
+        ...(name !== undefined && { name }),
+        ...(contactIds !== undefined && { contactIds }),
+        ...(languageCode !== undefined && { languageCode }),
+        ...(delayMs !== undefined && { delayMs: Number(delayMs) }),
+        ...(scheduledAt !== undefined && { scheduledAt: scheduledAt ? new Date(scheduledAt) : null }),
+        ...(recurrence !== undefined && { recurrence }),
+        ...(cooldownHours !== undefined && { cooldownHours: Number(cooldownHours) })
+      };
+      const errors = bulkMessageWorker.validateRequest(request);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid bulk job update', details: errors });
+      }
+      if (contactIds !== undefined) {
+        const { previews } = await bulkMessageWorker.resolveRecipients(template, request.contactIds, []);
+        const invalidRecipients = previews.filter(preview => preview.errors.length > 0);
+        if (invalidRecipients.length > 0) {
+          return res.status(400).json({ error: `${invalidRecipients.length} recipients cannot be sent this template`, invalidRecipients });
+        }
+      }
+
+      const updated = await bulkMessageWorker.updateJob(job.id, request);
+      if (!updated) {
+        return res.status(409).json({ error: 'Job started before the update could be applied' });
+      }
+      res.json(updated);
+    } catch (error) {
+      console.error('Error updating bulk message job:', error);
+      res.status(500).json({ error: 'Failed to update job' });
+    }
+  });
+
+  app.post('/api/whatsapp/bulk/jobs/:id/cancel', async (req, res) => {
+    try {
+      const job = await storage.getBulkMessageJob(req.params.id);
+      if (!job) {
+        return res.status(404).json({ error: 'Bulk job not found' });
+      }
+      const cancelled = await bulkMessageWorker.cancelJob(job.id);
+      if (!cancelled) {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+      res.json(cancelled);
+    } catch (error) {
+      console.error('Error cancelling bulk message job:', error);
+      res.status(500).json({ error: 'Failed to cancel job' });
+    }
+  });
+
+  // Queue a bulk template send. Recipients are contactIds, or phone numbers
+  // (recipients: [{ phoneNumber }]) which are matched to contacts and added when unknown.
+  // Optional scheduledAt, recurrence and cooldownHours control when and to whom it goes out.
+  app.post('/api/whatsapp/bulk/send', async (req, res) => {
+    try {
+      const { templateId, templateName, recipients, languageCode, delayMs, name, scheduledAt, recurrence, cooldownHours, segmentId } = req.body;
+      const audience = await bulkAudience(req.body.contactIds, segmentId);
+      if (!audience.contactIds) {
+        return res.status(audience.status).json(audience.body);
+      }
+
+      const templates = await storage.getWhatsAppTemplates();
+      const template = templates.find(t => (templateId && t.id === templateId) || (templateName && t.name === templateName));
+      if (!template) {
+        return res.status(404).json({ error: `Template ${templateName || templateId} not found` });
+      }
+
+      const phoneNumbers: string[] = (Array.isArray(recipients) ? recipients : []).map((recipient: any) => String(recipient?.phoneNumber || ''));
+      const resolved = await bulkMessageWorker.resolveRecipients(template, audience.contactIds, phoneNumbers);
+
+      const request = {
+        name,
+        template,
+        contactIds: [...resolved.contactIds, ...resolved.newPhones],
+        languageCode,
+        delayMs: delayMs === undefined ? undefined : Number(delayMs),
+        scheduledAt: scheduledAt ? new Date(scheduledAt) : null,
+        recurrence: recurrence || null,
+        cooldownHours: cooldownHours === undefined ? undefined : Number(cooldownHours)
+      };
+      const errors = bulkMessageWorker.validateRequest(request);
+      if (errors.length > 0) {
+        return res.status(400).json({ error: 'Invalid bulk send request', details: errors });
+      }
+      const invalidRecipients = resolved.previews.filter(preview => preview.errors.length > 0);
+      if (invalidRecipients.length > 0) {
+        return res.status(400).json({ error: `${invalidRecipients.length} recipients cannot be sent this template`, invalidRecipients });
+      }
 
-      // Start the messaging process
-      // Note: processBulkJob method would need to be implemented
-      console.log(`Bulk job ${job.id} created successfully`);
+      // Unknown numbers become contacts only once the whole job is known to be valid
+      request.contactIds = [...resolved.contactIds];
+      for (const phone of resolved.newPhones) {
+        const contact = await storage.createContact(bulkMessageWorker.newRecipientContact(phone));
+        request.contactIds.push(contact.id);
+      }
 
+      const job = await bulkMessageWorker.createJob(request);
       res.status(201).json(job);
     } catch (error) {
       console.error('Error creating bulk message job:', error);
@@ -548,104 +1411,290 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Send a WhatsApp message
+  // Free-form messages are only delivered within 24 hours of the contact's last message; outside that
+  // window Meta rejects them (error 131047), so refuse up front and point at the approved templates
+  const checkSessionWindow = async (contactId: string) => {
+    const conversation = await storage.getWhatsAppConversation(contactId);
+    if (WhatsAppAutoReplyService.isWithinSessionWindow(conversation)) return null;
+
+    const templates = (await storage.getWhatsAppTemplates())
+      .filter(template => !WhatsAppTemplateService.unsendableReason(template))
+      .map(({ id, name, language, category, content }) => ({ id, name, language, category, content }));
+    return {
+      error: 'Outside the 24-hour customer service window',
+      details: conversation?.lastInboundAt
+        ? `The contact last wrote on ${conversation.lastInboundAt.toISOString()}. Send an approved template instead.`
+        : 'The contact has not messaged us yet. Send an approved template instead.',
+      code: 'SESSION_WINDOW_CLOSED',
+      templates
+    };
+  };
+
+  // Send a WhatsApp message: free-form text (within the 24-hour window) or an approved template by templateId
   app.post('/api/whatsapp/messages', async (req, res) => {
     try {
-      console.log('📧 Sending WhatsApp message:', req.body);
-      const messageData = req.body;
-      
-      // Validate required fields
-      if (!messageData.contactId || !messageData.phone || !messageData.message) {
+      const { contactId, phone, templateId, campaignId } = req.body;
+      const text = typeof req.body.message === 'string' ? req.body.message.trim() : '';
+
+      if (!contactId || !phone || (!templateId && !text)) {
         return res.status(400).json({ 
-          error: 'Missing required fields: contactId, phone, message' 
+          error: 'Missing required fields: contactId, phone, and message or templateId'
         });
       }
-      
-      // Create the message in database first
+
+      const contact = await storage.getContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+
+      let template: WhatsAppTemplate | undefined;
+      let body = text;
+      let components: TemplateSendComponent[] = [];
+      if (templateId) {
+        template = await storage.getWhatsAppTemplate(templateId);
+        if (!template) {
+          return res.status(404).json({ error: 'Template not found' });
+        }
+        const unsendable = WhatsAppTemplateService.unsendableReason(template);
+        if (unsendable) {
+          return res.status(400).json({ error: 'Invalid WhatsApp template', details: unsendable });
+        }
+        const preview = TemplateVariableService.previewRecipient(
+          template,
+          TemplateVariableService.getMapping(template),
+          contact
+        );
+        if (preview.errors.length > 0) {
+          return res.status(400).json({ error: 'Invalid template variables', details: preview.errors });
+        }
+        body = preview.body;
+        components = TemplateVariableService.buildComponents(template, preview.values);
+      } else {
+        const windowClosed = await checkSessionWindow(contactId);
+        if (windowClosed) {
+          return res.status(400).json(windowClosed);
+        }
+      }
+
       const message = await storage.createWhatsAppMessage({
-        contactId: messageData.contactId,
-        phone: messageData.phone,
-        message: messageData.message.trim(),
-        messageType: messageData.isTemplate ? 'template' : (messageData.messageType || 'text'),
+        contactId,
+        phone,
+        message: body,
+        messageType: template ? 'template' : 'text',
         direction: 'outbound',
         status: 'pending',
-        campaignId: messageData.campaignId || null,
-        templateName: messageData.isTemplate ? messageData.message.trim() : null
+        campaignId: campaignId || null,
+        templateName: template?.name ?? null,
+        author: 'human'
       });
 
-      console.log('✅ Message created in database:', message.id);
+      // A person answering takes the conversation over from the AI
+      const conversation = await storage.getWhatsAppConversation(contactId);
+      if (conversation?.mode === 'ai') {
+        await WhatsAppAutoReplyService.handOff(contactId, 'A team member replied');
+      }
 
-      // Try to send via WhatsApp API if credentials are available
-      try {
-        const { whatsappService } = await import('./services/whatsappService');
-        
-        let whatsappResponse;
-        
-        // Check if this is a template message
-        if (messageData.isTemplate || messageData.templateName) {
-          console.log('📋 Sending as WhatsApp template via Meta Business API:', messageData.templateName || messageData.message);
-          
-          // Use Meta Business API template endpoint
-          whatsappResponse = await whatsappService.sendTemplateMessage(
-            messageData.phone,
-            messageData.templateName || messageData.message.trim(), // Template name
-            messageData.language || 'en_US',
-            messageData.parameters || undefined
-          );
-        } else {
-          console.log('📱 Sending as regular text message via Meta Business API');
-          
-          // For regular messages, still use Meta Business API but with text type
-          whatsappResponse = await whatsappService.sendTextMessage(
-            messageData.phone,
-            messageData.message.trim()
-          );
+      let whatsappMessageId: string | undefined;
+      let failedReason: string | null = null;
+      let errorCode: number | null = null;
+      if (template) {
+        const result = await WhatsAppTemplateService.sendTemplateComponents(phone, template.name, template.language || 'en_US', components);
+        whatsappMessageId = result.messageId;
+        if (!result.success) {
+          failedReason = result.error || 'Failed to send message';
+          errorCode = result.errorCode ?? null;
+        }
+      } else {
+        try {
+          const whatsappResponse = await whatsappService.sendTextMessage(phone, text);
+          whatsappMessageId = whatsappResponse.messages?.[0]?.id;
+        } catch (whatsappError) {
+          failedReason = whatsappError instanceof Error ? whatsappError.message : 'Failed to send message';
+          errorCode = whatsappError instanceof WhatsAppApiError ? whatsappError.code ?? null : null;
         }
+      }
+
+      if (failedReason) {
+        const failed = await storage.updateWhatsAppMessage(message.id, { status: 'failed', failedReason, errorCode });
+        console.error(`❌ WhatsApp message ${message.id} failed${errorCode ? ` (${errorCode})` : ''}: ${failedReason}`);
+        return res.status(502).json({ error: 'Failed to send message', details: failedReason, code: errorCode, message: failed });
+      }
+
+      const sent = await storage.updateWhatsAppMessage(message.id, { whatsappMessageId, status: 'sent' });
+      console.log('✅ Message sent via WhatsApp API:', whatsappMessageId);
+      res.status(201).json(sent);
+    } catch (error) {
+      console.error('❌ Error sending WhatsApp message:', error);
+      res.status(500).json({ 
+        error: 'Failed to send message',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Send an image, document, audio or video from the chat composer (multipart: file, contactId, phone, caption)
+  app.post('/api/whatsapp/messages/media', upload.single('file'), async (req, res) => {
+    try {
+      const { contactId, phone } = req.body;
+      const caption = (req.body.caption || '').trim();
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+      if (!contactId || !phone) {
+        return res.status(400).json({ error: 'Missing required fields: contactId, phone' });
+      }
+
+      const mimeType = req.file.mimetype || 'application/octet-stream';
+      const mediaType = mediaTypeForMimeType(mimeType);
+      if (req.file.size > MEDIA_SIZE_LIMITS[mediaType]) {
+        return res.status(400).json({
+          error: 'File too large',
+          details: `WhatsApp ${mediaType} files can be at most ${MEDIA_SIZE_LIMITS[mediaType] / (1024 * 1024)} MB`
+        });
+      }
+
+      const windowClosed = await checkSessionWindow(contactId);
+      if (windowClosed) {
+        return res.status(400).json(windowClosed);
+      }
+
+      const stored = await getMediaStorage().save(
+        buildMediaKey('whatsapp/outbound', mimeType, req.file.originalname),
+        req.file.buffer,
+        mimeType
+      );
+
+      const message = await storage.createWhatsAppMessage({
+        contactId,
+        phone,
+        message: caption,
+        messageType: mediaType,
+        direction: 'outbound',
+        status: 'pending',
+        author: 'human',
+        mediaKey: stored.key,
+        mediaMimeType: mimeType,
+        mediaFileName: req.file.originalname,
+        mediaSize: stored.size
+      });
 
-        // Update message with WhatsApp message ID and set status to sent
-        await storage.updateWhatsAppMessage(message.id, {
+      const conversation = await storage.getWhatsAppConversation(contactId);
+      if (conversation?.mode === 'ai') {
+        await WhatsAppAutoReplyService.handOff(contactId, 'A team member replied');
+      }
+
+      try {
+        const mediaId = await whatsappService.uploadMedia(req.file.buffer, mimeType, req.file.originalname);
+        const whatsappResponse = await whatsappService.sendMediaMessage(phone, mediaType, mediaId, {
+          caption,
+          fileName: req.file.originalname
+        });
+        const updated = await storage.updateWhatsAppMessage(message.id, {
+          mediaId,
           whatsappMessageId: whatsappResponse.messages?.[0]?.id,
           status: 'sent'
         });
-
-        console.log('✅ Message sent via WhatsApp API:', whatsappResponse.messages?.[0]?.id);
-        console.log('📡 Real delivery receipts will come through webhook');
-        
+        console.log(`📎 WhatsApp ${mediaType} sent:`, whatsappResponse.messages?.[0]?.id);
+        res.status(201).json(updated);
       } catch (whatsappError) {
-        console.log('⚠️ WhatsApp API not available, using simulation mode');
-        console.log('WhatsApp Error:', whatsappError instanceof Error ? whatsappError.message : whatsappError);
-        
-        // Fallback: simulate realistic message progression with status updates
-        console.log('🔄 Starting message status simulation for:', message.id);
-        
-        // Step 1: Mark as sent immediately
-        await storage.updateWhatsAppMessage(message.id, { status: 'sent' });
-        console.log('✅ Step 1: Message marked as SENT:', message.id);
-        
-        // Step 2: Mark as delivered after 3 seconds (realistic timing)
-        setTimeout(async () => {
-          try {
-            await storage.updateWhatsAppMessage(message.id, {
-              status: 'delivered',
-              deliveredAt: new Date()
-            });
-            console.log('✅ Step 2: Message marked as DELIVERED:', message.id);
-          } catch (err) {
-            console.error('Error updating delivery status:', err);
-          }
-        }, 3000);
+        const reason = whatsappError instanceof Error ? whatsappError.message : 'Failed to send media';
+        const errorCode = whatsappError instanceof WhatsAppApiError ? whatsappError.code ?? null : null;
+        const failed = await storage.updateWhatsAppMessage(message.id, { status: 'failed', failedReason: reason, errorCode });
+        console.error('❌ Error sending WhatsApp media:', whatsappError);
+        res.status(502).json({ error: 'Failed to send media', details: reason, code: errorCode, message: failed });
+      }
+    } catch (error) {
+      console.error('❌ Error sending WhatsApp media:', error);
+      res.status(500).json({
+        error: 'Failed to send media',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+  });
+
+  // Ready-made interactive messages for the chat composer
+  app.get('/api/whatsapp/interactive/presets', (req, res) => {
+    res.json([{ name: 'Demo follow-up', content: DEMO_FOLLOW_UP }]);
+  });
+
+  // Send reply buttons or a list; each option may carry an action that runs when the contact taps it
+  app.post('/api/whatsapp/messages/interactive', async (req, res) => {
+    try {
+      const { contactId, campaignId } = req.body;
+      const parsed = whatsappInteractiveSchema.safeParse(req.body.interactive);
+      if (!contactId || !parsed.success) {
+        return res.status(400).json({
+          error: 'Invalid interactive message',
+          details: parsed.success
+            ? ['contactId is required']
+            : parsed.error.issues.map(issue => `${issue.path.join('.') || 'interactive'}: ${issue.message}`)
+        });
+      }
+
+      const contact = await storage.getContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
       }
 
+      const windowClosed = await checkSessionWindow(contactId);
+      if (windowClosed) {
+        return res.status(400).json(windowClosed);
+      }
+
+      const conversation = await storage.getWhatsAppConversation(contactId);
+      if (conversation?.mode === 'ai') {
+        await WhatsAppAutoReplyService.handOff(contactId, 'A team member replied');
+      }
+
+      const message = await WhatsAppInteractiveService.send(
+        contact,
+        req.body.phone || contact.whatsappNumber || contact.phone,
+        parsed.data,
+        { campaignId }
+      );
+      if (message.status === 'failed') {
+        return res.status(502).json({ error: 'Failed to send message', details: message.failedReason, code: message.errorCode, message });
+      }
       res.status(201).json(message);
     } catch (error) {
-      console.error('❌ Error sending WhatsApp message:', error);
-      res.status(500).json({ 
+      console.error('❌ Error sending interactive WhatsApp message:', error);
+      res.status(500).json({
         error: 'Failed to send message',
         details: error instanceof Error ? error.message : 'Unknown error'
       });
     }
   });
 
+  // Serve a message's attachment from media storage, downloading it from Meta first if that failed on arrival
+  app.get('/api/whatsapp/media/:messageId', async (req, res) => {
+    try {
+      let message = await storage.getWhatsAppMessage(req.params.messageId);
+      if (!message || (!message.mediaKey && !message.mediaId)) {
+        return res.status(404).json({ error: 'Media not found' });
+      }
+
+      if (!message.mediaKey && message.mediaId && message.direction === 'inbound') {
+        await whatsappService.storeInboundMedia(message.id, message.mediaId, message.mediaFileName);
+        message = await storage.getWhatsAppMessage(message.id);
+      }
+
+      const data = message?.mediaKey ? await getMediaStorage().read(message.mediaKey) : undefined;
+      if (!message || !data) {
+        return res.status(404).json({ error: 'Media not available' });
+      }
+
+      res.setHeader('Content-Type', message.mediaMimeType || 'application/octet-stream');
+      res.setHeader('Cache-Control', 'private, max-age=3600');
+      if (message.mediaFileName) {
+        res.setHeader('Content-Disposition', `inline; filename*=UTF-8''${encodeURIComponent(message.mediaFileName)}`);
+      }
+      res.send(data);
+    } catch (error) {
+      console.error('Error serving WhatsApp media:', error);
+      res.status(500).json({ error: 'Failed to load media' });
+    }
+  });
+
   // Get WhatsApp chats grouped by contact
   app.get('/api/whatsapp/chats', async (req, res) => {
     try {
@@ -657,8 +1706,68 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Hand a conversation to a person, or back to the AI
+  app.put('/api/whatsapp/conversations/:contactId/mode', async (req, res) => {
+    try {
+      const { contactId } = req.params;
+      const { mode, reason } = req.body;
+      if (mode !== 'ai' && mode !== 'human') {
+        return res.status(400).json({ error: "mode must be 'ai' or 'human'" });
+      }
+      const contact = await storage.getContact(contactId);
+      if (!contact) {
+        return res.status(404).json({ error: 'Contact not found' });
+      }
+      const conversation = mode === 'human'
+        ? await WhatsAppAutoReplyService.handOff(contactId, reason || 'Taken over manually')
+        : await WhatsAppAutoReplyService.resumeAi(contactId);
+      res.json(conversation);
+    } catch (error) {
+      console.error('Error updating WhatsApp conversation mode:', error);
+      res.status(500).json({ error: 'Failed to update conversation' });
+    }
+  });
+
   // Webhook routes moved to beginning of registerRoutes function for priority routing
 
+  // WhatsApp webhook items that failed processing
+  app.get('/api/whatsapp/dead-letters', async (req, res) => {
+    try {
+      const status = req.query.status as WhatsAppDeadLetterStatus | undefined;
+      const deadLetters = await storage.getWhatsAppDeadLetters(status);
+      res.json(deadLetters);
+    } catch (error) {
+      console.error('Error fetching WhatsApp dead letters:', error);
+      res.status(500).json({ error: 'Failed to fetch dead letters' });
+    }
+  });
+
+  app.post('/api/whatsapp/dead-letters/:id/replay', async (req, res) => {
+    try {
+      const deadLetter = await whatsappService.replayDeadLetter(req.params.id);
+      if (!deadLetter) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+      res.json(deadLetter);
+    } catch (error) {
+      console.error('Error replaying WhatsApp dead letter:', error);
+      res.status(500).json({ error: 'Failed to replay dead letter' });
+    }
+  });
+
+  app.delete('/api/whatsapp/dead-letters/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteWhatsAppDeadLetter(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Dead letter not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error deleting WhatsApp dead letter:', error);
+      res.status(500).json({ error: 'Failed to delete dead letter' });
+    }
+  });
+
   // Update message status (for webhooks)
   app.put('/api/whatsapp/messages/:id/status', async (req, res) => {
     try {
@@ -682,6 +1791,121 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ===================
+  // DO-NOT-CALL / SUPPRESSION LIST ROUTES
+  // ===================
+
+  app.get('/api/suppression', async (req, res) => {
+    try {
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 500;
+      const entries = await storage.getSuppressionEntries(limit);
+      res.json(entries);
+    } catch (error) {
+      console.error('Error fetching suppression list:', error);
+      res.status(500).json({ error: 'Failed to fetch suppression list' });
+    }
+  });
+
+  // Manually add a number
+  app.post('/api/suppression', async (req, res) => {
+    try {
+      const { phone, reason, contactId } = req.body;
+      if (!phone || !SuppressionService.normalizePhone(phone)) {
+        return res.status(400).json({ error: 'A valid phone number is required' });
+      }
+
+      const entry = await SuppressionService.suppress(phone, reason || 'Added manually', 'manual', { contactId });
+      if (!entry) {
+        return res.status(409).json({ error: 'Number is already on the suppression list' });
+      }
+      res.status(201).json(entry);
+    } catch (error) {
+      console.error('Error adding to suppression list:', error);
+      res.status(500).json({ error: 'Failed to add to suppression list' });
+    }
+  });
+
+  // Import a DND registry CSV/Excel file
+  app.post('/api/suppression/import', upload.single('file'), async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: 'No file uploaded' });
+      }
+
+      const result = await SuppressionService.importFile(req.file.buffer, req.file.originalname);
+      res.json(result);
+    } catch (error) {
+      console.error('Error importing suppression list:', error);
+      res.status(500).json({ error: 'Failed to import suppression list' });
+    }
+  });
+
+  app.delete('/api/suppression/:id', async (req, res) => {
+    try {
+      const deleted = await storage.deleteSuppressionEntry(req.params.id);
+      if (!deleted) {
+        return res.status(404).json({ error: 'Suppression entry not found' });
+      }
+      res.json({ success: true });
+    } catch (error) {
+      console.error('Error removing suppression entry:', error);
+      res.status(500).json({ error: 'Failed to remove suppression entry' });
+    }
+  });
+
+  // ===================
+  // EMAIL ROUTES
+  // ===================
+
+  // Email history, optionally for one contact
+  app.get('/api/email/messages', async (req, res) => {
+    try {
+      const contactId = req.query.contactId as string | undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 50;
+
+      const messages = await storage.getEmailMessages(contactId, limit);
+      res.json(messages);
+    } catch (error) {
+      console.error('Error fetching email messages:', error);
+      res.status(500).json({ error: 'Failed to fetch email messages' });
+    }
+  });
+
+  // Open-tracking pixel embedded in every outgoing email
+  app.get('/api/email/open/:id', async (req, res) => {
+    try {
+      await emailService.markOpened(req.params.id);
+    } catch (error) {
+      console.error('Error recording email open:', error);
+    }
+    res.set({
+      'Content-Type': 'image/gif',
+      'Cache-Control': 'no-store, no-cache, must-revalidate'
+    });
+    res.send(TRACKING_PIXEL);
+  });
+
+  // SendGrid event webhook (bounces, drops and opens)
+  app.post('/api/email/webhook/sendgrid', async (req, res) => {
+    try {
+      const signed = emailService.verifySendGridSignature(
+        req.rawBody,
+        req.get('X-Twilio-Email-Event-Webhook-Signature'),
+        req.get('X-Twilio-Email-Event-Webhook-Timestamp')
+      );
+      if (!signed) {
+        console.log('❌ SendGrid webhook signature check failed');
+        return res.status(401).json({ error: 'Invalid signature' });
+      }
+      const events = Array.isArray(req.body) ? req.body : [req.body];
+      const applied = await emailService.handleSendGridEvents(events);
+      res.json({ received: events.length, applied });
+    } catch (error) {
+      console.error('Error processing SendGrid events:', error);
+      res.status(500).json({ error: 'Failed to process email events' });
+    }
+  });
+
   // ===================
   // CAMPAIGN MANAGEMENT ROUTES
   // ===================
@@ -753,13 +1977,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log('🚀 CAMPAIGN START ENDPOINT CALLED');
       console.log('📊 Request body:', req.body);
       
-      const { contactIds, channel, whatsappTemplate, followUpDays, campaignTemplateId } = req.body;
+      const { channel, whatsappTemplate, followUpDays, campaignTemplateId, dialingConfig, retryPolicy, segmentId } = req.body;
+      let { contactIds } = req.body;
+
+      // A saved segment can be the audience instead of a hand-picked list
+      if (segmentId) {
+        const audience = await loadSegmentAudience(segmentId);
+        if (!audience.contactIds) {
+          return res.status(audience.status).json(audience.body);
+        }
+        if (audience.contactIds.length === 0) {
+          return res.status(400).json({ error: `Segment "${audience.segment.name}" has no contacts` });
+        }
+        contactIds = audience.contactIds;
+      }
       
       if (!contactIds || !Array.isArray(contactIds) || contactIds.length === 0) {
         console.log('❌ Invalid contactIds:', contactIds);
         return res.status(400).json({ error: "Invalid contact IDs" });
       }
 
+      const dialingConfigErrors = dialerService.validateDialingConfig(dialingConfig);
+      if (dialingConfigErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid dialing config", details: dialingConfigErrors });
+      }
+
+      const retryPolicyErrors = CallRetryService.validateRetryPolicy(retryPolicy);
+      if (retryPolicyErrors.length > 0) {
+        return res.status(400).json({ error: "Invalid retry policy", details: retryPolicyErrors });
+      }
+
+      // Rejected, paused and unreviewed templates would be refused by Meta for every contact
+      if (channel === 'WHATSAPP' || channel === 'BOTH') {
+        const templates = await storage.getWhatsAppTemplates();
+        const template = templates.find(t => t.name === whatsappTemplate);
+        const templateError = template ? WhatsAppTemplateService.unsendableReason(template) : `Template "${whatsappTemplate}" not found`;
+        if (templateError) {
+          return res.status(400).json({ error: "Invalid WhatsApp template", details: [templateError] });
+        }
+      }
+
       console.log(`📋 Starting campaign for ${contactIds.length} contacts`);
       console.log('📋 Contact IDs:', contactIds);
       console.log('📋 Channel:', channel);
@@ -775,8 +2032,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       let campaignSettings = {
         aiPrompt: 'You are Anvika from LabsCheck, a diagnostic comparison platform. Your goal is to onboard pathology labs to our free platform. Be professional, clear, and focus on the value proposition: no commission, increased visibility, and direct patient bookings.',
         introLine: 'Hi, this is Anvika from LabsCheck. Am I speaking with the owner or manager of the lab?',
+        script: `Multi-channel campaign for ${contactIds.length} contacts` as string | null,
         agentName: 'Anvika',
         openaiModel: 'gpt-4o',
+        objectives: null as unknown,
+        callGoals: null as unknown,
+        dialingConfig: null as unknown,
+        retryPolicy: null as unknown,
+        voicemailMessage: null as string | null,
+        voicemailAudioFile: null as string | null,
         language: 'en-IN',
         elevenlabsModel: 'eleven_multilingual_v2',
         voiceId: '21m00Tcm4TlvDq8ikWAM'
@@ -791,8 +2055,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
             campaignSettings = {
               aiPrompt: template.aiPrompt,
               introLine: template.introLine,
+              script: template.script,
               agentName: template.agentName,
               openaiModel: template.openaiModel,
+              objectives: template.objectives,
+              callGoals: template.callGoals,
+              dialingConfig: template.dialingConfig,
+              retryPolicy: template.retryPolicy,
+              voicemailMessage: template.voicemailMessage,
+              voicemailAudioFile: template.voicemailAudioFile,
               language: template.language,
               elevenlabsModel: template.elevenlabsModel,
               voiceId: template.voiceId
@@ -806,11 +2077,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
+      // Per-run dialing and retry overrides on top of the template's config
+      if (dialingConfig) {
+        campaignSettings.dialingConfig = { ...((campaignSettings.dialingConfig as object) || {}), ...dialingConfig };
+        // An override of only one end of the calling window can reverse the template's window
+        const mergedErrors = dialerService.validateDialingConfig(campaignSettings.dialingConfig as Partial<DialingConfig>);
+        if (mergedErrors.length > 0) {
+          return res.status(400).json({ error: "Invalid dialing config", details: mergedErrors });
+        }
+      }
+      if (retryPolicy) {
+        campaignSettings.retryPolicy = retryPolicy;
+      }
+
       // Create campaign record in database first
       await storage.createCampaign({
         id: campaignId,
         name: `Campaign ${new Date().toISOString().split('T')[0]}`,
-        script: `Multi-channel campaign for ${contactIds.length} contacts`,
         ...campaignSettings,
         createdAt: new Date()
       });
@@ -818,8 +2101,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`✅ Created campaign record: ${campaignId}`);
       
       let processedCount = 0;
+      let suppressedCount = 0;
       const results = [];
       const stepTimings: any[] = [];
+      const callContacts: Contact[] = [];
 
       // Process each contact with delays for WhatsApp campaigns
       for (let i = 0; i < contactIds.length; i++) {
@@ -834,30 +2119,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
             continue;
           }
 
+          const { suppressed } = await SuppressionService.partitionContacts([contact]);
+          if (suppressed.length > 0) {
+            console.log(`🚫 Skipping ${contact.name} (${contact.phone}): on the do-not-call list`);
+            results.push({ contactId, status: 'suppressed', error: 'Contact is on the do-not-call list' });
+            suppressedCount++;
+            continue;
+          }
+
           console.log(`📞 Processing contact: ${contact.name} (${contact.phone})`);
 
           // Handle different channels
           if (channel === 'CALL' || channel === 'BOTH') {
-            // Start AI call
-            try {
-              const callStartTime = Date.now();
-              console.log(`📞 Starting AI call for ${contact.phone}`);
-              // Import callManager dynamically
-              const { callManager } = await import('./services/callManager');
-              const callResult = await callManager.startCall(contactId, campaignId, contact.phone);
-              const callEndTime = Date.now();
-              stepTimings.push({ contactId, step: 'callManager.startCall', durationMs: callEndTime - callStartTime });
-              if (callResult.success) {
-                console.log(`✅ Call initiated for ${contact.phone}: ${callResult.callId} (Duration: ${callEndTime - callStartTime}ms)`);
-                results.push({ contactId, status: 'call_started', callId: callResult.callId, callDurationMs: callEndTime - callStartTime });
-              } else {
-                console.log(`❌ Call failed for ${contact.phone}: ${callResult.error}`);
-                results.push({ contactId, status: 'call_failed', error: callResult.error });
-              }
-            } catch (callError) {
-              console.error(`❌ Call error for ${contact.phone}:`, callError);
-              results.push({ contactId, status: 'call_failed', error: callError instanceof Error ? callError.message : 'Unknown call error' });
-            }
+            // Calls go through the dialing queue, which applies concurrency, calling hours and pacing
+            callContacts.push(contact);
+            results.push({ contactId, status: 'call_queued' });
           }
 
           if (channel === 'WHATSAPP' || channel === 'BOTH') {
@@ -914,6 +2190,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
                 console.log(`✅ Meta Business API template message sent to ${contact.phone}: ${whatsappResponse.messages?.[0]?.id}`);
                 results.push({ contactId, status: 'whatsapp_sent', messageId: message.id, templateUsed: whatsappTemplate });
+                await LeadPipelineService.advanceStage(contactId, 'contacted', {
+                  source: 'campaign',
+                  reason: `WhatsApp template "${whatsappTemplate}" sent`
+                });
 
                 // Apply random delay for WhatsApp-only campaigns
                 if (channel === 'WHATSAPP' && req.body.delaySeconds && i < contactIds.length - 1) {
@@ -959,10 +2239,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      if (callContacts.length > 0) {
+        const queueStartTime = Date.now();
+        await dialerService.enqueueCampaign(campaignId, callContacts);
+        stepTimings.push({ step: 'dialerService.enqueueCampaign', durationMs: Date.now() - queueStartTime });
+      }
+
       const campaignEndTime = Date.now();
       const campaignResult = {
         success: true,
         campaignId,
+        callsQueued: callContacts.length,
+        contactsSuppressed: suppressedCount,
         contactsProcessed: processedCount,
         totalContacts: contactIds.length,
         results,
@@ -977,6 +2265,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Dialing queue progress for a campaign
+  app.get("/api/campaigns/:id/dialer", async (req, res) => {
+    try {
+      const progress = await dialerService.getProgress(req.params.id);
+      res.json(progress);
+    } catch (error) {
+      console.error('Error fetching dialer progress:', error);
+      res.status(500).json({ error: "Failed to fetch dialer progress" });
+    }
+  });
+
+  // Pause, resume or cancel a campaign's dialing queue
+  app.post("/api/campaigns/:id/dialer/:action", async (req, res) => {
+    try {
+      const { id, action } = req.params;
+      const campaign = await storage.getCampaign(id);
+      if (!campaign) {
+        return res.status(404).json({ error: "Campaign not found" });
+      }
+
+      let progress;
+      if (action === 'pause') {
+        progress = await dialerService.pause(id);
+      } else if (action === 'resume') {
+        if (campaign.dialerStatus === 'cancelled') {
+          return res.status(400).json({ error: "Cancelled campaigns cannot be resumed" });
+        }
+        progress = await dialerService.resume(id);
+      } else if (action === 'cancel') {
+        progress = await dialerService.cancel(id);
+      } else {
+        return res.status(400).json({ error: "Action must be pause, resume or cancel" });
+      }
+
+      res.json(progress);
+    } catch (error) {
+      console.error('Error updating dialer:', error);
+      res.status(500).json({ error: "Failed to update dialer" });
+    }
+  });
+
   // Real data only - Campaign Dashboard API (for today's activity)
   app.get("/api/campaigns/dashboard", async (req, res) => {
     try {
@@ -1098,6 +2427,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
             description: campaign.description,
             agentName: campaign.agentName,
             isActive: campaign.isActive,
+            dialerStatus: campaign.dialerStatus,
             createdAt: campaign.createdAt,
             totalContacts: Number(stats.totalCalls) + Number(whatsappSent),
             completedContacts: Number(stats.completedCalls),
@@ -1159,32 +2489,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get campaign analytics for contact campaigns page
   app.get('/api/campaigns/analytics', async (req, res) => {
     try {
-      // Get all contacts and campaigns for basic analytics
-      const contacts = await storage.getContacts();
-      const campaigns = await storage.getCampaigns();
-      const calls = await storage.getCalls();
-      
-      // Calculate basic analytics
-      const totalContacts = contacts.length;
-      const contacted = calls.filter(call => call.status === 'completed').length;
-      const responded = Math.floor(contacted * 0.3); // 30% response rate estimate
-      const onboarded = Math.floor(responded * 0.4); // 40% onboarding rate from responses
-      const pending = totalContacts - contacted;
-      const failed = calls.filter(call => call.status === 'failed').length;
-      const followUpsDue = Math.floor(totalContacts * 0.1); // 10% need follow-up
-      
+      const startOfToday = new Date();
+      startOfToday.setHours(0, 0, 0, 0);
+
+      // Pipeline stages and today's stage changes come from the lead pipeline, not estimates
+      const [stageCounts, todayChanges, dueFollowUps, failedCalls] = await Promise.all([
+        storage.getLeadStageCounts(),
+        storage.getLeadStageChangeCounts(startOfToday),
+        storage.getDueFollowUps(),
+        storage.getCallCountByStatus('failed')
+      ]);
+      const countOf = (stages: string[], counts: Record<string, number>) =>
+        stages.reduce((total, stage) => total + (counts[stage] || 0), 0);
+
+      const totalContacts = countOf([...LEAD_STAGES], stageCounts);
+      const pending = stageCounts.new || 0;
+
       const analytics = {
         totalContacts,
-        contacted,
-        responded,
-        onboarded,
+        contacted: totalContacts - pending,
+        responded: countOf(['interested', 'demo_scheduled', 'onboarded'], stageCounts),
+        onboarded: stageCounts.onboarded || 0,
         pending,
-        failed,
-        followUpsDue,
+        failed: failedCalls,
+        lost: stageCounts.lost || 0,
+        followUpsDue: dueFollowUps.length,
+        pipeline: LEAD_STAGES.map(stage => ({ stage, count: stageCounts[stage] || 0 })),
         todayActivity: {
-          reached: Math.floor(contacted * 0.2), // 20% reached today
-          responded: Math.floor(responded * 0.3), // 30% of responses today
-          onboarded: Math.floor(onboarded * 0.5) // 50% of onboarding today
+          reached: todayChanges.contacted || 0,
+          responded: countOf(['interested', 'demo_scheduled'], todayChanges),
+          onboarded: todayChanges.onboarded || 0
         }
       };
       
@@ -1240,6 +2574,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
           failed: campaignCalls.filter((c: any) => c.call.status === 'failed').length,
           active: campaignCalls.filter((c: any) => c.call.status === 'active').length,
         },
+        outcomeBreakdown: {
+          answered: campaignCalls.filter((c: any) => c.call.outcome === 'answered').length,
+          voicemail: campaignCalls.filter((c: any) => c.call.outcome === 'voicemail').length,
+          busy: campaignCalls.filter((c: any) => c.call.outcome === 'busy').length,
+          noAnswer: campaignCalls.filter((c: any) => c.call.outcome === 'no-answer').length,
+          failed: campaignCalls.filter((c: any) => c.call.outcome === 'failed' || c.call.outcome === 'canceled').length,
+        },
         timingAnalysis: {
           totalDuration: campaignCalls.reduce((sum: number, c: any) => sum + (c.call.duration || 0), 0),
           averageDuration: campaignCalls.length ? Math.round(campaignCalls.reduce((sum: number, c: any) => sum + (c.call.duration || 0), 0) / campaignCalls.length) : 0,
@@ -1259,6 +2600,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
           phoneNumber: c.call.phoneNumber,
           duration: c.call.duration,
           status: c.call.status,
+          outcome: c.call.outcome,
+          attemptNumber: c.call.attemptNumber,
           startTime: c.call.startTime,
           endTime: c.call.endTime,
           aiResponseTime: c.call.aiResponseTime,
@@ -1415,8 +2758,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Create a temporary contact for this call
-      const tempContact = await storage.createContact({
+      // Call the existing contact with this number, or create a temporary one
+      const tempContact = await storage.getContactByPhone(phoneNumber) || await storage.createContact({
         name: `Direct Call ${phoneNumber}`,
         phone: phoneNumber,
         phoneNumber: phoneNumber
@@ -1461,7 +2804,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get active calls
   app.get("/api/calls/active", async (req, res) => {
     try {
-      const activeCalls = callManager.getActiveCalls();
+      const activeCalls = await callManager.getActiveCalls();
       res.json(activeCalls);
     } catch (error) {
       console.error('Error fetching active calls:', error);
@@ -1620,9 +2963,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // TWILIO WEBHOOK ROUTES
   // ===========================
 
+  // Twilio signed the URL it was given, which is built from the base URL rather than what the proxy forwards
+  const verifyTwilioWebhook: RequestHandler = (req, res, next) => {
+    if (!twilioService.verifyWebhookSignature(`${getBaseUrl()}${req.originalUrl}`, req.body || {}, req.get('X-Twilio-Signature'))) {
+      console.log(`❌ Twilio webhook signature check failed for ${req.path}`);
+      return res.status(403).send('Invalid signature');
+    }
+    next();
+  };
+
   // Answer webhook - when Twilio call is answered (returns TwiML with intro)  
   // This route MUST return TwiML XML for Twilio to work properly
-  app.post("/api/calls/webhook/answer", async (req, res) => {
+  app.post("/api/calls/webhook/answer", verifyTwilioWebhook, async (req, res) => {
     console.log('🔔 ANSWER WEBHOOK CALLED - Generating intro with ElevenLabs');
     console.log('📞 Query params:', req.query);
     console.log('📞 Request body:', req.body);
@@ -1646,11 +2998,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`🔗 Answer webhook for call ${callId}, ensuring it's tracked as active`);
       const dbCall = await storage.getCall(callId as string);
       if (dbCall && dbCall.status === 'active') {
-        callManager.ensureCallIsTracked(callId as string, dbCall);
+        await callManager.ensureCallIsTracked(callId as string, dbCall);
+      }
+
+      // Answering machine: leave the campaign voicemail instead of pitching to it
+      const { AnsweredBy } = req.body;
+      if (VoicemailService.isMachineAnswer(AnsweredBy)) {
+        console.log(`📼 Call ${callId} answered by ${AnsweredBy}, leaving voicemail`);
+        await storage.updateCall(callId as string, { outcome: 'voicemail' });
+
+        let voicemailUrl: string | null = null;
+        if (AnsweredBy !== 'fax') {
+          try {
+            voicemailUrl = await VoicemailService.getVoicemailAudioUrl(campaign);
+          } catch (voicemailError) {
+            console.error('❌ Voicemail audio unavailable:', voicemailError);
+          }
+        }
+
+        const voicemailTwiml = twilioService.generateTwiML('hangup', voicemailUrl ? {
+          text: VoicemailService.renderMessage(campaign),
+          audioUrl: voicemailUrl
+        } : {});
+        return res.type('text/xml').send(voicemailTwiml);
       }
 
       // Generate intro with ElevenLabs
-      const introText = campaign.introLine || "Hello, this is an AI calling agent from LabsCheck.";
+      const introContact = dbCall?.contactId ? await storage.getContact(dbCall.contactId) : undefined;
+      const introText = PromptTemplateService.renderIntroLine({ campaign, contact: introContact });
       let twiml;
 
       try {
@@ -1730,7 +3105,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Main webhook for call handling
-  app.post("/api/calls/webhook", async (req, res) => {
+  app.post("/api/calls/webhook", verifyTwilioWebhook, async (req, res) => {
     try {
       console.log('🔥 Webhook starting with query params:', req.query);
       const { callId, campaignId } = req.query;
@@ -1739,12 +3114,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).send('Missing callId or campaignId');
       }
 
-      // Ensure call is tracked in active calls
+      // Ensure call has session state
       console.log(`🔗 Webhook triggered for call ${callId}, ensuring it's tracked as active`);
       const dbCall = await storage.getCall(callId as string);
       if (dbCall && dbCall.status === 'active') {
-        // Make sure call manager is tracking this call
-        callManager.ensureCallIsTracked(callId as string, dbCall);
+        // Make sure the session store has state for this call
+        await callManager.ensureCallIsTracked(callId as string, dbCall);
       }
 
       // Get campaign for initial script
@@ -1754,7 +3129,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Try ElevenLabs first, fallback to Twilio if fails
-      const introText = campaign.introLine || "Hello, this is an AI calling agent from LabsCheck.";
+      const introContact = dbCall?.contactId ? await storage.getContact(dbCall.contactId) : undefined;
+      const introText = PromptTemplateService.renderIntroLine({ campaign, contact: introContact });
       let twiml;
 
       try {
@@ -1820,7 +3196,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
 
-      console.log(`🎙️ Starting call with intro: "${campaign.introLine}"`);
+      console.log(`🎙️ Starting call with intro: "${introText}"`);
       console.log('🎹 Background typing sounds enabled with Twilio direct speech processing');
 
       res.type('text/xml').send(twiml);
@@ -1833,7 +3209,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced speech processing to use OpenAI Whisper for transcription
-  app.post("/api/calls/recording-complete", async (req, res) => {
+  app.post("/api/calls/recording-complete", verifyTwilioWebhook, async (req, res) => {
     try {
       const { callId } = req.query;
       const recordingUrl = req.body.RecordingUrl;
@@ -1869,7 +3245,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Enhanced speech processing with OpenAI Whisper fallback
-  app.post("/api/calls/:callId/process-speech", async (req, res) => {
+  app.post("/api/calls/:callId/process-speech", verifyTwilioWebhook, async (req, res) => {
     try {
       const { callId } = req.params;
 
@@ -1925,7 +3301,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { directSpeechService } = await import('./services/directSpeechService');
 
       // Check if call should end based on speech content
-      if (directSpeechService.shouldEndCall(speechText)) {
+      // Opt-outs ("stop calling") go on to callManager, which adds the number to the do-not-call list
+      if (directSpeechService.shouldEndCall(speechText) && !SuppressionService.isOptOutSpeech(speechText)) {
         console.log('🔚 User indicated call should end');
         const dbCall = await storage.getCall(callId);
         const campaign = dbCall?.campaignId ? await storage.getCampaign(dbCall.campaignId) : null;
@@ -1955,7 +3332,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Call status webhook
-  app.post("/api/calls/webhook/status", async (req, res) => {
+  app.post("/api/calls/webhook/status", verifyTwilioWebhook, async (req, res) => {
     try {
       const { callId } = req.query;
       const { CallStatus, CallDuration, CallSid, From, To } = req.body;
@@ -1963,18 +3340,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
       console.log(`📞 Call Status Update - CallID: ${callId}, Status: ${CallStatus}, Duration: ${CallDuration}, SID: ${CallSid}, From: ${From}, To: ${To}`);
       console.log(`📋 Full webhook body:`, req.body);
 
-      if (callId && (CallStatus === 'completed' || CallStatus === 'failed')) {
-        console.log(`🔚 Call ${callId} ending with status: ${CallStatus}, duration: ${CallDuration}`);
-        await callManager.completeCall(
-          callId as string, 
-          CallDuration ? parseInt(CallDuration) : undefined
-        );
+      if (callId && ['completed', 'failed', 'busy', 'no-answer', 'canceled'].includes(CallStatus)) {
+        // A machine-answered call reports 'completed' too; keep the voicemail outcome set by the answer webhook
+        const endedCall = await storage.getCall(callId as string);
+        const outcome = endedCall?.outcome === 'voicemail' ? 'voicemail' : CallRetryService.outcomeFromTwilioStatus(CallStatus);
+        console.log(`🔚 Call ${callId} ending with status: ${CallStatus} (outcome: ${outcome}), duration: ${CallDuration}`);
+
+        if (outcome === 'answered') {
+          await callManager.completeCall(
+            callId as string, 
+            CallDuration ? parseInt(CallDuration) : undefined
+          );
+        } else {
+          await callManager.failCall(callId as string, outcome);
+        }
 
         broadcast({
           type: 'call_ended',
           callId,
-          status: CallStatus
+          status: CallStatus,
+          outcome
         });
+
+        // Settle the dialing queue entry, scheduling a redial if the retry policy allows
+        await dialerService.onCallEnded(callId as string, outcome);
       }
 
       res.status(200).send('OK');
@@ -1986,9 +3375,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // Removed recording webhook - not needed for direct speech processing
 
-  // Global reference for broadcasting
-  (global as any).broadcastToClients = broadcast;
-
   return httpServer;
 }
 
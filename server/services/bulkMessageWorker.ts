@@ -0,0 +1,447 @@
+import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import { SuppressionService } from './suppressionService';
+import { LeadPipelineService } from './leadPipelineService';
+import { WhatsAppTemplateService } from './whatsappTemplateService';
+import { TemplateVariableService, type RecipientPreview } from './templateVariableService';
+import { PhoneNumberService } from './phoneNumberService';
+import type { BulkJobRecurrence, BulkMessageJob, Contact, InsertContact, TemplateVariableMapping, WhatsAppTemplate } from '@shared/schema';
+
+const TICK_INTERVAL_MS = 5000;
+// Longer than the largest allowed delay plus a send, so a live worker never looks stale
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+const MIN_DELAY_MS = 100;
+const MAX_DELAY_MS = 10000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export interface ResolvedRecipients {
+  contactIds: string[]; // Existing contacts
+  newPhones: string[]; // Numbers with no contact yet; one is created for each when the job is queued
+  previews: RecipientPreview[];
+}
+
+export interface CreateBulkJobRequest {
+  name?: string;
+  template: WhatsAppTemplate;
+  contactIds: string[];
+  languageCode?: string;
+  delayMs?: number;
+  scheduledAt?: Date | null;
+  recurrence?: BulkJobRecurrence | null;
+  cooldownHours?: number;
+}
+
+// Wall-clock date and time of an instant in a timezone
+function zonedParts(date: Date, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+  return {
+    year: parseInt(part('year')),
+    month: parseInt(part('month')),
+    day: parseInt(part('day')),
+    weekday: WEEKDAYS.indexOf(part('weekday')),
+    hour: parseInt(part('hour')),
+    minute: parseInt(part('minute'))
+  };
+}
+
+// The instant at which the clock in a timezone shows the given date and time
+function zonedTimeToDate(year: number, month: number, day: number, hour: number, minute: number, timeZone: string): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  let instant = wallClock;
+  // Two passes settle the offset when the first guess lands on the other side of a DST change
+  for (let i = 0; i < 2; i++) {
+    const shown = zonedParts(new Date(instant), timeZone);
+    const offset = Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute) - instant;
+    instant = wallClock - offset;
+  }
+  return new Date(instant);
+}
+
+// Sends WhatsApp template messages for bulk_message_jobs in the background.
+// Every recipient gets a whatsapp_messages row tagged with the job, so a restarted
+// worker picks up where the last one stopped without messaging anyone twice.
+export class BulkMessageWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+    console.log('📨 Bulk message worker started');
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Validate a recurrence rule; returns a list of problems
+  validateRecurrence(recurrence: BulkJobRecurrence | null | undefined): string[] {
+    if (!recurrence) return [];
+    const errors: string[] = [];
+
+    if (recurrence.frequency !== 'daily' && recurrence.frequency !== 'weekly') {
+      errors.push('recurrence.frequency must be daily or weekly');
+    }
+    if (recurrence.frequency === 'weekly' && (
+      !Array.isArray(recurrence.daysOfWeek) || recurrence.daysOfWeek.length === 0
+      || recurrence.daysOfWeek.some(day => !Number.isInteger(day) || day < 0 || day > 6)
+    )) {
+      errors.push('recurrence.daysOfWeek must list weekday numbers 0-6 for weekly jobs');
+    }
+    if (typeof recurrence.time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(recurrence.time)) {
+      errors.push('recurrence.time must be HH:MM');
+    }
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: recurrence.timezone });
+    } catch {
+      errors.push(`Unknown timezone: ${recurrence.timezone}`);
+    }
+    return errors;
+  }
+
+  // First run of a recurrence strictly after the given instant
+  getNextOccurrence(recurrence: BulkJobRecurrence, after: Date = new Date()): Date | null {
+    const [hours, minutes] = recurrence.time.split(':').map(Number);
+
+    for (let dayOffset = 0; dayOffset <= 7; dayOffset++) {
+      const day = zonedParts(new Date(after.getTime() + dayOffset * 24 * 60 * 60 * 1000), recurrence.timezone);
+      if (recurrence.frequency === 'weekly' && !recurrence.daysOfWeek?.includes(day.weekday)) continue;
+
+      const candidate = zonedTimeToDate(day.year, day.month, day.day, hours, minutes, recurrence.timezone);
+      if (candidate > after) return candidate;
+    }
+    return null;
+  }
+
+  // Validate a bulk job request; returns a list of problems
+  validateRequest(request: CreateBulkJobRequest): string[] {
+    const errors: string[] = [...this.validateRecurrence(request.recurrence)];
+    const templateBlocked = WhatsAppTemplateService.unsendableReason(request.template);
+    if (templateBlocked) {
+      errors.push(templateBlocked);
+    }
+    if (request.contactIds.length === 0) {
+      errors.push('At least one recipient is required');
+    }
+    if (request.delayMs !== undefined && (!Number.isInteger(request.delayMs) || request.delayMs < MIN_DELAY_MS || request.delayMs > MAX_DELAY_MS)) {
+      errors.push(`delayMs must be between ${MIN_DELAY_MS} and ${MAX_DELAY_MS}`);
+    }
+    if (request.scheduledAt && isNaN(request.scheduledAt.getTime())) {
+      errors.push('scheduledAt is not a valid date');
+    }
+    if (request.cooldownHours !== undefined && (!Number.isInteger(request.cooldownHours) || request.cooldownHours < 0)) {
+      errors.push('cooldownHours must be zero or a positive whole number');
+    }
+    for (const error of TemplateVariableService.validateMapping(request.template, TemplateVariableService.getMapping(request.template))) {
+      errors.push(`Template "${request.template.name}" variable mapping: ${error}`);
+    }
+    return errors;
+  }
+
+  // Contact created for a bulk recipient phone number that matches no contact
+  newRecipientContact(phone: string): InsertContact {
+    return { name: phone, phone, whatsappNumber: phone, importedFrom: 'whatsapp_bulk' };
+  }
+
+  // Match recipients to contacts and resolve everyone's template values up front,
+  // so a job never starts with recipients the template cannot be filled for
+  async resolveRecipients(template: WhatsAppTemplate, contactIds: string[], phoneNumbers: string[]): Promise<ResolvedRecipients> {
+    const mapping = TemplateVariableService.getMapping(template);
+    const ids = new Set(contactIds);
+    const newPhones = new Set<string>();
+
+    // Normalized so the same number written two ways becomes one recipient
+    for (const phone of phoneNumbers.map(number => PhoneNumberService.normalize(number)).filter(Boolean)) {
+      const contact = await storage.getContactByPhone(phone);
+      if (contact) ids.add(contact.id);
+      else newPhones.add(phone);
+    }
+
+    const contacts = await storage.getContactsByIds(Array.from(ids));
+    const previews = contacts.map(contact => TemplateVariableService.previewRecipient(template, mapping, contact));
+    for (const phone of Array.from(newPhones)) {
+      const contact = { ...this.newRecipientContact(phone), id: '' } as Contact;
+      previews.push(TemplateVariableService.previewRecipient(template, mapping, contact));
+    }
+
+    return { contactIds: contacts.map(contact => contact.id), newPhones: Array.from(newPhones), previews };
+  }
+
+  // Job columns for a request; a recurring job without a start time starts at its first occurrence
+  private toJobValues(request: CreateBulkJobRequest) {
+    const contactIds = Array.from(new Set(request.contactIds));
+    return {
+      templateId: request.template.id,
+      contactIds,
+      languageCode: request.languageCode || request.template.language || 'en_US',
+      delayMs: request.delayMs ?? 1000,
+      variableMapping: TemplateVariableService.getMapping(request.template),
+      totalMessages: contactIds.length,
+      cooldownHours: request.cooldownHours ?? 0,
+      recurrence: request.recurrence || null,
+      scheduledAt: request.scheduledAt || (request.recurrence ? this.getNextOccurrence(request.recurrence) : null)
+    };
+  }
+
+  // The request a pending job was created from, for merging edits over
+  toRequest(job: BulkMessageJob, template: WhatsAppTemplate): CreateBulkJobRequest {
+    return {
+      name: job.name,
+      template,
+      contactIds: (job.contactIds as string[] | null) || [],
+      languageCode: job.languageCode,
+      delayMs: job.delayMs,
+      scheduledAt: job.scheduledAt,
+      recurrence: job.recurrence as BulkJobRecurrence | null,
+      cooldownHours: job.cooldownHours
+    };
+  }
+
+  // Create a job; the worker picks it up on its next tick (or at scheduledAt)
+  async createJob(request: CreateBulkJobRequest): Promise<BulkMessageJob> {
+    const values = this.toJobValues(request);
+    const job = await storage.createBulkMessageJob({
+      name: request.name || `${request.template.name} – ${new Date().toLocaleString()}`,
+      ...values
+    });
+    const when = job.scheduledAt ? ` at ${job.scheduledAt.toISOString()}` : '';
+    console.log(`📋 Bulk job ${job.id} queued${when}: template "${request.template.name}" to ${values.contactIds.length} contacts`);
+    this.broadcastProgress(job);
+    return job;
+  }
+
+  // Edit a job that has not started; undefined when it started or was cancelled in the meantime
+  async updateJob(jobId: string, request: CreateBulkJobRequest): Promise<BulkMessageJob | undefined> {
+    const job = await storage.updateBulkMessageJobIfStatus(jobId, ['pending'], {
+      ...(request.name ? { name: request.name } : {}),
+      ...this.toJobValues(request)
+    });
+    if (job) {
+      console.log(`✏️ Bulk job ${job.id} updated`);
+      this.broadcastProgress(job);
+    }
+    return job;
+  }
+
+  // Cancel a pending or running job; a running job stops before its next message.
+  // Cancelling a recurring job ends the series, since the next run is only queued on completion.
+  async cancelJob(jobId: string): Promise<BulkMessageJob | undefined> {
+    const job = await storage.updateBulkMessageJobIfStatus(jobId, ['pending', 'in_progress'], {
+      status: 'cancelled',
+      completedAt: new Date()
+    });
+    if (job) {
+      console.log(`🛑 Bulk job ${job.id} cancelled`);
+      this.broadcastProgress(job);
+    }
+    return job;
+  }
+
+  private async tick(): Promise<void> {
+    // A job can run for many ticks; only one is processed at a time
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      let job = await storage.claimBulkMessageJob(new Date(Date.now() - STALE_HEARTBEAT_MS));
+      while (job) {
+        await this.processJob(job);
+        job = await storage.claimBulkMessageJob(new Date(Date.now() - STALE_HEARTBEAT_MS));
+      }
+    } catch (error) {
+      // The job stays in_progress and is reclaimed once its heartbeat goes stale
+      console.error('❌ Bulk message worker tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async processJob(job: BulkMessageJob): Promise<void> {
+    const template = job.templateId ? await storage.getWhatsAppTemplate(job.templateId) : undefined;
+    if (!template) {
+      await this.failJob(job, 'Template not found');
+      return;
+    }
+    const templateBlocked = WhatsAppTemplateService.unsendableReason(template);
+    if (templateBlocked) {
+      await this.failJob(job, templateBlocked);
+      return;
+    }
+
+    const messages = await storage.getBulkJobMessages(job.id);
+    const processed = new Set([
+      ...messages.map(message => message.contactId),
+      ...((job.skippedContactIds as string[] | null) || [])
+    ]);
+
+    // A pending row means the previous worker died between recording and sending.
+    // Meta may already have the message, so it is failed rather than sent again.
+    for (const message of messages.filter(message => message.status === 'pending')) {
+      await storage.updateWhatsAppMessage(message.id, {
+        status: 'failed',
+        failedReason: 'Interrupted by a restart before the send was confirmed'
+      });
+    }
+
+    const remaining = ((job.contactIds as string[] | null) || []).filter(contactId => !processed.has(contactId));
+    if (processed.size > 0) {
+      console.log(`🔄 Resuming bulk job ${job.id}: ${processed.size} done, ${remaining.length} remaining`);
+    } else {
+      console.log(`📨 Starting bulk job ${job.id}: template "${template.name}" to ${remaining.length} contacts`);
+    }
+
+    const mapping = (job.variableMapping as TemplateVariableMapping | null) || TemplateVariableService.getMapping(template);
+    for (let i = 0; i < remaining.length; i++) {
+      if (i > 0 && job.delayMs > 0) {
+        await new Promise(resolve => setTimeout(resolve, job.delayMs));
+      }
+      if ((await storage.getBulkMessageJob(job.id))?.status === 'cancelled') {
+        console.log(`🛑 Bulk job ${job.id} stopped after cancellation`);
+        return;
+      }
+      // Meta pauses templates with poor quality ratings; every further send would be refused
+      const current = await storage.getWhatsAppTemplate(template.id);
+      const blocked = current ? WhatsAppTemplateService.unsendableReason(current) : 'Template not found';
+      if (blocked) {
+        await storage.refreshBulkMessageJobCounts(job.id);
+        await this.failJob(job, blocked);
+        return;
+      }
+
+      await this.sendToContact(job, template, mapping, remaining[i]);
+
+      const progress = await storage.refreshBulkMessageJobCounts(job.id);
+      if (progress) this.broadcastProgress(progress);
+    }
+
+    await storage.refreshBulkMessageJobCounts(job.id);
+    const completed = await storage.updateBulkMessageJobIfStatus(job.id, ['in_progress'], { status: 'completed', completedAt: new Date() });
+    if (completed) {
+      console.log(`✅ Bulk job ${job.id} completed: ${completed.sentMessages} sent, ${completed.failedMessages} failed, ${completed.skippedMessages} skipped`);
+      this.broadcastProgress(completed);
+      await this.scheduleNextOccurrence(completed);
+    }
+  }
+
+  // Queue the next run of a recurring job as a fresh pending job
+  private async scheduleNextOccurrence(job: BulkMessageJob): Promise<void> {
+    const recurrence = job.recurrence as BulkJobRecurrence | null;
+    if (!recurrence) return;
+
+    const after = new Date(Math.max(Date.now(), job.scheduledAt?.getTime() || 0));
+    const scheduledAt = this.getNextOccurrence(recurrence, after);
+    if (!scheduledAt) return;
+
+    const next = await storage.createBulkMessageJob({
+      name: job.name,
+      templateId: job.templateId,
+      contactIds: job.contactIds,
+      languageCode: job.languageCode,
+      delayMs: job.delayMs,
+      variableMapping: job.variableMapping,
+      totalMessages: job.totalMessages,
+      cooldownHours: job.cooldownHours,
+      recurrence,
+      scheduledAt
+    });
+    console.log(`🔁 Next run of bulk job "${job.name}" queued for ${scheduledAt.toISOString()} (${next.id})`);
+    this.broadcastProgress(next);
+  }
+
+  private async sendToContact(job: BulkMessageJob, template: WhatsAppTemplate, mapping: TemplateVariableMapping, contactId: string): Promise<void> {
+    const contact = await storage.getContact(contactId);
+    if (!contact) {
+      console.log(`⚠️ Bulk job ${job.id}: contact ${contactId} no longer exists, skipping`);
+      return;
+    }
+
+    if (job.cooldownHours > 0) {
+      const lastMessageAt = await storage.getLastOutboundWhatsAppAt(contactId, job.id);
+      if (lastMessageAt && Date.now() - lastMessageAt.getTime() < job.cooldownHours * 60 * 60 * 1000) {
+        console.log(`⏭️ Bulk job ${job.id}: skipping ${contact.name}, messaged ${lastMessageAt.toISOString()} (cool-down ${job.cooldownHours}h)`);
+        await storage.skipBulkJobContact(job.id, contactId);
+        return;
+      }
+    }
+
+    // Contact details can change after the job was validated, so each recipient is checked again
+    const preview = TemplateVariableService.previewRecipient(template, mapping, contact);
+    const { suppressed } = await SuppressionService.partitionContacts([contact]);
+    const failedReason = suppressed.length > 0
+      ? 'Number is on the do-not-call list'
+      : preview.errors.length > 0 ? `Invalid template variables: ${preview.errors.join('; ')}` : null;
+
+    const message = await storage.createWhatsAppMessage({
+      contactId,
+      phone: preview.phone,
+      message: preview.body,
+      messageType: 'template',
+      direction: 'outbound',
+      status: failedReason ? 'failed' : 'pending',
+      failedReason,
+      templateName: template.name,
+      bulkJobId: job.id
+    });
+
+    if (failedReason) {
+      console.log(`🚫 Bulk job ${job.id}: skipping ${preview.phone}: ${failedReason}`);
+      return;
+    }
+
+    const phone = preview.phone;
+    try {
+      const result = await WhatsAppTemplateService.sendTemplateComponents(
+        phone,
+        template.name,
+        job.languageCode,
+        TemplateVariableService.buildComponents(template, preview.values)
+      );
+
+      if (result.success) {
+        await storage.updateWhatsAppMessage(message.id, { status: 'sent', whatsappMessageId: result.messageId });
+        await LeadPipelineService.advanceStage(contactId, 'contacted', {
+          source: 'campaign',
+          reason: `WhatsApp template "${template.name}" sent`
+        });
+      } else {
+        console.log(`❌ Bulk job ${job.id}: send to ${phone} failed: ${result.error}`);
+        await storage.updateWhatsAppMessage(message.id, {
+          status: 'failed',
+          failedReason: result.error || 'Send failed',
+          errorCode: result.errorCode
+        });
+      }
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Bulk job ${job.id}: send to ${phone} failed:`, reason);
+      await storage.updateWhatsAppMessage(message.id, { status: 'failed', failedReason: reason });
+    }
+  }
+
+  private async failJob(job: BulkMessageJob, reason: string): Promise<void> {
+    console.log(`❌ Bulk job ${job.id} failed: ${reason}`);
+    const failed = await storage.updateBulkMessageJobIfStatus(job.id, ['in_progress'], { status: 'failed', lastError: reason, completedAt: new Date() });
+    if (failed) this.broadcastProgress(failed);
+  }
+
+  private broadcastProgress(job: BulkMessageJob): void {
+    broadcastToClients({ type: 'bulk_job_progress', job });
+  }
+}
+
+// Export singleton instance
+export const bulkMessageWorker = new BulkMessageWorker();
@@ -0,0 +1,137 @@
+import { storage } from '../storage';
+import { OpenAIService } from './openaiService';
+import { CallGoalService, type CollectedGoals } from './callGoalService';
+import { dialerService } from './dialerService';
+import type { ConversationTurn } from './callSessionStore';
+import type { Call, CallAnalysis, Campaign, DialingConfig } from '@shared/schema';
+
+// Callbacks closer than this are not worth a separate dial
+const MIN_CALLBACK_DELAY_MS = 5 * 60 * 1000;
+
+// How callers say the symbols in an email address, longest phrases first
+const SPOKEN_EMAIL_SYMBOLS: [RegExp, string][] = [
+  [/\sat the rate( of)?\s/g, '@'],
+  [/\sat\s/g, '@'],
+  [/\s(dot|period)\s/g, '.'],
+  [/\sunder ?score\s/g, '_'],
+  [/\s(dash|hyphen)\s/g, '-'],
+  [/\splus\s/g, '+']
+];
+
+const DIGIT_WORDS = ['zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine'];
+
+// Turns a finished transcript into a typed CallAnalysis and stores it on the call
+export class CallAnalysisService {
+  // Only keep a WhatsApp number the caller said within one turn, in digits or words ("nine eight double seven...");
+  // the agent reading a number back doesn't count, and digits from separate answers never combine
+  static verifyPhone(value: string | null, callerTurns: string[]): string | null {
+    const phone = CallGoalService.normalizeValue({ key: 'whatsapp', label: 'WhatsApp', type: 'phone', required: false }, value);
+    if (!phone) return null;
+
+    const localDigits = phone.replace(/\D/g, '').slice(-10);
+    return callerTurns.some(turn => this.spokenDigits(turn).replace(/\D/g, '').includes(localDigits)) ? phone : null;
+  }
+
+  // Only keep an email whose local part the caller said as a whole word, e.g. "info at labs dot com"
+  // or "j o h n dot smith at the rate gmail"; "information" does not verify info@
+  static verifyEmail(value: string | null, callerText: string): string | null {
+    const email = CallGoalService.normalizeValue({ key: 'email', label: 'Email', type: 'email', required: false }, value);
+    if (!email) return null;
+
+    const localPart = email.split('@')[0].toLowerCase();
+    const escaped = localPart.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    // "email me at info at labs" reads "me@info@labs", so a local part may follow another @
+    return new RegExp(`(^|[\\s@])${escaped}(@|\\s|$)`).test(this.normalizeSpokenEmail(callerText)) ? email : null;
+  }
+
+  // Written form of a spoken address: symbol words become symbols, spelled-out letters and digits are
+  // joined, and symbols attach to their neighbours, so "j o h n dot smith at gmail" reads "john.smith@gmail"
+  private static normalizeSpokenEmail(text: string): string {
+    let normalized = ` ${text.toLowerCase().replace(/[,;:!?"'()]/g, ' ')} `;
+    for (const [pattern, symbol] of SPOKEN_EMAIL_SYMBOLS) {
+      normalized = normalized.replace(pattern, ` ${symbol} `);
+    }
+    normalized = this.spokenDigits(normalized);
+
+    // Consecutive single characters are a spelled-out word
+    const tokens: string[] = [];
+    let spelling = false;
+    for (const token of normalized.split(/\s+/).filter(Boolean)) {
+      const single = /^[a-z0-9]$/.test(token);
+      if (single && spelling) tokens[tokens.length - 1] += token;
+      else tokens.push(token);
+      spelling = single;
+    }
+    return tokens.join(' ').replace(/\s*([.@_+-])\s*/g, '$1');
+  }
+
+  // Lowercased text with digit words as digits, including "double 9" and "triple 0"
+  private static spokenDigits(text: string): string {
+    return text
+      .toLowerCase()
+      .replace(/\b(zero|one|two|three|four|five|six|seven|eight|nine)\b/g, word => String(DIGIT_WORDS.indexOf(word)))
+      .replace(/\b(double|triple)\s+(\d)\b/g, (_match, repeat: string, digit: string) => digit.repeat(repeat === 'double' ? 2 : 3));
+  }
+
+  // Analyze a finished call, then fill successScore, collectedData and the verified contact details
+  static async analyzeCall(
+    call: Call,
+    campaign: Campaign | undefined,
+    conversationHistory: ConversationTurn[]
+  ): Promise<{ call: Call; analysis: CallAnalysis | null }> {
+    const callerTurns = conversationHistory.filter(turn => turn.role === 'user');
+    if (callerTurns.length === 0) return { call, analysis: null };
+
+    try {
+      const transcript = conversationHistory
+        .map(turn => `${turn.role === 'user' ? 'Caller' : 'Agent'}: ${turn.content}`)
+        .join('\n');
+      const goals = campaign ? CallGoalService.getGoals(campaign) : [];
+      const timezone = (campaign?.dialingConfig as Partial<DialingConfig> | null)?.timezone || 'Asia/Kolkata';
+
+      const analysis = await OpenAIService.analyzeCall(transcript, goals, timezone, campaign?.openaiModel);
+      if (!analysis) return { call, analysis: null };
+
+      const callerText = callerTurns.map(turn => turn.content).join(' ');
+      const whatsappNumber = this.verifyPhone(analysis.whatsappNumber, callerTurns.map(turn => turn.content));
+      const email = this.verifyEmail(analysis.email, callerText);
+      const verified: CallAnalysis = { ...analysis, whatsappNumber, email };
+
+      // Goal values collected live during the call take precedence over the post-call pass
+      const collected = { ...((call.collectedData as CollectedGoals | null) || {}) };
+      for (const goal of goals) {
+        if (collected[goal.key]) continue;
+        const value = CallGoalService.normalizeValue(goal, analysis.goalValues[goal.key]);
+        if (value) collected[goal.key] = value;
+      }
+
+      const updated = await storage.updateCall(call.id, {
+        successScore: analysis.successScore,
+        collectedData: { ...collected, analysis: verified },
+        extractedWhatsapp: call.extractedWhatsapp || whatsappNumber,
+        extractedEmail: call.extractedEmail || email
+      });
+
+      console.log(`🧠 Call ${call.id} analyzed: ${analysis.outcomeCategory}, interest ${analysis.interestLevel}, score ${analysis.successScore}`);
+
+      if (verified.callbackAt) {
+        await this.scheduleCallback(updated, new Date(verified.callbackAt));
+      }
+
+      return { call: updated, analysis: verified };
+    } catch (error) {
+      console.error(`❌ Error analyzing call ${call.id}:`, error);
+      return { call, analysis: null };
+    }
+  }
+
+  // Queue a dial at the time the caller asked for; the dialer applies calling hours on top
+  private static async scheduleCallback(call: Call, callbackAt: Date): Promise<void> {
+    if (!call.contactId || !call.campaignId) return;
+    if (isNaN(callbackAt.getTime()) || callbackAt.getTime() - Date.now() < MIN_CALLBACK_DELAY_MS) return;
+
+    const campaign = await storage.getCampaign(call.campaignId);
+    if (!campaign) return;
+    await dialerService.scheduleFollowUp(campaign, { contactId: call.contactId, phoneNumber: call.phoneNumber }, callbackAt);
+  }
+}
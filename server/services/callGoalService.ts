@@ -0,0 +1,174 @@
+import type { Campaign, CallGoal } from '@shared/schema';
+import { directSpeechService } from './directSpeechService';
+import { OpenAIService } from './openaiService';
+
+export type CollectedGoals = Record<string, string>;
+
+export interface GoalProgress {
+  goals: CallGoal[];
+  collected: CollectedGoals;
+  missingRequired: CallGoal[];
+  missingOptional: CallGoal[];
+  complete: boolean; // every required goal collected
+}
+
+// Campaigns without their own goals keep the original WhatsApp + email collection
+export const DEFAULT_CALL_GOALS: CallGoal[] = [
+  { key: 'whatsapp', label: 'WhatsApp number', type: 'phone', required: true },
+  { key: 'email', label: 'Email address', type: 'email', required: true }
+];
+
+const GOAL_TYPES = ['text', 'phone', 'email', 'number', 'boolean', 'choice', 'datetime'];
+
+// Minimum exchanges before the agent may wrap up once all required goals are collected
+const MIN_TURNS_BEFORE_HANGUP = 4;
+
+const FAREWELL_PHRASES = ['thank you for your time', 'goodbye'];
+const REFUSAL_PHRASES = ['not interested', 'hang up'];
+
+// Tracks which campaign call goals have been collected and decides when a call is done
+export class CallGoalService {
+  // Goals configured on a campaign, falling back to the defaults
+  static getGoals(campaign: Campaign): CallGoal[] {
+    const goals = Array.isArray(campaign.callGoals) ? campaign.callGoals as CallGoal[] : [];
+    const valid = goals.filter(goal => this.validateGoal(goal) === null);
+    return valid.length > 0 ? valid : DEFAULT_CALL_GOALS;
+  }
+
+  // Validate a goal definition; returns an error message or null
+  static validateGoal(goal: Partial<CallGoal>): string | null {
+    if (!goal || typeof goal !== 'object') return 'Goal must be an object';
+    if (!goal.key || !/^[a-zA-Z][a-zA-Z0-9_]*$/.test(goal.key)) return 'Goal key must be alphanumeric and start with a letter';
+    if (goal.key === 'analysis') return 'Goal key "analysis" is reserved for the post-call analysis';
+    if (!goal.label) return `Goal ${goal.key} needs a label`;
+    if (!goal.type || !GOAL_TYPES.includes(goal.type)) return `Goal ${goal.key} has an unknown type`;
+    if (goal.type === 'choice' && (!Array.isArray(goal.options) || goal.options.length === 0)) {
+      return `Choice goal ${goal.key} needs at least one option`;
+    }
+    if (goal.pattern) {
+      try {
+        new RegExp(goal.pattern);
+      } catch {
+        return `Goal ${goal.key} has an invalid pattern`;
+      }
+    }
+    return null;
+  }
+
+  // Validate a list of goal definitions, e.g. from the campaign form
+  static validateGoals(goals: unknown): string[] {
+    if (goals === undefined || goals === null) return [];
+    if (!Array.isArray(goals)) return ['callGoals must be an array'];
+
+    const errors = goals
+      .map(goal => this.validateGoal(goal))
+      .filter((error): error is string => error !== null);
+
+    const keys = goals.map(goal => goal?.key);
+    const duplicates = keys.filter((key, index) => key && keys.indexOf(key) !== index);
+    if (duplicates.length > 0) {
+      errors.push(`Duplicate goal keys: ${Array.from(new Set(duplicates)).join(', ')}`);
+    }
+    return errors;
+  }
+
+  // Normalize a raw value for a goal; returns null when it does not pass validation
+  static normalizeValue(goal: CallGoal, raw: unknown): string | null {
+    if (raw === undefined || raw === null) return null;
+    const value = String(raw).trim();
+    if (!value) return null;
+
+    switch (goal.type) {
+      case 'phone': {
+        const digits = value.replace(/[^\d+]/g, '');
+        return /^\+?\d{10,15}$/.test(digits) ? digits : null;
+      }
+      case 'email': {
+        const email = value.toLowerCase().replace(/\s+/g, '');
+        return /^[\w.%+-]+@[\w.-]+\.[a-z]{2,}$/.test(email) ? email : null;
+      }
+      case 'number': {
+        const number = parseFloat(value.replace(/,/g, ''));
+        if (isNaN(number)) return null;
+        if (goal.min !== undefined && number < goal.min) return null;
+        if (goal.max !== undefined && number > goal.max) return null;
+        return String(number);
+      }
+      case 'boolean': {
+        if (/^(yes|true|y|haan|ha)$/i.test(value)) return 'true';
+        if (/^(no|false|n|nahi)$/i.test(value)) return 'false';
+        return null;
+      }
+      case 'choice': {
+        const option = goal.options?.find(option => option.toLowerCase() === value.toLowerCase());
+        return option || null;
+      }
+      case 'datetime': {
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? null : date.toISOString();
+      }
+      default: {
+        if (goal.pattern && !new RegExp(goal.pattern, 'i').test(value)) return null;
+        return value;
+      }
+    }
+  }
+
+  // Work out which goals are still missing
+  static getProgress(goals: CallGoal[], collected: CollectedGoals): GoalProgress {
+    const missing = goals.filter(goal => !collected[goal.key]);
+    const missingRequired = missing.filter(goal => goal.required);
+    return {
+      goals,
+      collected,
+      missingRequired,
+      missingOptional: missing.filter(goal => !goal.required),
+      complete: missingRequired.length === 0
+    };
+  }
+
+  // Phone and email goals read from one caller utterance with regexes; instant, so it runs before the reply
+  static extractPatternValues(goals: CallGoal[], collected: CollectedGoals, speechText: string): CollectedGoals {
+    const found: CollectedGoals = {};
+    const missing = goals.filter(goal => !collected[goal.key] && (goal.type === 'phone' || goal.type === 'email'));
+    if (missing.length === 0) return found;
+
+    const contactInfo = directSpeechService.extractContactInfo(speechText);
+    for (const goal of missing) {
+      const value = this.normalizeValue(goal, goal.type === 'phone' ? contactInfo.whatsapp : contactInfo.email);
+      if (value) found[goal.key] = value;
+    }
+    return found;
+  }
+
+  // Every other missing goal read from one caller utterance by the LLM; the call runs it
+  // alongside the reply so it adds no wait before the agent speaks
+  static async extractFromSpeech(
+    goals: CallGoal[],
+    collected: CollectedGoals,
+    speechText: string,
+    lastAgentMessage?: string
+  ): Promise<CollectedGoals> {
+    const found: CollectedGoals = {};
+    const needsLlm = goals.filter(goal => !collected[goal.key] && goal.type !== 'phone' && goal.type !== 'email');
+    if (needsLlm.length === 0) return found;
+
+    const extracted = await OpenAIService.extractGoalValues(speechText, needsLlm, lastAgentMessage);
+    for (const goal of needsLlm) {
+      const value = this.normalizeValue(goal, extracted[goal.key]);
+      if (value) found[goal.key] = value;
+    }
+    return found;
+  }
+
+  // Hangup rule: the caller refuses, or every required goal is collected and the
+  // conversation has run long enough or the agent said goodbye
+  static shouldEndCall(progress: GoalProgress, turnCount: number, speechText: string, aiResponse: string): boolean {
+    const speech = speechText.toLowerCase();
+    if (REFUSAL_PHRASES.some(phrase => speech.includes(phrase))) return true;
+    if (!progress.complete) return false;
+
+    const response = aiResponse.toLowerCase();
+    return turnCount >= MIN_TURNS_BEFORE_HANGUP || FAREWELL_PHRASES.some(phrase => response.includes(phrase));
+  }
+}
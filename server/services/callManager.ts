@@ -1,38 +1,34 @@
 import { OpenAIService } from './openaiService';
 import { ElevenLabsService } from './elevenlabsService';
 import { twilioService } from './twilioService';
-import { directSpeechService } from './directSpeechService';
+import { CallGoalService, DEFAULT_CALL_GOALS, type CollectedGoals } from './callGoalService';
+import { LeadPipelineService } from './leadPipelineService';
+import { CallAnalysisService } from './callAnalysisService';
+import { MessagingService } from './messagingService';
+import { SuppressionService } from './suppressionService';
+import { callSessionStore, type ActiveCall, type ConversationTurn } from './callSessionStore';
 // Removed OpenAI speech service import - using Twilio direct speech recognition
 import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import type { Call, CallAnalysis, CallOutcome, Campaign, LeadStage } from '@shared/schema';
 // Using built-in fetch available in Node.js 18+
 
-interface ConversationTurn {
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-}
-
-interface ActiveCall {
-  id: string;
-  contactId: string;
-  campaignId: string;
-  phoneNumber: string;
-  twilioCallSid: string;
-  conversationHistory: ConversationTurn[];
-  status: 'active' | 'completed' | 'failed';
-  startTime: Date;
-}
-
+// Call state lives in callSessionStore (database backed), not in process memory,
+// so any instance can serve any webhook and restarts never reset a conversation
 export class CallManager {
-  private activeCalls: Map<string, ActiveCall> = new Map();
-
   // Start a new call
   async startCall(
     contactId: string,
     campaignId: string,
-    phoneNumber: string
+    phoneNumber: string,
+    attemptNumber: number = 1
   ): Promise<{ success: boolean; callId?: string; error?: string }> {
     try {
+      if (await SuppressionService.isSuppressed(phoneNumber)) {
+        console.log(`🚫 Not calling ${phoneNumber}: number is on the do-not-call list`);
+        return { success: false, error: 'Number is on the do-not-call list' };
+      }
+
       // Get campaign details
       const campaign = await storage.getCampaign(campaignId);
       if (!campaign) {
@@ -45,9 +41,13 @@ export class CallManager {
         campaignId,
         phoneNumber,
         status: 'active',
+        attemptNumber,
         startTime: new Date()
       });
 
+      // Create session state before dialing so the answer webhook finds it on any instance
+      await callSessionStore.create(newCall);
+
       // Initiate Twilio call
       const twilioResult = await twilioService.initiateCall(
         phoneNumber,
@@ -57,7 +57,7 @@ export class CallManager {
 
       if (!twilioResult.success) {
         // Update call status to failed
-        await storage.updateCall(newCall.id, { status: 'failed' });
+        await this.failCall(newCall.id, 'failed');
         return { success: false, error: twilioResult.error };
       }
 
@@ -66,18 +66,6 @@ export class CallManager {
         twilioCallSid: twilioResult.twilioCallSid 
       });
 
-      // Track active call
-      this.activeCalls.set(newCall.id, {
-        id: newCall.id,
-        contactId,
-        campaignId,
-        phoneNumber,
-        twilioCallSid: twilioResult.twilioCallSid!,
-        conversationHistory: [],
-        status: 'active',
-        startTime: new Date()
-      });
-
       return { success: true, callId: newCall.id };
     } catch (error) {
       console.error('Error starting call:', error);
@@ -88,20 +76,12 @@ export class CallManager {
     }
   }
 
-  // Ensure a call is tracked in active calls (used after server restarts)
-  ensureCallIsTracked(callId: string, dbCall: any): void {
-    if (!this.activeCalls.has(callId)) {
-      console.log(`🔄 Adding call ${callId} to active calls tracking`);
-      this.activeCalls.set(callId, {
-        id: dbCall.id,
-        contactId: dbCall.contactId,
-        campaignId: dbCall.campaignId,
-        phoneNumber: dbCall.phoneNumber,
-        twilioCallSid: dbCall.twilioCallSid,
-        conversationHistory: [],
-        status: 'active',
-        startTime: dbCall.startTime
-      });
+  // Ensure a call has session state (used by webhooks, including after server restarts)
+  async ensureCallIsTracked(callId: string, dbCall: Call): Promise<void> {
+    try {
+      await callSessionStore.ensure(dbCall);
+    } catch (error) {
+      console.error(`❌ Error ensuring session state for call ${callId}:`, error);
     }
   }
 
@@ -113,49 +93,34 @@ export class CallManager {
     try {
       const timings: any = {};
       timings.start = Date.now();
-      console.log(`🔍 Looking for active call: ${callId}`);
-      console.log(`📊 Active calls count: ${this.activeCalls.size}`);
-      console.log(`📋 Active call IDs: ${Array.from(this.activeCalls.keys()).join(', ')}`);
+      console.log(`🔍 Loading session state for call: ${callId}`);
 
-      let activeCall = this.activeCalls.get(callId);
+      // Always load from the session store so state is current across restarts and instances
+      timings.sessionLoadStart = Date.now();
+      const activeCall = await callSessionStore.load(callId);
+      timings.sessionLoadEnd = Date.now();
+      timings.sessionLoadDurationMs = timings.sessionLoadEnd - timings.sessionLoadStart;
 
-      // If call not in memory, try to reconstruct from database
       if (!activeCall) {
-        timings.reconstructStart = Date.now();
-        console.log(`⚠️ Call ${callId} not found in active calls, reconstructing from database`);
-        const dbCall = await storage.getCall(callId);
-        timings.reconstructEnd = Date.now();
-        timings.reconstructDurationMs = timings.reconstructEnd - timings.reconstructStart;
-        if (dbCall && dbCall.status === 'active') {
-          activeCall = {
-            id: dbCall.id,
-            contactId: dbCall.contactId!,
-            campaignId: dbCall.campaignId!,
-            phoneNumber: dbCall.phoneNumber,
-            twilioCallSid: dbCall.twilioCallSid!,
-            conversationHistory: [],
-            status: 'active',
-            startTime: dbCall.startTime
-          };
-          this.activeCalls.set(callId, activeCall);
-          console.log(`✅ Reconstructed active call from database`);
-        } else {
-          console.log(`❌ Call ${callId} not found in database or not active`);
-          return {
-            twiml: twilioService.generateTwiML('hangup', { 
-              text: 'Thank you for your time. Goodbye.',
-              language: 'en',
-              voice: 'alice'
-            }),
-            success: false,
-            timings
-          };
-        }
+        console.log(`❌ Call ${callId} not found in database or not active`);
+        return {
+          twiml: twilioService.generateTwiML('hangup', { 
+            text: 'Thank you for your time. Goodbye.',
+            language: 'en',
+            voice: 'alice'
+          }),
+          success: false,
+          timings
+        };
       }
+      console.log(`✅ Restored call session: ${activeCall.turnCount} turns, ${activeCall.conversationHistory.length} messages`);
 
       timings.campaignFetchStart = Date.now();
-      // Get campaign for script context
-      const campaign = await storage.getCampaign(activeCall.campaignId);
+      // Get campaign and contact for prompt context
+      const [campaign, contact] = await Promise.all([
+        storage.getCampaign(activeCall.campaignId),
+        storage.getContact(activeCall.contactId)
+      ]);
       timings.campaignFetchEnd = Date.now();
       timings.campaignFetchDurationMs = timings.campaignFetchEnd - timings.campaignFetchStart;
       if (!campaign) {
@@ -170,6 +135,38 @@ export class CallManager {
         };
       }
 
+      // "Stop calling" / "remove my number": put the number on the do-not-call list and end the call,
+      // keeping the request in the transcript so the call analysis sees it
+      if (SuppressionService.isOptOutSpeech(speechText)) {
+        await SuppressionService.suppress(activeCall.phoneNumber, `Asked not to be called: "${speechText}"`, 'call', {
+          contactId: activeCall.contactId,
+          sourceReference: callId
+        });
+
+        const goodbye = "Understood, we won't call you again. Sorry for the disturbance, have a good day.";
+        activeCall.conversationHistory.push(
+          { role: 'user', content: speechText, timestamp: new Date() },
+          { role: 'assistant', content: goodbye, timestamp: new Date() }
+        );
+        activeCall.turnCount++;
+        await callSessionStore.recordTurn(activeCall, speechText, goodbye);
+
+        setTimeout(() => this.completeCall(callId), 1000);
+        return {
+          twiml: twilioService.generateTwiML('hangup', {
+            text: goodbye,
+            language: campaign.language || 'en'
+          }),
+          success: true,
+          timings
+        };
+      }
+
+      const goals = CallGoalService.getGoals(campaign);
+      const lastAgentMessage = activeCall.conversationHistory
+        .filter(turn => turn.role === 'assistant')
+        .pop()?.content;
+
       // Add user message to conversation history
       activeCall.conversationHistory.push({
         role: 'user',
@@ -177,48 +174,54 @@ export class CallManager {
         timestamp: new Date()
       });
 
-      // Extract contact information from speech (optimized for speed)
-      timings.extractContactInfoStart = Date.now();
-      const contactInfo = directSpeechService.extractContactInfo(speechText);
-      timings.extractContactInfoEnd = Date.now();
-      timings.extractContactInfoDurationMs = timings.extractContactInfoEnd - timings.extractContactInfoStart;
-
-      // Get current call data to check existing contact info
-      timings.callFetchStart = Date.now();
-      const currentCall = await storage.getCall(callId);
-      timings.callFetchEnd = Date.now();
-      timings.callFetchDurationMs = timings.callFetchEnd - timings.callFetchStart;
-      const hasContactInfo = {
-        whatsapp: currentCall?.extractedWhatsapp || contactInfo.whatsapp,
-        email: currentCall?.extractedEmail || contactInfo.email
-      };
+      // Phone and email goals are read from the speech right away so the reply knows they're collected;
+      // the LLM extraction of the other goals runs alongside the reply instead of before it
+      const patternValues = CallGoalService.extractPatternValues(goals, activeCall.collectedInfo, speechText);
+      Object.assign(activeCall.collectedInfo, patternValues);
+      const replyProgress = CallGoalService.getProgress(goals, activeCall.collectedInfo);
 
-      // Update call with any new contact info
-      if (contactInfo.whatsapp || contactInfo.email) {
+      timings.extractContactInfoStart = Date.now();
+      timings.openaiStart = timings.extractContactInfoStart;
+      const [llmValues, aiResult] = await Promise.all([
+        CallGoalService.extractFromSpeech(goals, activeCall.collectedInfo, speechText, lastAgentMessage).then(values => {
+          timings.extractContactInfoEnd = Date.now();
+          timings.extractContactInfoDurationMs = timings.extractContactInfoEnd - timings.extractContactInfoStart;
+          return values;
+        }),
+        // Generate AI response quickly using campaign settings
+        OpenAIService.generateResponse(
+          speechText,
+          { campaign, contact },
+          activeCall.conversationHistory.slice(-4).map(turn => ({ // Only last 4 exchanges for speed
+            role: turn.role,
+            content: turn.content
+          })),
+          replyProgress
+        ).then(result => {
+          timings.openaiEnd = Date.now();
+          timings.openaiDurationMs = timings.openaiEnd - timings.openaiStart;
+          return result;
+        })
+      ]);
+
+      // Update call with any newly collected goals
+      const newGoalValues = { ...patternValues, ...llmValues };
+      if (Object.keys(newGoalValues).length > 0) {
         timings.updateContactInfoStart = Date.now();
+        Object.assign(activeCall.collectedInfo, llmValues);
         await storage.updateCall(callId, {
-          extractedWhatsapp: hasContactInfo.whatsapp,
-          extractedEmail: hasContactInfo.email
+          collectedData: activeCall.collectedInfo,
+          // Keep the dedicated columns in sync for follow-up messaging
+          extractedWhatsapp: activeCall.collectedInfo.whatsapp,
+          extractedEmail: activeCall.collectedInfo.email
         });
         timings.updateContactInfoEnd = Date.now();
         timings.updateContactInfoDurationMs = timings.updateContactInfoEnd - timings.updateContactInfoStart;
-        console.log(`✅ Updated contact info - WhatsApp: ${hasContactInfo.whatsapp}, Email: ${hasContactInfo.email}`);
+        console.log(`✅ Collected call goals: ${Object.keys(newGoalValues).join(', ')}`);
       }
 
-      // Generate AI response quickly using campaign settings
-      timings.openaiStart = Date.now();
-      const aiResult = await OpenAIService.generateResponse(
-        speechText,
-        campaign.script || campaign.aiPrompt,
-        activeCall.conversationHistory.slice(-4).map(turn => ({ // Only last 4 exchanges for speed
-          role: turn.role,
-          content: turn.content
-        })),
-        hasContactInfo,
-        campaign.openaiModel
-      );
-      timings.openaiEnd = Date.now();
-      timings.openaiDurationMs = timings.openaiEnd - timings.openaiStart;
+      // Progress including this turn's LLM-extracted goals decides whether the call can end
+      const goalProgress = CallGoalService.getProgress(goals, activeCall.collectedInfo);
 
       const aiResponse = aiResult.response;
 
@@ -229,37 +232,16 @@ export class CallManager {
         timestamp: new Date()
       });
 
-      // Save conversation to database
+      activeCall.turnCount++;
+
+      // Save conversation and session progress to database
       timings.saveMessagesStart = Date.now();
-      try {
-        await storage.createCallMessage({
-          callId,
-          role: 'user',
-          content: speechText
-        });
-        await storage.createCallMessage({
-          callId,
-          role: 'assistant', 
-          content: aiResponse
-        });
-        timings.saveMessagesEnd = Date.now();
-        timings.saveMessagesDurationMs = timings.saveMessagesEnd - timings.saveMessagesStart;
-        console.log('✅ Messages saved to database successfully');
-      } catch (dbError) {
-        timings.saveMessagesEnd = Date.now();
-        timings.saveMessagesDurationMs = timings.saveMessagesEnd - timings.saveMessagesStart;
-        console.error('❌ Database save error:', dbError);
-      }
+      await callSessionStore.recordTurn(activeCall, speechText, aiResponse);
+      timings.saveMessagesEnd = Date.now();
+      timings.saveMessagesDurationMs = timings.saveMessagesEnd - timings.saveMessagesStart;
 
-      // Check if conversation should end (only after collecting BOTH WhatsApp and email)
-      const hasAllContactInfo = hasContactInfo.whatsapp && hasContactInfo.email;
-      const shouldEndCall = (hasAllContactInfo && (
-                           activeCall.conversationHistory.length >= 8 || 
-                           aiResponse.toLowerCase().includes('thank you for your time') ||
-                           aiResponse.toLowerCase().includes('goodbye')
-                           )) ||
-                           speechText.toLowerCase().includes('not interested') ||
-                           speechText.toLowerCase().includes('hang up');
+      // Check if conversation should end (only after collecting every required goal)
+      const shouldEndCall = CallGoalService.shouldEndCall(goalProgress, activeCall.turnCount, speechText, aiResponse);
 
       // Generate ElevenLabs audio with fast fallback to Twilio if it fails
       let twiml;
@@ -388,27 +370,37 @@ export class CallManager {
   // Handle call completion
   async completeCall(callId: string, duration?: number): Promise<void> {
     try {
-      const activeCall = this.activeCalls.get(callId);
-      if (!activeCall) return;
+      const dbCall = await storage.getCall(callId);
+      if (!dbCall || dbCall.status !== 'active') return;
 
-      // Update call status in database
-      await storage.updateCall(callId, {
+      // Rebuild the full conversation from the session store (works after restarts too)
+      const activeCall = await callSessionStore.hydrate(dbCall);
+
+      // Update call status in database - only one completion wins if several fire at once
+      const finished = await storage.finishActiveCall(callId, {
         status: 'completed',
+        outcome: 'answered',
         endTime: new Date(),
         duration: duration || Math.floor((Date.now() - activeCall.startTime.getTime()) / 1000)
       });
+      if (!finished) return;
 
-      // Remove from active calls
-      this.activeCalls.delete(callId);
+      await this.recordAttempt(finished, 'answered');
 
       // Generate call summary using AI
-      const summary = await this.generateCallSummary(activeCall.conversationHistory);
+      const campaign = await storage.getCampaign(activeCall.campaignId);
+      const summary = await this.generateCallSummary(activeCall.conversationHistory, campaign?.openaiModel);
       if (summary) {
         await storage.updateCall(callId, { conversationSummary: summary });
       }
 
-      // Extract contact information and send follow-up if needed
-      await this.processPostCallActions(callId, activeCall.conversationHistory);
+      // Structured analysis: outcome, interest, objections, callback time, verified contact details and successScore
+      const { call: analyzedCall, analysis } = await CallAnalysisService.analyzeCall(finished, campaign, activeCall.conversationHistory);
+
+      // Send follow-ups to the verified contact details
+      await this.processPostCallActions(analyzedCall, campaign, summary);
+
+      await this.updateLeadPipeline(analyzedCall, campaign, analysis);
 
       console.log(`Call ${callId} completed successfully`);
     } catch (error) {
@@ -416,56 +408,123 @@ export class CallManager {
     }
   }
 
+  // Close a call that never reached a person (voicemail, busy, no-answer, failed, canceled)
+  async failCall(callId: string, outcome: CallOutcome): Promise<void> {
+    try {
+      const finished = await storage.finishActiveCall(callId, {
+        status: 'failed',
+        outcome,
+        endTime: new Date(),
+        duration: 0
+      });
+      if (!finished) return;
+
+      await this.recordAttempt(finished, outcome);
+      if (finished.contactId) {
+        await LeadPipelineService.recalculateScore(finished.contactId);
+      }
+      console.log(`📵 Call ${callId} ended without conversation: ${outcome}`);
+    } catch (error) {
+      console.error('Error failing call:', error);
+    }
+  }
+
+  // Count the attempt against the contact's engagement so unreachable leads stay visible
+  private async recordAttempt(call: Call, outcome: CallOutcome): Promise<void> {
+    if (!call.contactId || !call.campaignId) return;
+    try {
+      await storage.recordCallAttempt(call.contactId, call.campaignId, outcome);
+    } catch (error) {
+      console.error(`❌ Error recording call attempt for ${call.id}:`, error);
+    }
+  }
+
+  // An answered call moves the lead to contacted; the analysis (or, without one, a complete set of
+  // required goals) can move it on to interested, and a clear "not interested" marks it lost
+  private async updateLeadPipeline(call: Call, campaign: Campaign | undefined, analysis: CallAnalysis | null): Promise<void> {
+    if (!call.contactId) return;
+    try {
+      const goals = campaign ? CallGoalService.getGoals(campaign) : DEFAULT_CALL_GOALS;
+      const progress = CallGoalService.getProgress(goals, (call.collectedData as CollectedGoals | null) || {});
+
+      let stage: LeadStage = 'contacted';
+      let reason = 'Answered the call';
+      if (analysis?.outcomeCategory === 'interested' || analysis?.outcomeCategory === 'callback_requested') {
+        stage = 'interested';
+        reason = analysis.outcomeCategory === 'interested' ? `Interest level ${analysis.interestLevel}` : 'Asked for a callback';
+      } else if (analysis?.outcomeCategory === 'not_interested') {
+        stage = 'lost';
+        reason = analysis.objections.length > 0 ? `Not interested: ${analysis.objections.join('; ')}` : 'Not interested';
+      } else if (!analysis && progress.complete) {
+        stage = 'interested';
+        reason = 'Shared all requested details on the call';
+      }
+
+      // Make sure the contact is at least marked contacted before it moves on
+      if (stage !== 'contacted') {
+        await LeadPipelineService.advanceStage(call.contactId, 'contacted', { source: 'call', callId: call.id, reason: 'Answered the call' });
+      }
+      await LeadPipelineService.advanceStage(call.contactId, stage, { source: 'call', callId: call.id, reason });
+      await LeadPipelineService.recalculateScore(call.contactId);
+    } catch (error) {
+      console.error(`❌ Error updating lead pipeline for call ${call.id}:`, error);
+    }
+  }
+
   // Generate call summary using AI
-  private async generateCallSummary(conversationHistory: ConversationTurn[]): Promise<string> {
+  private async generateCallSummary(conversationHistory: ConversationTurn[], model?: string): Promise<string> {
     try {
       const conversationText = conversationHistory
         .map(turn => `${turn.role}: ${turn.content}`)
         .join('\n');
 
-      const summaryResponse = await OpenAIService.generateResponse(
-        `Please provide a brief summary of this call conversation:\n${conversationText}`,
-        "Generate a concise call summary focusing on key points discussed and outcomes.",
-        []
-      );
-
-      return summaryResponse.response;
+      return await OpenAIService.summarizeConversation(conversationText, model);
     } catch (error) {
       console.error('Error generating call summary:', error);
       return 'Call completed - summary generation failed';
     }
   }
 
-  // Process post-call actions (WhatsApp follow-up, contact updates)
-  private async processPostCallActions(callId: string, conversationHistory: ConversationTurn[]): Promise<void> {
+  // Process post-call actions (WhatsApp and email follow-up, contact updates)
+  private async processPostCallActions(
+    call: Call,
+    campaign: Campaign | undefined,
+    summary?: string
+  ): Promise<void> {
+    const callId = call.id;
     try {
-      // Extract WhatsApp/email from conversation if mentioned
-      const conversationText = conversationHistory
-        .map(turn => turn.content)
-        .join(' ');
+      // No follow-ups for someone who just asked us to stop contacting them
+      if (await SuppressionService.isSuppressed(call.phoneNumber)) {
+        console.log(`🚫 Skipping follow-ups for call ${callId}: number is on the do-not-call list`);
+        return;
+      }
 
-      // Simple regex to extract WhatsApp numbers and emails
-      const whatsappMatch = conversationText.match(/(\+?[\d\s\-\(\)]{10,})/);
-      const emailMatch = conversationText.match(/[\w\.-]+@[\w\.-]+\.\w+/);
+      // Only details the caller actually gave: collected live by the call goals or verified by the post-call analysis
+      const { extractedWhatsapp, extractedEmail } = call;
 
-      if (whatsappMatch || emailMatch) {
-        const extractedWhatsapp = whatsappMatch ? whatsappMatch[1].replace(/\D/g, '') : undefined;
-        const extractedEmail = emailMatch ? emailMatch[0] : undefined;
+      // Send follow-up WhatsApp message if number was extracted
+      if (extractedWhatsapp) {
+        const message = "Thank you for your time during our call. We'll follow up with the information discussed about LabsCheck partnerships.";
+        const result = await twilioService.sendWhatsAppMessage(extractedWhatsapp, message);
 
-        // Update call record with extracted data
-        await storage.updateCall(callId, {
-          extractedWhatsapp,
-          extractedEmail
-        });
+        if (result.success) {
+          await storage.updateCall(callId, { whatsappSent: true });
+        }
+      }
 
-        // Send follow-up WhatsApp message if number was extracted
-        if (extractedWhatsapp) {
-          const message = "Thank you for your time during our call. We'll follow up with the information discussed about LabsCheck partnerships.";
-          const result = await twilioService.sendWhatsAppMessage(extractedWhatsapp, message);
+      // Send follow-up email if address was extracted; emailSent only flips once the transport accepts it
+      if (extractedEmail) {
+        const contact = call.contactId ? await storage.getContact(call.contactId) : undefined;
+        const sent = await MessagingService.sendEmail(
+          extractedEmail,
+          'Follow-up from your call with {{agentName}}',
+          'Hi {{contact.firstName}},\n\nThank you for your time during our call. Please find the summary and next steps below.',
+          summary,
+          { campaign, contact, callId }
+        );
 
-          if (result.success) {
-            await storage.updateCall(callId, { whatsappSent: true });
-          }
+        if (sent) {
+          await storage.updateCall(callId, { emailSent: true });
         }
       }
     } catch (error) {
@@ -474,33 +533,26 @@ export class CallManager {
   }
 
   // Get active calls
-  getActiveCalls(): ActiveCall[] {
-    return Array.from(this.activeCalls.values());
+  async getActiveCalls(): Promise<ActiveCall[]> {
+    return callSessionStore.listActive();
   }
 
   // Get call by ID
-  getCall(callId: string): ActiveCall | undefined {
-    return this.activeCalls.get(callId);
+  async getCall(callId: string): Promise<ActiveCall | undefined> {
+    return callSessionStore.load(callId);
   }
 
   // Broadcast call updates via WebSocket
   private broadcastCallUpdate(call: ActiveCall): void {
-    try {
-      const broadcastFn = (global as any).broadcastToClients;
-      if (broadcastFn) {
-        broadcastFn({
-          type: 'call_update',
-          call: {
-            id: call.id,
-            status: call.status,
-            conversationHistory: call.conversationHistory,
-            duration: Math.floor((Date.now() - call.startTime.getTime()) / 1000)
-          }
-        });
+    broadcastToClients({
+      type: 'call_update',
+      call: {
+        id: call.id,
+        status: call.status,
+        conversationHistory: call.conversationHistory,
+        duration: Math.floor((Date.now() - call.startTime.getTime()) / 1000)
       }
-    } catch (error) {
-      console.error('Error broadcasting call update:', error);
-    }
+    });
   }
 }
 
@@ -0,0 +1,68 @@
+import type { Campaign, CallOutcome, RetryPolicy } from '@shared/schema';
+
+// Redial busy after 30 minutes, no-answer and voicemail after 4 hours, failed after 1 hour; 3 attempts in total
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  retryDelayMinutes: {
+    busy: 30,
+    'no-answer': 240,
+    voicemail: 240,
+    failed: 60
+  }
+};
+
+const RETRYABLE_OUTCOMES = ['voicemail', 'busy', 'no-answer', 'failed', 'canceled'];
+
+// Decides whether and when an unanswered call gets redialed
+export class CallRetryService {
+  // Map a final Twilio call status to a call outcome
+  static outcomeFromTwilioStatus(twilioStatus: string): CallOutcome {
+    switch (twilioStatus) {
+      case 'completed': return 'answered';
+      case 'busy': return 'busy';
+      case 'no-answer': return 'no-answer';
+      case 'canceled': return 'canceled';
+      default: return 'failed';
+    }
+  }
+
+  // Campaign retry policy merged over the defaults
+  static getRetryPolicy(campaign: Campaign | undefined): RetryPolicy {
+    const policy = (campaign?.retryPolicy as Partial<RetryPolicy> | null) || {};
+    return {
+      maxAttempts: policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts,
+      retryDelayMinutes: policy.retryDelayMinutes ?? DEFAULT_RETRY_POLICY.retryDelayMinutes
+    };
+  }
+
+  // Validate a retry policy from the API; returns a list of problems
+  static validateRetryPolicy(policy: Partial<RetryPolicy> | undefined | null): string[] {
+    if (!policy) return [];
+    const errors: string[] = [];
+
+    if (policy.maxAttempts !== undefined && (!Number.isInteger(policy.maxAttempts) || policy.maxAttempts < 1)) {
+      errors.push('maxAttempts must be a positive integer');
+    }
+    if (policy.retryDelayMinutes !== undefined) {
+      for (const [outcome, minutes] of Object.entries(policy.retryDelayMinutes)) {
+        if (!RETRYABLE_OUTCOMES.includes(outcome)) {
+          errors.push(`Cannot retry outcome: ${outcome}`);
+        } else if (typeof minutes !== 'number' || minutes < 0) {
+          errors.push(`Retry delay for ${outcome} must be zero or more minutes`);
+        }
+      }
+    }
+    return errors;
+  }
+
+  // When to redial after an attempt, or null when the contact should not be called again
+  static getNextAttemptAt(policy: RetryPolicy, outcome: CallOutcome, attemptsMade: number, now: Date = new Date()): Date | null {
+    if (outcome === 'answered') return null;
+    if (attemptsMade >= policy.maxAttempts) return null;
+
+    const delayMinutes = policy.retryDelayMinutes[outcome];
+    if (delayMinutes === undefined) return null;
+
+    return new Date(now.getTime() + delayMinutes * 60 * 1000);
+  }
+}
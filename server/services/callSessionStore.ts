@@ -0,0 +1,148 @@
+import { storage } from '../storage';
+import type { Call } from '@shared/schema';
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+}
+
+export interface ActiveCall {
+  id: string;
+  contactId: string;
+  campaignId: string;
+  phoneNumber: string;
+  twilioCallSid: string;
+  conversationHistory: ConversationTurn[];
+  collectedInfo: Record<string, string>; // Call goal values keyed by goal key
+  turnCount: number;
+  status: 'active' | 'completed' | 'failed';
+  startTime: Date;
+}
+
+// Call session store backed by the database.
+// Conversation history is rebuilt from call_messages and progress (turn count,
+// collected contact info) lives in call_sessions, so a restart or a different
+// server instance behind the load balancer picks the call up where it left off.
+export class CallSessionStore {
+  // Create the session row for a freshly created call
+  async create(call: Call): Promise<ActiveCall> {
+    await storage.upsertCallSession({
+      callId: call.id,
+      turnCount: 0,
+      collectedInfo: {}
+    });
+    return this.toActiveCall(call, [], {}, 0);
+  }
+
+  // Make sure a session row exists (webhooks can arrive before or after a restart)
+  async ensure(call: Call): Promise<void> {
+    const existing = await storage.getCallSession(call.id);
+    if (!existing) {
+      console.log(`🔄 Creating session state for call ${call.id}`);
+      await storage.upsertCallSession({
+        callId: call.id,
+        turnCount: 0,
+        collectedInfo: this.collectedInfoFromCall(call)
+      });
+    }
+  }
+
+  // Load the live session for a call; undefined when the call is unknown or no longer active
+  async load(callId: string): Promise<ActiveCall | undefined> {
+    const dbCall = await storage.getCall(callId);
+    if (!dbCall || dbCall.status !== 'active') {
+      return undefined;
+    }
+    return this.hydrate(dbCall);
+  }
+
+  // Rebuild full session state for a call row, regardless of its status
+  async hydrate(dbCall: Call): Promise<ActiveCall> {
+    const [session, messages] = await Promise.all([
+      storage.getCallSession(dbCall.id),
+      storage.getCallMessages(dbCall.id)
+    ]);
+
+    // getCallMessages returns newest first
+    const conversationHistory: ConversationTurn[] = messages
+      .slice()
+      .reverse()
+      .map(message => ({
+        role: message.role === 'assistant' ? 'assistant' : 'user',
+        content: message.content,
+        timestamp: message.timestamp
+      }));
+
+    const collectedInfo = {
+      ...this.collectedInfoFromCall(dbCall),
+      ...((session?.collectedInfo as Record<string, string> | null) || {})
+    };
+    const turnCount = session?.turnCount
+      ?? conversationHistory.filter(turn => turn.role === 'user').length;
+
+    return this.toActiveCall(dbCall, conversationHistory, collectedInfo, turnCount);
+  }
+
+  // Persist one user/assistant exchange together with the updated progress
+  async recordTurn(call: ActiveCall, userText: string, assistantText: string): Promise<void> {
+    try {
+      await storage.createCallMessage({ callId: call.id, role: 'user', content: userText });
+      await storage.createCallMessage({ callId: call.id, role: 'assistant', content: assistantText });
+      console.log('✅ Messages saved to database successfully');
+    } catch (dbError) {
+      console.error('❌ Database save error:', dbError);
+    }
+
+    await this.saveProgress(call);
+  }
+
+  // Persist turn count and collected info without touching the transcript
+  async saveProgress(call: ActiveCall): Promise<void> {
+    try {
+      await storage.upsertCallSession({
+        callId: call.id,
+        turnCount: call.turnCount,
+        collectedInfo: call.collectedInfo
+      });
+    } catch (error) {
+      console.error(`❌ Error saving session state for call ${call.id}:`, error);
+    }
+  }
+
+  // All calls currently active across every instance
+  async listActive(): Promise<ActiveCall[]> {
+    const activeCalls = await storage.getActiveCalls();
+    return Promise.all(activeCalls.map(call => this.hydrate(call)));
+  }
+
+  private collectedInfoFromCall(call: Call): Record<string, string> {
+    const info: Record<string, string> = { ...((call.collectedData as Record<string, string> | null) || {}) };
+    if (call.extractedWhatsapp) info.whatsapp = call.extractedWhatsapp;
+    if (call.extractedEmail) info.email = call.extractedEmail;
+    return info;
+  }
+
+  private toActiveCall(
+    call: Call,
+    conversationHistory: ConversationTurn[],
+    collectedInfo: Record<string, string>,
+    turnCount: number
+  ): ActiveCall {
+    return {
+      id: call.id,
+      contactId: call.contactId!,
+      campaignId: call.campaignId!,
+      phoneNumber: call.phoneNumber,
+      twilioCallSid: call.twilioCallSid || '',
+      conversationHistory,
+      collectedInfo,
+      turnCount,
+      status: call.status === 'completed' || call.status === 'failed' ? call.status : 'active',
+      startTime: call.startTime
+    };
+  }
+}
+
+// Export singleton instance
+export const callSessionStore = new CallSessionStore();
@@ -91,6 +91,14 @@ export class CampaignService {
         case 'WHATSAPP':
           // Send WhatsApp template message
           if (campaignConfig.whatsappTemplate) {
+            const templates = await storage.getWhatsAppTemplates();
+            const template = templates.find(t => t.name === campaignConfig.whatsappTemplate);
+            const templateError = template ? WhatsAppTemplateService.unsendableReason(template) : `Template "${campaignConfig.whatsappTemplate}" not found`;
+            if (templateError) {
+              errorMessage = templateError;
+              break;
+            }
+
             const result = await WhatsAppTemplateService.sendTemplateMessage(
               contact.phone,
               campaignConfig.whatsappTemplate,
@@ -116,7 +124,9 @@ export class CampaignService {
             success = await MessagingService.sendEmail(
               contact.email || '',
               campaignConfig.emailSubject,
-              campaignConfig.emailBody
+              campaignConfig.emailBody,
+              undefined,
+              { contact }
             );
             
             if (success) {
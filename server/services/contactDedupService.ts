@@ -0,0 +1,191 @@
+import { storage } from '../storage';
+import { PhoneNumberService } from './phoneNumberService';
+import { LeadPipelineService } from './leadPipelineService';
+import {
+  LEAD_STAGES,
+  type Contact,
+  type DuplicateContactGroup,
+  type DuplicateMatchReason,
+  type InsertContact,
+  type LeadStage
+} from '@shared/schema';
+
+// Names this similar (0-1, by edit distance) in the same city count as the same contact
+const NAME_SIMILARITY = 0.85;
+// Words that say nothing about which business a name refers to
+const NAME_NOISE_WORDS = new Set(['the', 'pvt', 'private', 'ltd', 'limited', 'llp', 'inc', 'co', 'and']);
+
+// Fields copied from a duplicate when the survivor has no value of its own
+const FILLABLE_FIELDS = ['email', 'whatsappNumber', 'phoneNumber', 'city', 'state', 'company'] as const;
+
+// A survivor in one of these stages keeps it whatever the duplicates reached
+const FINAL_STAGES: LeadStage[] = ['onboarded', 'lost'];
+
+const normalizeName = (name: string) => name
+  .toLowerCase()
+  .replace(/[^a-z0-9 ]/g, ' ')
+  .split(/\s+/)
+  .filter(word => word && !NAME_NOISE_WORDS.has(word))
+  .join(' ');
+
+const levenshtein = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+const nameSimilarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  const longest = Math.max(a.length, b.length);
+  // Too different in length to ever reach the threshold
+  if (Math.abs(a.length - b.length) > longest * (1 - NAME_SIMILARITY)) return 0;
+  return 1 - levenshtein(a, b) / longest;
+};
+
+// Finds contacts that are probably the same person and merges them into one
+export class ContactDedupService {
+  // Groups of two or more contacts sharing a phone or WhatsApp number, an email, or a similar name in the same city
+  static async findDuplicates(): Promise<DuplicateContactGroup[]> {
+    const contacts = await storage.getAllContacts();
+
+    // Union-find over contact indexes; every match joins two sets and records why
+    const parent = contacts.map((_, i) => i);
+    const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+    const edgeReasons = new Map<number, Set<DuplicateMatchReason>>();
+    const join = (a: number, b: number, reason: DuplicateMatchReason) => {
+      const rootA = find(a);
+      const rootB = find(b);
+      const reasons = new Set([
+        ...Array.from(edgeReasons.get(rootA) || []),
+        ...Array.from(edgeReasons.get(rootB) || []),
+        reason
+      ]);
+      parent[rootB] = rootA;
+      edgeReasons.set(rootA, reasons);
+    };
+
+    const firstByKey = new Map<string, number>();
+    const matchKey = (key: string | null | undefined, i: number, reason: DuplicateMatchReason) => {
+      if (!key) return;
+      const first = firstByKey.get(`${reason}:${key}`);
+      if (first === undefined) firstByKey.set(`${reason}:${key}`, i);
+      else join(first, i, reason);
+    };
+
+    // Only names in the same city starting with the same letter are compared, which keeps this far from n²
+    const nameBuckets = new Map<string, { index: number; name: string }[]>();
+
+    contacts.forEach((contact, i) => {
+      matchKey(PhoneNumberService.toE164(contact.phone), i, 'phone');
+      matchKey(PhoneNumberService.toE164(contact.whatsappNumber), i, 'phone');
+      matchKey(contact.email?.trim().toLowerCase(), i, 'email');
+
+      const city = contact.city?.trim().toLowerCase();
+      const name = normalizeName(contact.name);
+      if (city && name) {
+        const bucketKey = `${city}:${name[0]}`;
+        const bucket = nameBuckets.get(bucketKey) || [];
+        bucket.push({ index: i, name });
+        nameBuckets.set(bucketKey, bucket);
+      }
+    });
+
+    for (const bucket of Array.from(nameBuckets.values())) {
+      for (let a = 0; a < bucket.length; a++) {
+        for (let b = a + 1; b < bucket.length; b++) {
+          if (nameSimilarity(bucket[a].name, bucket[b].name) >= NAME_SIMILARITY) {
+            join(bucket[a].index, bucket[b].index, 'name_city');
+          }
+        }
+      }
+    }
+
+    const groups = new Map<number, Contact[]>();
+    contacts.forEach((contact, i) => {
+      const root = find(i);
+      groups.set(root, [...(groups.get(root) || []), contact]);
+    });
+
+    return Array.from(groups.entries())
+      .filter(([, members]) => members.length > 1)
+      .map(([root, members]) => ({
+        reasons: Array.from(edgeReasons.get(root) || []),
+        contacts: members
+      }));
+  }
+
+  // Fold the duplicates into the survivor: blanks are filled from the duplicates, notes and tags are combined,
+  // an open survivor moves to the furthest stage any of them reached, and the lead score is recalculated
+  // from the combined history. Resolves with undefined when any of the contacts does not exist
+  static async merge(survivorId: string, duplicateIds: string[]): Promise<Contact | undefined> {
+    const survivor = await storage.getContact(survivorId);
+    const duplicates = await storage.getContactsByIds(duplicateIds);
+    if (!survivor || duplicates.length !== duplicateIds.length) return undefined;
+
+    const updates: Partial<InsertContact> = {};
+    for (const field of FILLABLE_FIELDS) {
+      if (!survivor[field]) {
+        const value = duplicates.find(contact => contact[field])?.[field];
+        if (value) updates[field] = value;
+      }
+    }
+    const notes = [survivor.notes, ...duplicates.map(contact => contact.notes)].filter(Boolean);
+    if (notes.length > 1) updates.notes = Array.from(new Set(notes)).join('\n');
+
+    // Tags are combined; custom fields the survivor has no value for are taken from the duplicates
+    const tags = Array.from(new Set([survivor, ...duplicates].flatMap(contact => contact.tags || [])));
+    if (tags.length > (survivor.tags || []).length) updates.tags = tags;
+    const fieldsOf = (contact: Contact) => (contact.customFields as Record<string, unknown> | null) || {};
+    const customFields = Object.assign({}, ...[...duplicates].reverse().map(fieldsOf), fieldsOf(survivor));
+    if (Object.keys(customFields).length > Object.keys(fieldsOf(survivor)).length) updates.customFields = customFields;
+
+    await storage.mergeContacts(survivorId, duplicateIds, updates);
+
+    const stage = this.furthestOpenStage([survivor, ...duplicates]);
+    if (!FINAL_STAGES.includes(survivor.leadStage as LeadStage) && stage !== survivor.leadStage) {
+      await LeadPipelineService.setStage(survivorId, stage, { source: 'manual', reason: 'Merged duplicate contacts' });
+    }
+    await LeadPipelineService.recalculateScore(survivorId);
+
+    console.log(`🔗 Merged ${duplicates.length} duplicate(s) into ${survivor.name}`);
+    return await storage.getContact(survivorId);
+  }
+
+  // Rewrite every contact's phone and WhatsApp number in E.164; numbers that cannot be read are left as they are
+  static async normalizePhones(): Promise<{ updated: number; unreadable: string[] }> {
+    const contacts = await storage.getAllContacts();
+    let updated = 0;
+    const unreadable: string[] = [];
+
+    for (const contact of contacts) {
+      const normalized = PhoneNumberService.normalizeContact({
+        phone: contact.phone,
+        phoneNumber: contact.phoneNumber,
+        whatsappNumber: contact.whatsappNumber
+      });
+      if (!PhoneNumberService.toE164(contact.phone)) unreadable.push(`${contact.name}: ${contact.phone}`);
+
+      if (normalized.phone !== contact.phone || normalized.phoneNumber !== contact.phoneNumber ||
+          normalized.whatsappNumber !== contact.whatsappNumber) {
+        await storage.updateContact(contact.id, normalized);
+        updated++;
+      }
+    }
+
+    console.log(`📱 Normalized phone numbers of ${updated} contacts (${unreadable.length} unreadable)`);
+    return { updated, unreadable };
+  }
+
+  private static furthestOpenStage(contacts: Contact[]): LeadStage {
+    return contacts
+      .map(contact => contact.leadStage as LeadStage)
+      .filter(stage => stage !== 'lost')
+      .reduce((furthest, stage) => LEAD_STAGES.indexOf(stage) > LEAD_STAGES.indexOf(furthest) ? stage : furthest, 'new');
+  }
+}
@@ -0,0 +1,398 @@
+import * as XLSX from 'xlsx';
+import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import { PhoneNumberService } from './phoneNumberService';
+import { CustomFieldService } from './customFieldService';
+import { buildMediaKey, getMediaStorage } from './mediaStorageService';
+import {
+  CONTACT_IMPORT_FIELDS,
+  type ContactImportColumn,
+  type ContactImportDryRun,
+  type ContactImportField,
+  type ContactImportJob,
+  type ContactFieldDefinition,
+  type CustomFieldValue,
+  type InsertContact,
+  type InsertContactImportError
+} from '@shared/schema';
+
+const TICK_INTERVAL_MS = 5000;
+// Far longer than one batch takes, so a live worker never looks stale
+const STALE_HEARTBEAT_MS = 2 * 60 * 1000;
+const BATCH_SIZE = 200;
+const SAMPLE_ROWS = 5;
+const DRY_RUN_ISSUES = 20;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Header spellings recognised for each built-in field, compared case-insensitively
+const FIELD_ALIASES: Record<ContactImportField, string[]> = {
+  name: ['name', 'full name', 'contact name', 'lab name'],
+  phone: ['phone', 'phone number', 'phone_number', 'mobile', 'mobile number', 'number', 'contact number'],
+  email: ['email', 'email address', 'e-mail', 'mail'],
+  whatsappNumber: ['whatsapp', 'whatsapp number', 'wa number'],
+  company: ['company', 'organization', 'organisation', 'org'],
+  notes: ['notes', 'comments', 'remarks'],
+  city: ['city', 'location'],
+  state: ['state', 'province'],
+  tags: ['tags', 'tag', 'labels']
+};
+
+export interface ImportRow {
+  rowNumber: number; // As numbered in the spreadsheet, header row being 1
+  values: string[];
+}
+
+export interface ParsedImportFile {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+type RowResult =
+  | { contact: InsertContact }
+  | { kind: 'invalid' | 'duplicate'; error: string };
+
+// Imports spreadsheets of contacts: the file is uploaded and its columns mapped as a draft job,
+// checked with a dry run, then inserted by this worker in the background in batches
+export class ContactImportWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  start(): void {
+    if (this.timer) return;
+    console.log('📥 Contact import worker started');
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // First sheet of a CSV or Excel file as text cells; blank rows are dropped
+  parseFile(buffer: Buffer): ParsedImportFile {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const sheet = workbook.Sheets[workbook.SheetNames[0]];
+    if (!sheet) throw new Error('The file has no sheets');
+
+    const data = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: false, defval: '' });
+    if (data.length === 0) throw new Error('The file is empty');
+
+    const headers = data[0].map(cell => String(cell ?? '').trim());
+    const rows: ImportRow[] = [];
+    data.slice(1).forEach((cells, i) => {
+      const values = headers.map((_, column) => String(cells[column] ?? '').trim());
+      if (values.some(Boolean)) rows.push({ rowNumber: i + 2, values });
+    });
+    return { headers, rows };
+  }
+
+  // Field keys must start with a letter, so a header such as "2024 volume" becomes field_2024_volume
+  customFieldKey(header: string): string {
+    const key = header.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+    return /^[0-9]/.test(key) ? `field_${key}` : key;
+  }
+
+  // Built-in fields for recognised headers, then existing custom fields by key or label;
+  // every other named column becomes a new custom field
+  suggestMapping(headers: string[], definitions: ContactFieldDefinition[]): ContactImportColumn[] {
+    const used = new Set<ContactImportField>();
+    return headers.map(header => {
+      const normalized = header.toLowerCase();
+      const field = CONTACT_IMPORT_FIELDS.find(candidate => !used.has(candidate) && FIELD_ALIASES[candidate].includes(normalized));
+      if (field) {
+        used.add(field);
+        return { header, field };
+      }
+      const key = this.customFieldKey(header);
+      const definition = definitions.find(candidate => candidate.key === key || candidate.label.toLowerCase() === normalized);
+      return { header, field: definition ? `custom:${definition.key}` as const : key ? `custom:${key}` as const : null };
+    });
+  }
+
+  // Check a mapping against the file's headers; returns a list of problems
+  validateMapping(mapping: unknown, headers: string[]): string[] {
+    if (!Array.isArray(mapping) || mapping.length !== headers.length) {
+      return [`mapping must list one entry for each of the file's ${headers.length} columns`];
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    (mapping as ContactImportColumn[]).forEach((column, i) => {
+      const field = column?.field;
+      if (field === null || field === undefined) return;
+      if (typeof field !== 'string') {
+        errors.push(`Column ${i + 1} ("${headers[i]}"): invalid field`);
+        return;
+      }
+      if (field.startsWith('custom:')) {
+        if (!CustomFieldService.isValidKey(field.slice('custom:'.length))) {
+          errors.push(`Column ${i + 1} ("${headers[i]}"): custom field keys must start with a letter and use only a-z, 0-9 and _`);
+        }
+      } else if (!(CONTACT_IMPORT_FIELDS as readonly string[]).includes(field)) {
+        errors.push(`Column ${i + 1} ("${headers[i]}"): unknown field "${field}"`);
+      }
+      if (seen.has(field)) {
+        errors.push(`"${field}" is mapped to more than one column`);
+      }
+      seen.add(field);
+    });
+
+    for (const required of ['name', 'phone']) {
+      if (!seen.has(required)) errors.push(`A column must be mapped to ${required}`);
+    }
+    return errors;
+  }
+
+  // Store the uploaded file and create a draft job with a suggested mapping
+  async createJob(fileName: string, mimeType: string, buffer: Buffer): Promise<{
+    job: ContactImportJob;
+    headers: string[];
+    sampleRows: string[][];
+  }> {
+    const file = this.parseFile(buffer);
+    const fileKey = buildMediaKey('imports', mimeType, fileName);
+    await getMediaStorage().save(fileKey, buffer, mimeType);
+
+    const job = await storage.createContactImportJob({
+      fileName,
+      fileKey,
+      mapping: this.suggestMapping(file.headers, await storage.getContactFieldDefinitions()),
+      totalRows: file.rows.length
+    });
+    console.log(`📥 Contact import ${job.id} uploaded: ${fileName} (${file.rows.length} rows)`);
+    return { job, headers: file.headers, sampleRows: file.rows.slice(0, SAMPLE_ROWS).map(row => row.values) };
+  }
+
+  // Check every row against the mapping without importing anything; the mapping is saved on the draft
+  async dryRun(job: ContactImportJob, mapping: ContactImportColumn[]): Promise<ContactImportDryRun> {
+    const file = await this.readFile(job);
+    await storage.updateContactImportJobIfStatus(job.id, ['draft'], { mapping });
+
+    const knownPhones = await this.loadKnownPhones();
+    const definitions = await this.loadDefinitions();
+    const result: ContactImportDryRun = { totalRows: file.rows.length, validRows: 0, invalidRows: 0, duplicateRows: 0, issues: [] };
+    for (const row of file.rows) {
+      const outcome = this.mapRow(row, mapping, knownPhones, definitions);
+      if ('contact' in outcome) {
+        result.validRows++;
+        continue;
+      }
+      if (outcome.kind === 'duplicate') result.duplicateRows++;
+      else result.invalidRows++;
+      if (result.issues.length < DRY_RUN_ISSUES) {
+        result.issues.push({ rowNumber: row.rowNumber, kind: outcome.kind, error: outcome.error });
+      }
+    }
+    return result;
+  }
+
+  // Queue a draft, creating text fields for custom columns with no field yet; undefined when it was already started
+  async startJob(jobId: string, mapping: ContactImportColumn[]): Promise<ContactImportJob | undefined> {
+    const job = await storage.updateContactImportJobIfStatus(jobId, ['draft'], { mapping, status: 'queued' });
+    if (job) {
+      const definitions = await this.loadDefinitions();
+      for (const column of mapping) {
+        const key = column.field?.startsWith('custom:') ? column.field.slice('custom:'.length) : null;
+        if (key && !definitions.has(key)) {
+          const definition = await storage.createContactFieldDefinition({ key, label: column.header || key, type: 'text' });
+          definitions.set(key, definition);
+          console.log(`🏷️ Contact field created by import ${job.id}: ${key}`);
+        }
+      }
+      console.log(`📋 Contact import ${job.id} queued: ${job.totalRows} rows`);
+      this.broadcastProgress(job);
+    }
+    return job;
+  }
+
+  // CSV of every row the import skipped, with the reason and the row's original cells
+  async buildErrorReport(job: ContactImportJob): Promise<string> {
+    const errors = await storage.getContactImportErrors(job.id);
+    const headers = ((job.mapping as ContactImportColumn[] | null) || []).map(column => column.header);
+
+    const sheet = XLSX.utils.aoa_to_sheet([
+      ['Row', 'Problem', 'Error', ...headers],
+      ...errors.map(error => {
+        const values = (error.values as Record<string, string> | null) || {};
+        return [error.rowNumber, error.kind, error.error, ...headers.map(header => values[header] ?? '')];
+      })
+    ]);
+    return XLSX.utils.sheet_to_csv(sheet);
+  }
+
+  // The contact a row describes, or why it is skipped. Valid rows' numbers are added to knownPhones
+  // so a number repeated further down the file counts as a duplicate. Custom columns without a
+  // field definition are read as text, as startJob creates them as text fields
+  private mapRow(
+    row: ImportRow,
+    mapping: ContactImportColumn[],
+    knownPhones: Set<string>,
+    definitions: Map<string, ContactFieldDefinition>
+  ): RowResult {
+    const contact: Partial<InsertContact> = { importedFrom: 'import' };
+    const customFields: Record<string, CustomFieldValue> = {};
+    const fieldErrors: string[] = [];
+
+    mapping.forEach((column, i) => {
+      const value = row.values[i];
+      if (!column.field || !value) return;
+      if (column.field.startsWith('custom:')) {
+        const key = column.field.slice('custom:'.length);
+        const definition = definitions.get(key);
+        const coerced = definition ? CustomFieldService.coerce(definition, value) : { value };
+        if ('error' in coerced) fieldErrors.push(coerced.error);
+        else customFields[key] = coerced.value;
+      } else if (column.field === 'tags') {
+        contact.tags = CustomFieldService.normalizeTags(value) || [];
+      } else {
+        contact[column.field as Exclude<ContactImportField, 'tags'>] = value;
+      }
+    });
+
+    if (!contact.name) return { kind: 'invalid', error: 'Name is missing' };
+    if (!contact.phone) return { kind: 'invalid', error: 'Phone number is missing' };
+
+    const phone = PhoneNumberService.toE164(contact.phone);
+    if (!phone) return { kind: 'invalid', error: `Invalid phone number "${contact.phone}"` };
+    const whatsapp = contact.whatsappNumber ? PhoneNumberService.toE164(contact.whatsappNumber) : null;
+    if (contact.whatsappNumber && !whatsapp) {
+      return { kind: 'invalid', error: `Invalid WhatsApp number "${contact.whatsappNumber}"` };
+    }
+    if (contact.email && !EMAIL_PATTERN.test(contact.email)) {
+      return { kind: 'invalid', error: `Invalid email "${contact.email}"` };
+    }
+    if (fieldErrors.length > 0) return { kind: 'invalid', error: fieldErrors.join('; ') };
+
+    const known = [phone, whatsapp].find(number => number && knownPhones.has(number));
+    if (known) return { kind: 'duplicate', error: `A contact with ${known} already exists` };
+
+    knownPhones.add(phone);
+    if (whatsapp) knownPhones.add(whatsapp);
+    return {
+      contact: {
+        ...contact,
+        name: contact.name,
+        phone,
+        phoneNumber: phone,
+        whatsappNumber: whatsapp,
+        email: contact.email?.toLowerCase(),
+        customFields: Object.keys(customFields).length > 0 ? customFields : null
+      }
+    };
+  }
+
+  // Every phone and WhatsApp number already on a contact, in E.164
+  private async loadKnownPhones(): Promise<Set<string>> {
+    const known = new Set<string>();
+    for (const contact of await storage.getAllContacts()) {
+      for (const number of [contact.phone, contact.whatsappNumber]) {
+        const phone = PhoneNumberService.toE164(number);
+        if (phone) known.add(phone);
+      }
+    }
+    return known;
+  }
+
+  private async loadDefinitions(): Promise<Map<string, ContactFieldDefinition>> {
+    const definitions = await storage.getContactFieldDefinitions();
+    return new Map(definitions.map(definition => [definition.key, definition]));
+  }
+
+  private async readFile(job: ContactImportJob): Promise<ParsedImportFile> {
+    const buffer = await getMediaStorage().read(job.fileKey);
+    if (!buffer) throw new Error('The uploaded file is no longer available');
+    return this.parseFile(buffer);
+  }
+
+  private async tick(): Promise<void> {
+    // An import can run for many ticks; only one is processed at a time
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      let job = await storage.claimContactImportJob(new Date(Date.now() - STALE_HEARTBEAT_MS));
+      while (job) {
+        await this.processJob(job);
+        job = await storage.claimContactImportJob(new Date(Date.now() - STALE_HEARTBEAT_MS));
+      }
+    } catch (error) {
+      // The job stays running and is reclaimed once its heartbeat goes stale
+      console.error('❌ Contact import worker tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async processJob(job: ContactImportJob): Promise<void> {
+    let file: ParsedImportFile;
+    try {
+      file = await this.readFile(job);
+    } catch (error) {
+      await this.failJob(job, error instanceof Error ? error.message : 'Could not read the file');
+      return;
+    }
+
+    const mapping = (job.mapping as ContactImportColumn[] | null) || [];
+    const mappingErrors = this.validateMapping(mapping, file.headers);
+    if (mappingErrors.length > 0) {
+      await this.failJob(job, mappingErrors.join('; '));
+      return;
+    }
+
+    if (job.processedRows > 0) {
+      console.log(`🔄 Resuming contact import ${job.id}: ${job.processedRows} of ${file.rows.length} rows done`);
+    } else {
+      console.log(`📥 Starting contact import ${job.id}: ${file.rows.length} rows from ${job.fileName}`);
+    }
+
+    // Rows before processedRows were committed together with the counts, so they are never inserted twice
+    const knownPhones = await this.loadKnownPhones();
+    const definitions = await this.loadDefinitions();
+    for (let start = job.processedRows; start < file.rows.length; start += BATCH_SIZE) {
+      const batch = file.rows.slice(start, start + BATCH_SIZE);
+      const contacts: InsertContact[] = [];
+      const errors: InsertContactImportError[] = [];
+
+      for (const row of batch) {
+        const outcome = this.mapRow(row, mapping, knownPhones, definitions);
+        if ('contact' in outcome) {
+          contacts.push(outcome.contact);
+        } else {
+          errors.push({
+            jobId: job.id,
+            rowNumber: row.rowNumber,
+            kind: outcome.kind,
+            error: outcome.error,
+            values: Object.fromEntries(file.headers.map((header, i) => [header, row.values[i]]))
+          });
+        }
+      }
+
+      const progress = await storage.saveContactImportBatch(job.id, batch.length, contacts, errors);
+      if (progress) this.broadcastProgress(progress);
+    }
+
+    const completed = await storage.updateContactImportJobIfStatus(job.id, ['running'], { status: 'completed', completedAt: new Date() });
+    if (completed) {
+      console.log(`✅ Contact import ${job.id} completed: ${completed.importedRows} imported, ${completed.duplicateRows} duplicates, ${completed.invalidRows} invalid`);
+      this.broadcastProgress(completed);
+      // The error report keeps the skipped rows' cells, so the file itself is no longer needed
+      await getMediaStorage().delete(job.fileKey).catch(error => console.error(`Error deleting import file ${job.fileKey}:`, error));
+    }
+  }
+
+  private async failJob(job: ContactImportJob, reason: string): Promise<void> {
+    console.log(`❌ Contact import ${job.id} failed: ${reason}`);
+    const failed = await storage.updateContactImportJobIfStatus(job.id, ['running'], { status: 'failed', lastError: reason, completedAt: new Date() });
+    if (failed) this.broadcastProgress(failed);
+  }
+
+  private broadcastProgress(job: ContactImportJob): void {
+    broadcastToClients({ type: 'contact_import_progress', job });
+  }
+}
+
+// Export singleton instance
+export const contactImportWorker = new ContactImportWorker();
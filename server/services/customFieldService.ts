@@ -0,0 +1,146 @@
+import {
+  CUSTOM_FIELD_TYPES,
+  type Contact,
+  type ContactFieldDefinition,
+  type CustomFieldFilter,
+  type CustomFieldValue,
+  type InsertContactFieldDefinition
+} from '@shared/schema';
+
+const KEY_PATTERN = /^[a-z][a-z0-9_]*$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MAX_TAG_LENGTH = 50;
+
+type CoerceResult = { value: CustomFieldValue } | { error: string };
+
+// Validates user-defined contact fields and their values, and normalizes tags
+export class CustomFieldService {
+  static isValidKey(key: unknown): key is string {
+    return typeof key === 'string' && KEY_PATTERN.test(key);
+  }
+
+  // Check a new definition, or the changes to an existing one; returns a list of problems
+  static validateDefinition(input: Partial<InsertContactFieldDefinition>, existing?: ContactFieldDefinition): string[] {
+    const errors: string[] = [];
+    if (!existing) {
+      if (!this.isValidKey(input.key)) {
+        errors.push('key must start with a letter and use only a-z, 0-9 and _');
+      }
+    } else if (input.key !== undefined && input.key !== existing.key) {
+      errors.push('key cannot be changed');
+    }
+
+    if (!existing || input.label !== undefined) {
+      if (typeof input.label !== 'string' || !input.label.trim()) errors.push('label is required');
+    }
+
+    if (!existing) {
+      if (!CUSTOM_FIELD_TYPES.includes(input.type as any)) errors.push(`type must be one of: ${CUSTOM_FIELD_TYPES.join(', ')}`);
+    } else if (input.type !== undefined && input.type !== existing.type) {
+      // Stored values were coerced to the old type
+      errors.push('type cannot be changed');
+    }
+
+    const type = existing?.type ?? input.type;
+    if (type === 'enum' && (!existing || input.options !== undefined)) {
+      const options = input.options;
+      if (!Array.isArray(options) || options.length === 0 || options.some(option => typeof option !== 'string' || !option.trim())) {
+        errors.push('enum fields need a list of options');
+      }
+    }
+    return errors;
+  }
+
+  // A raw value (typed in or read from a spreadsheet) in the field's stored form
+  static coerce(definition: ContactFieldDefinition, raw: unknown): CoerceResult {
+    const text = String(raw ?? '').trim();
+    switch (definition.type) {
+      case 'number': {
+        const value = typeof raw === 'number' ? raw : Number(text.replace(/,/g, ''));
+        return text && Number.isFinite(value) ? { value } : { error: `${definition.label} must be a number` };
+      }
+      case 'date': {
+        const date = DATE_PATTERN.test(text) ? new Date(`${text}T00:00:00Z`) : new Date(text);
+        return text && !isNaN(date.getTime())
+          ? { value: DATE_PATTERN.test(text) ? text : this.formatDate(date) }
+          : { error: `${definition.label} must be a date` };
+      }
+      case 'enum': {
+        const options = (definition.options as string[] | null) || [];
+        const match = options.find(option => option.toLowerCase() === text.toLowerCase());
+        return match ? { value: match } : { error: `${definition.label} must be one of: ${options.join(', ')}` };
+      }
+      default:
+        return { value: text };
+    }
+  }
+
+  // Coerce a contact's customFields against the definitions. Blank values are dropped;
+  // keys without a definition are reported as errors
+  static validateValues(values: unknown, definitions: ContactFieldDefinition[]): {
+    values: Record<string, CustomFieldValue>;
+    errors: string[];
+  } {
+    if (values === null || values === undefined) return { values: {}, errors: [] };
+    if (typeof values !== 'object' || Array.isArray(values)) {
+      return { values: {}, errors: ['customFields must be an object keyed by field key'] };
+    }
+
+    const byKey = new Map(definitions.map(definition => [definition.key, definition]));
+    const result: Record<string, CustomFieldValue> = {};
+    const errors: string[] = [];
+    for (const [key, raw] of Object.entries(values as Record<string, unknown>)) {
+      const definition = byKey.get(key);
+      if (!definition) {
+        errors.push(`Unknown custom field "${key}"`);
+        continue;
+      }
+      if (raw === null || raw === undefined || String(raw).trim() === '') continue;
+      const coerced = this.coerce(definition, raw);
+      if ('error' in coerced) errors.push(coerced.error);
+      else result[key] = coerced.value;
+    }
+    return { values: result, errors };
+  }
+
+  // Trimmed, lowercased, de-duplicated tags; null when the input is not a list of strings
+  static normalizeTags(tags: unknown): string[] | null {
+    if (typeof tags === 'string') tags = tags.split(/[,;]/);
+    if (!Array.isArray(tags) || tags.some(tag => typeof tag !== 'string')) return null;
+    const normalized = (tags as string[])
+      .map(tag => tag.trim().toLowerCase().replace(/\s+/g, ' ').slice(0, MAX_TAG_LENGTH))
+      .filter(Boolean);
+    return Array.from(new Set(normalized));
+  }
+
+  // Filters from the ?customFields= JSON query parameter; conditions on unknown fields are dropped
+  static parseFilters(raw: unknown, definitions: ContactFieldDefinition[]): CustomFieldFilter[] {
+    if (typeof raw !== 'string' || !raw) return [];
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return [];
+    }
+    if (!Array.isArray(parsed)) return [];
+
+    const keys = new Set(definitions.map(definition => definition.key));
+    const text = (value: unknown) => typeof value === 'string' && value.trim() ? value.trim() : undefined;
+    return parsed
+      .filter(filter => filter && keys.has(filter.key))
+      .map(filter => ({ key: filter.key, value: text(filter.value), min: text(filter.min), max: text(filter.max) }))
+      .filter(filter => filter.value || filter.min || filter.max);
+  }
+
+  // Custom field values as display text, for exports and prompt variables
+  static formatValues(contact: Pick<Contact, 'customFields'>): Record<string, string> {
+    const values = (contact.customFields as Record<string, CustomFieldValue> | null) || {};
+    return Object.fromEntries(Object.entries(values).map(([key, value]) => [key, String(value)]));
+  }
+
+  // Non-ISO dates such as 03/04/2024 are parsed in local time, so the local calendar day is kept
+  private static formatDate(date: Date): string {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
@@ -0,0 +1,315 @@
+import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import { callManager } from './callManager';
+import { CallRetryService } from './callRetryService';
+import { SuppressionService } from './suppressionService';
+import type { Campaign, CallOutcome, Contact, DialingConfig, DialQueueEntry, DialQueueProgress } from '@shared/schema';
+
+export const DEFAULT_DIALING_CONFIG: DialingConfig = {
+  maxConcurrentCalls: 1,
+  timezone: 'Asia/Kolkata',
+  callingHoursStart: '10:00',
+  callingHoursEnd: '19:00',
+  excludedDays: [0], // No Sundays
+  pacingSeconds: 30
+};
+
+const TICK_INTERVAL_MS = 5000;
+const RECONCILE_INTERVAL_MS = 60000;
+// An entry claimed this long ago without a call attached was orphaned by a crash mid-dial
+const ORPHANED_CLAIM_MS = 2 * 60 * 1000;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Works through the persistent dial_queue for every running campaign.
+// All state lives in the database, so the dialer resumes where it left off after a restart.
+export class DialerService {
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+  private lastReconcile = 0;
+
+  start(): void {
+    if (this.timer) return;
+    console.log('📞 Dialer started');
+    this.timer = setInterval(() => this.tick(), TICK_INTERVAL_MS);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Campaign dialing config merged over the defaults
+  getDialingConfig(campaign: Campaign): DialingConfig {
+    return { ...DEFAULT_DIALING_CONFIG, ...((campaign.dialingConfig as Partial<DialingConfig> | null) || {}) };
+  }
+
+  // Validate a (partial) dialing config; returns a list of problems
+  validateDialingConfig(config: Partial<DialingConfig> | undefined | null): string[] {
+    if (!config) return [];
+    const errors: string[] = [];
+    const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+    if (config.maxConcurrentCalls !== undefined && (!Number.isInteger(config.maxConcurrentCalls) || config.maxConcurrentCalls < 1)) {
+      errors.push('maxConcurrentCalls must be a positive integer');
+    }
+    if (config.pacingSeconds !== undefined && (typeof config.pacingSeconds !== 'number' || config.pacingSeconds < 0)) {
+      errors.push('pacingSeconds must be zero or more');
+    }
+    if (config.callingHoursStart !== undefined && !timePattern.test(config.callingHoursStart)) {
+      errors.push('callingHoursStart must be HH:MM');
+    }
+    if (config.callingHoursEnd !== undefined && !timePattern.test(config.callingHoursEnd)) {
+      errors.push('callingHoursEnd must be HH:MM');
+    }
+    // The window can't wrap past midnight, so an empty or reversed one would never dial. HH:MM strings compare in time order
+    const start = config.callingHoursStart ?? DEFAULT_DIALING_CONFIG.callingHoursStart;
+    const end = config.callingHoursEnd ?? DEFAULT_DIALING_CONFIG.callingHoursEnd;
+    if (timePattern.test(start) && timePattern.test(end) && start >= end) {
+      errors.push(`callingHoursStart (${start}) must be before callingHoursEnd (${end})`);
+    }
+    if (config.excludedDays !== undefined && (!Array.isArray(config.excludedDays) || config.excludedDays.some(day => day < 0 || day > 6))) {
+      errors.push('excludedDays must be a list of weekday numbers 0-6');
+    }
+    if (config.timezone !== undefined) {
+      try {
+        new Intl.DateTimeFormat('en-US', { timeZone: config.timezone });
+      } catch {
+        errors.push(`Unknown timezone: ${config.timezone}`);
+      }
+    }
+    return errors;
+  }
+
+  // Whether "now" falls inside the campaign's calling window in its own timezone
+  isWithinCallingHours(config: DialingConfig, now: Date = new Date()): boolean {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      timeZone: config.timezone,
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }).formatToParts(now);
+    const part = (type: string) => parts.find(p => p.type === type)?.value || '';
+
+    const weekday = WEEKDAYS.indexOf(part('weekday'));
+    if (config.excludedDays.includes(weekday)) return false;
+
+    const minutes = parseInt(part('hour')) * 60 + parseInt(part('minute'));
+    const toMinutes = (time: string) => {
+      const [hours, mins] = time.split(':').map(Number);
+      return hours * 60 + mins;
+    };
+    return minutes >= toMinutes(config.callingHoursStart) && minutes < toMinutes(config.callingHoursEnd);
+  }
+
+  // Queue contacts for a campaign and start dialing
+  async enqueueCampaign(campaignId: string, contacts: Contact[]): Promise<number> {
+    const entries = await storage.enqueueDials(contacts.map(contact => ({
+      campaignId,
+      contactId: contact.id,
+      phoneNumber: contact.phone
+    })));
+    await storage.updateCampaign(campaignId, { dialerStatus: 'running' });
+    console.log(`📋 Queued ${entries.length} calls for campaign ${campaignId}`);
+    await this.broadcastProgress(campaignId);
+    return entries.length;
+  }
+
+  // Queue one call for later, e.g. when a contact asks to be called back. An idle campaign starts dialing and a
+  // paused one keeps the call for when it resumes; a cancelled or completed campaign queues nothing and returns null
+  async scheduleFollowUp(
+    campaign: Campaign,
+    target: { contactId: string; phoneNumber: string },
+    scheduledFor: Date
+  ): Promise<DialQueueEntry | null> {
+    if (campaign.dialerStatus === 'cancelled' || campaign.dialerStatus === 'completed') {
+      console.log(`📅 Follow-up call to ${target.phoneNumber} not queued: campaign ${campaign.id} is ${campaign.dialerStatus}`);
+      return null;
+    }
+
+    const [entry] = await storage.enqueueDials([{
+      campaignId: campaign.id,
+      contactId: target.contactId,
+      phoneNumber: target.phoneNumber,
+      scheduledFor
+    }]);
+    if (campaign.dialerStatus === 'idle') {
+      await storage.updateCampaign(campaign.id, { dialerStatus: 'running' });
+    }
+    console.log(`📅 Follow-up call to ${target.phoneNumber} queued for ${scheduledFor.toISOString()} (campaign ${campaign.id})`);
+    await this.broadcastProgress(campaign.id);
+    return entry;
+  }
+
+  async pause(campaignId: string): Promise<DialQueueProgress> {
+    await storage.updateCampaign(campaignId, { dialerStatus: 'paused' });
+    console.log(`⏸️ Dialer paused for campaign ${campaignId}`);
+    return this.broadcastProgress(campaignId);
+  }
+
+  async resume(campaignId: string): Promise<DialQueueProgress> {
+    await storage.updateCampaign(campaignId, { dialerStatus: 'running' });
+    console.log(`▶️ Dialer resumed for campaign ${campaignId}`);
+    return this.broadcastProgress(campaignId);
+  }
+
+  // Cancel everything still queued; calls already in progress finish normally
+  async cancel(campaignId: string): Promise<DialQueueProgress> {
+    const cancelled = await storage.cancelQueuedDials(campaignId);
+    await storage.updateCampaign(campaignId, { dialerStatus: 'cancelled' });
+    console.log(`🛑 Dialer cancelled for campaign ${campaignId} (${cancelled} queued calls dropped)`);
+    return this.broadcastProgress(campaignId);
+  }
+
+  async getProgress(campaignId: string): Promise<DialQueueProgress> {
+    const [campaign, counts] = await Promise.all([
+      storage.getCampaign(campaignId),
+      storage.getDialQueueCounts(campaignId)
+    ]);
+    const progress = {
+      campaignId,
+      dialerStatus: campaign?.dialerStatus || 'idle',
+      queued: counts.queued || 0,
+      dialing: counts.dialing || 0,
+      completed: counts.completed || 0,
+      failed: counts.failed || 0,
+      cancelled: counts.cancelled || 0,
+      total: 0
+    };
+    progress.total = progress.queued + progress.dialing + progress.completed + progress.failed + progress.cancelled;
+    return progress;
+  }
+
+  // Settle the queue entry held by a call once Twilio reports a final status
+  async onCallEnded(callId: string, outcome: CallOutcome): Promise<void> {
+    try {
+      const entry = await storage.getDialForCall(callId);
+      if (!entry || entry.status !== 'dialing') return;
+      await this.settleEntry(entry, outcome);
+      await this.broadcastProgress(entry.campaignId);
+    } catch (error) {
+      console.error(`❌ Error settling dial queue entry for call ${callId}:`, error);
+    }
+  }
+
+  // Mark an entry done, or put it back in the queue when the campaign's retry policy allows a redial
+  private async settleEntry(entry: DialQueueEntry, outcome: CallOutcome): Promise<void> {
+    if (outcome === 'answered') {
+      await storage.updateDialQueueEntry(entry.id, { status: 'completed' });
+      return;
+    }
+
+    const campaign = await storage.getCampaign(entry.campaignId);
+    const policy = CallRetryService.getRetryPolicy(campaign);
+    const nextAttemptAt = CallRetryService.getNextAttemptAt(policy, outcome, entry.attempts);
+
+    if (nextAttemptAt && campaign?.dialerStatus !== 'cancelled') {
+      console.log(`🔁 ${entry.phoneNumber} was ${outcome}, redialing at ${nextAttemptAt.toISOString()} (attempt ${entry.attempts + 1}/${policy.maxAttempts})`);
+      await storage.updateDialQueueEntry(entry.id, {
+        status: 'queued',
+        callId: null,
+        scheduledFor: nextAttemptAt,
+        lastError: outcome
+      });
+    } else {
+      console.log(`📵 Giving up on ${entry.phoneNumber} after ${entry.attempts} attempts (last: ${outcome})`);
+      await storage.updateDialQueueEntry(entry.id, { status: 'failed', lastError: outcome });
+    }
+  }
+
+  private async tick(): Promise<void> {
+    // Skip overlapping ticks if a slow database round trip outlasts the interval
+    if (this.ticking) return;
+    this.ticking = true;
+
+    try {
+      if (Date.now() - this.lastReconcile >= RECONCILE_INTERVAL_MS) {
+        this.lastReconcile = Date.now();
+        await this.reconcile();
+      }
+
+      const campaigns = await storage.getCampaignsByDialerStatus('running');
+      for (const campaign of campaigns) {
+        await this.dialCampaign(campaign);
+      }
+    } catch (error) {
+      console.error('❌ Dialer tick failed:', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  private async dialCampaign(campaign: Campaign): Promise<void> {
+    const config = this.getDialingConfig(campaign);
+    const counts = await storage.getDialQueueCounts(campaign.id);
+
+    if (!counts.queued && !counts.dialing) {
+      await storage.updateCampaign(campaign.id, { dialerStatus: 'completed' });
+      console.log(`✅ Dialing queue finished for campaign ${campaign.id}`);
+      await this.broadcastProgress(campaign.id);
+      return;
+    }
+
+    if (!counts.queued || !this.isWithinCallingHours(config)) return;
+
+    let slots = config.maxConcurrentCalls - (counts.dialing || 0);
+    while (slots > 0) {
+      if (config.pacingSeconds > 0) {
+        const lastDial = await storage.getLastDialTime(campaign.id);
+        if (lastDial && Date.now() - lastDial.getTime() < config.pacingSeconds * 1000) return;
+      }
+
+      const entry = await storage.claimNextDial(campaign.id);
+      if (!entry) return;
+
+      // The number may have opted out after it was queued; never retry it
+      if (await SuppressionService.isSuppressed(entry.phoneNumber)) {
+        console.log(`🚫 Skipping ${entry.phoneNumber}: number is on the do-not-call list`);
+        await storage.updateDialQueueEntry(entry.id, { status: 'cancelled', lastError: 'suppressed' });
+        continue;
+      }
+
+      console.log(`📞 Dialing ${entry.phoneNumber} for campaign ${campaign.id}`);
+      const result = await callManager.startCall(entry.contactId, campaign.id, entry.phoneNumber, entry.attempts);
+      if (result.success) {
+        await storage.updateDialQueueEntry(entry.id, { callId: result.callId });
+      } else {
+        console.log(`❌ Dial failed for ${entry.phoneNumber}: ${result.error}`);
+        await this.settleEntry(entry, 'failed');
+      }
+      await this.broadcastProgress(campaign.id);
+      slots--;
+    }
+  }
+
+  // Repair entries left in 'dialing' by a restart or a missed status webhook
+  private async reconcile(): Promise<void> {
+    const dialing = await storage.getDialingEntries();
+    for (const entry of dialing) {
+      if (!entry.callId) {
+        if (entry.claimedAt && Date.now() - entry.claimedAt.getTime() > ORPHANED_CLAIM_MS) {
+          console.log(`🔄 Requeueing orphaned dial entry ${entry.id}`);
+          await storage.updateDialQueueEntry(entry.id, { status: 'queued', claimedAt: null });
+        }
+        continue;
+      }
+
+      const call = await storage.getCall(entry.callId);
+      if (call && call.status !== 'active') {
+        await this.settleEntry(entry, (call.outcome as CallOutcome | null) || (call.status === 'failed' ? 'failed' : 'answered'));
+      }
+    }
+  }
+
+  private async broadcastProgress(campaignId: string): Promise<DialQueueProgress> {
+    const progress = await this.getProgress(campaignId);
+    broadcastToClients({ type: 'dialer_progress', progress });
+    return progress;
+  }
+}
+
+// Export singleton instance
+export const dialerService = new DialerService();
@@ -0,0 +1,334 @@
+import fs from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+import sgMail from '@sendgrid/mail';
+import { createPublicKey, createVerify } from 'crypto';
+import { storage } from '../storage';
+import { PromptTemplateService } from './promptTemplateService';
+import { env, getBaseUrl, getEmailTransportName } from '../config/environment';
+import type { Campaign, Contact, EmailMessage, EmailStatus } from '@shared/schema';
+
+export interface OutgoingEmail {
+  id: string; // email_messages row id, passed along so provider events can be matched back
+  from: string;
+  to: string;
+  subject: string;
+  html: string;
+}
+
+export interface EmailTransport {
+  name: string;
+  // Resolves with the provider's message id; throws when the provider rejects the message
+  send(email: OutgoingEmail): Promise<string | undefined>;
+}
+
+export interface SendEmailRequest {
+  to: string;
+  subject: string;
+  body: string; // HTML body; {{contact.*}}, {{campaign.*}} and {{callSummary}} are filled in
+  contact?: Contact | null;
+  campaign?: Campaign | null;
+  callId?: string;
+  callSummary?: string;
+}
+
+export interface SendEmailResult {
+  success: boolean;
+  emailMessageId?: string;
+  error?: string;
+}
+
+const DEFAULT_FROM = 'LabsCheck <no-reply@labscheck.com>';
+const DEFAULT_MAILBOX_DIR = path.join(process.cwd(), 'mailbox');
+
+// 1x1 transparent GIF served by the open-tracking pixel
+export const TRACKING_PIXEL = Buffer.from('R0lGODlhAQABAIAAAAAAAP///yH5BAEAAAAALAAAAAABAAEAAAIBRAA7', 'base64');
+
+export class SmtpTransport implements EmailTransport {
+  name = 'smtp';
+  private transporter = nodemailer.createTransport({
+    host: env.SMTP_HOST,
+    port: env.SMTP_PORT || 587,
+    secure: env.SMTP_PORT === 465,
+    auth: env.SMTP_USER ? { user: env.SMTP_USER, pass: env.SMTP_PASS } : undefined
+  });
+
+  async send(email: OutgoingEmail): Promise<string | undefined> {
+    const info = await this.transporter.sendMail({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      headers: { 'X-Email-Message-Id': email.id }
+    });
+    return info.messageId;
+  }
+}
+
+export class SendGridTransport implements EmailTransport {
+  name = 'sendgrid';
+
+  constructor(apiKey: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(email: OutgoingEmail): Promise<string | undefined> {
+    const [response] = await sgMail.send({
+      from: email.from,
+      to: email.to,
+      subject: email.subject,
+      html: email.html,
+      // Echoed back on every event webhook call
+      customArgs: { emailMessageId: email.id }
+    });
+    return response.headers['x-message-id'];
+  }
+}
+
+// Writes each email to a JSON file instead of sending it; used in development and tests
+export class MailboxTransport implements EmailTransport {
+  name = 'mailbox';
+
+  constructor(private dir: string = DEFAULT_MAILBOX_DIR) {}
+
+  async send(email: OutgoingEmail): Promise<string | undefined> {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+    const fileName = `${Date.now()}_${email.id}.json`;
+    fs.writeFileSync(path.join(this.dir, fileName), JSON.stringify({ ...email, sentAt: new Date().toISOString() }, null, 2));
+    console.log(`📬 Email to ${email.to} written to mailbox: ${fileName}`);
+    return email.id;
+  }
+
+  // Emails delivered so far, oldest first
+  read(): OutgoingEmail[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs.readdirSync(this.dir)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .map(file => JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')));
+  }
+}
+
+// Pick the transport from EMAIL_TRANSPORT, or from whichever provider is configured. Production never
+// falls back to the mailbox, so unsent emails fail instead of being recorded as sent
+export function createEmailTransport(): EmailTransport {
+  const transport = getEmailTransportName();
+  if (!transport) {
+    throw new Error('No email transport configured - set SENDGRID_API_KEY, SMTP_HOST or EMAIL_TRANSPORT');
+  }
+
+  switch (transport) {
+    case 'sendgrid':
+      if (!env.SENDGRID_API_KEY) throw new Error('EMAIL_TRANSPORT is sendgrid but SENDGRID_API_KEY is not set');
+      return new SendGridTransport(env.SENDGRID_API_KEY);
+    case 'smtp':
+      if (!env.SMTP_HOST) throw new Error('EMAIL_TRANSPORT is smtp but SMTP_HOST is not set');
+      return new SmtpTransport();
+    case 'mailbox':
+      return new MailboxTransport(env.EMAIL_MAILBOX_DIR || DEFAULT_MAILBOX_DIR);
+    default:
+      throw new Error(`Unknown EMAIL_TRANSPORT: ${transport}`);
+  }
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const escapeVariables = (value: unknown): unknown => {
+  if (typeof value === 'string') return escapeHtml(value);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, nested]) => [key, escapeVariables(nested)]));
+  }
+  return value;
+};
+
+// Renders email templates, records every message in email_messages and tracks
+// sent/opened/bounced status from the tracking pixel and provider webhooks
+export class EmailService {
+  private transport: EmailTransport | null = null;
+
+  getTransport(): EmailTransport {
+    if (!this.transport) {
+      this.transport = createEmailTransport();
+      console.log(`📧 Email transport: ${this.transport.name}`);
+    }
+    return this.transport;
+  }
+
+  // Swap the transport, e.g. for a MailboxTransport in tests
+  setTransport(transport: EmailTransport): void {
+    this.transport = transport;
+  }
+
+  // Template variables for an email: the campaign template variables plus {{callSummary}}
+  buildVariables(request: Pick<SendEmailRequest, 'contact' | 'campaign' | 'callSummary'>): Record<string, unknown> {
+    const { contact, campaign, callSummary } = request;
+    const variables = campaign
+      ? PromptTemplateService.buildVariables({ campaign, contact })
+      : {
+          agentName: '',
+          campaign: { name: '', description: '' },
+          contact: {
+            name: contact?.name || '',
+            firstName: contact?.name?.split(' ')[0] || '',
+            company: contact?.company || '',
+            city: contact?.city || '',
+            state: contact?.state || '',
+            email: contact?.email || ''
+          }
+        };
+    return { ...variables, callSummary: callSummary || '' };
+  }
+
+  // Wrap a rendered body in the standard layout with the open-tracking pixel
+  renderLayout(subject: string, body: string, trackingUrl: string): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <style>
+    body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
+    .container { max-width: 600px; margin: 0 auto; padding: 20px; }
+    .header { background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin-bottom: 20px; }
+    .content { padding: 20px 0; }
+  </style>
+</head>
+<body>
+  <div class="container">
+    <div class="header">
+      <h2>${escapeHtml(subject)}</h2>
+    </div>
+    <div class="content">
+      ${body}
+    </div>
+  </div>
+  <img src="${trackingUrl}" width="1" height="1" alt="" style="display:none">
+</body>
+</html>`;
+  }
+
+  async send(request: SendEmailRequest): Promise<SendEmailResult> {
+    const to = request.to.trim();
+    if (!to) {
+      return { success: false, error: 'No email address' };
+    }
+
+    let transport: EmailTransport;
+    try {
+      transport = this.getTransport();
+    } catch (error) {
+      console.error('❌ Email transport not configured:', error);
+      return { success: false, error: error instanceof Error ? error.message : 'Email transport not configured' };
+    }
+
+    // Subjects are plain text; the body is HTML, so values are escaped before they land in markup
+    const variables = this.buildVariables(request);
+    const subject = PromptTemplateService.render(request.subject, variables);
+    const body = PromptTemplateService.render(request.body, escapeVariables(variables) as Record<string, unknown>);
+
+    const record = await storage.createEmailMessage({
+      contactId: request.contact?.id,
+      campaignId: request.campaign?.id,
+      callId: request.callId,
+      toAddress: to,
+      subject,
+      html: '',
+      transport: transport.name
+    });
+
+    const html = this.renderLayout(subject, body, `${getBaseUrl()}/api/email/open/${record.id}`);
+
+    try {
+      const providerMessageId = await transport.send({
+        id: record.id,
+        from: env.EMAIL_FROM || DEFAULT_FROM,
+        to,
+        subject,
+        html
+      });
+
+      await storage.updateEmailMessage(record.id, {
+        html,
+        status: 'sent',
+        providerMessageId,
+        sentAt: new Date()
+      });
+      console.log(`📧 Email sent to ${to} via ${transport.name}`);
+      return { success: true, emailMessageId: record.id };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`❌ Email to ${to} failed:`, reason);
+      await storage.updateEmailMessage(record.id, { html, status: 'failed', failedReason: reason });
+      return { success: false, emailMessageId: record.id, error: reason };
+    }
+  }
+
+  // Tracking pixel hit; a bounced or failed message never turns into opened
+  async markOpened(emailMessageId: string): Promise<EmailMessage | undefined> {
+    const message = await storage.getEmailMessage(emailMessageId);
+    if (!message || message.status !== 'sent') return message;
+    return storage.updateEmailMessage(message.id, { status: 'opened', openedAt: new Date() });
+  }
+
+  async markBounced(emailMessageId: string, reason?: string): Promise<EmailMessage | undefined> {
+    const message = await storage.getEmailMessage(emailMessageId);
+    if (!message || message.status === 'failed') return message;
+    console.log(`📭 Email ${message.id} to ${message.toAddress} bounced`);
+    return storage.updateEmailMessage(message.id, {
+      status: 'bounced',
+      bouncedAt: new Date(),
+      failedReason: reason || 'Bounced'
+    });
+  }
+
+  // SendGrid's signed event webhook: an ECDSA signature over the timestamp header followed by the exact body,
+  // checked with the verification key from the SendGrid mail settings
+  verifySendGridSignature(rawBody: Buffer | undefined, signature: string | undefined, timestamp: string | undefined): boolean {
+    const verificationKey = env.SENDGRID_WEBHOOK_VERIFICATION_KEY;
+    if (!verificationKey) {
+      console.warn('⚠️ SENDGRID_WEBHOOK_VERIFICATION_KEY not configured - email webhook signature not verified');
+      return env.NODE_ENV !== 'production';
+    }
+    if (!rawBody || !signature || !timestamp) {
+      return false;
+    }
+
+    try {
+      const publicKey = createPublicKey({ key: Buffer.from(verificationKey, 'base64'), format: 'der', type: 'spki' });
+      return createVerify('sha256')
+        .update(Buffer.concat([Buffer.from(timestamp, 'utf8'), rawBody]))
+        .verify(publicKey, signature, 'base64');
+    } catch (error) {
+      console.error('❌ Could not check SendGrid webhook signature:', error);
+      return false;
+    }
+  }
+
+  // Apply SendGrid event webhook payloads (an array of events per request)
+  async handleSendGridEvents(events: any[]): Promise<number> {
+    let applied = 0;
+    for (const event of events) {
+      const emailMessageId = event.emailMessageId
+        || (await storage.getEmailMessageByProviderId(String(event.sg_message_id || '').split('.')[0]))?.id;
+      if (!emailMessageId) continue;
+
+      let status: EmailStatus | null = null;
+      if (event.event === 'open') {
+        status = (await this.markOpened(emailMessageId))?.status as EmailStatus;
+      } else if (event.event === 'bounce' || event.event === 'dropped') {
+        status = (await this.markBounced(emailMessageId, event.reason))?.status as EmailStatus;
+      }
+      if (status) applied++;
+    }
+    return applied;
+  }
+}
+
+// Export singleton instance
+export const emailService = new EmailService();
@@ -0,0 +1,78 @@
+import { storage, type LeadScoreInputs } from '../storage';
+import { LEAD_STAGES, type Contact, type LeadStage } from '@shared/schema';
+
+export type LeadStageSource = 'call' | 'whatsapp' | 'campaign' | 'manual';
+
+export interface StageChangeOptions {
+  reason?: string;
+  source: LeadStageSource;
+  callId?: string;
+}
+
+// Stages that automatic updates never move a contact out of
+const FINAL_STAGES: LeadStage[] = ['onboarded', 'lost'];
+
+// Moves contacts through the lead pipeline (new → contacted → interested → demo scheduled → onboarded / lost)
+// and keeps their lead score in sync with call and WhatsApp activity
+export class LeadPipelineService {
+  static isLeadStage(stage: unknown): stage is LeadStage {
+    return typeof stage === 'string' && (LEAD_STAGES as readonly string[]).includes(stage);
+  }
+
+  // Set a stage unconditionally (manual changes); records history when the stage actually changes
+  static async setStage(contactId: string, stage: LeadStage, options: StageChangeOptions): Promise<Contact | undefined> {
+    const contact = await storage.getContact(contactId);
+    if (!contact || contact.leadStage === stage) return contact;
+
+    const updated = await storage.updateContact(contactId, { leadStage: stage, leadStageUpdatedAt: new Date() });
+    await storage.createLeadStageHistory({
+      contactId,
+      fromStage: contact.leadStage,
+      toStage: stage,
+      reason: options.reason,
+      source: options.source,
+      callId: options.callId
+    });
+    console.log(`📈 ${contact.name} moved from ${contact.leadStage} to ${stage} (${options.source})`);
+    return updated;
+  }
+
+  // Automatic progression: only ever moves forward, and never out of onboarded or lost
+  static async advanceStage(contactId: string, stage: LeadStage, options: StageChangeOptions): Promise<Contact | undefined> {
+    const contact = await storage.getContact(contactId);
+    if (!contact) return undefined;
+
+    const current = contact.leadStage as LeadStage;
+    if (FINAL_STAGES.includes(current)) return contact;
+    if (stage !== 'lost' && LEAD_STAGES.indexOf(stage) <= LEAD_STAGES.indexOf(current)) return contact;
+
+    return this.setStage(contactId, stage, options);
+  }
+
+  // Score out of 100:
+  //   answered calls      15 for the first, 5 for each further one (max 25)
+  //   best call score     40% of the best successScore (max 40)
+  //   WhatsApp replies    10 each (max 20)
+  //   WhatsApp reads      5 each (max 15)
+  //   unanswered attempts -2 each (max -10)
+  static computeScore(inputs: LeadScoreInputs): number {
+    const answered = inputs.answeredCalls > 0 ? Math.min(25, 15 + (inputs.answeredCalls - 1) * 5) : 0;
+    const callQuality = Math.round(Math.min(100, inputs.bestSuccessScore) * 0.4);
+    const replies = Math.min(20, inputs.whatsappReplies * 10);
+    const reads = Math.min(15, inputs.whatsappReads * 5);
+    const unanswered = Math.min(10, inputs.unansweredCalls * 2);
+
+    return Math.max(0, Math.min(100, answered + callQuality + replies + reads - unanswered));
+  }
+
+  static async recalculateScore(contactId: string): Promise<number | undefined> {
+    try {
+      const score = this.computeScore(await storage.getLeadScoreInputs(contactId));
+      await storage.updateContact(contactId, { leadScore: score });
+      return score;
+    } catch (error) {
+      console.error(`❌ Error recalculating lead score for ${contactId}:`, error);
+      return undefined;
+    }
+  }
+}
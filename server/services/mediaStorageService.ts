@@ -0,0 +1,106 @@
+import fs from 'fs';
+import path from 'path';
+import { nanoid } from 'nanoid';
+import { env } from '../config/environment';
+
+export interface StoredMedia {
+  key: string;
+  size: number;
+}
+
+export interface MediaStorage {
+  name: string;
+  save(key: string, data: Buffer, mimeType: string): Promise<StoredMedia>;
+  // Resolves with undefined when nothing is stored under the key
+  read(key: string): Promise<Buffer | undefined>;
+  delete(key: string): Promise<void>;
+}
+
+const DEFAULT_MEDIA_DIR = path.join(process.cwd(), 'media');
+
+// Keeps each file under a directory on the server's disk; keys may contain '/' for subfolders
+export class LocalDiskMediaStorage implements MediaStorage {
+  name = 'local';
+
+  constructor(private dir: string = DEFAULT_MEDIA_DIR) {}
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.dir, key);
+    if (!filePath.startsWith(path.resolve(this.dir) + path.sep)) {
+      throw new Error(`Invalid media key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async save(key: string, data: Buffer): Promise<StoredMedia> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+    return { key, size: data.length };
+  }
+
+  async read(key: string): Promise<Buffer | undefined> {
+    const filePath = this.resolve(key);
+    if (!fs.existsSync(filePath)) return undefined;
+    return await fs.promises.readFile(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+}
+
+// Pick the backend from MEDIA_STORAGE; only local disk is available so far
+export function createMediaStorage(): MediaStorage {
+  const backend = env.MEDIA_STORAGE || 'local';
+
+  switch (backend) {
+    case 'local':
+      return new LocalDiskMediaStorage(env.MEDIA_STORAGE_DIR || DEFAULT_MEDIA_DIR);
+    default:
+      throw new Error(`Unknown MEDIA_STORAGE: ${backend}`);
+  }
+}
+
+// Storage key for a new file: <folder>/<yyyy-mm>/<random id><extension>
+export function buildMediaKey(folder: string, mimeType: string, fileName?: string | null): string {
+  const extension = (fileName && path.extname(fileName)) || MIME_EXTENSIONS[mimeType.split(';')[0].trim()] || '';
+  const month = new Date().toISOString().slice(0, 7);
+  return `${folder}/${month}/${nanoid()}${extension.toLowerCase()}`;
+}
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': '.jpg',
+  'image/png': '.png',
+  'image/webp': '.webp',
+  'audio/aac': '.aac',
+  'audio/mp4': '.m4a',
+  'audio/mpeg': '.mp3',
+  'audio/amr': '.amr',
+  'audio/ogg': '.ogg',
+  'video/mp4': '.mp4',
+  'video/3gpp': '.3gp',
+  'application/pdf': '.pdf',
+  'text/plain': '.txt',
+  'application/msword': '.doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
+  'application/vnd.ms-excel': '.xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': '.xlsx',
+  'application/vnd.ms-powerpoint': '.ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': '.pptx'
+};
+
+let mediaStorage: MediaStorage | null = null;
+
+export function getMediaStorage(): MediaStorage {
+  if (!mediaStorage) {
+    mediaStorage = createMediaStorage();
+    console.log(`🗂️ Media storage: ${mediaStorage.name}`);
+  }
+  return mediaStorage;
+}
+
+// Swap the backend, e.g. for a temporary directory in tests
+export function setMediaStorage(storage: MediaStorage): void {
+  mediaStorage = storage;
+}
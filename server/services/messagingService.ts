@@ -1,4 +1,6 @@
 // Removed twilio service - calling functionality deleted
+import { emailService } from './emailService';
+import type { Campaign, Contact } from '@shared/schema';
 
 export class MessagingService {
   // Send WhatsApp message via Meta Business API
@@ -59,31 +61,24 @@ export class MessagingService {
 
   // Twilio fallback method removed - calling functionality deleted
 
-  // Send Email
+  // Send Email through the configured email transport (SMTP, SendGrid or local mailbox).
+  // The message may use {{contact.*}}, {{campaign.*}} and {{callSummary}} template variables.
   static async sendEmail(
     emailAddress: string, 
     subject: string, 
     message: string, 
-    callSummary?: string
+    callSummary?: string,
+    context: { contact?: Contact | null; campaign?: Campaign | null; callId?: string } = {}
   ): Promise<boolean> {
     try {
-      // For now, we'll log the email (in production, use actual email service)
-      console.log(`
-        EMAIL NOTIFICATION:
-        To: ${emailAddress}
-        Subject: ${subject}
-        Message: ${message}
-        ${callSummary ? `Call Summary: ${callSummary}` : ''}
-      `);
-
-      // In production, integrate with email service like SendGrid, SES, etc.
-      // await emailService.send({
-      //   to: emailAddress,
-      //   subject,
-      //   html: this.createEmailTemplate(message, callSummary)
-      // });
-
-      return true;
+      const result = await emailService.send({
+        to: emailAddress,
+        subject,
+        body: this.createEmailTemplate(message, callSummary),
+        callSummary,
+        ...context
+      });
+      return result.success;
     } catch (error) {
       console.error('Error sending email:', error);
       return false;
@@ -123,7 +118,8 @@ export class MessagingService {
           extractedEmail,
           defaultEmailSubject,
           defaultEmailMessage,
-          callSummary
+          callSummary,
+          { callId }
         );
       }
 
@@ -172,37 +168,19 @@ export class MessagingService {
     return result;
   }
 
-  // Create HTML email template
+  // Email body HTML; the layout and tracking pixel are added by emailService
   private static createEmailTemplate(message: string, callSummary?: string): string {
-    return `
-      <!DOCTYPE html>
-      <html>
-      <head>
-        <style>
-          body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-          .container { max-width: 600px; margin: 0 auto; padding: 20px; }
-          .header { background-color: #f8f9fa; padding: 20px; border-radius: 5px; margin-bottom: 20px; }
-          .content { padding: 20px 0; }
-          .summary { background-color: #e9ecef; padding: 15px; border-radius: 5px; margin-top: 20px; }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <h2>Follow-up from our call</h2>
-          </div>
-          <div class="content">
-            <p>${message}</p>
-            ${callSummary ? `
-              <div class="summary">
-                <h3>Call Summary:</h3>
-                <p>${callSummary}</p>
-              </div>
-            ` : ''}
-          </div>
-        </div>
-      </body>
-      </html>
-    `;
+    const paragraphs = message
+      .split(/\n{2,}/)
+      .map(paragraph => `<p>${paragraph.replace(/\n/g, '<br>')}</p>`)
+      .join('\n');
+
+    return callSummary
+      ? `${paragraphs}
+      <div style="background-color: #e9ecef; padding: 15px; border-radius: 5px; margin-top: 20px;">
+        <h3>Call Summary:</h3>
+        <p>{{callSummary}}</p>
+      </div>`
+      : paragraphs;
   }
-}
\ No newline at end of file
+}
@@ -1,45 +1,24 @@
 import OpenAI from "openai";
+import { PromptTemplateService, type PromptContext } from './promptTemplateService';
+import type { GoalProgress } from './callGoalService';
+import { callAnalysisSchema, whatsappAutoReplySchema, type CallAnalysis, type CallGoal, type WhatsAppAutoReply } from '@shared/schema';
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY,
 });
 
+const DEFAULT_MODEL = "gpt-4o-mini";
+
 export class OpenAIService {
   // Generate conversation response based on user input and campaign context
   static async generateResponse(
     userMessage: string,
-    campaignScript: string,
+    promptContext: PromptContext,
     conversationHistory: Array<{ role: 'user' | 'assistant', content: string }> = [],
-    hasContactInfo: { whatsapp?: string; email?: string } = {},
-    model: string = "gpt-4o"
+    goalProgress: GoalProgress
   ): Promise<{ response: string; requestingContactInfo: boolean }> {
     try {
-      const systemPrompt = `You are Priya, an AI calling agent for LabsCheck, India's diagnostic aggregator platform.
-
-Campaign Context: ${campaignScript}
-
-CONVERSATION OBJECTIVES:
-1. Verify you're speaking with lab owner/manager 
-2. If not owner, politely collect their contact details for follow-up
-3. Explain LabsCheck's value proposition: help labs get more business through our platform
-4. CRITICAL: Collect WhatsApp number and email ID for further communication
-5. Position LabsCheck as a healthcare navigator that connects labs with customers
-
-CONTACT INFO STATUS:
-- WhatsApp Number: ${hasContactInfo.whatsapp ? 'COLLECTED ✓' : 'NEEDED'}
-- Email Address: ${hasContactInfo.email ? 'COLLECTED ✓' : 'NEEDED'}
-
-RESPONSE GUIDELINES:
-- Keep responses natural and conversational (1-2 sentences max)
-- Sound human-like, not robotic
-- Handle interruptions gracefully
-- If customer asks questions, answer briefly and redirect to main objective
-- Be polite and professional but friendly
-- Focus on business benefits for the lab partner
-- WAIT for customer to provide both WhatsApp number AND email before ending call
-- If they agree to share info but don't provide it immediately, ASK AGAIN specifically
-
-CRITICAL: You MUST collect both WhatsApp number and email ID before ending the call. Don't end until both are provided.`;
+      const systemPrompt = PromptTemplateService.buildSystemPrompt(promptContext, goalProgress);
 
       const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
         { role: "system", content: systemPrompt },
@@ -48,7 +27,7 @@ CRITICAL: You MUST collect both WhatsApp number and email ID before ending the c
       ];
 
       const completion = await openai.chat.completions.create({
-        model: 'gpt-4o-mini', // Faster model
+        model: promptContext.campaign.openaiModel || DEFAULT_MODEL,
         messages,
         temperature: 0.6, // Slightly lower for consistency
         max_tokens: 100, // Shorter responses for speed
@@ -60,8 +39,8 @@ CRITICAL: You MUST collect both WhatsApp number and email ID before ending the c
 
       const response = completion.choices[0]?.message?.content || "I understand. Let me continue with our conversation.";
 
-      // Check if we're requesting contact information
-      const requestingContactInfo = !hasContactInfo.whatsapp || !hasContactInfo.email;
+      // Check if we're still collecting required call goals
+      const requestingContactInfo = !goalProgress.complete;
 
       return { response, requestingContactInfo };
     } catch (error) {
@@ -70,6 +49,148 @@ CRITICAL: You MUST collect both WhatsApp number and email ID before ending the c
     }
   }
 
+  // Pull call goal values out of a caller utterance; returns { goalKey: value } for goals that were answered
+  static async extractGoalValues(
+    userMessage: string,
+    goals: CallGoal[],
+    lastAgentMessage?: string
+  ): Promise<Record<string, string>> {
+    try {
+      const goalList = goals
+        .map(goal => `- ${goal.key} (${goal.type}${goal.options ? `: one of ${goal.options.join(', ')}` : ''}): ${goal.label}${goal.description ? ` - ${goal.description}` : ''}`)
+        .join('\n');
+
+      const completion = await openai.chat.completions.create({
+        model: DEFAULT_MODEL,
+        messages: [
+          {
+            role: "system",
+            content: `Extract answers from a phone call utterance. Return a JSON object mapping goal keys to values, only for goals the caller clearly answered. Use ISO 8601 for datetime, digits for number, "yes"/"no" for boolean.
+
+GOALS:
+${goalList}`
+          },
+          {
+            role: "user",
+            content: `${lastAgentMessage ? `Agent asked: ${lastAgentMessage}\n` : ''}Caller said: ${userMessage}\nCurrent time: ${new Date().toISOString()}`
+          }
+        ],
+        response_format: { type: "json_object" },
+        temperature: 0,
+        max_tokens: 150
+      });
+
+      const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}');
+      const values: Record<string, string> = {};
+      for (const [key, value] of Object.entries(parsed)) {
+        if (value !== null && value !== undefined && value !== '') {
+          values[key] = String(value);
+        }
+      }
+      return values;
+    } catch (error) {
+      console.error('❌ Call goal extraction failed:', error);
+      return {};
+    }
+  }
+
+  // Post-call analysis of a full transcript; returns null when the model output fails validation
+  static async analyzeCall(
+    transcript: string,
+    goals: CallGoal[],
+    timezone: string,
+    model: string = DEFAULT_MODEL
+  ): Promise<CallAnalysis | null> {
+    const goalList = goals
+      .map(goal => `- ${goal.key} (${goal.type}${goal.options ? `: one of ${goal.options.join(', ')}` : ''}): ${goal.label}`)
+      .join('\n');
+
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "system",
+          content: `You analyze finished sales calls. Lines starting with "Caller:" were said by the prospect, lines starting with "Agent:" by our AI agent.
+Return a JSON object with exactly these fields:
+- outcomeCategory: one of "interested", "callback_requested", "not_interested", "already_customer", "wrong_contact", "no_decision"
+- interestLevel: one of "high", "medium", "low", "none"
+- objections: array of short strings, one per objection the caller raised
+- callbackAt: ISO 8601 datetime with offset if the caller asked to be called back at a specific time, otherwise null
+- whatsappNumber: the caller's WhatsApp number as digits, only if the CALLER said it, otherwise null
+- email: the caller's email address, only if the CALLER said it (rebuild spoken forms like "john at gmail dot com"), otherwise null
+- goalValues: object mapping goal keys to values the caller gave anywhere in the call
+- successScore: integer 1-100 for how close the call came to its goal
+
+GOALS:
+${goalList}`
+        },
+        {
+          role: "user",
+          content: `Current time: ${new Date().toISOString()} (caller timezone: ${timezone})\n\n${transcript}`
+        }
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0,
+      max_tokens: 400
+    });
+
+    const parsed = callAnalysisSchema.safeParse(JSON.parse(completion.choices[0]?.message?.content || '{}'));
+    if (!parsed.success) {
+      console.error('❌ Call analysis did not match the expected shape:', parsed.error.issues);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  // One WhatsApp reply in the campaign persona; returns null when the model output fails validation
+  static async generateWhatsAppReply(
+    systemPrompt: string,
+    conversationHistory: Array<{ role: 'user' | 'assistant', content: string }>,
+    model: string = DEFAULT_MODEL
+  ): Promise<WhatsAppAutoReply | null> {
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        {
+          role: "system",
+          content: `${systemPrompt}
+
+Return a JSON object with exactly these fields:
+- reply: your next WhatsApp message to the contact (empty string when handing off)
+- handoff: true if the contact asked to talk to a person, or the question needs someone from the team
+- handoffReason: a short reason when handoff is true, otherwise null
+- confidence: number from 0 to 1 for how sure you are the reply is correct and covered by the campaign instructions`
+        },
+        ...conversationHistory
+      ],
+      response_format: { type: "json_object" },
+      temperature: 0.4,
+      max_tokens: 300
+    });
+
+    const parsed = whatsappAutoReplySchema.safeParse(JSON.parse(completion.choices[0]?.message?.content || '{}'));
+    if (!parsed.success) {
+      console.error('❌ WhatsApp reply did not match the expected shape:', parsed.error.issues);
+      return null;
+    }
+    return parsed.data;
+  }
+
+  // Summarize a finished call conversation
+  static async summarizeConversation(conversationText: string, model: string = DEFAULT_MODEL): Promise<string> {
+    const completion = await openai.chat.completions.create({
+      model,
+      messages: [
+        { role: "system", content: "Generate a concise call summary focusing on key points discussed and outcomes." },
+        { role: "user", content: `Please provide a brief summary of this call conversation:\n${conversationText}` }
+      ],
+      temperature: 0.3,
+      max_tokens: 200
+    });
+
+    return completion.choices[0]?.message?.content || 'Call completed - no summary available';
+  }
+
   // Enhanced Whisper transcription bypassing Twilio recording issues
   static async transcribeAudio(audioBuffer: Buffer): Promise<string> {
     try {
@@ -0,0 +1,86 @@
+import { env } from '../config/environment';
+import type { InsertContact } from '@shared/schema';
+
+interface CountryRules {
+  callingCode: string;
+  nationalLengths: number[]; // Digits in a national number without the trunk prefix
+  trunkPrefix?: string; // Dialled before national numbers inside the country, e.g. the 0 in 098...
+}
+
+// Countries numbers can be written in without a country code; extend as campaigns reach new markets
+const COUNTRIES: Record<string, CountryRules> = {
+  IN: { callingCode: '91', nationalLengths: [10], trunkPrefix: '0' },
+  US: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1' },
+  CA: { callingCode: '1', nationalLengths: [10], trunkPrefix: '1' },
+  GB: { callingCode: '44', nationalLengths: [10], trunkPrefix: '0' },
+  AE: { callingCode: '971', nationalLengths: [8, 9], trunkPrefix: '0' },
+  SA: { callingCode: '966', nationalLengths: [9], trunkPrefix: '0' },
+  SG: { callingCode: '65', nationalLengths: [8] },
+  AU: { callingCode: '61', nationalLengths: [9], trunkPrefix: '0' },
+  NP: { callingCode: '977', nationalLengths: [10] },
+  BD: { callingCode: '880', nationalLengths: [10], trunkPrefix: '0' },
+  LK: { callingCode: '94', nationalLengths: [9], trunkPrefix: '0' },
+  PK: { callingCode: '92', nationalLengths: [10], trunkPrefix: '0' }
+};
+
+const FALLBACK_COUNTRY = 'IN';
+
+// Turns the many ways people write phone numbers into E.164 (+<country code><number>)
+export class PhoneNumberService {
+  static supportedCountries(): string[] {
+    return Object.keys(COUNTRIES);
+  }
+
+  // DEFAULT_PHONE_COUNTRY, or India when it is unset or not a country we know the numbering rules for
+  static defaultCountry(): string {
+    const country = (env.DEFAULT_PHONE_COUNTRY || '').toUpperCase();
+    return COUNTRIES[country] ? country : FALLBACK_COUNTRY;
+  }
+
+  // E.164 form of a number, or null when it cannot be read as a phone number.
+  // Numbers starting with + or 00 are international; anything else is read as a number of the default country
+  static toE164(raw: string | null | undefined, country: string = this.defaultCountry()): string | null {
+    const value = String(raw ?? '').trim();
+    if (!value) return null;
+
+    const digits = value.replace(/\D/g, '');
+    if (value.startsWith('+') || value.startsWith('00')) {
+      const international = value.startsWith('+') ? digits : digits.slice(2);
+      return this.isPlausible(international) ? `+${international}` : null;
+    }
+
+    const rules = COUNTRIES[country] || COUNTRIES[FALLBACK_COUNTRY];
+
+    // Country code written without the +, e.g. 919876543210
+    if (digits.startsWith(rules.callingCode) && rules.nationalLengths.includes(digits.length - rules.callingCode.length)) {
+      return `+${digits}`;
+    }
+
+    const national = rules.trunkPrefix && digits.startsWith(rules.trunkPrefix) && !rules.nationalLengths.includes(digits.length)
+      ? digits.slice(rules.trunkPrefix.length)
+      : digits;
+    return rules.nationalLengths.includes(national.length) ? `+${rules.callingCode}${national}` : null;
+  }
+
+  // The E.164 form when the number can be read, otherwise the value as it was entered
+  static normalize(raw: string): string;
+  static normalize(raw: string | null | undefined): string | null | undefined;
+  static normalize(raw: string | null | undefined): string | null | undefined {
+    if (raw === null || raw === undefined) return raw;
+    return this.toE164(raw) || raw.trim();
+  }
+
+  // Normalize every phone field present on a contact insert or update
+  static normalizeContact<T extends Partial<InsertContact>>(contact: T): T {
+    const normalized = { ...contact };
+    if (normalized.phone) normalized.phone = this.normalize(normalized.phone);
+    if (normalized.phoneNumber) normalized.phoneNumber = this.normalize(normalized.phoneNumber);
+    if (normalized.whatsappNumber) normalized.whatsappNumber = this.normalize(normalized.whatsappNumber);
+    return normalized;
+  }
+
+  // E.164 allows at most 15 digits, and no country code starts with 0
+  private static isPlausible(digits: string): boolean {
+    return digits.length >= 8 && digits.length <= 15 && !digits.startsWith('0');
+  }
+}
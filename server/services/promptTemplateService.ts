@@ -0,0 +1,156 @@
+import type { Campaign, CampaignObjective, Contact } from '@shared/schema';
+import type { GoalProgress } from './callGoalService';
+import { CustomFieldService } from './customFieldService';
+
+export interface PromptContext {
+  campaign: Campaign;
+  contact?: Contact | null;
+}
+
+type TemplateVariables = Record<string, unknown>;
+
+// Used when a campaign does not define its own objectives
+const DEFAULT_OBJECTIVES: CampaignObjective[] = [
+  { name: 'Qualify', description: 'Confirm you are speaking with the decision maker; if not, politely collect their details for follow-up' },
+  { name: 'Pitch', description: 'Explain the value proposition described in the campaign instructions' },
+  { name: 'Collect information', description: 'Collect the information listed below for further communication' }
+];
+
+// Renders campaign prompt templates such as "Hi, this is {{agentName}}" or
+// "Am I speaking with {{contact.name}} from {{contact.company}}?". Custom fields are available
+// as {{contact.custom.<key>}} and tags as {{contact.tags}}
+export class PromptTemplateService {
+  // Variables available to every campaign template
+  static buildVariables({ campaign, contact }: PromptContext): TemplateVariables {
+    return {
+      agentName: campaign.agentName,
+      campaign: {
+        name: campaign.name,
+        description: campaign.description || ''
+      },
+      contact: {
+        name: contact?.name || '',
+        firstName: contact?.name?.split(' ')[0] || '',
+        company: contact?.company || '',
+        city: contact?.city || '',
+        state: contact?.state || '',
+        email: contact?.email || '',
+        tags: (contact?.tags || []).join(', '),
+        custom: contact ? CustomFieldService.formatValues(contact) : {}
+      }
+    };
+  }
+
+  // Replace {{path.to.value}} placeholders; unknown variables render as empty text
+  static render(template: string, variables: TemplateVariables): string {
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_match, path: string) => {
+      const value = path.split('.').reduce<unknown>(
+        (current, key) => (current && typeof current === 'object' ? (current as TemplateVariables)[key] : undefined),
+        variables
+      );
+      if (value === undefined || value === null) {
+        console.warn(`⚠️ Unknown prompt variable: {{${path}}}`);
+        return '';
+      }
+      return String(value);
+    });
+  }
+
+  // Campaign intro line with variables filled in
+  static renderIntroLine(context: PromptContext): string {
+    const introLine = context.campaign.introLine || "Hello, this is {{agentName}}, an AI calling agent.";
+    return this.render(introLine, this.buildVariables(context));
+  }
+
+  // Named objectives for a campaign, falling back to the defaults
+  static getObjectives(campaign: Campaign): CampaignObjective[] {
+    const objectives = Array.isArray(campaign.objectives) ? campaign.objectives as CampaignObjective[] : [];
+    const valid = objectives.filter(objective => objective?.name && objective?.description);
+    return valid.length > 0 ? valid : DEFAULT_OBJECTIVES;
+  }
+
+  // Numbered objectives list shared by the call and WhatsApp prompts
+  private static formatObjectives(campaign: Campaign): string {
+    return this.getObjectives(campaign)
+      .map((objective, index) => `${index + 1}. ${objective.name}: ${objective.description}`)
+      .join('\n');
+  }
+
+  // What we know about the contact, empty when nothing is known
+  private static formatContactDetails(contact: Contact | null | undefined): string {
+    return [
+      contact?.name && `- Name: ${contact.name}`,
+      contact?.company && `- Company: ${contact.company}`,
+      contact?.city && `- City: ${contact.city}`
+    ].filter(Boolean).join('\n');
+  }
+
+  // Full system prompt for a live call. Only the campaign instructions and objectives are templates;
+  // the script, contact details and goal labels go in as written, so stray {{...}} text stays literal
+  static buildSystemPrompt(
+    context: PromptContext,
+    goalProgress: GoalProgress
+  ): string {
+    const { campaign, contact } = context;
+    const contactDetails = this.formatContactDetails(contact);
+
+    const goalStatus = goalProgress.goals
+      .map(goal => {
+        const status = goalProgress.collected[goal.key] ? 'COLLECTED ✓' : 'NEEDED';
+        const hint = [
+          goal.options && `options: ${goal.options.join(', ')}`,
+          goal.description
+        ].filter(Boolean).join('; ');
+        return `- ${goal.label} (${goal.required ? 'required' : 'optional'}${hint ? `; ${hint}` : ''}): ${status}`;
+      })
+      .join('\n');
+
+    // Campaigns made in the campaign form store the intro line as the script, and the call has already opened with it
+    const script = campaign.script?.trim() && campaign.script.trim() !== campaign.introLine.trim() ? campaign.script.trim() : '';
+
+    const variables = this.buildVariables(context);
+
+    return `You are ${campaign.agentName}, an AI calling agent for the "${campaign.name}" campaign.
+
+CAMPAIGN INSTRUCTIONS:
+${this.render(campaign.aiPrompt, variables)}
+${script ? `\nCALL SCRIPT (follow its flow in your own words):\n${script}\n` : ''}${contactDetails ? `\nYOU ARE SPEAKING WITH:\n${contactDetails}\n` : ''}
+CONVERSATION OBJECTIVES:
+${this.render(this.formatObjectives(campaign), variables)}
+
+INFORMATION TO COLLECT:
+${goalStatus}
+
+RESPONSE GUIDELINES:
+- Keep responses natural and conversational (1-2 sentences max)
+- Sound human-like, not robotic
+- Handle interruptions gracefully
+- If customer asks questions, answer briefly and redirect to main objective
+- Be polite and professional but friendly
+- Ask for ONE missing item at a time, required items first
+- WAIT for customer to provide every required item before ending call
+- If they agree to share info but don't provide it immediately, ASK AGAIN specifically`;
+  }
+
+  // System prompt for answering a contact on WhatsApp with the campaign's persona;
+  // earlierCalls is a plain-text digest of what was said on previous calls with this contact and is never rendered
+  static buildWhatsAppPrompt(context: PromptContext, earlierCalls: string): string {
+    const { campaign, contact } = context;
+    const contactDetails = this.formatContactDetails(contact);
+    const variables = this.buildVariables(context);
+
+    return `You are ${campaign.agentName}, replying on WhatsApp for the "${campaign.name}" campaign.
+
+CAMPAIGN INSTRUCTIONS:
+${this.render(campaign.aiPrompt, variables)}
+${contactDetails ? `\nYOU ARE CHATTING WITH:\n${contactDetails}\n` : ''}
+CONVERSATION OBJECTIVES:
+${this.render(this.formatObjectives(campaign), variables)}
+${earlierCalls ? `\nEARLIER CALLS WITH THIS CONTACT:\n${earlierCalls}\n` : ''}
+RESPONSE GUIDELINES:
+- Write short WhatsApp messages (1-3 sentences), friendly and professional
+- Stay consistent with anything said on earlier calls; don't repeat questions already answered
+- Only state facts found in the campaign instructions; never invent prices, dates or promises
+- If the contact asks for a person, a call back from the team, or something you cannot answer from the instructions, hand off`;
+  }
+}
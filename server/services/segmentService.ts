@@ -0,0 +1,249 @@
+import { sql, type SQL } from 'drizzle-orm';
+import { storage } from '../storage';
+import {
+  contacts,
+  calls,
+  whatsappMessages,
+  SEGMENT_FIELDS,
+  SEGMENT_OPERATORS,
+  type ContactFieldDefinition,
+  type CustomFieldFilter,
+  type CustomFieldType,
+  type SegmentBuiltInField,
+  type SegmentCondition,
+  type SegmentFieldKind,
+  type SegmentPreview,
+  type SegmentRule,
+  type SegmentRuleGroup
+} from '@shared/schema';
+
+const MAX_DEPTH = 3;
+const MAX_CONDITIONS = 50;
+const SAMPLE_SIZE = 10;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const CUSTOM_FIELD_KINDS: Record<CustomFieldType, SegmentFieldKind> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  enum: 'option'
+};
+
+interface ResolvedField {
+  kind: SegmentFieldKind;
+  options?: readonly string[];
+  expression: SQL;
+}
+
+const isGroup = (rule: SegmentRule): rule is SegmentRuleGroup =>
+  !!rule && typeof rule === 'object' && 'combinator' in rule;
+
+// Escape LIKE wildcards so a search for "100%" matches literally
+const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+const list = (values: string[]) => sql.join(values.map(value => sql`${value}`), sql`, `);
+
+// Turns segment rules into a parameterized WHERE condition over contacts. Every value is bound as a
+// query parameter; field names and operators only ever select from the fixed fragments below
+export class SegmentService {
+  // Check a rule tree; returns a list of problems, each prefixed with where in the tree it is
+  static validate(rules: unknown, definitions: ContactFieldDefinition[]): string[] {
+    if (!rules || typeof rules !== 'object' || !isGroup(rules as SegmentRule)) {
+      return ['rules must be a group with a combinator and a list of rules'];
+    }
+    const errors: string[] = [];
+    let conditions = 0;
+
+    const checkGroup = (group: SegmentRuleGroup, path: string, depth: number) => {
+      const label = path || 'Top group';
+      if (group.combinator !== 'and' && group.combinator !== 'or') errors.push(`${label}: combinator must be and or or`);
+      if (!Array.isArray(group.rules)) {
+        errors.push(`${label}: rules must be a list`);
+        return;
+      }
+      if (depth > MAX_DEPTH) {
+        errors.push(`${label}: groups can be nested at most ${MAX_DEPTH} deep`);
+        return;
+      }
+      group.rules.forEach((rule, i) => {
+        const rulePath = path ? `${path}.${i + 1}` : `Rule ${i + 1}`;
+        if (isGroup(rule)) {
+          checkGroup(rule, rulePath, depth + 1);
+        } else {
+          conditions++;
+          errors.push(...this.validateCondition(rule, definitions).map(error => `${rulePath}: ${error}`));
+        }
+      });
+    };
+
+    checkGroup(rules as SegmentRuleGroup, '', 1);
+    if (conditions > MAX_CONDITIONS) errors.push(`A segment can have at most ${MAX_CONDITIONS} rules`);
+    return errors;
+  }
+
+  // WHERE condition for validated rules; an empty group matches every contact
+  static compile(group: SegmentRuleGroup, definitions: ContactFieldDefinition[]): SQL {
+    const parts = group.rules.map(rule => isGroup(rule) ? this.compile(rule, definitions) : this.compileCondition(rule, definitions));
+    if (parts.length === 0) return sql`TRUE`;
+    return sql`(${sql.join(parts, group.combinator === 'or' ? sql` OR ` : sql` AND `)})`;
+  }
+
+  // Compile rules with the current custom field definitions
+  static async buildWhere(rules: SegmentRuleGroup): Promise<SQL> {
+    return this.compile(rules, await storage.getContactFieldDefinitions());
+  }
+
+  // Rules for the contact list's tag and custom field filters: any of the tags, and every custom field condition
+  static filterRules(tags: string[], filters: CustomFieldFilter[], definitions: ContactFieldDefinition[]): SegmentRuleGroup {
+    const rules: SegmentCondition[] = [];
+    if (tags.length > 0) rules.push({ field: 'tags', operator: 'has_any', value: tags });
+
+    for (const filter of filters) {
+      const type = definitions.find(definition => definition.key === filter.key)?.type;
+      const field = `custom:${filter.key}` as const;
+      if (type === 'number' || type === 'date') {
+        const bound = (value: string | undefined) => type === 'number'
+          ? (value && Number.isFinite(Number(value)) ? Number(value) : undefined)
+          : (value && DATE_PATTERN.test(value) ? value : undefined);
+        const min = bound(filter.min);
+        const max = bound(filter.max);
+        if (min !== undefined) rules.push({ field, operator: 'gte', value: min });
+        if (max !== undefined) rules.push({ field, operator: 'lte', value: max });
+      } else if (filter.value) {
+        rules.push(type === 'enum'
+          ? { field, operator: 'in', value: [filter.value] }
+          : { field, operator: 'contains', value: filter.value });
+      }
+    }
+    return { combinator: 'and', rules };
+  }
+
+  static async preview(rules: SegmentRuleGroup): Promise<SegmentPreview> {
+    const where = await this.buildWhere(rules);
+    const { contacts: sample, total } = await storage.getContactsPaginated({ limit: SAMPLE_SIZE, offset: 0, where });
+    return { count: total, sample };
+  }
+
+  private static resolveField(field: unknown, definitions: ContactFieldDefinition[]): ResolvedField | undefined {
+    if (typeof field !== 'string') return undefined;
+
+    if (field.startsWith('custom:')) {
+      const key = field.slice('custom:'.length);
+      const definition = definitions.find(candidate => candidate.key === key);
+      if (!definition) return undefined;
+      const kind = CUSTOM_FIELD_KINDS[definition.type as CustomFieldType] || 'text';
+      const value = sql`(${contacts.customFields} ->> ${key})`;
+      return {
+        kind,
+        options: (definition.options as string[] | null) || undefined,
+        // Numbers are stored as JSON numbers; anything else written by hand compares as empty
+        expression: kind === 'number'
+          ? sql`(CASE WHEN jsonb_typeof(${contacts.customFields} -> ${key}) = 'number' THEN ${value}::numeric END)`
+          : value
+      };
+    }
+
+    if (!Object.prototype.hasOwnProperty.call(SEGMENT_FIELDS, field)) return undefined;
+    const builtIn = field as SegmentBuiltInField;
+    const { kind } = SEGMENT_FIELDS[builtIn];
+    const options = 'options' in SEGMENT_FIELDS[builtIn] ? (SEGMENT_FIELDS[builtIn] as { options: readonly string[] }).options : undefined;
+
+    switch (builtIn) {
+      case 'lastCallOutcome':
+        return {
+          kind,
+          options,
+          expression: sql`(SELECT ${calls.outcome} FROM ${calls}
+            WHERE ${calls.contactId} = ${contacts.id} AND ${calls.outcome} IS NOT NULL
+            ORDER BY ${calls.startTime} DESC LIMIT 1)`
+        };
+      case 'lastWhatsAppStatus':
+        return {
+          kind,
+          options,
+          expression: sql`(SELECT ${whatsappMessages.status} FROM ${whatsappMessages}
+            WHERE ${whatsappMessages.contactId} = ${contacts.id} AND ${whatsappMessages.direction} = 'outbound'
+            ORDER BY ${whatsappMessages.createdAt} DESC LIMIT 1)`
+        };
+      case 'createdAt':
+        return { kind, expression: sql`to_char(${contacts.createdAt}, 'YYYY-MM-DD')` };
+      default:
+        return { kind, options, expression: sql`${contacts[builtIn]}` };
+    }
+  }
+
+  private static validateCondition(condition: SegmentCondition, definitions: ContactFieldDefinition[]): string[] {
+    if (!condition || typeof condition !== 'object') return ['must be a rule or a group'];
+    const field = this.resolveField(condition.field, definitions);
+    if (!field) return [`unknown field "${condition.field}"`];
+
+    const operators: readonly string[] = SEGMENT_OPERATORS[field.kind];
+    if (!operators.includes(condition.operator)) {
+      return [`${condition.field} can only be compared with: ${operators.join(', ')}`];
+    }
+    if (condition.operator === 'is_empty' || condition.operator === 'is_not_empty') return [];
+
+    const { value } = condition;
+    switch (field.kind) {
+      case 'number':
+        return typeof value === 'number' && Number.isFinite(value) ? [] : [`${condition.field} needs a number`];
+      case 'date':
+        return typeof value === 'string' && DATE_PATTERN.test(value) ? [] : [`${condition.field} needs a date as YYYY-MM-DD`];
+      case 'option':
+      case 'list': {
+        if (!Array.isArray(value) || value.length === 0 || value.some(item => typeof item !== 'string')) {
+          return [`${condition.field} needs a list of values`];
+        }
+        const unknown = field.options ? value.filter(item => !field.options!.includes(item)) : [];
+        return unknown.length > 0 ? [`${condition.field} has no option ${unknown.map(item => `"${item}"`).join(', ')}`] : [];
+      }
+      default:
+        return typeof value === 'string' && value.trim() ? [] : [`${condition.field} needs a value`];
+    }
+  }
+
+  private static compileCondition(condition: SegmentCondition, definitions: ContactFieldDefinition[]): SQL {
+    const field = this.resolveField(condition.field, definitions);
+    // A rule on a custom field deleted since the segment was saved matches nobody
+    if (!field) return sql`FALSE`;
+    const { kind, expression: column } = field;
+    const value = condition.value;
+
+    if (kind === 'list') {
+      // Tags are stored lowercased
+      const tags = sql`ARRAY[${list(((value as string[]) || []).map(tag => tag.trim().toLowerCase()))}]::text[]`;
+      switch (condition.operator) {
+        case 'is_empty': return sql`cardinality(${column}) = 0`;
+        case 'is_not_empty': return sql`cardinality(${column}) > 0`;
+        case 'has_all': return sql`${column} @> ${tags}`;
+        case 'has_none': return sql`NOT (${column} && ${tags})`;
+        default: return sql`${column} && ${tags}`;
+      }
+    }
+
+    // Cast so an integer column such as lead_score can be compared with a fractional value
+    const param = kind === 'number' ? sql`${value}::numeric` : sql`${value}`;
+
+    switch (condition.operator) {
+      case 'is_empty': return kind === 'text' ? sql`coalesce(${column}, '') = ''` : sql`${column} IS NULL`;
+      case 'is_not_empty': return kind === 'text' ? sql`coalesce(${column}, '') <> ''` : sql`${column} IS NOT NULL`;
+      case 'in': return sql`${column} IN (${list(value as string[])})`;
+      // Contacts without a value are not "in" the list either
+      case 'not_in': return sql`(${column} IS NULL OR ${column} NOT IN (${list(value as string[])}))`;
+      case 'contains': return sql`${column} ILIKE ${likePattern(String(value))}`;
+      case 'not_contains': return sql`coalesce(${column}, '') NOT ILIKE ${likePattern(String(value))}`;
+      case 'equals':
+        return kind === 'text' ? sql`lower(${column}) = lower(${String(value)})` : sql`${column} = ${param}`;
+      case 'not_equals':
+        return kind === 'text'
+          ? sql`coalesce(lower(${column}), '') <> lower(${String(value)})`
+          : sql`(${column} IS NULL OR ${column} <> ${param})`;
+      // Dates compare as YYYY-MM-DD text, numbers as numbers
+      case 'gt': case 'after': return sql`${column} > ${param}`;
+      case 'gte': return sql`${column} >= ${param}`;
+      case 'lt': case 'before': return sql`${column} < ${param}`;
+      case 'lte': return sql`${column} <= ${param}`;
+      default: return sql`FALSE`;
+    }
+  }
+}
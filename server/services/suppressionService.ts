@@ -0,0 +1,175 @@
+import * as XLSX from 'xlsx';
+import { storage } from '../storage';
+import { LeadPipelineService } from './leadPipelineService';
+import { PhoneNumberService } from './phoneNumberService';
+import type { Contact, SuppressionEntry, SuppressionSource } from '@shared/schema';
+
+// Clauses of call speech that mean "never call me again" (a plain "not interested" only ends the call).
+// Each must be the whole clause, so "don't call before 5", "do not call my cell" or "take me off speaker" don't match
+const OPT_OUT_PATTERNS = [
+  /^(please )?(stop|quit) (calling|ringing)( me| us| this number| my number)?( again| anymore| any more)?$/,
+  /^(please )?(do not|don't|dont|never) (call|ring)( me| us| this number| my number)?( again| anymore| any more| ever again)?$/,
+  /^(please )?(take|remove) (me|my number|this number) (off|from) (your|the|this) (list|calling list|call list|database)$/,
+  /^(please )?remove my number$/,
+  /^(please )?(add|put) (me|my number) (on|to) (your|the) (do not|don't|dont) call list$/,
+  /^(please )?unsubscribe( me)?$/
+];
+
+// Politeness around a clause that doesn't change what it asks for
+const CLAUSE_FILLER = /^((ok|okay|look|listen|sir|madam|i said|i told you|just|and|but|so) )+|( (please|thanks|thank you|ok|okay))+$/g;
+
+// Whole-message WhatsApp replies treated as an opt-out, as required by Meta's opt-out policy
+const OPT_OUT_KEYWORDS = ['STOP', 'STOP ALL', 'UNSUBSCRIBE', 'OPT OUT', 'OPTOUT', 'CANCEL', 'END', 'QUIT'];
+
+const IMPORT_BATCH_SIZE = 500;
+
+export interface SuppressOptions {
+  contactId?: string | null;
+  sourceReference?: string | null;
+}
+
+// Do-not-call / opt-out registry shared by calls and WhatsApp
+export class SuppressionService {
+  // Registry key for a phone number: its E.164 form, the same value contacts, calls and WhatsApp compare,
+  // so numbers in different countries that share their last digits never block each other
+  static normalizePhone(phone: string | null | undefined): string | null {
+    return PhoneNumberService.toE164(phone);
+  }
+
+  // Re-key entries stored before the registry used E.164; bare numbers are read as the default country's.
+  // An entry whose number is already listed in E.164 is dropped as a duplicate
+  static async migrateLegacyKeys(): Promise<void> {
+    const legacy = await storage.getUnnormalizedSuppressionEntries();
+    let migrated = 0;
+    for (const entry of legacy) {
+      const key = this.normalizePhone(entry.phone);
+      if (!key) {
+        console.warn(`⚠️ Do-not-call entry ${entry.phone} cannot be read as a phone number; left as it is`);
+        continue;
+      }
+      const [existing] = await storage.getSuppressedPhones([key]);
+      if (existing) {
+        await storage.deleteSuppressionEntry(entry.id);
+      } else {
+        await storage.updateSuppressionEntry(entry.id, { phone: key });
+      }
+      migrated++;
+    }
+    if (migrated > 0) {
+      console.log(`🚫 Moved ${migrated} do-not-call entries to E.164 numbers`);
+    }
+  }
+
+  // True when any clause of the caller's speech is on its own a request never to be called again
+  static isOptOutSpeech(speechText: string): boolean {
+    return speechText
+      .toLowerCase()
+      .replace(/[’`]/g, "'")
+      .split(/[.,;:!?]+|\s+(?:and|but)\s+/)
+      .map(clause => clause.replace(/[^a-z0-9' ]/g, ' ').replace(/\s+/g, ' ').trim().replace(CLAUSE_FILLER, ''))
+      .some(clause => OPT_OUT_PATTERNS.some(pattern => pattern.test(clause)));
+  }
+
+  static isOptOutReply(messageText: string): boolean {
+    const text = messageText.trim().toUpperCase().replace(/[^A-Z ]/g, '').replace(/\s+/g, ' ');
+    return OPT_OUT_KEYWORDS.includes(text);
+  }
+
+  static async isSuppressed(phone: string | null | undefined): Promise<boolean> {
+    const key = this.normalizePhone(phone);
+    if (!key) return false;
+    const suppressed = await storage.getSuppressedPhones([key]);
+    return suppressed.length > 0;
+  }
+
+  // Split contacts into those we may contact and those on the registry (phone or WhatsApp number)
+  static async partitionContacts<T extends Pick<Contact, 'phone' | 'whatsappNumber'>>(
+    contacts: T[]
+  ): Promise<{ allowed: T[]; suppressed: T[] }> {
+    const keysFor = (contact: T) => [contact.phone, contact.whatsappNumber]
+      .map(phone => this.normalizePhone(phone))
+      .filter((key): key is string => key !== null);
+
+    const suppressedKeys = new Set(await storage.getSuppressedPhones(
+      Array.from(new Set(contacts.flatMap(keysFor)))
+    ));
+
+    const allowed: T[] = [];
+    const suppressed: T[] = [];
+    for (const contact of contacts) {
+      (keysFor(contact).some(key => suppressedKeys.has(key)) ? suppressed : allowed).push(contact);
+    }
+    return { allowed, suppressed };
+  }
+
+  // Add a number to the registry; returns the new entry, or null when it was already suppressed
+  static async suppress(
+    phone: string,
+    reason: string,
+    source: SuppressionSource,
+    options: SuppressOptions = {}
+  ): Promise<SuppressionEntry | null> {
+    const key = this.normalizePhone(phone);
+    if (!key) return null;
+
+    const [entry] = await storage.addSuppressionEntries([{
+      phone: key,
+      reason,
+      source,
+      contactId: options.contactId || null,
+      sourceReference: options.sourceReference || null
+    }]);
+
+    if (entry) {
+      console.log(`🚫 ${phone} added to do-not-call list (${source}: ${reason})`);
+    }
+    if (options.contactId) {
+      await LeadPipelineService.advanceStage(options.contactId, 'lost', {
+        source: source === 'call' || source === 'whatsapp' ? source : 'manual',
+        callId: source === 'call' ? options.sourceReference || undefined : undefined,
+        reason: `Opted out: ${reason}`
+      });
+    }
+    return entry || null;
+  }
+
+  // Import numbers from a CSV/Excel file such as a DND registry export.
+  // Uses the phone/number/mobile column when there is a header row, otherwise the first column.
+  static async importFile(buffer: Buffer, fileName: string): Promise<{ imported: number; skipped: number; errors: string[] }> {
+    const workbook = XLSX.read(buffer, { type: 'buffer' });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+
+    const headers = (rows[0] || []).map(header => String(header ?? '').toLowerCase().trim());
+    let phoneColumn = headers.findIndex(header => ['phone', 'phone number', 'phone_number', 'mobile', 'number', 'msisdn'].includes(header));
+    const reasonColumn = headers.findIndex(header => header === 'reason');
+    const hasHeader = phoneColumn !== -1;
+    if (!hasHeader) phoneColumn = 0;
+
+    const errors: string[] = [];
+    const entries = new Map<string, { phone: string; reason: string; source: SuppressionSource; sourceReference: string }>();
+
+    rows.slice(hasHeader ? 1 : 0).forEach((row, index) => {
+      const raw = row?.[phoneColumn];
+      if (raw === undefined || raw === null || String(raw).trim() === '') return;
+
+      const key = this.normalizePhone(String(raw));
+      if (!key) {
+        errors.push(`Row ${index + (hasHeader ? 2 : 1)}: Invalid phone number "${raw}"`);
+        return;
+      }
+      const reason = reasonColumn !== -1 && row[reasonColumn] ? String(row[reasonColumn]).trim() : 'Imported do-not-call list';
+      entries.set(key, { phone: key, reason, source: 'import', sourceReference: fileName });
+    });
+
+    const values = Array.from(entries.values());
+    let imported = 0;
+    for (let i = 0; i < values.length; i += IMPORT_BATCH_SIZE) {
+      const inserted = await storage.addSuppressionEntries(values.slice(i, i + IMPORT_BATCH_SIZE));
+      imported += inserted.length;
+    }
+
+    console.log(`🚫 Imported ${imported} numbers into the do-not-call list from ${fileName}`);
+    return { imported, skipped: values.length - imported, errors };
+  }
+}
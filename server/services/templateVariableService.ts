@@ -0,0 +1,225 @@
+import {
+  CONTACT_VARIABLE_FIELDS,
+  type Contact,
+  type ResolvedTemplateVariables,
+  type TemplateVariableBinding,
+  type TemplateVariableMapping,
+  type WhatsAppTemplate
+} from '@shared/schema';
+import { CustomFieldService } from './customFieldService';
+import type { TemplateSendComponent, TemplateSendParameter } from './whatsappTemplateService';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\d+)\s*\}\}/g;
+const MEDIA_HEADER_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+
+// The parts of a template that take parameters
+export interface TemplateStructure {
+  headerFormat: string | null; // TEXT, IMAGE, VIDEO, DOCUMENT
+  headerText: string | null;
+  headerPlaceholders: number;
+  bodyText: string;
+  bodyPlaceholders: number;
+  footerText: string | null;
+  urlButtons: { index: number; text: string; url: string }[]; // Only URL buttons with a {{1}} suffix
+}
+
+export interface RecipientPreview {
+  contactId: string;
+  name: string;
+  phone: string;
+  values: ResolvedTemplateVariables;
+  header: string | null;
+  body: string;
+  errors: string[];
+}
+
+// Binds template placeholders, header media and URL buttons to contact fields or constants,
+// and turns the result into Meta Cloud API template components for each recipient
+export class TemplateVariableService {
+  // Highest {{n}} placeholder in a piece of template text
+  static countPlaceholders(text: string | null | undefined): number {
+    const numbers = Array.from((text || '').matchAll(PLACEHOLDER_PATTERN), match => parseInt(match[1]));
+    return numbers.length > 0 ? Math.max(...numbers) : 0;
+  }
+
+  static fill(text: string, values: string[]): string {
+    return text.replace(PLACEHOLDER_PATTERN, (placeholder, n) => values[parseInt(n) - 1] ?? placeholder);
+  }
+
+  // Read the structure from the synced Meta components, falling back to the plain content
+  static getStructure(template: WhatsAppTemplate): TemplateStructure {
+    const components: any[] = (template.metaTemplate as any)?.components || (template.components as any[] | null) || [];
+    const find = (type: string) => components.find(component => String(component.type).toUpperCase() === type);
+
+    const header = find('HEADER');
+    const body = find('BODY');
+    const footer = find('FOOTER');
+    const buttons: any[] = find('BUTTONS')?.buttons || [];
+
+    const headerText = header?.format === 'TEXT' || (header && !header.format) ? header.text || null : null;
+    const bodyText = body?.text || template.content;
+
+    return {
+      headerFormat: header ? (header.format || 'TEXT') : null,
+      headerText,
+      headerPlaceholders: this.countPlaceholders(headerText),
+      bodyText,
+      bodyPlaceholders: this.countPlaceholders(bodyText),
+      footerText: footer?.text || null,
+      urlButtons: buttons
+        .map((button, index) => ({ index, text: button.text, url: button.url || '', type: button.type }))
+        .filter(button => button.type === 'URL' && this.countPlaceholders(button.url) > 0)
+        .map(({ index, text, url }) => ({ index, text, url }))
+    };
+  }
+
+  // Starting point for templates nobody has mapped yet: {{1}} is the contact's name, everything else is left blank
+  static getDefaultMapping(template: WhatsAppTemplate): TemplateVariableMapping {
+    const structure = this.getStructure(template);
+    const blank: TemplateVariableBinding = { source: 'constant', value: '' };
+
+    return {
+      body: Array.from({ length: structure.bodyPlaceholders }, (_, i): TemplateVariableBinding => i === 0 ? { source: 'field', field: 'name' } : blank),
+      header: Array.from({ length: structure.headerPlaceholders }, () => blank),
+      headerMedia: structure.headerFormat && MEDIA_HEADER_FORMATS.includes(structure.headerFormat) ? blank : undefined,
+      buttons: Object.fromEntries(structure.urlButtons.map(button => [String(button.index), blank]))
+    };
+  }
+
+  static getMapping(template: WhatsAppTemplate): TemplateVariableMapping {
+    return (template.variableMapping as TemplateVariableMapping | null) || this.getDefaultMapping(template);
+  }
+
+  // Check a mapping covers exactly the template's parameters; returns a list of problems.
+  // With customFieldKeys, custom field bindings must also name an existing field
+  static validateMapping(
+    template: WhatsAppTemplate,
+    mapping: TemplateVariableMapping | null | undefined,
+    customFieldKeys?: string[]
+  ): string[] {
+    if (!mapping || !Array.isArray(mapping.body)) return ['Mapping must include a body list'];
+
+    const structure = this.getStructure(template);
+    const errors: string[] = [];
+    const checkBinding = (label: string, binding: TemplateVariableBinding | undefined) => {
+      if (!binding) {
+        errors.push(`${label} is not mapped`);
+      } else if (binding.source === 'field') {
+        if (!CONTACT_VARIABLE_FIELDS.includes(binding.field)) {
+          errors.push(`${label}: unknown contact field "${binding.field}"`);
+        }
+      } else if (binding.source === 'custom_field') {
+        if (!CustomFieldService.isValidKey(binding.key) || (customFieldKeys && !customFieldKeys.includes(binding.key))) {
+          errors.push(`${label}: unknown custom field "${binding.key}"`);
+        }
+      } else if (binding.source === 'constant') {
+        if (typeof binding.value !== 'string' || !binding.value.trim()) {
+          errors.push(`${label} needs a value`);
+        }
+      } else {
+        errors.push(`${label}: source must be field, custom_field or constant`);
+      }
+    };
+
+    if (mapping.body.length !== structure.bodyPlaceholders) {
+      errors.push(`Body has ${structure.bodyPlaceholders} placeholders but ${mapping.body.length} are mapped`);
+    }
+    mapping.body.forEach((binding, i) => checkBinding(`Body {{${i + 1}}}`, binding));
+
+    const header = mapping.header || [];
+    if (header.length !== structure.headerPlaceholders) {
+      errors.push(`Header has ${structure.headerPlaceholders} placeholders but ${header.length} are mapped`);
+    }
+    header.forEach((binding, i) => checkBinding(`Header {{${i + 1}}}`, binding));
+
+    if (structure.headerFormat && MEDIA_HEADER_FORMATS.includes(structure.headerFormat)) {
+      checkBinding(`Header ${structure.headerFormat.toLowerCase()} link`, mapping.headerMedia);
+    }
+    for (const button of structure.urlButtons) {
+      checkBinding(`Button "${button.text}" URL suffix`, mapping.buttons?.[String(button.index)]);
+    }
+    return errors;
+  }
+
+  static resolveBinding(binding: TemplateVariableBinding | undefined, contact: Contact): string {
+    if (!binding) return '';
+    if (binding.source === 'constant') return binding.value.trim();
+    if (binding.source === 'custom_field') return CustomFieldService.formatValues(contact)[binding.key]?.trim() || '';
+    const value = binding.field === 'firstName' ? contact.name?.split(' ')[0]
+      : binding.field === 'tags' ? (contact.tags || []).join(', ')
+      : contact[binding.field];
+    return value ? String(value).trim() : '';
+  }
+
+  static resolve(mapping: TemplateVariableMapping, contact: Contact): ResolvedTemplateVariables {
+    return {
+      header: (mapping.header || []).map(binding => this.resolveBinding(binding, contact)),
+      headerMediaUrl: mapping.headerMedia ? this.resolveBinding(mapping.headerMedia, contact) : undefined,
+      body: mapping.body.map(binding => this.resolveBinding(binding, contact)),
+      buttons: Object.fromEntries(
+        Object.entries(mapping.buttons || {}).map(([index, binding]) => [index, this.resolveBinding(binding, contact)])
+      )
+    };
+  }
+
+  // Resolve and check one recipient's values against Meta's parameter rules
+  static previewRecipient(template: WhatsAppTemplate, mapping: TemplateVariableMapping, contact: Contact): RecipientPreview {
+    const structure = this.getStructure(template);
+    const values = this.resolve(mapping, contact);
+    const errors: string[] = [];
+
+    if (!(contact.whatsappNumber || contact.phone)) {
+      errors.push('Contact has no phone number');
+    }
+    const checkText = (label: string, value: string) => {
+      if (!value) errors.push(`${label} is empty for this contact`);
+      else if (/[\n\t]|\s{5,}/.test(value)) errors.push(`${label} contains line breaks, tabs or long runs of spaces`);
+    };
+    values.body.forEach((value, i) => checkText(`Body {{${i + 1}}}`, value));
+    values.header.forEach((value, i) => checkText(`Header {{${i + 1}}}`, value));
+    for (const button of structure.urlButtons) {
+      checkText(`Button "${button.text}" URL suffix`, values.buttons[String(button.index)] || '');
+    }
+    if (structure.headerFormat && MEDIA_HEADER_FORMATS.includes(structure.headerFormat)) {
+      if (!values.headerMediaUrl || !/^https?:\/\/\S+$/i.test(values.headerMediaUrl)) {
+        errors.push(`Header ${structure.headerFormat.toLowerCase()} link must be an http(s) URL`);
+      }
+    }
+
+    return {
+      contactId: contact.id,
+      name: contact.name,
+      phone: contact.whatsappNumber || contact.phone,
+      values,
+      header: structure.headerText ? this.fill(structure.headerText, values.header) : null,
+      body: this.fill(structure.bodyText, values.body),
+      errors
+    };
+  }
+
+  // Meta Cloud API "components" for a template send
+  static buildComponents(template: WhatsAppTemplate, values: ResolvedTemplateVariables): TemplateSendComponent[] {
+    const structure = this.getStructure(template);
+    const text = (value: string): TemplateSendParameter => ({ type: 'text', text: value });
+    const components: TemplateSendComponent[] = [];
+
+    if (values.header.length > 0) {
+      components.push({ type: 'header', parameters: values.header.map(text) });
+    } else if (values.headerMediaUrl && structure.headerFormat && MEDIA_HEADER_FORMATS.includes(structure.headerFormat)) {
+      const mediaType = structure.headerFormat.toLowerCase() as 'image' | 'video' | 'document';
+      components.push({ type: 'header', parameters: [{ type: mediaType, [mediaType]: { link: values.headerMediaUrl } }] });
+    }
+    if (values.body.length > 0) {
+      components.push({ type: 'body', parameters: values.body.map(text) });
+    }
+    for (const button of structure.urlButtons) {
+      components.push({
+        type: 'button',
+        sub_type: 'url',
+        index: String(button.index),
+        parameters: [text(values.buttons[String(button.index)] || '')]
+      });
+    }
+    return components;
+  }
+}
@@ -0,0 +1,55 @@
+import { storage } from '../storage';
+import type { Call, ContactTimeline, TimelineEvent } from '@shared/schema';
+
+const MESSAGES_PER_CHANNEL = 500;
+
+// Merges a contact's calls, WhatsApp messages, emails, stage changes and notes into one history, newest first
+export class TimelineService {
+  static async getTimeline(contactId: string): Promise<ContactTimeline | undefined> {
+    const contact = await storage.getContact(contactId);
+    if (!contact) return undefined;
+
+    const [calls, whatsappMessages, emails, stageHistory, notes, engagements, campaigns] = await Promise.all([
+      storage.getCallsByContact(contactId),
+      storage.getWhatsAppMessages(contactId, MESSAGES_PER_CHANNEL),
+      storage.getEmailMessages(contactId, MESSAGES_PER_CHANNEL),
+      storage.getLeadStageHistory(contactId),
+      storage.getContactNotes(contactId),
+      storage.getEngagementsByContact(contactId),
+      storage.getCampaigns()
+    ]);
+    const campaignNames = new Map(campaigns.map(campaign => [campaign.id, campaign.name]));
+
+    const events: TimelineEvent[] = [
+      ...await Promise.all(calls.map(async (call): Promise<TimelineEvent> => ({
+        kind: 'call',
+        at: call.startTime,
+        call,
+        campaignName: call.campaignId ? campaignNames.get(call.campaignId) : undefined,
+        transcript: await this.getTranscript(call)
+      }))),
+      ...whatsappMessages.map((message): TimelineEvent => ({ kind: 'whatsapp', at: message.createdAt, message })),
+      ...emails.map((email): TimelineEvent => ({ kind: 'email', at: email.createdAt, email })),
+      ...stageHistory.map((entry): TimelineEvent => ({ kind: 'stage_change', at: entry.createdAt, entry })),
+      ...notes.map((note): TimelineEvent => ({ kind: 'note', at: note.createdAt, note }))
+    ];
+    events.sort((a, b) => b.at.getTime() - a.at.getTime());
+
+    return { contact, engagements, events };
+  }
+
+  // The conversation turns recorded during the call, or the speech transcriptions when there are none
+  private static async getTranscript(call: Call): Promise<{ role: string; content: string }[]> {
+    // Stored newest first
+    const turns = (await storage.getCallMessages(call.id)).reverse();
+    if (turns.length > 0) {
+      return turns.map(turn => ({ role: turn.role, content: turn.content }));
+    }
+
+    const transcriptions = await storage.getCallTranscriptions(call.id);
+    return transcriptions.map(segment => ({
+      role: segment.speaker === 'customer' ? 'user' : 'assistant',
+      content: segment.transcript
+    }));
+  }
+}
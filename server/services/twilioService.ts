@@ -1,5 +1,5 @@
 import twilio from 'twilio';
-import { getBaseUrl } from '../config/environment';
+import { env, getBaseUrl } from '../config/environment';
 
 export class TwilioService {
   private client: twilio.Twilio;
@@ -15,6 +15,19 @@ export class TwilioService {
     this.client = twilio(accountSid, authToken);
   }
 
+  // Twilio signs every webhook with the auth token over the full URL and the POSTed form fields
+  verifyWebhookSignature(url: string, params: Record<string, any>, signature: string | undefined): boolean {
+    const authToken = process.env.TWILIO_AUTH_TOKEN;
+    if (!authToken) {
+      console.warn('⚠️ TWILIO_AUTH_TOKEN not configured - webhook signature not verified');
+      return env.NODE_ENV !== 'production';
+    }
+    if (!signature) {
+      return false;
+    }
+    return twilio.validateRequest(authToken, signature, url, params);
+  }
+
   // Initiate outbound call
   async initiateCall(
     phoneNumber: string,
@@ -0,0 +1,78 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { ElevenLabsService } from './elevenlabsService';
+import { PromptTemplateService } from './promptTemplateService';
+import { getBaseUrl } from '../config/environment';
+import type { Campaign } from '@shared/schema';
+
+// Voicemail audio is kept outside temp/ so the per-request cleanup in /audio never deletes it
+export const VOICEMAIL_DIR = path.join(process.cwd(), 'voicemail');
+
+// Twilio AnsweredBy values that mean a machine or fax picked up (DetectMessageEnd reports machine_end_*)
+const MACHINE_ANSWERS = ['machine_start', 'machine_end_beep', 'machine_end_silence', 'machine_end_other', 'fax'];
+
+export class VoicemailService {
+  static isMachineAnswer(answeredBy: string | undefined): boolean {
+    return !!answeredBy && MACHINE_ANSWERS.includes(answeredBy);
+  }
+
+  // Voicemail text for a campaign; no contact is known at render time, so only campaign variables apply
+  static renderMessage(campaign: Campaign): string | null {
+    if (!campaign.voicemailMessage?.trim()) return null;
+    return PromptTemplateService.render(campaign.voicemailMessage, PromptTemplateService.buildVariables({ campaign }));
+  }
+
+  // Pre-render the campaign's voicemail with its ElevenLabs voice and remember the file name.
+  // The file name hashes text and voice settings, so unchanged campaigns are not re-rendered.
+  static async prepareVoicemail(campaign: Campaign): Promise<string | null> {
+    const message = this.renderMessage(campaign);
+    if (!message) return null;
+
+    const hash = crypto
+      .createHash('sha1')
+      .update([message, campaign.voiceId, campaign.elevenlabsModel, campaign.language].join('|'))
+      .digest('hex')
+      .slice(0, 12);
+    const fileName = `voicemail_${campaign.id}_${hash}.mp3`;
+    const filePath = path.join(VOICEMAIL_DIR, fileName);
+
+    if (!fs.existsSync(filePath)) {
+      console.log(`📼 Rendering voicemail for campaign ${campaign.id}`);
+      const voiceConfig = campaign.voiceConfig as any;
+      const audioBuffer = await ElevenLabsService.textToSpeech(message, campaign.voiceId, {
+        stability: voiceConfig?.stability || 0.5,
+        similarityBoost: voiceConfig?.similarityBoost || 0.75,
+        style: voiceConfig?.style || 0.0,
+        speakerBoost: voiceConfig?.useSpeakerBoost || true,
+        model: campaign.elevenlabsModel || 'eleven_multilingual_v2',
+        language: campaign.language || 'en'
+      });
+
+      if (!fs.existsSync(VOICEMAIL_DIR)) {
+        fs.mkdirSync(VOICEMAIL_DIR, { recursive: true });
+      }
+      fs.writeFileSync(filePath, audioBuffer);
+    }
+
+    if (campaign.voicemailAudioFile !== fileName) {
+      // Campaigns started from a template point at the template's file, which other campaigns
+      // share; only this campaign's own earlier renders are removed
+      const previousName = campaign.voicemailAudioFile && path.basename(campaign.voicemailAudioFile);
+      const previous = previousName?.startsWith(`voicemail_${campaign.id}_`) && path.join(VOICEMAIL_DIR, previousName);
+      if (previous && fs.existsSync(previous)) {
+        fs.unlinkSync(previous);
+      }
+      await storage.updateCampaign(campaign.id, { voicemailAudioFile: fileName });
+    }
+
+    return fileName;
+  }
+
+  // Public URL of the campaign's voicemail audio, rendering it first if this instance does not have it yet
+  static async getVoicemailAudioUrl(campaign: Campaign): Promise<string | null> {
+    const fileName = await this.prepareVoicemail(campaign);
+    return fileName ? `${getBaseUrl()}/audio/voicemail/${fileName}` : null;
+  }
+}
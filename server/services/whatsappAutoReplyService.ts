@@ -0,0 +1,200 @@
+import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import { OpenAIService } from './openaiService';
+import { PromptTemplateService } from './promptTemplateService';
+import { SuppressionService } from './suppressionService';
+import type { Campaign, Contact, WhatsAppConversation } from '@shared/schema';
+
+// Meta only allows free-form replies within 24 hours of the contact's last message
+const SESSION_WINDOW_MS = 24 * 60 * 60 * 1000;
+// Replies the model is less sure about than this go to a person instead
+const MIN_CONFIDENCE = 0.6;
+const HISTORY_MESSAGES = 20;
+const CALLS_IN_CONTEXT = 2;
+const TURNS_PER_CALL = 30;
+
+// Phrases in a WhatsApp message that mean "let me talk to a person"
+const HANDOFF_PHRASES = [
+  'human',
+  'real person',
+  'talk to someone',
+  'speak to someone',
+  'talk to a person',
+  'speak to a person',
+  'representative',
+  'customer care',
+  'call me'
+];
+
+const HANDOFF_ACKNOWLEDGEMENT = 'Thanks! Someone from our team will get back to you here shortly.';
+
+// Answers inbound WhatsApp messages with the persona of the contact's campaign, and
+// hands the conversation to a person when the contact asks for one or the AI is unsure
+export class WhatsAppAutoReplyService {
+  static isWithinSessionWindow(conversation: Pick<WhatsAppConversation, 'lastInboundAt'> | undefined): boolean {
+    return !!conversation?.lastInboundAt && Date.now() - conversation.lastInboundAt.getTime() < SESSION_WINDOW_MS;
+  }
+
+  static asksForHuman(messageText: string): boolean {
+    const text = messageText.toLowerCase();
+    return HANDOFF_PHRASES.some(phrase => new RegExp(`\\b${phrase}\\b`).test(text));
+  }
+
+  // The conversation's campaign, otherwise the campaign of the contact's latest call or campaign message
+  static async findCampaign(contactId: string, conversation: WhatsAppConversation): Promise<Campaign | undefined> {
+    if (conversation.campaignId) {
+      return await storage.getCampaign(conversation.campaignId);
+    }
+
+    const calls = (await storage.getCallsByContact(contactId))
+      .filter(call => call.campaignId)
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    const messages = (await storage.getWhatsAppMessages(contactId, HISTORY_MESSAGES)).filter(message => message.campaignId);
+
+    const latestCall = calls[0];
+    const latestMessage = messages[0];
+    const campaignId = latestCall && (!latestMessage || latestCall.startTime > latestMessage.createdAt)
+      ? latestCall.campaignId
+      : latestMessage?.campaignId;
+    return campaignId ? await storage.getCampaign(campaignId) : undefined;
+  }
+
+  // Plain-text digest of the contact's most recent calls: summary plus transcript
+  static async buildCallDigest(contactId: string): Promise<string> {
+    const calls = (await storage.getCallsByContact(contactId))
+      .filter(call => call.status === 'completed')
+      .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+      .slice(0, CALLS_IN_CONTEXT);
+
+    const digests: string[] = [];
+    for (const call of calls) {
+      // Stored newest first
+      const turns = (await storage.getCallMessages(call.id)).reverse().slice(-TURNS_PER_CALL);
+      if (turns.length === 0 && !call.conversationSummary) continue;
+
+      const transcript = turns
+        .map(turn => `${turn.role === 'user' ? 'Contact' : 'Agent'}: ${turn.content}`)
+        .join('\n');
+      digests.push([
+        `Call on ${call.startTime.toISOString().slice(0, 10)}${call.outcome ? ` (${call.outcome})` : ''}:`,
+        call.conversationSummary && `Summary: ${call.conversationSummary}`,
+        transcript
+      ].filter(Boolean).join('\n'));
+    }
+    return digests.join('\n\n');
+  }
+
+  // Called for every inbound WhatsApp message after it has been stored. A button tap whose action already ran
+  // ("Call me later" queues the call) only opens the reply window; its title is no request for a person or the AI
+  static async handleInbound(contact: Contact, messageText: string, receivedAt: Date, handledByAction = false): Promise<void> {
+    try {
+      const conversation = await storage.upsertWhatsAppConversation(contact.id, { lastInboundAt: receivedAt });
+      if (handledByAction || conversation.mode === 'human') return;
+      if (!this.isWithinSessionWindow(conversation)) return;
+      if (await SuppressionService.isSuppressed(contact.whatsappNumber || contact.phone)) return;
+
+      const campaign = await this.findCampaign(contact.id, conversation);
+      if (!campaign?.whatsappAutoReply) return;
+      if (conversation.campaignId !== campaign.id) {
+        await storage.upsertWhatsAppConversation(contact.id, { campaignId: campaign.id });
+      }
+
+      if (this.asksForHuman(messageText)) {
+        await this.handOff(contact.id, 'Contact asked for a person');
+        await this.sendReply(contact, campaign, HANDOFF_ACKNOWLEDGEMENT);
+        return;
+      }
+
+      // Stored newest first; failed sends never reached the contact
+      const history = (await storage.getWhatsAppMessages(contact.id, HISTORY_MESSAGES))
+        .filter(message => message.status !== 'failed')
+        .reverse()
+        .map(message => ({
+          role: message.direction === 'inbound' ? 'user' as const : 'assistant' as const,
+          content: message.message || `[${message.messageType}]`
+        }));
+
+      const systemPrompt = PromptTemplateService.buildWhatsAppPrompt(
+        { campaign, contact },
+        await this.buildCallDigest(contact.id)
+      );
+
+      let result = null;
+      try {
+        result = await OpenAIService.generateWhatsAppReply(systemPrompt, history, campaign.openaiModel);
+      } catch (error) {
+        console.error(`❌ AI reply failed for ${contact.name}:`, error);
+      }
+
+      if (!result) {
+        await this.handOff(contact.id, 'AI could not generate a reply');
+      } else if (result.handoff) {
+        await this.handOff(contact.id, result.handoffReason || 'AI asked for a person to take over');
+      } else if (result.confidence < MIN_CONFIDENCE || !result.reply.trim()) {
+        await this.handOff(contact.id, `AI was not confident enough to reply (${Math.round(result.confidence * 100)}%)`);
+      } else {
+        await this.sendReply(contact, campaign, result.reply.trim());
+      }
+    } catch (error) {
+      console.error(`❌ Error auto-replying to ${contact.name}:`, error);
+    }
+  }
+
+  // Record and send an AI-authored message
+  private static async sendReply(contact: Contact, campaign: Campaign, text: string): Promise<void> {
+    const phone = contact.whatsappNumber || contact.phone;
+    const message = await storage.createWhatsAppMessage({
+      contactId: contact.id,
+      phone,
+      message: text,
+      messageType: 'text',
+      direction: 'outbound',
+      status: 'pending',
+      campaignId: campaign.id,
+      author: 'ai'
+    });
+
+    try {
+      const { whatsappService } = await import('./whatsappService');
+      const response = await whatsappService.sendTextMessage(phone, text);
+      await storage.updateWhatsAppMessage(message.id, {
+        whatsappMessageId: response.messages?.[0]?.id,
+        status: 'sent'
+      });
+      console.log(`🤖 AI replied to ${contact.name} on WhatsApp`);
+    } catch (error) {
+      await storage.updateWhatsAppMessage(message.id, {
+        status: 'failed',
+        failedReason: error instanceof Error ? error.message : 'Failed to send message'
+      });
+      console.error(`❌ AI reply to ${contact.name} failed to send:`, error);
+    }
+  }
+
+  // Stop AI replies until someone hands the conversation back
+  static async handOff(contactId: string, reason: string): Promise<WhatsAppConversation> {
+    const conversation = await storage.upsertWhatsAppConversation(contactId, {
+      mode: 'human',
+      handoffReason: reason,
+      handedOffAt: new Date()
+    });
+    console.log(`🙋 WhatsApp conversation with ${contactId} handed to a person: ${reason}`);
+    this.broadcast(conversation);
+    return conversation;
+  }
+
+  static async resumeAi(contactId: string): Promise<WhatsAppConversation> {
+    const conversation = await storage.upsertWhatsAppConversation(contactId, {
+      mode: 'ai',
+      handoffReason: null,
+      handedOffAt: null
+    });
+    console.log(`🤖 AI replies resumed for WhatsApp conversation with ${contactId}`);
+    this.broadcast(conversation);
+    return conversation;
+  }
+
+  private static broadcast(conversation: WhatsAppConversation): void {
+    broadcastToClients({ type: 'whatsapp_conversation_updated', conversation });
+  }
+}
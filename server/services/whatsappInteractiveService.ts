@@ -0,0 +1,193 @@
+import { storage } from '../storage';
+import { broadcastToClients } from '../realtime';
+import { LeadPipelineService } from './leadPipelineService';
+import { WhatsAppAutoReplyService } from './whatsappAutoReplyService';
+import { dialerService } from './dialerService';
+import type {
+  Contact,
+  WhatsAppInteractiveContent,
+  WhatsAppInteractiveReply,
+  WhatsAppMessage,
+  WhatsAppReplyAction
+} from '@shared/schema';
+
+// Ready-made follow-up question for leads who have not booked yet
+export const DEMO_FOLLOW_UP: WhatsAppInteractiveContent = {
+  type: 'button',
+  body: 'Would you like to see how it works for your lab?',
+  options: [
+    { id: 'book_demo', title: 'Book a demo', action: { type: 'stage', stage: 'demo_scheduled' } },
+    { id: 'call_later', title: 'Call me later', action: { type: 'call', delayMinutes: 240 } },
+    { id: 'not_interested', title: 'Not interested', action: { type: 'stage', stage: 'lost' } }
+  ]
+};
+
+const describeAction = (action: WhatsAppReplyAction): string => {
+  switch (action.type) {
+    case 'stage': return `Move to ${action.stage}`;
+    case 'call': return action.delayMinutes > 0 ? `Call back in ${action.delayMinutes} minutes` : 'Call back now';
+    case 'handoff': return 'Hand to a person';
+  }
+};
+
+// Sends reply-button and list messages, and turns the contact's taps into pipeline moves,
+// follow-up calls or handoffs
+export class WhatsAppInteractiveService {
+  // Meta Cloud API "interactive" object for a message
+  static buildPayload(content: WhatsAppInteractiveContent): any {
+    const payload: any = {
+      type: content.type,
+      body: { text: content.body }
+    };
+    if (content.header) payload.header = { type: 'text', text: content.header };
+    if (content.footer) payload.footer = { text: content.footer };
+
+    if (content.type === 'button') {
+      payload.action = {
+        buttons: content.options.map(option => ({ type: 'reply', reply: { id: option.id, title: option.title } }))
+      };
+    } else {
+      // Rows keep their order; a new section starts whenever the section name changes
+      const sections: { title?: string; rows: any[] }[] = [];
+      for (const option of content.options) {
+        let section = sections[sections.length - 1];
+        if (!section || section.title !== option.section) {
+          section = { title: option.section, rows: [] };
+          sections.push(section);
+        }
+        section.rows.push({ id: option.id, title: option.title, description: option.description });
+      }
+      payload.action = { button: content.buttonText, sections };
+    }
+    return payload;
+  }
+
+  // Record and send an interactive message; the row keeps the options so replies can be matched to their actions
+  static async send(
+    contact: Contact,
+    phone: string,
+    content: WhatsAppInteractiveContent,
+    options: { campaignId?: string | null; author?: 'ai' | 'human' } = {}
+  ): Promise<WhatsAppMessage> {
+    const message = await storage.createWhatsAppMessage({
+      contactId: contact.id,
+      phone,
+      message: content.body,
+      messageType: 'interactive',
+      direction: 'outbound',
+      status: 'pending',
+      campaignId: options.campaignId || null,
+      author: options.author || 'human',
+      interactive: content
+    });
+
+    const { whatsappService, WhatsAppApiError } = await import('./whatsappService');
+    try {
+      const response = await whatsappService.sendInteractiveMessage(phone, this.buildPayload(content));
+      console.log(`🔘 Interactive message sent to ${contact.name}`);
+      return (await storage.updateWhatsAppMessage(message.id, {
+        whatsappMessageId: response.messages?.[0]?.id,
+        status: 'sent'
+      }))!;
+    } catch (error) {
+      const failed = await storage.updateWhatsAppMessage(message.id, {
+        status: 'failed',
+        failedReason: error instanceof Error ? error.message : 'Failed to send message',
+        errorCode: error instanceof WhatsAppApiError ? error.code ?? null : null
+      });
+      console.error(`❌ Interactive message to ${contact.name} failed:`, error);
+      return failed!;
+    }
+  }
+
+  // Button and list replies from an inbound webhook message; null for every other message type
+  static parseReply(message: any): WhatsAppInteractiveReply | null {
+    const contextMessageId = message.context?.id;
+
+    if (message.type === 'interactive') {
+      const reply = message.interactive?.button_reply || message.interactive?.list_reply;
+      if (!reply) return null;
+      return {
+        kind: message.interactive.type === 'list_reply' ? 'list_reply' : 'button_reply',
+        id: reply.id,
+        title: reply.title,
+        description: reply.description,
+        contextMessageId
+      };
+    }
+
+    // Quick-reply buttons on templates
+    if (message.type === 'button' && message.button) {
+      return {
+        kind: 'template_button',
+        id: message.button.payload || message.button.text,
+        title: message.button.text,
+        contextMessageId
+      };
+    }
+    return null;
+  }
+
+  // Find the tapped option on the message that carried it and run its action; false when the option has none.
+  // The outcome is stored on the inbound message so the chat shows what happened
+  static async handleReply(contact: Contact, messageId: string, reply: WhatsAppInteractiveReply): Promise<boolean> {
+    const [original] = reply.contextMessageId
+      ? await storage.getWhatsAppMessageByWhatsAppId(reply.contextMessageId)
+      : [];
+    const content = original?.interactive as WhatsAppInteractiveContent | null | undefined;
+    const action = content?.options.find(option => option.id === reply.id)?.action;
+
+    console.log(`🔘 ${contact.name} tapped "${reply.title}"${action ? ` (${describeAction(action)})` : ''}`);
+    if (!action) return false;
+
+    let result: string;
+    try {
+      result = await this.runAction(contact, action, reply, original?.campaignId ?? null);
+    } catch (error) {
+      console.error(`❌ Error running reply action for ${contact.name}:`, error);
+      result = `Failed: ${error instanceof Error ? error.message : 'unknown error'}`;
+    }
+
+    const event: WhatsAppInteractiveReply = { ...reply, action, result };
+    await storage.updateWhatsAppMessage(messageId, { interactiveReply: event });
+
+    broadcastToClients({ type: 'whatsapp_interactive_reply', contactId: contact.id, messageId, reply: event });
+    return true;
+  }
+
+  private static async runAction(
+    contact: Contact,
+    action: WhatsAppReplyAction,
+    reply: WhatsAppInteractiveReply,
+    campaignId: string | null
+  ): Promise<string> {
+    switch (action.type) {
+      case 'stage': {
+        const updated = await LeadPipelineService.advanceStage(contact.id, action.stage, {
+          source: 'whatsapp',
+          reason: `Tapped "${reply.title}" on WhatsApp`
+        });
+        return updated?.leadStage === action.stage ? `Moved to ${action.stage}` : `Stayed in ${updated?.leadStage ?? contact.leadStage}`;
+      }
+      case 'call': {
+        const campaign = campaignId
+          ? await storage.getCampaign(campaignId)
+          : await WhatsAppAutoReplyService.findCampaign(contact.id, await storage.upsertWhatsAppConversation(contact.id, {}));
+        if (!campaign) {
+          await WhatsAppAutoReplyService.handOff(contact.id, `Asked for a call ("${reply.title}") but has no campaign to call from`);
+          return 'No campaign to call from; handed to a person';
+        }
+        const scheduledFor = new Date(Date.now() + action.delayMinutes * 60 * 1000);
+        const entry = await dialerService.scheduleFollowUp(campaign, { contactId: contact.id, phoneNumber: contact.phone }, scheduledFor);
+        if (!entry) {
+          await WhatsAppAutoReplyService.handOff(contact.id, `Asked for a call ("${reply.title}") but campaign ${campaign.name} has ${campaign.dialerStatus === 'cancelled' ? 'been cancelled' : 'finished'}`);
+          return `Campaign is ${campaign.dialerStatus}; handed to a person`;
+        }
+        return `Call queued for ${scheduledFor.toISOString()}`;
+      }
+      case 'handoff':
+        await WhatsAppAutoReplyService.handOff(contact.id, `Tapped "${reply.title}"`);
+        return 'Handed to a person';
+    }
+  }
+}
@@ -1,4 +1,13 @@
+import { createHmac, timingSafeEqual } from "crypto";
 import { storage } from "../storage";
+import { env } from "../config/environment";
+import type { WhatsAppDeadLetter, WhatsAppInteractiveReply } from "@shared/schema";
+import { SuppressionService } from "./suppressionService";
+import { LeadPipelineService } from "./leadPipelineService";
+import { WhatsAppTemplateService } from "./whatsappTemplateService";
+import { WhatsAppAutoReplyService } from "./whatsappAutoReplyService";
+import { WhatsAppInteractiveService } from "./whatsappInteractiveService";
+import { buildMediaKey, getMediaStorage } from "./mediaStorageService";
 
 export interface WhatsAppMessage {
   messaging_product: string;
@@ -14,6 +23,60 @@ export interface WhatsAppMessage {
     };
     components?: any[];
   };
+  image?: WhatsAppMediaObject;
+  document?: WhatsAppMediaObject;
+  audio?: WhatsAppMediaObject;
+  video?: WhatsAppMediaObject;
+  interactive?: any; // Meta "interactive" object; see WhatsAppInteractiveService.buildPayload
+}
+
+export interface WhatsAppMediaObject {
+  id?: string;
+  link?: string;
+  caption?: string; // Not allowed for audio
+  filename?: string; // Documents only
+}
+
+export type WhatsAppMediaType = "image" | "document" | "audio" | "video";
+
+// A Graph API error response; code is Meta's numeric error code
+export class WhatsAppApiError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "WhatsAppApiError";
+  }
+
+  static fromResponseBody(body: string): WhatsAppApiError {
+    try {
+      const { error } = JSON.parse(body);
+      const details = error?.error_data?.details;
+      return new WhatsAppApiError(
+        `WhatsApp API error: ${error?.message || body}${details && details !== error?.message ? ` - ${details}` : ""}`,
+        typeof error?.code === "number" ? error.code : undefined,
+      );
+    } catch {
+      return new WhatsAppApiError(`WhatsApp API error: ${body}`);
+    }
+  }
+}
+
+// Message types whose payload carries a media ID
+const INBOUND_MEDIA_TYPES = ["image", "document", "audio", "video", "sticker"];
+
+// Meta's upload limits per media type, in bytes
+export const MEDIA_SIZE_LIMITS: Record<WhatsAppMediaType, number> = {
+  image: 5 * 1024 * 1024,
+  audio: 16 * 1024 * 1024,
+  video: 16 * 1024 * 1024,
+  document: 100 * 1024 * 1024,
+};
+
+// The WhatsApp message type a file is sent as
+export function mediaTypeForMimeType(mimeType: string): WhatsAppMediaType {
+  if (["image/jpeg", "image/png"].includes(mimeType)) return "image";
+  if (["video/mp4", "video/3gpp"].includes(mimeType)) return "video";
+  if (mimeType.startsWith("audio/")) return "audio";
+  return "document";
 }
 
 export class WhatsAppService {
@@ -125,8 +188,7 @@ export class WhatsAppService {
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`WhatsApp API error: ${error}`);
+      throw WhatsAppApiError.fromResponseBody(await response.text());
     }
 
     return await response.json();
@@ -159,6 +221,104 @@ export class WhatsAppService {
     return await this.sendMessage(whatsappMessage);
   }
 
+  // Upload a file to Meta so it can be sent by ID; returns the media ID
+  async uploadMedia(data: Buffer, mimeType: string, fileName: string): Promise<string> {
+    if (!this.accessToken || !this.phoneNumberId) {
+      throw new Error("WhatsApp credentials not configured");
+    }
+
+    const form = new FormData();
+    form.append("messaging_product", "whatsapp");
+    form.append("type", mimeType);
+    form.append("file", new Blob([data], { type: mimeType }), fileName);
+
+    const response = await fetch(`${this.baseUrl}/${this.phoneNumberId}/media`, {
+      method: "POST",
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+      body: form,
+    });
+
+    if (!response.ok) {
+      throw WhatsAppApiError.fromResponseBody(await response.text());
+    }
+
+    const result = await response.json();
+    return result.id;
+  }
+
+  // Download a media file by ID: look up its short-lived URL, then fetch it with the same token
+  async downloadMedia(mediaId: string): Promise<{ data: Buffer; mimeType: string }> {
+    if (!this.accessToken) {
+      throw new Error("WhatsApp credentials not configured");
+    }
+
+    const infoResponse = await fetch(`${this.baseUrl}/${mediaId}`, {
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+    });
+    if (!infoResponse.ok) {
+      const error = await infoResponse.text();
+      throw new Error(`WhatsApp media lookup error: ${error}`);
+    }
+    const info = await infoResponse.json();
+
+    const fileResponse = await fetch(info.url, {
+      headers: {
+        Authorization: `Bearer ${this.accessToken}`,
+      },
+    });
+    if (!fileResponse.ok) {
+      throw new Error(`WhatsApp media download failed with status ${fileResponse.status}`);
+    }
+
+    return {
+      data: Buffer.from(await fileResponse.arrayBuffer()),
+      mimeType: info.mime_type || fileResponse.headers.get("content-type") || "application/octet-stream",
+    };
+  }
+
+  // Send an image, document, audio or video message using an uploaded media ID
+  async sendMediaMessage(
+    to: string,
+    type: WhatsAppMediaType,
+    mediaId: string,
+    options: { caption?: string; fileName?: string } = {},
+  ): Promise<any> {
+    const cleanedPhoneNumber = this.cleanPhoneNumber(to);
+
+    const media: WhatsAppMediaObject = { id: mediaId };
+    if (options.caption && type !== "audio") media.caption = options.caption;
+    if (options.fileName && type === "document") media.filename = options.fileName;
+
+    const whatsappMessage: WhatsAppMessage = {
+      messaging_product: "whatsapp",
+      to: cleanedPhoneNumber,
+      type,
+      [type]: media,
+    };
+
+    console.log(`📎 Sending WhatsApp ${type} to ${cleanedPhoneNumber}`);
+    return await this.sendMessage(whatsappMessage);
+  }
+
+  // Send a reply-button or list message
+  async sendInteractiveMessage(to: string, interactive: any): Promise<any> {
+    const cleanedPhoneNumber = this.cleanPhoneNumber(to);
+
+    const whatsappMessage: WhatsAppMessage = {
+      messaging_product: "whatsapp",
+      to: cleanedPhoneNumber,
+      type: "interactive",
+      interactive,
+    };
+
+    console.log(`🔘 Sending WhatsApp ${interactive.type} message to ${cleanedPhoneNumber}`);
+    return await this.sendMessage(whatsappMessage);
+  }
+
   // Send a template message using Meta Business API template endpoint (required for campaigns and 24+ hour rule)
   async sendTemplateMessage(
     to: string,
@@ -213,7 +373,8 @@ export class WhatsAppService {
     return response;
   }
 
-  // Process incoming webhook from WhatsApp
+  // Process incoming webhook from WhatsApp. Each message, status or template update is handled on its own;
+  // one that throws is saved as a dead letter for replay and the rest of the payload still goes through
   async processWebhook(body: any): Promise<void> {
     console.log("📨 WhatsApp webhook received:", JSON.stringify(body, null, 2));
 
@@ -222,126 +383,263 @@ export class WhatsAppService {
         for (const change of entry.changes || []) {
           if (change.field === "messages") {
             await this.processMessage(change.value);
+          } else if (change.field === "message_template_status_update") {
+            await this.processChangeSafely(change.field, change.value);
           }
         }
       }
     }
   }
 
-  // Process incoming messages and status updates
+  // Split a messages change into one item per message and status, so a dead letter only holds what failed
   private async processMessage(value: any): Promise<void> {
+    const { messages, statuses, ...rest } = value;
+
     // Process incoming messages
-    if (value.messages) {
-      for (const message of value.messages) {
-        await this.handleIncomingMessage(message, value.contacts?.[0]);
-      }
+    for (const message of messages || []) {
+      await this.processChangeSafely("messages", { ...rest, messages: [message] });
     }
 
     // Process message status updates (delivery, read receipts)
-    if (value.statuses) {
-      for (const status of value.statuses) {
-        await this.handleStatusUpdate(status);
+    for (const status of statuses || []) {
+      await this.processChangeSafely("messages", { ...rest, statuses: [status] });
+    }
+  }
+
+  private async processChangeSafely(field: string, value: any): Promise<void> {
+    try {
+      await this.processChange(field, value);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Error processing WhatsApp webhook ${field}, saved as dead letter:`, error);
+      try {
+        await storage.createWhatsAppDeadLetter({ field, payload: value, error: reason });
+      } catch (deadLetterError) {
+        console.error("❌ Could not save WhatsApp dead letter:", deadLetterError, JSON.stringify(value));
       }
     }
   }
 
-  // Handle incoming message from customer
+  // Throws on failure; used both for live webhooks and dead-letter replays
+  private async processChange(field: string, value: any, replay = false): Promise<void> {
+    if (field === "message_template_status_update") {
+      await WhatsAppTemplateService.handleStatusWebhook(value);
+      return;
+    }
+    if (field !== "messages") {
+      throw new Error(`Unsupported webhook field: ${field}`);
+    }
+
+    for (const message of value.messages || []) {
+      await this.handleIncomingMessage(message, value.contacts?.[0], replay);
+    }
+    for (const status of value.statuses || []) {
+      await this.handleStatusUpdate(status);
+    }
+  }
+
+  // Process a dead letter again; it is marked replayed on success, otherwise its error and attempt count are updated
+  async replayDeadLetter(id: string): Promise<WhatsAppDeadLetter | undefined> {
+    const deadLetter = await storage.getWhatsAppDeadLetter(id);
+    if (!deadLetter) return undefined;
+    if (deadLetter.status === "replayed") return deadLetter;
+
+    try {
+      await this.processChange(deadLetter.field, deadLetter.payload, true);
+      console.log(`♻️ WhatsApp dead letter ${id} replayed`);
+      return await storage.updateWhatsAppDeadLetter(id, {
+        status: "replayed",
+        attempts: deadLetter.attempts + 1,
+        lastAttemptAt: new Date(),
+        replayedAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`❌ Replay of WhatsApp dead letter ${id} failed:`, error);
+      return await storage.updateWhatsAppDeadLetter(id, {
+        error: error instanceof Error ? error.message : String(error),
+        attempts: deadLetter.attempts + 1,
+        lastAttemptAt: new Date(),
+      });
+    }
+  }
+
+  // Handle incoming message from customer. A replay picks up a stored message whose later steps
+  // (lead score, button action, opt-out, auto-reply) threw before they all finished
   private async handleIncomingMessage(
     message: any,
     contact: any,
+    replay = false,
   ): Promise<void> {
-    try {
-      console.log("📥 Processing incoming message:", message.id);
-
-      // Extract message content
-      let messageText = "";
-      if (message.type === "text") {
-        messageText = message.text.body;
-      } else if (message.type === "image") {
-        messageText = `[Image] ${message.image?.caption || ""}`;
-      } else if (message.type === "document") {
-        messageText = `[Document] ${message.document?.filename || ""}`;
-      } else {
-        messageText = `[${message.type}] Unsupported message type`;
-      }
-
-      // Find or create contact
-      let existingContact = await storage.getContactByPhone(message.from);
-      if (!existingContact && contact) {
-        // Create new contact from WhatsApp contact info
-        existingContact = await storage.createContact({
-          name:
-            contact.profile?.name || `WhatsApp User ${message.from.slice(-4)}`,
-          phone: message.from,
-          whatsappNumber: message.from,
-          notes: "Created from WhatsApp message",
-        });
-      }
+    console.log("📥 Processing incoming message:", message.id);
+
+    // Extract message content; media messages keep their caption (or file name) as the text
+    // and button or list replies the title of the option that was tapped
+    const media = INBOUND_MEDIA_TYPES.includes(message.type) ? message[message.type] : null;
+    const interactiveReply = WhatsAppInteractiveService.parseReply(message);
+    let messageText = "";
+    if (message.type === "text") {
+      messageText = message.text.body;
+    } else if (interactiveReply) {
+      messageText = interactiveReply.title;
+    } else if (media) {
+      messageText = media.caption || media.filename || "";
+    } else {
+      messageText = `[${message.type}] Unsupported message type`;
+    }
 
-      if (existingContact) {
-        // Store incoming message
-        await storage.createWhatsAppMessage({
-          contactId: existingContact.id,
-          phone: message.from,
-          message: messageText,
-          messageType: message.type,
-          direction: "inbound",
-          status: "received",
-          whatsappMessageId: message.id,
-        });
+    // Find or create contact; WhatsApp sends the number with its country code but without the +
+    const fromNumber = `+${message.from}`;
+    let existingContact = await storage.getContactByPhone(fromNumber);
+    if (!existingContact && contact) {
+      // Create new contact from WhatsApp contact info
+      existingContact = await storage.createContact({
+        name:
+          contact.profile?.name || `WhatsApp User ${message.from.slice(-4)}`,
+        phone: fromNumber,
+        whatsappNumber: fromNumber,
+        notes: "Created from WhatsApp message",
+      });
+    }
 
+    if (existingContact) {
+      // Meta redelivers webhooks it thinks were missed, sometimes while the first copy is still being
+      // processed; only the copy whose insert wins the unique message ID goes on
+      let storedMessage = await storage.createInboundWhatsAppMessage({
+        contactId: existingContact.id,
+        phone: message.from,
+        message: messageText,
+        messageType: message.type,
+        direction: "inbound",
+        status: "received",
+        whatsappMessageId: message.id,
+        mediaId: media?.id,
+        mediaMimeType: media?.mime_type,
+        mediaFileName: media?.filename,
+        interactiveReply,
+      });
+      if (storedMessage) {
+        if (media?.id) {
+          await this.storeInboundMedia(storedMessage.id, media.id, media.filename);
+        }
         console.log(
           "✅ Incoming message stored for contact:",
           existingContact.name,
         );
       } else {
-        console.error(
-          "❌ Could not find or create contact for phone:",
-          message.from,
+        // Already stored: a redelivery stops here, a replay finishes the steps that threw last time
+        const [existing] = await storage.getWhatsAppMessageByWhatsAppId(message.id);
+        if (!replay || !existing || existing.processedAt) {
+          console.log("⏭️ Skipping already processed message:", message.id);
+          return;
+        }
+        console.log("♻️ Finishing processing of stored message:", message.id);
+        storedMessage = existing;
+      }
+
+      await LeadPipelineService.recalculateScore(existingContact.id);
+
+      // The stored reply carries a result once its action has run, so a replay doesn't queue a second call
+      let handledByAction = !!(storedMessage.interactiveReply as WhatsAppInteractiveReply | null)?.result;
+      if (interactiveReply && !handledByAction) {
+        handledByAction = await WhatsAppInteractiveService.handleReply(existingContact, storedMessage.id, interactiveReply);
+      }
+
+      // "STOP" replies (or Meta's "Stop promotions" quick reply) opt the number out of calls and campaigns
+      const replyText = messageText;
+      if (
+        (message.type === "text" || message.type === "button") &&
+        (SuppressionService.isOptOutReply(replyText) || /^stop promotions$/i.test(replyText.trim()))
+      ) {
+        await SuppressionService.suppress(
+          fromNumber,
+          `Replied "${replyText.trim()}" on WhatsApp`,
+          "whatsapp",
+          { contactId: existingContact.id, sourceReference: message.id },
         );
       }
+
+      // Meta sends the time the contact wrote the message; webhook retries can arrive much later
+      const receivedAt = message.timestamp ? new Date(parseInt(message.timestamp) * 1000) : new Date();
+      await WhatsAppAutoReplyService.handleInbound(existingContact, replyText, receivedAt, handledByAction);
+      await storage.updateWhatsAppMessage(storedMessage.id, { processedAt: new Date() });
+    } else {
+      throw new Error(`Could not find or create contact for phone ${message.from}`);
+    }
+  }
+
+  // Download an inbound attachment into media storage; Meta's media URLs expire, so this happens right away.
+  // Failures are logged and leave mediaKey empty so the download can be retried from the chat
+  async storeInboundMedia(messageId: string, mediaId: string, fileName?: string | null): Promise<void> {
+    try {
+      const { data, mimeType } = await this.downloadMedia(mediaId);
+      const stored = await getMediaStorage().save(
+        buildMediaKey("whatsapp/inbound", mimeType, fileName),
+        data,
+        mimeType,
+      );
+      await storage.updateWhatsAppMessage(messageId, {
+        mediaKey: stored.key,
+        mediaMimeType: mimeType,
+        mediaSize: stored.size,
+      });
+      console.log(`📎 Stored WhatsApp media ${mediaId} (${stored.size} bytes)`);
     } catch (error) {
-      console.error("❌ Error processing incoming message:", error);
+      console.error(`❌ Error storing WhatsApp media ${mediaId}:`, error);
     }
   }
 
   // Handle message status updates (delivered, read, failed)
   private async handleStatusUpdate(status: any): Promise<void> {
-    try {
-      console.log("📊 Processing status update:", status.id, status.status);
-
-      // Find message by WhatsApp message ID
-      const messages = await storage.getWhatsAppMessageByWhatsAppId(status.id);
-      if (messages.length > 0) {
-        const message = messages[0];
-
-        // Update message status
-        const updateData: any = { status: status.status };
-
-        if (status.status === "delivered" && status.timestamp) {
-          updateData.deliveredAt = new Date(parseInt(status.timestamp) * 1000);
-        } else if (status.status === "read" && status.timestamp) {
-          updateData.readAt = new Date(parseInt(status.timestamp) * 1000);
-        } else if (status.status === "failed") {
-          updateData.failedReason =
-            status.errors?.[0]?.title || "Message failed to send";
-        }
+    console.log("📊 Processing status update:", status.id, status.status);
+
+    // Find message by WhatsApp message ID
+    const messages = await storage.getWhatsAppMessageByWhatsAppId(status.id);
+    if (messages.length > 0) {
+      const message = messages[0];
+
+      // Update message status
+      const updateData: any = { status: status.status };
+
+      if (status.status === "delivered" && status.timestamp) {
+        updateData.deliveredAt = new Date(parseInt(status.timestamp) * 1000);
+      } else if (status.status === "read" && status.timestamp) {
+        updateData.readAt = new Date(parseInt(status.timestamp) * 1000);
+      } else if (status.status === "failed") {
+        const error = status.errors?.[0];
+        updateData.failedReason =
+          [error?.title, error?.error_data?.details].filter(Boolean).join(" - ") || "Message failed to send";
+        updateData.errorCode = error?.code ?? null;
+      }
 
-        await storage.updateWhatsAppMessage(message.id, updateData);
-        console.log("✅ Message status updated:", message.id, status.status);
-      } else {
-        console.log("⚠️ No message found for status update:", status.id);
+      await storage.updateWhatsAppMessage(message.id, updateData);
+      console.log("✅ Message status updated:", message.id, status.status);
+
+      if (status.status === "read") {
+        await LeadPipelineService.recalculateScore(message.contactId);
       }
-    } catch (error) {
-      console.error("❌ Error processing status update:", error);
+    } else {
+      console.log("⚠️ No message found for status update:", status.id);
     }
   }
 
-  // Verify webhook signature (optional security measure)
-  verifyWebhookSignature(body: string, signature: string): boolean {
-    // Implementation would use HMAC-SHA256 with app secret
-    // For now, we'll skip signature verification
-    return true;
+  // Check Meta's X-Hub-Signature-256 header: an HMAC-SHA256 of the exact request body keyed with the app secret.
+  // Without WHATSAPP_APP_SECRET nothing can be checked, so unsigned webhooks are only accepted outside production
+  verifyWebhookSignature(rawBody: Buffer | undefined, signature: string | undefined): boolean {
+    const appSecret = env.WHATSAPP_APP_SECRET;
+    if (!appSecret) {
+      console.warn("⚠️ WHATSAPP_APP_SECRET not configured - webhook signature not verified");
+      return env.NODE_ENV !== "production";
+    }
+    if (!rawBody || !signature?.startsWith("sha256=")) {
+      return false;
+    }
+
+    const expected = Buffer.from(
+      createHmac("sha256", appSecret).update(rawBody).digest("hex"),
+      "utf8",
+    );
+    const received = Buffer.from(signature.slice("sha256=".length), "utf8");
+    return expected.length === received.length && timingSafeEqual(expected, received);
   }
 
   // Diagnostic function to check why messages aren't being received
@@ -1,5 +1,6 @@
 import { storage } from '../storage';
-import { WhatsAppTemplate, BulkMessageJob, InsertWhatsAppTemplate, InsertBulkMessageJob } from '@shared/schema';
+import { broadcastToClients } from '../realtime';
+import { WhatsAppTemplate, BulkMessageJob, InsertWhatsAppTemplate } from '@shared/schema';
 
 export interface TemplateComponent {
   type: 'HEADER' | 'BODY' | 'FOOTER' | 'BUTTONS';
@@ -7,6 +8,12 @@ export interface TemplateComponent {
   text?: string;
   parameters?: TemplateParameter[];
   buttons?: TemplateButton[];
+  // Sample values Meta reviews the template with
+  example?: {
+    header_text?: string[];
+    header_handle?: string[]; // Media handle from Meta's resumable upload API
+    body_text?: string[][];
+  };
 }
 
 export interface TemplateParameter {
@@ -19,13 +26,77 @@ export interface TemplateButton {
   text: string;
   url?: string;
   phone_number?: string;
+  example?: string[]; // Sample URL for a URL button with a {{1}} suffix
 }
 
-export interface BulkRecipient {
-  phoneNumber: string;
-  variables?: string[];
-  status: 'PENDING' | 'SENT' | 'FAILED';
+// A new template as submitted to Meta
+export interface TemplateDefinition {
+  name: string;
+  category: string;
+  language: string;
+  components: TemplateComponent[];
+}
+
+// A value filled into a template send; media headers carry a link instead of text
+export interface TemplateSendParameter {
+  type: 'text' | 'image' | 'video' | 'document';
+  text?: string;
+  image?: { link: string };
+  video?: { link: string };
+  document?: { link: string };
+}
+
+// The values for one part of a template at send time, in Meta's Cloud API shape
+export interface TemplateSendComponent {
+  type: 'header' | 'body' | 'button';
+  sub_type?: 'url';
+  index?: string; // Position of the button the parameters belong to
+  parameters: TemplateSendParameter[];
+}
+
+// The value of a message_template_status_update webhook change
+export interface TemplateStatusWebhook {
+  event: string; // APPROVED, REJECTED, PAUSED, DISABLED, FLAGGED, REINSTATED, ...
+  message_template_id: number | string;
+  message_template_name: string;
+  message_template_language?: string;
+  reason?: string | null;
+  other_info?: { title?: string; description?: string };
+}
+
+export interface TemplateSendResult {
+  success: boolean;
+  messageId?: string;
   error?: string;
+  errorCode?: number; // Meta's error code when the send was rejected
+}
+
+// Meta's review outcomes; only APPROVED templates can be sent
+const TEMPLATE_STATUSES = ['PENDING', 'APPROVED', 'REJECTED', 'PAUSED', 'DISABLED', 'IN_APPEAL'];
+
+const TEMPLATE_CATEGORIES = ['MARKETING', 'UTILITY'];
+const MEDIA_HEADER_FORMATS = ['IMAGE', 'VIDEO', 'DOCUMENT'];
+const COMPONENT_ORDER = ['HEADER', 'BODY', 'FOOTER', 'BUTTONS'];
+const VARIABLE_PATTERN = /\{\{\s*(\d+)\s*\}\}/g;
+const STATUS_POLL_INTERVAL_MS = 15 * 60 * 1000;
+
+// Limits from Meta's message template guidelines
+const LIMITS = {
+  name: 512,
+  headerText: 60,
+  body: 1024,
+  footer: 60,
+  buttons: 10,
+  buttonText: 25,
+  urlButtons: 2,
+  phoneButtons: 1,
+  url: 2000,
+  phoneNumber: 20
+};
+
+// Variable numbers used in a piece of template text, in order of appearance
+function variableNumbers(text: string): number[] {
+  return Array.from(text.matchAll(VARIABLE_PATTERN), match => parseInt(match[1]));
 }
 
 export class WhatsAppTemplateService {
@@ -33,10 +104,170 @@ export class WhatsAppTemplateService {
   private static accessToken = process.env.META_WHATSAPP_ACCESS_TOKEN;
   private static businessAccountId = process.env.META_WHATSAPP_BUSINESS_ACCOUNT_ID;
   private static phoneNumberId = process.env.META_WHATSAPP_BUSINESS_PHONE_NUMBER_ID;
+  private static statusTimer: NodeJS.Timeout | null = null;
+
+  // Why a template cannot be sent right now, or null when it is approved
+  static unsendableReason(template: Pick<WhatsAppTemplate, 'name' | 'status' | 'rejectedReason'>): string | null {
+    if (template.status === 'APPROVED') return null;
+    const status = template.status ? template.status.toLowerCase() : 'not submitted to Meta';
+    return `Template "${template.name}" is ${status}${template.rejectedReason ? ` (${template.rejectedReason})` : ''}; only approved templates can be sent`;
+  }
+
+  // Check a template against Meta's authoring rules before it is submitted; returns a list of problems
+  static validateTemplate(template: TemplateDefinition): string[] {
+    const errors: string[] = [];
+
+    if (!template.name || !/^[a-z0-9_]+$/.test(template.name)) {
+      errors.push('Name may only contain lowercase letters, numbers and underscores');
+    } else if (template.name.length > LIMITS.name) {
+      errors.push(`Name must be at most ${LIMITS.name} characters`);
+    }
+    if (!TEMPLATE_CATEGORIES.includes(template.category)) {
+      errors.push(`Category must be one of ${TEMPLATE_CATEGORIES.join(', ')}`);
+    }
+    if (!template.language) {
+      errors.push('Language is required');
+    }
+
+    const components = Array.isArray(template.components) ? template.components : [];
+    const types = components.map(component => component.type);
+    for (const type of COMPONENT_ORDER) {
+      if (types.filter(t => t === type).length > 1) errors.push(`Only one ${type} component is allowed`);
+    }
+    if (types.some(type => !COMPONENT_ORDER.includes(type))) {
+      errors.push(`Components must be ${COMPONENT_ORDER.join(', ')}`);
+    }
+    const find = (type: string) => components.find(component => component.type === type);
+
+    // Variables must be numbered {{1}}, {{2}}, ... with no gaps
+    const checkVariables = (label: string, text: string, examples: string[] | undefined, maxVariables?: number) => {
+      const numbers = variableNumbers(text);
+      const unique = Array.from(new Set(numbers));
+      if (/\{\{(?!\s*\d+\s*\}\})/.test(text)) {
+        errors.push(`${label}: variables must be written as {{1}}, {{2}} and so on`);
+      }
+      if (unique.some((n, i) => n !== i + 1)) {
+        errors.push(`${label}: variables must be numbered in order starting at {{1}}`);
+      }
+      if (maxVariables !== undefined && unique.length > maxVariables) {
+        errors.push(`${label} may contain at most ${maxVariables} variable${maxVariables === 1 ? '' : 's'}`);
+      }
+      if (unique.length > 0) {
+        if (!examples || examples.length !== unique.length || examples.some(example => !example?.trim())) {
+          errors.push(`${label}: provide a sample value for each variable`);
+        }
+      }
+      return unique.length;
+    };
+
+    const header = find('HEADER');
+    if (header) {
+      const format = header.format || 'TEXT';
+      if (format === 'TEXT') {
+        const text = header.text || '';
+        if (!text.trim()) errors.push('Header text is required');
+        if (text.length > LIMITS.headerText) errors.push(`Header text must be at most ${LIMITS.headerText} characters`);
+        if (/\n/.test(text)) errors.push('Header text cannot contain line breaks');
+        checkVariables('Header', text, header.example?.header_text, 1);
+      } else if (MEDIA_HEADER_FORMATS.includes(format)) {
+        if (!header.example?.header_handle?.[0]) {
+          errors.push(`${format.toLowerCase()} header needs a sample media handle`);
+        }
+      } else {
+        errors.push(`Header format must be TEXT, ${MEDIA_HEADER_FORMATS.join(', ')}`);
+      }
+    }
+
+    const body = find('BODY');
+    const bodyText = body?.text || '';
+    if (!bodyText.trim()) {
+      errors.push('Body text is required');
+    } else {
+      if (bodyText.length > LIMITS.body) errors.push(`Body must be at most ${LIMITS.body} characters`);
+      const count = checkVariables('Body', bodyText, body?.example?.body_text?.[0]);
+      if (count > 0) {
+        const trimmed = bodyText.trim();
+        if (/^\{\{\s*\d+\s*\}\}/.test(trimmed) || /\{\{\s*\d+\s*\}\}$/.test(trimmed)) {
+          errors.push('Body cannot start or end with a variable');
+        }
+        if (/\}\}\s*\{\{/.test(bodyText)) {
+          errors.push('Body variables must be separated by text');
+        }
+      }
+    }
 
-  // Create a new template
-  static async createTemplate(template: InsertWhatsAppTemplate): Promise<WhatsAppTemplate> {
+    const footer = find('FOOTER');
+    if (footer) {
+      const text = footer.text || '';
+      if (!text.trim()) errors.push('Footer text is required');
+      if (text.length > LIMITS.footer) errors.push(`Footer must be at most ${LIMITS.footer} characters`);
+      if (variableNumbers(text).length > 0 || text.includes('{{')) errors.push('Footer cannot contain variables');
+    }
+
+    const buttonsComponent = find('BUTTONS');
+    if (buttonsComponent) {
+      const buttons = buttonsComponent.buttons || [];
+      if (buttons.length === 0) errors.push('Add at least one button or remove the buttons section');
+      if (buttons.length > LIMITS.buttons) errors.push(`At most ${LIMITS.buttons} buttons are allowed`);
+
+      const urlButtons = buttons.filter(button => button.type === 'URL');
+      const phoneButtons = buttons.filter(button => button.type === 'PHONE_NUMBER');
+      if (urlButtons.length > LIMITS.urlButtons) errors.push(`At most ${LIMITS.urlButtons} URL buttons are allowed`);
+      if (phoneButtons.length > LIMITS.phoneButtons) errors.push(`At most ${LIMITS.phoneButtons} phone number button is allowed`);
+
+      // Quick replies and call-to-action buttons must each be grouped together
+      const kinds = buttons.map(button => button.type === 'QUICK_REPLY' ? 'reply' : 'action');
+      if (kinds.filter((kind, i) => i > 0 && kind !== kinds[i - 1]).length > 1) {
+        errors.push('Quick reply buttons must be grouped together, before or after the other buttons');
+      }
+
+      const texts = new Set<string>();
+      buttons.forEach((button, i) => {
+        const label = `Button ${i + 1}`;
+        const text = (button.text || '').trim();
+        if (!text) errors.push(`${label} needs text`);
+        else if (text.length > LIMITS.buttonText) errors.push(`${label} text must be at most ${LIMITS.buttonText} characters`);
+        if (text && texts.has(text.toLowerCase())) errors.push(`${label} text duplicates another button`);
+        texts.add(text.toLowerCase());
+        if (/\{\{/.test(text)) errors.push(`${label} text cannot contain variables`);
+
+        if (button.type === 'URL') {
+          const url = button.url || '';
+          if (!/^https?:\/\/\S+$/i.test(url)) errors.push(`${label} URL must start with http:// or https://`);
+          if (url.length > LIMITS.url) errors.push(`${label} URL must be at most ${LIMITS.url} characters`);
+          const numbers = variableNumbers(url);
+          if (numbers.length > 0) {
+            if (numbers.length > 1 || numbers[0] !== 1 || !/\{\{\s*1\s*\}\}$/.test(url)) {
+              errors.push(`${label} URL may only have a single {{1}} at the end`);
+            }
+            if (!button.example?.[0]?.trim()) errors.push(`${label} needs a sample URL`);
+          }
+        } else if (button.type === 'PHONE_NUMBER') {
+          const phone = button.phone_number || '';
+          if (!/^\+?\d{7,}$/.test(phone.replace(/[\s-]/g, '')) || phone.length > LIMITS.phoneNumber) {
+            errors.push(`${label} needs a phone number with country code, at most ${LIMITS.phoneNumber} characters`);
+          }
+        } else if (button.type !== 'QUICK_REPLY') {
+          errors.push(`${label} type must be QUICK_REPLY, URL or PHONE_NUMBER`);
+        }
+      });
+    }
+
+    return errors;
+  }
+
+  // Submit a new template to Meta for review and store it with the status Meta reports
+  static async createTemplate(template: TemplateDefinition): Promise<WhatsAppTemplate> {
     try {
+      if (!this.businessAccountId || !this.accessToken) {
+        throw new Error('Meta WhatsApp Business credentials are not configured');
+      }
+
+      // Meta expects the components in header, body, footer, buttons order
+      const components = [...template.components].sort(
+        (a, b) => COMPONENT_ORDER.indexOf(a.type) - COMPONENT_ORDER.indexOf(b.type)
+      );
+
       const response = await fetch(`${this.baseUrl}/${this.businessAccountId}/message_templates`, {
         method: 'POST',
         headers: {
@@ -47,20 +278,27 @@ export class WhatsAppTemplateService {
           name: template.name,
           category: template.category,
           language: template.language,
-          components: template.components
+          components
         })
       });
 
       const result = await response.json();
       
       if (!response.ok) {
-        throw new Error(`Failed to create template: ${result.error?.message || 'Unknown error'}`);
+        throw new Error(`Failed to create template: ${result.error?.error_user_msg || result.error?.message || 'Unknown error'}`);
       }
 
+      const body = components.find(component => component.type === 'BODY');
       const newTemplate: InsertWhatsAppTemplate = {
-        ...template,
+        name: template.name,
+        category: template.category,
+        language: template.language,
+        content: body?.text || template.name,
+        variables: body?.example?.body_text?.[0] || null,
+        components,
         metaTemplateId: result.id,
-        status: 'PENDING'
+        status: result.status?.toUpperCase() || 'PENDING',
+        statusUpdatedAt: new Date()
       };
 
       // Store in database
@@ -81,7 +319,7 @@ export class WhatsAppTemplateService {
         return await this.getTemplates();
       }
 
-      const response = await fetch(`${this.baseUrl}/${this.businessAccountId}/message_templates?fields=id,name,category,language,status,components&limit=100`, {
+      const response = await fetch(`${this.baseUrl}/${this.businessAccountId}/message_templates?fields=id,name,category,language,status,rejected_reason,components&limit=100`, {
         headers: {
           'Authorization': `Bearer ${this.accessToken}`,
           'Content-Type': 'application/json',
@@ -112,15 +350,15 @@ export class WhatsAppTemplateService {
 
           // Try to get existing template
           const existingTemplates = await storage.getWhatsAppTemplates();
-          const existingTemplate = existingTemplates.find(t => t.name === metaTemplate.name);
+          const existingTemplate = this.findTemplate(existingTemplates, metaTemplate);
           
           if (existingTemplate) {
             // Update existing template status from Meta
             const updatedTemplate = await storage.updateWhatsAppTemplate(existingTemplate.id, {
-              status: templateData.status,
               components: templateData.components
             });
-            syncedTemplates.push(updatedTemplate);
+            const statusUpdated = await this.applyStatusUpdate(updatedTemplate, templateData.status!, metaTemplate.rejected_reason);
+            syncedTemplates.push(statusUpdated || updatedTemplate);
           } else {
             // Create new template from Meta
             const newTemplate = await storage.createWhatsAppTemplate(templateData);
@@ -139,6 +377,116 @@ export class WhatsAppTemplateService {
     }
   }
 
+  // Record a status change from Meta; returns the updated template, or null when nothing changed
+  static async applyStatusUpdate(
+    template: WhatsAppTemplate,
+    status: string,
+    reason?: string | null
+  ): Promise<WhatsAppTemplate | null> {
+    const newStatus = status.toUpperCase();
+    // Meta sends "NONE" as the reason for templates that were not rejected
+    const rejectedReason = newStatus === 'APPROVED' || !reason || reason === 'NONE' ? null : reason;
+    if (template.status === newStatus && (template.rejectedReason || null) === rejectedReason) return null;
+
+    const updated = await storage.updateWhatsAppTemplate(template.id, {
+      status: newStatus,
+      rejectedReason,
+      statusUpdatedAt: new Date()
+    });
+    console.log(`📋 Template ${template.name}: ${template.status || 'unknown'} → ${newStatus}${rejectedReason ? ` (${rejectedReason})` : ''}`);
+
+    broadcastToClients({ type: 'template_status', template: updated });
+    return updated;
+  }
+
+  // The stored template a Meta template refers to: by Meta ID, otherwise by name and language, which also
+  // finds templates whose stored ID is missing or stale. Meta allows one name in several languages
+  private static findTemplate(
+    templates: WhatsAppTemplate[],
+    meta: { id?: string | number; name: string; language?: string }
+  ): WhatsAppTemplate | undefined {
+    return templates.find(t => meta.id !== undefined && t.metaTemplateId === String(meta.id))
+      || templates.find(t => t.name === meta.name && (!meta.language || t.language === meta.language));
+  }
+
+  // Handle a message_template_status_update webhook change
+  static async handleStatusWebhook(value: TemplateStatusWebhook): Promise<void> {
+    const templates = await storage.getWhatsAppTemplates();
+    const template = this.findTemplate(templates, {
+      id: value.message_template_id,
+      name: value.message_template_name,
+      language: value.message_template_language
+    });
+    if (!template) {
+      console.log(`⚠️ Status update for unknown template ${value.message_template_name}`);
+      return;
+    }
+    const event = String(value.event || '').toUpperCase();
+    if (event === 'FLAGGED') {
+      console.log(`⚠️ Template ${template.name} flagged for low quality; it will be paused if quality does not improve`);
+      return;
+    }
+    // A reinstated template is approved again after a pause
+    const status = event === 'REINSTATED' ? 'APPROVED' : event;
+    if (!TEMPLATE_STATUSES.includes(status)) {
+      console.log(`📋 Ignoring template event ${event} for ${template.name}`);
+      return;
+    }
+    await this.applyStatusUpdate(template, status, value.reason || value.other_info?.description);
+  }
+
+  // Re-read the review status of every template Meta knows about
+  static async refreshTemplateStatuses(): Promise<number> {
+    if (!this.businessAccountId || !this.accessToken) return 0;
+
+    const templates = await storage.getWhatsAppTemplates();
+    let url: string | null = `${this.baseUrl}/${this.businessAccountId}/message_templates?fields=id,name,language,status,rejected_reason&limit=100`;
+    let updated = 0;
+
+    while (url) {
+      const response: Response = await fetch(url, {
+        headers: { 'Authorization': `Bearer ${this.accessToken}` }
+      });
+      const result: any = await response.json();
+      if (!response.ok) {
+        throw new Error(`Failed to fetch template statuses: ${result.error?.message || 'Unknown error'}`);
+      }
+
+      for (const metaTemplate of result.data || []) {
+        const template = this.findTemplate(templates, metaTemplate);
+        if (!template || !metaTemplate.status) continue;
+        if (await this.applyStatusUpdate(template, metaTemplate.status, metaTemplate.rejected_reason)) updated++;
+      }
+      url = result.paging?.next || null;
+    }
+    return updated;
+  }
+
+  // Poll Meta for review results; the message_template_status_update webhook usually gets there first
+  static startStatusPolling(): void {
+    if (this.statusTimer) return;
+    if (!this.businessAccountId || !this.accessToken) {
+      console.log('⚠️ Meta WhatsApp Business credentials not configured, template status polling disabled');
+      return;
+    }
+    console.log('📋 Template status polling started');
+    this.statusTimer = setInterval(async () => {
+      try {
+        const updated = await this.refreshTemplateStatuses();
+        if (updated > 0) console.log(`📋 ${updated} template statuses updated`);
+      } catch (error) {
+        console.error('❌ Template status polling failed:', error);
+      }
+    }, STATUS_POLL_INTERVAL_MS);
+  }
+
+  static stopStatusPolling(): void {
+    if (this.statusTimer) {
+      clearInterval(this.statusTimer);
+      this.statusTimer = null;
+    }
+  }
+
   // Get all templates
   static async getTemplates(): Promise<WhatsAppTemplate[]> {
     try {
@@ -149,22 +497,32 @@ export class WhatsAppTemplateService {
     }
   }
 
-  // Send template message to single recipient
+  // Send template message to single recipient with body text parameters
   static async sendTemplateMessage(
     phoneNumber: string, 
     templateName: string, 
     languageCode: string = 'en_US',
     variables?: string[]
-  ): Promise<{ success: boolean; messageId?: string; error?: string }> {
-    try {
-      const components = variables ? [{
-        type: 'body',
-        parameters: variables.map(variable => ({
-          type: 'text',
-          text: variable
-        }))
-      }] : undefined;
+  ): Promise<TemplateSendResult> {
+    const components: TemplateSendComponent[] | undefined = variables ? [{
+      type: 'body',
+      parameters: variables.map(variable => ({
+        type: 'text',
+        text: variable
+      }))
+    }] : undefined;
+
+    return this.sendTemplateComponents(phoneNumber, templateName, languageCode, components);
+  }
 
+  // Send template message with prebuilt components (header media, body and URL button parameters)
+  static async sendTemplateComponents(
+    phoneNumber: string,
+    templateName: string,
+    languageCode: string = 'en_US',
+    components?: TemplateSendComponent[]
+  ): Promise<TemplateSendResult> {
+    try {
       const payload = {
         messaging_product: 'whatsapp',
         to: phoneNumber.replace(/\D/g, ''), // Remove non-digits
@@ -172,7 +530,7 @@ export class WhatsAppTemplateService {
         template: {
           name: templateName,
           language: { code: languageCode },
-          ...(components && { components })
+          ...(components && components.length > 0 && { components })
         }
       };
 
@@ -195,7 +553,8 @@ export class WhatsAppTemplateService {
       } else {
         return {
           success: false,
-          error: result.error?.message || 'Failed to send message'
+          error: result.error?.message || 'Failed to send message',
+          errorCode: result.error?.code
         };
       }
     } catch (error) {
@@ -207,92 +566,6 @@ export class WhatsAppTemplateService {
     }
   }
 
-  // Bulk send template messages
-  static async sendBulkTemplateMessages(
-    templateName: string,
-    recipients: BulkRecipient[],
-    languageCode: string = 'en_US',
-    delayMs: number = 1000
-  ): Promise<BulkMessageJob> {
-    const jobId = `bulk_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    
-    const jobData: InsertBulkMessageJob = {
-      templateName,
-      recipients: recipients.map(r => ({ ...r, status: 'PENDING' })),
-      status: 'PENDING',
-      totalMessages: recipients.length,
-      sentMessages: 0,
-      failedMessages: 0,
-      languageCode
-    };
-
-    // Store job in database
-    const job = await storage.createBulkMessageJob(jobData);
-
-    // Process bulk messages asynchronously
-    this.processBulkMessages(job, languageCode, delayMs).catch(console.error);
-
-    return job;
-  }
-
-  // Process bulk messages in background
-  private static async processBulkMessages(
-    job: BulkMessageJob, 
-    languageCode: string, 
-    delayMs: number
-  ): Promise<void> {
-    try {
-      // Update job status
-      job.status = 'IN_PROGRESS';
-      await storage.updateBulkMessageJob(job);
-
-      for (let i = 0; i < job.recipients.length; i++) {
-        const recipient = job.recipients[i];
-        
-        try {
-          const result = await this.sendTemplateMessage(
-            recipient.phoneNumber,
-            job.templateName,
-            languageCode,
-            recipient.variables
-          );
-
-          if (result.success) {
-            recipient.status = 'SENT';
-            job.sentMessages++;
-          } else {
-            recipient.status = 'FAILED';
-            recipient.error = result.error;
-            job.failedMessages++;
-          }
-
-          // Rate limiting delay
-          if (i < job.recipients.length - 1) {
-            await new Promise(resolve => setTimeout(resolve, delayMs));
-          }
-        } catch (error) {
-          recipient.status = 'FAILED';
-          recipient.error = error instanceof Error ? error.message : 'Unknown error';
-          job.failedMessages++;
-        }
-
-        // Update job progress
-        await storage.updateBulkMessageJob(job);
-      }
-
-      // Mark job as completed
-      job.status = 'COMPLETED';
-      job.completedAt = new Date();
-      await storage.updateBulkMessageJob(job);
-
-      console.log(`Bulk message job ${job.id} completed: ${job.sentMessages} sent, ${job.failedMessages} failed`);
-    } catch (error) {
-      console.error(`Error processing bulk job ${job.id}:`, error);
-      job.status = 'FAILED';
-      await storage.updateBulkMessageJob(job);
-    }
-  }
-
   // Get bulk message job status
   static async getBulkMessageJob(jobId: string): Promise<BulkMessageJob | null> {
     try {
@@ -313,8 +586,8 @@ export class WhatsAppTemplateService {
     }
   }
 
-  // Predefined template examples
-  static getTemplateExamples(): Partial<InsertWhatsAppTemplate>[] {
+  // Predefined template examples; each one passes validateTemplate once sample values are filled in
+  static getTemplateExamples(): Partial<TemplateDefinition>[] {
     return [
       {
         name: 'order_confirmation',
@@ -323,7 +596,11 @@ export class WhatsAppTemplateService {
         components: [
           {
             type: 'BODY',
-            text: 'Hello {{1}}! Your order #{{2}} has been confirmed. Expected delivery: {{3}}. Track your order: {{4}}'
+            text: 'Hello {{1}}! Your order #{{2}} has been confirmed. Expected delivery: {{3}}.'
+          },
+          {
+            type: 'BUTTONS',
+            buttons: [{ type: 'URL', text: 'Track order', url: 'https://example.com/orders/{{1}}' }]
           }
         ]
       },
@@ -334,7 +611,11 @@ export class WhatsAppTemplateService {
         components: [
           {
             type: 'BODY',
-            text: 'Hi {{1}}, your invoice #{{2}} of ${{3}} is due on {{4}}. Pay now: {{5}}'
+            text: 'Hi {{1}}, your invoice #{{2}} of ${{3}} is due on {{4}}. Please pay before the due date.'
+          },
+          {
+            type: 'BUTTONS',
+            buttons: [{ type: 'URL', text: 'Pay now', url: 'https://example.com/pay/{{1}}' }]
           }
         ]
       },
@@ -350,14 +631,21 @@ export class WhatsAppTemplateService {
           },
           {
             type: 'BODY',
-            text: 'Hello {{1}}! Get {{2}}% off on {{3}}. Valid until {{4}}. Shop now: {{5}}'
+            text: 'Hello {{1}}! Get {{2}}% off on {{3}}. Valid until {{4}}.'
           },
           {
             type: 'FOOTER',
             text: 'Terms and conditions apply'
+          },
+          {
+            type: 'BUTTONS',
+            buttons: [
+              { type: 'QUICK_REPLY', text: 'Interested' },
+              { type: 'QUICK_REPLY', text: 'Stop promotions' }
+            ]
           }
         ]
       }
     ];
   }
-}
\ No newline at end of file
+}
@@ -1,34 +1,65 @@
 import { 
-  users, contacts, campaigns, calls, callMessages, callTranscriptions, callRecordings, whatsappTemplates, bulkMessageJobs,
-  contactEngagement, campaignMetrics, whatsappMessages,
+  users, contacts, campaigns, calls, callMessages, callSessions, dialQueue, callTranscriptions, callRecordings, whatsappTemplates, bulkMessageJobs,
+  contactEngagement, campaignMetrics, whatsappMessages, whatsappConversations, whatsappDeadLetters, emailMessages, suppressionList, leadStageHistory,
+  contactNotes, contactImportJobs, contactImportErrors, contactFieldDefinitions, segments,
   type User, type InsertUser, 
   type Contact, type InsertContact,
   type Campaign, type InsertCampaign,
   type Call, type InsertCall,
   type CallMessage, type InsertCallMessage,
+  type CallSession, type InsertCallSession,
+  type DialQueueEntry, type InsertDialQueueEntry,
   type CallTranscription, type InsertCallTranscription,
   type CallRecording, type InsertCallRecording,
   type WhatsAppTemplate, type InsertWhatsAppTemplate,
   type BulkMessageJob, type InsertBulkMessageJob,
   type ContactEngagement, type CampaignMetrics,
   type WhatsAppMessage, type InsertWhatsAppMessage,
+  type WhatsAppConversation, type InsertWhatsAppConversation,
+  type WhatsAppDeadLetter, type InsertWhatsAppDeadLetter, type WhatsAppDeadLetterStatus,
+  type EmailMessage, type InsertEmailMessage,
+  type ContactNote, type InsertContactNote,
+  type ContactImportJob, type InsertContactImportJob, type ContactImportError, type InsertContactImportError,
+  type ContactFieldDefinition, type InsertContactFieldDefinition,
+  type Segment, type InsertSegment,
+  type SuppressionEntry, type InsertSuppressionEntry,
+  type LeadStageHistoryEntry, type InsertLeadStageHistoryEntry, LEAD_STAGES,
   type DashboardStats, type CallWithDetails
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, and, count, avg, sum, sql } from "drizzle-orm";
+import { eq, desc, and, or, ne, count, avg, sum, sql, inArray, type SQL } from "drizzle-orm";
+import { PhoneNumberService } from "./services/phoneNumberService";
+
+// Contacts shown in lists and used as audiences: placeholder rows from old imports are left out
+const listedContacts = sql`${contacts.phone} IS NOT NULL AND ${contacts.phone} != '' AND ${contacts.name} != 'Unknown Lab'`;
+
+// Activity that feeds a contact's lead score
+export interface LeadScoreInputs {
+  answeredCalls: number;
+  unansweredCalls: number;
+  bestSuccessScore: number;
+  whatsappReplies: number;
+  whatsappReads: number;
+}
 
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getUsers(): Promise<User[]>;
+  updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined>;
+  deleteUser(id: string): Promise<boolean>;
 
   // Contacts
   getContact(id: string): Promise<Contact | undefined>;
   getContactByPhone(phoneNumber: string): Promise<Contact | undefined>;
+  getContactsByIds(ids: string[]): Promise<Contact[]>;
+  getAllContacts(): Promise<Contact[]>;
   createContact(contact: InsertContact): Promise<Contact>;
   updateContact(id: string, contact: Partial<InsertContact>): Promise<Contact>;
   deleteContact(id: string): Promise<boolean>;
+  mergeContacts(survivorId: string, duplicateIds: string[], updates: Partial<InsertContact>): Promise<Contact>;
   getContacts(limit?: number): Promise<Contact[]>;
   getContactsPaginated(options: {
     limit: number;
@@ -38,11 +69,21 @@ export interface IStorage {
     states?: string[];
     statuses?: string[];
     engagementMin?: number;
+    where?: SQL; // Further condition, such as a compiled segment
     // Backward compatibility
     city?: string;
     state?: string;
   }): Promise<{ contacts: Contact[]; total: number; }>;
-  getContactFilterOptions(): Promise<{ cities: string[]; states: string[]; statuses: string[]; }>;
+  getContactIdsWhere(where: SQL): Promise<string[]>;
+  getContactFilterOptions(): Promise<{ cities: string[]; states: string[]; statuses: string[]; tags: string[]; }>;
+
+  // Lead Pipeline
+  createLeadStageHistory(entry: InsertLeadStageHistoryEntry): Promise<LeadStageHistoryEntry>;
+  getLeadStageHistory(contactId: string): Promise<LeadStageHistoryEntry[]>;
+  getLeadStageCounts(): Promise<Record<string, number>>;
+  getCallCountByStatus(status: string): Promise<number>;
+  getLeadStageChangeCounts(since: Date): Promise<Record<string, number>>;
+  getLeadScoreInputs(contactId: string): Promise<LeadScoreInputs>;
 
   // Campaigns
   getCampaign(id: string): Promise<Campaign | undefined>;
@@ -60,12 +101,28 @@ export interface IStorage {
   getCallsByCampaign(campaignId: string): Promise<Call[]>;
   getCallsByContact(contactId: string): Promise<Call[]>;
   getActiveCalls(): Promise<Call[]>;
+  finishActiveCall(id: string, call: Partial<InsertCall>): Promise<Call | undefined>;
 
   // Call Messages
   createCallMessage(message: InsertCallMessage): Promise<CallMessage>;
   getCallMessages(callId: string): Promise<CallMessage[]>;
   deleteCallMessage(id: string): Promise<boolean>;
 
+  // Call Sessions
+  getCallSession(callId: string): Promise<CallSession | undefined>;
+  upsertCallSession(session: InsertCallSession): Promise<CallSession>;
+
+  // Dial Queue
+  enqueueDials(entries: InsertDialQueueEntry[]): Promise<DialQueueEntry[]>;
+  claimNextDial(campaignId: string): Promise<DialQueueEntry | undefined>;
+  updateDialQueueEntry(id: string, updates: Partial<InsertDialQueueEntry>): Promise<DialQueueEntry | undefined>;
+  getDialForCall(callId: string): Promise<DialQueueEntry | undefined>;
+  getDialingEntries(): Promise<DialQueueEntry[]>;
+  getDialQueueCounts(campaignId: string): Promise<Record<string, number>>;
+  getLastDialTime(campaignId: string): Promise<Date | undefined>;
+  cancelQueuedDials(campaignId: string): Promise<number>;
+  getCampaignsByDialerStatus(status: string): Promise<Campaign[]>;
+
   // Call Transcriptions
   createCallTranscription(transcription: InsertCallTranscription): Promise<CallTranscription>;
   getCallTranscriptions(callId: string): Promise<CallTranscription[]>;
@@ -89,8 +146,10 @@ export interface IStorage {
   createContactEngagement(engagement: any): Promise<ContactEngagement>;
   updateContactEngagement(id: number, engagement: any): Promise<ContactEngagement>;
   getEngagementsByCampaign(campaignId: string): Promise<ContactEngagement[]>;
+  getEngagementsByContact(contactId: string): Promise<ContactEngagement[]>;
   getAllEngagements(): Promise<ContactEngagement[]>;
   getDueFollowUps(): Promise<ContactEngagement[]>;
+  recordCallAttempt(contactId: string, campaignId: string, outcome: string): Promise<ContactEngagement>;
 
   // Campaign Metrics
   createCampaignMetrics(metrics: any): Promise<CampaignMetrics>;
@@ -99,18 +158,79 @@ export interface IStorage {
 
   // Bulk Message Jobs
   createBulkMessageJob(job: InsertBulkMessageJob): Promise<BulkMessageJob>;
-  updateBulkMessageJob(job: BulkMessageJob): Promise<BulkMessageJob>;
+  updateBulkMessageJob(id: string, updates: Partial<InsertBulkMessageJob>): Promise<BulkMessageJob | undefined>;
   getBulkMessageJob(id: string): Promise<BulkMessageJob | undefined>;
   getBulkMessageJobs(): Promise<BulkMessageJob[]>;
+  updateBulkMessageJobIfStatus(id: string, statuses: string[], updates: Partial<InsertBulkMessageJob>): Promise<BulkMessageJob | undefined>;
+  claimBulkMessageJob(staleBefore: Date): Promise<BulkMessageJob | undefined>;
+  refreshBulkMessageJobCounts(id: string): Promise<BulkMessageJob | undefined>;
+  skipBulkJobContact(id: string, contactId: string): Promise<void>;
+  getBulkJobMessages(jobId: string): Promise<WhatsAppMessage[]>;
+  getLastOutboundWhatsAppAt(contactId: string, excludeBulkJobId?: string): Promise<Date | undefined>;
 
   // WhatsApp Messages
   createWhatsAppMessage(message: InsertWhatsAppMessage): Promise<WhatsAppMessage>;
+  createInboundWhatsAppMessage(message: InsertWhatsAppMessage): Promise<WhatsAppMessage | undefined>;
   getWhatsAppMessages(contactId?: string, limit?: number): Promise<WhatsAppMessage[]>;
   getWhatsAppMessage(id: string): Promise<WhatsAppMessage | undefined>;
   updateWhatsAppMessage(id: string, message: Partial<InsertWhatsAppMessage>): Promise<WhatsAppMessage | undefined>;
   deleteWhatsAppMessage(id: string): Promise<boolean>;
   getWhatsAppChatsByContact(): Promise<any[]>; // Grouped chats
 
+  // WhatsApp Conversations
+  getWhatsAppConversation(contactId: string): Promise<WhatsAppConversation | undefined>;
+  upsertWhatsAppConversation(contactId: string, updates: Partial<InsertWhatsAppConversation>): Promise<WhatsAppConversation>;
+
+  // WhatsApp Webhook Dead Letters
+  createWhatsAppDeadLetter(deadLetter: InsertWhatsAppDeadLetter): Promise<WhatsAppDeadLetter>;
+  getWhatsAppDeadLetters(status?: WhatsAppDeadLetterStatus, limit?: number): Promise<WhatsAppDeadLetter[]>;
+  getWhatsAppDeadLetter(id: string): Promise<WhatsAppDeadLetter | undefined>;
+  updateWhatsAppDeadLetter(id: string, updates: Partial<InsertWhatsAppDeadLetter>): Promise<WhatsAppDeadLetter | undefined>;
+  deleteWhatsAppDeadLetter(id: string): Promise<boolean>;
+
+  // Email Messages
+  createEmailMessage(message: InsertEmailMessage): Promise<EmailMessage>;
+  getEmailMessages(contactId?: string, limit?: number): Promise<EmailMessage[]>;
+  getEmailMessage(id: string): Promise<EmailMessage | undefined>;
+  getEmailMessageByProviderId(providerMessageId: string): Promise<EmailMessage | undefined>;
+  updateEmailMessage(id: string, message: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined>;
+
+  // Contact Imports
+  createContactImportJob(job: InsertContactImportJob): Promise<ContactImportJob>;
+  getContactImportJob(id: string): Promise<ContactImportJob | undefined>;
+  getContactImportJobs(limit?: number): Promise<ContactImportJob[]>;
+  updateContactImportJobIfStatus(id: string, statuses: string[], updates: Partial<InsertContactImportJob>): Promise<ContactImportJob | undefined>;
+  claimContactImportJob(staleBefore: Date): Promise<ContactImportJob | undefined>;
+  saveContactImportBatch(jobId: string, rows: number, contactsToInsert: InsertContact[], errors: InsertContactImportError[]): Promise<ContactImportJob | undefined>;
+  getContactImportErrors(jobId: string): Promise<ContactImportError[]>;
+
+  // Contact Fields
+  getContactFieldDefinitions(): Promise<ContactFieldDefinition[]>;
+  getContactFieldDefinition(id: string): Promise<ContactFieldDefinition | undefined>;
+  createContactFieldDefinition(definition: InsertContactFieldDefinition): Promise<ContactFieldDefinition>;
+  updateContactFieldDefinition(id: string, updates: Partial<InsertContactFieldDefinition>): Promise<ContactFieldDefinition | undefined>;
+  deleteContactFieldDefinition(id: string): Promise<boolean>;
+
+  // Segments
+  getSegments(): Promise<Segment[]>;
+  getSegment(id: string): Promise<Segment | undefined>;
+  createSegment(segment: InsertSegment): Promise<Segment>;
+  updateSegment(id: string, updates: Partial<InsertSegment>): Promise<Segment | undefined>;
+  deleteSegment(id: string): Promise<boolean>;
+
+  // Contact Notes
+  createContactNote(note: InsertContactNote): Promise<ContactNote>;
+  getContactNotes(contactId: string): Promise<ContactNote[]>;
+  deleteContactNote(contactId: string, id: string): Promise<boolean>;
+
+  // Suppression List
+  getSuppressionEntries(limit?: number): Promise<SuppressionEntry[]>;
+  getSuppressedPhones(phones: string[]): Promise<string[]>;
+  addSuppressionEntries(entries: InsertSuppressionEntry[]): Promise<SuppressionEntry[]>;
+  getUnnormalizedSuppressionEntries(): Promise<SuppressionEntry[]>;
+  updateSuppressionEntry(id: string, updates: Partial<InsertSuppressionEntry>): Promise<SuppressionEntry | undefined>;
+  deleteSuppressionEntry(id: string): Promise<boolean>;
+
   // Campaign Analytics
   getTotalCampaignAnalytics(): Promise<any>;
   getDayWiseAnalytics(): Promise<any[]>;
@@ -133,26 +253,59 @@ export class DatabaseStorage implements IStorage {
     return newUser;
   }
 
+  async getUsers(): Promise<User[]> {
+    return await db.select().from(users).orderBy(users.username);
+  }
+
+  async updateUser(id: string, updates: Partial<InsertUser>): Promise<User | undefined> {
+    const [updated] = await db.update(users).set(updates).where(eq(users.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteUser(id: string): Promise<boolean> {
+    const result = await db.delete(users).where(eq(users.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   // Contacts
   async getContact(id: string): Promise<Contact | undefined> {
     const [contact] = await db.select().from(contacts).where(eq(contacts.id, id));
     return contact || undefined;
   }
 
+  // Matches the number in any format against the contact's phone or WhatsApp number
   async getContactByPhone(phoneNumber: string): Promise<Contact | undefined> {
-    const [contact] = await db.select().from(contacts).where(eq(contacts.phone, phoneNumber));
+    const phone = PhoneNumberService.normalize(phoneNumber);
+    const [contact] = await db.select()
+      .from(contacts)
+      .where(or(eq(contacts.phone, phone), eq(contacts.whatsappNumber, phone)))
+      .orderBy(contacts.createdAt)
+      .limit(1);
     return contact || undefined;
   }
 
+  // Batched so large bulk jobs stay under Postgres' bind parameter limit
+  async getContactsByIds(ids: string[]): Promise<Contact[]> {
+    const result: Contact[] = [];
+    for (let i = 0; i < ids.length; i += 1000) {
+      result.push(...await db.select().from(contacts).where(inArray(contacts.id, ids.slice(i, i + 1000))));
+    }
+    return result;
+  }
+
+  async getAllContacts(): Promise<Contact[]> {
+    return await db.select().from(contacts).orderBy(contacts.createdAt);
+  }
+
   async createContact(contact: InsertContact): Promise<Contact> {
-    const [newContact] = await db.insert(contacts).values(contact).returning();
+    const [newContact] = await db.insert(contacts).values(PhoneNumberService.normalizeContact(contact)).returning();
     return newContact;
   }
 
   async updateContact(id: string, contact: Partial<InsertContact>): Promise<Contact> {
     const [updatedContact] = await db
       .update(contacts)
-      .set({ ...contact, updatedAt: new Date() })
+      .set({ ...PhoneNumberService.normalizeContact(contact), updatedAt: new Date() })
       .where(eq(contacts.id, id))
       .returning();
     return updatedContact;
@@ -163,6 +316,44 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Move every call, message, engagement and note of the duplicates onto the survivor and delete the duplicates
+  async mergeContacts(survivorId: string, duplicateIds: string[], updates: Partial<InsertContact>): Promise<Contact> {
+    return await db.transaction(async (tx) => {
+      await tx.update(calls).set({ contactId: survivorId }).where(inArray(calls.contactId, duplicateIds));
+      await tx.update(dialQueue).set({ contactId: survivorId }).where(inArray(dialQueue.contactId, duplicateIds));
+      await tx.update(leadStageHistory).set({ contactId: survivorId }).where(inArray(leadStageHistory.contactId, duplicateIds));
+      await tx.update(contactEngagement).set({ contactId: survivorId }).where(inArray(contactEngagement.contactId, duplicateIds));
+      await tx.update(whatsappMessages).set({ contactId: survivorId }).where(inArray(whatsappMessages.contactId, duplicateIds));
+      await tx.update(emailMessages).set({ contactId: survivorId }).where(inArray(emailMessages.contactId, duplicateIds));
+      await tx.update(suppressionList).set({ contactId: survivorId }).where(inArray(suppressionList.contactId, duplicateIds));
+      await tx.update(contactNotes).set({ contactId: survivorId }).where(inArray(contactNotes.contactId, duplicateIds));
+
+      // A contact has one conversation: keep the survivor's (or else the first duplicate's) with the latest inbound time
+      const allIds = [survivorId, ...duplicateIds];
+      const conversations = await tx.select()
+        .from(whatsappConversations)
+        .where(inArray(whatsappConversations.contactId, allIds));
+      const kept = conversations.find(conversation => conversation.contactId === survivorId) || conversations[0];
+      if (kept) {
+        const lastInboundAt = conversations
+          .map(conversation => conversation.lastInboundAt)
+          .reduce((latest, at) => at && (!latest || at > latest) ? at : latest, null as Date | null);
+        await tx.delete(whatsappConversations)
+          .where(and(inArray(whatsappConversations.contactId, allIds), ne(whatsappConversations.id, kept.id)));
+        await tx.update(whatsappConversations)
+          .set({ contactId: survivorId, lastInboundAt, updatedAt: new Date() })
+          .where(eq(whatsappConversations.id, kept.id));
+      }
+
+      await tx.delete(contacts).where(inArray(contacts.id, duplicateIds));
+      const [survivor] = await tx.update(contacts)
+        .set({ ...PhoneNumberService.normalizeContact(updates), updatedAt: new Date() })
+        .where(eq(contacts.id, survivorId))
+        .returning();
+      return survivor;
+    });
+  }
+
   async getContacts(limit?: number): Promise<Contact[]> {
     // Bypass Drizzle ORM issue with raw SQL query
     const startTime = Date.now();
@@ -173,6 +364,11 @@ export class DatabaseStorage implements IStorage {
                whatsapp_number as "whatsappNumber", 
                phone_number as "phoneNumber",
                imported_from as "importedFrom",
+               lead_stage as "leadStage",
+               lead_score as "leadScore",
+               lead_stage_updated_at as "leadStageUpdatedAt",
+               custom_fields as "customFields",
+               tags,
                created_at as "createdAt", 
                updated_at as "updatedAt"
         FROM contacts 
@@ -184,6 +380,11 @@ export class DatabaseStorage implements IStorage {
                whatsapp_number as "whatsappNumber", 
                phone_number as "phoneNumber",
                imported_from as "importedFrom",
+               lead_stage as "leadStage",
+               lead_score as "leadScore",
+               lead_stage_updated_at as "leadStageUpdatedAt",
+               custom_fields as "customFields",
+               tags,
                created_at as "createdAt", 
                updated_at as "updatedAt"
         FROM contacts 
@@ -214,6 +415,7 @@ export class DatabaseStorage implements IStorage {
     states?: string[];
     statuses?: string[];
     engagementMin?: number;
+    where?: SQL; // Further condition, such as a compiled segment
     // Backward compatibility
     city?: string;
     state?: string;
@@ -221,73 +423,56 @@ export class DatabaseStorage implements IStorage {
     const startTime = Date.now();
     
     try {
-      // Use simple approach similar to working getContacts() method
-      let baseQuery = `
-        SELECT id, name, phone, email, city, state, company, notes, 
-               whatsapp_number as "whatsappNumber", 
-               phone_number as "phoneNumber",
-               imported_from as "importedFrom",
-               created_at as "createdAt", 
-               updated_at as "updatedAt"
-        FROM contacts 
-        WHERE phone IS NOT NULL AND phone != '' AND name != 'Unknown Lab'
-      `;
-
-      let countQuery = `
-        SELECT COUNT(*) as total
-        FROM contacts 
-        WHERE phone IS NOT NULL AND phone != '' AND name != 'Unknown Lab'
-      `;
+      // Every value is bound as a query parameter; LIKE wildcards in user input match literally
+      const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+      const conditions: SQL[] = [listedContacts];
 
       // Add filters if provided
       if (options.searchTerm) {
-        const searchFilter = ` AND (name ILIKE '%${options.searchTerm}%' OR phone LIKE '%${options.searchTerm}%' OR email ILIKE '%${options.searchTerm}%' OR company ILIKE '%${options.searchTerm}%')`;
-        baseQuery += searchFilter;
-        countQuery += searchFilter;
+        const pattern = likePattern(options.searchTerm);
+        conditions.push(sql`(${contacts.name} ILIKE ${pattern} OR ${contacts.phone} LIKE ${pattern} OR ${contacts.email} ILIKE ${pattern} OR ${contacts.company} ILIKE ${pattern})`);
       }
       
       // Handle multiple cities filter
       const citiesToFilter = options.cities && options.cities.length > 0 ? options.cities : (options.city ? [options.city] : []);
       if (citiesToFilter.length > 0) {
-        const cityFilter = ` AND (${citiesToFilter.map(city => `city ILIKE '%${city}%'`).join(' OR ')})`;
-        baseQuery += cityFilter;
-        countQuery += cityFilter;
+        conditions.push(sql`(${sql.join(citiesToFilter.map(city => sql`${contacts.city} ILIKE ${likePattern(city)}`), sql` OR `)})`);
       }
       
       // Handle multiple states filter
       const statesToFilter = options.states && options.states.length > 0 ? options.states : (options.state ? [options.state] : []);
       if (statesToFilter.length > 0) {
-        const stateFilter = ` AND (${statesToFilter.map(state => `state ILIKE '%${state}%'`).join(' OR ')})`;
-        baseQuery += stateFilter;
-        countQuery += stateFilter;
+        conditions.push(sql`(${sql.join(statesToFilter.map(state => sql`${contacts.state} ILIKE ${likePattern(state)}`), sql` OR `)})`);
       }
       
-      // Handle statuses filter (if we have a status column)
+      // Handle lead stage filter
       if (options.statuses && options.statuses.length > 0) {
-        const statusFilter = ` AND (${options.statuses.map(status => `status = '${status}'`).join(' OR ')})`;
-        baseQuery += statusFilter;
-        countQuery += statusFilter;
+        conditions.push(inArray(contacts.leadStage, options.statuses));
       }
       
-      // Handle minimum engagement filter (if we have engagement data)
+      // Handle minimum lead score filter
       if (options.engagementMin && options.engagementMin > 0) {
-        // For now, we'll skip this filter as we don't have engagement count in the main contacts table
-        // This would require joining with the engagement table or adding a computed column
+        conditions.push(sql`${contacts.leadScore} >= ${Math.floor(Number(options.engagementMin))}`);
       }
 
+      if (options.where) conditions.push(options.where);
+      const where = and(...conditions);
+
       // Get total count
-      const countResult = await db.execute(sql.raw(countQuery));
-      const total = parseInt((countResult as any).rows[0].total);
+      const [{ total }] = await db.select({ total: count() }).from(contacts).where(where);
 
       // Get paginated results
-      baseQuery += ` ORDER BY created_at DESC LIMIT ${options.limit} OFFSET ${options.offset}`;
-      const dataResult = await db.execute(sql.raw(baseQuery));
-      const contacts = (dataResult as any).rows || [];
+      const rows = await db.select()
+        .from(contacts)
+        .where(where)
+        .orderBy(desc(contacts.createdAt))
+        .limit(options.limit)
+        .offset(options.offset);
       
       const endTime = Date.now();
-      console.log(`📊 Paginated contacts query completed in ${endTime - startTime}ms - ${contacts.length}/${total} contacts`);
+      console.log(`📊 Paginated contacts query completed in ${endTime - startTime}ms - ${rows.length}/${total} contacts`);
       
-      return { contacts: contacts as Contact[], total };
+      return { contacts: rows, total: Number(total) };
     } catch (error) {
       console.error('Error in getContactsPaginated:', error);
       const endTime = Date.now();
@@ -296,7 +481,15 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  async getContactFilterOptions(): Promise<{ cities: string[]; states: string[]; statuses: string[]; }> {
+  async getContactIdsWhere(where: SQL): Promise<string[]> {
+    const rows = await db.select({ id: contacts.id })
+      .from(contacts)
+      .where(and(listedContacts, where))
+      .orderBy(desc(contacts.createdAt));
+    return rows.map(row => row.id);
+  }
+
+  async getContactFilterOptions(): Promise<{ cities: string[]; states: string[]; statuses: string[]; tags: string[]; }> {
     try {
       const startTime = Date.now();
       
@@ -316,20 +509,82 @@ export class DatabaseStorage implements IStorage {
         ORDER BY state
       `);
       
+      // Get every tag in use
+      const tagsResult = await db.execute(sql`
+        SELECT DISTINCT unnest(tags) AS tag
+        FROM contacts
+        ORDER BY tag
+      `);
+      
       const cities = ((citiesResult as any).rows || []).map((row: any) => row.city);
       const states = ((statesResult as any).rows || []).map((row: any) => row.state);
-      const statuses = ['active', 'inactive', 'pending']; // Common statuses
+      const tags = ((tagsResult as any).rows || []).map((row: any) => row.tag);
+      const statuses = [...LEAD_STAGES];
       
       const endTime = Date.now();
-      console.log(`📋 Filter options fetched in ${endTime - startTime}ms - ${cities.length} cities, ${states.length} states`);
+      console.log(`📋 Filter options fetched in ${endTime - startTime}ms - ${cities.length} cities, ${states.length} states, ${tags.length} tags`);
       
-      return { cities, states, statuses };
+      return { cities, states, statuses, tags };
     } catch (error) {
       console.error('Error fetching contact filter options:', error);
-      return { cities: [], states: [], statuses: [] };
+      return { cities: [], states: [], statuses: [], tags: [] };
     }
   }
 
+  // Lead Pipeline
+  async createLeadStageHistory(entry: InsertLeadStageHistoryEntry): Promise<LeadStageHistoryEntry> {
+    const [newEntry] = await db.insert(leadStageHistory).values(entry).returning();
+    return newEntry;
+  }
+
+  async getLeadStageHistory(contactId: string): Promise<LeadStageHistoryEntry[]> {
+    return await db.select().from(leadStageHistory)
+      .where(eq(leadStageHistory.contactId, contactId))
+      .orderBy(desc(leadStageHistory.createdAt));
+  }
+
+  async getLeadStageCounts(): Promise<Record<string, number>> {
+    const rows = await db.select({ stage: contacts.leadStage, count: count() })
+      .from(contacts)
+      .where(listedContacts)
+      .groupBy(contacts.leadStage);
+    return Object.fromEntries(rows.map(row => [row.stage, Number(row.count)]));
+  }
+
+  async getCallCountByStatus(status: string): Promise<number> {
+    const [row] = await db.select({ count: count() }).from(calls).where(eq(calls.status, status));
+    return Number(row?.count) || 0;
+  }
+
+  async getLeadStageChangeCounts(since: Date): Promise<Record<string, number>> {
+    const rows = await db.select({ stage: leadStageHistory.toStage, count: count() })
+      .from(leadStageHistory)
+      .where(sql`${leadStageHistory.createdAt} >= ${since}`)
+      .groupBy(leadStageHistory.toStage);
+    return Object.fromEntries(rows.map(row => [row.stage, Number(row.count)]));
+  }
+
+  async getLeadScoreInputs(contactId: string): Promise<LeadScoreInputs> {
+    const [callStats] = await db.select({
+      answeredCalls: sql<number>`count(*) filter (where ${calls.outcome} = 'answered')`,
+      unansweredCalls: sql<number>`count(*) filter (where ${calls.outcome} is not null and ${calls.outcome} != 'answered')`,
+      bestSuccessScore: sql<number>`coalesce(max(${calls.successScore}), 0)`
+    }).from(calls).where(eq(calls.contactId, contactId));
+
+    const [messageStats] = await db.select({
+      whatsappReplies: sql<number>`count(*) filter (where ${whatsappMessages.direction} = 'inbound')`,
+      whatsappReads: sql<number>`count(*) filter (where ${whatsappMessages.direction} = 'outbound' and (${whatsappMessages.status} = 'read' or ${whatsappMessages.readAt} is not null))`
+    }).from(whatsappMessages).where(eq(whatsappMessages.contactId, contactId));
+
+    return {
+      answeredCalls: Number(callStats?.answeredCalls || 0),
+      unansweredCalls: Number(callStats?.unansweredCalls || 0),
+      bestSuccessScore: Number(callStats?.bestSuccessScore || 0),
+      whatsappReplies: Number(messageStats?.whatsappReplies || 0),
+      whatsappReads: Number(messageStats?.whatsappReads || 0)
+    };
+  }
+
   // Campaigns
   async getCampaign(id: string): Promise<Campaign | undefined> {
     const [campaign] = await db.select().from(campaigns).where(eq(campaigns.id, id));
@@ -411,6 +666,10 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(contactEngagement).where(eq(contactEngagement.campaignId, campaignId));
   }
 
+  async getEngagementsByContact(contactId: string): Promise<ContactEngagement[]> {
+    return await db.select().from(contactEngagement).where(eq(contactEngagement.contactId, contactId));
+  }
+
   async getAllEngagements(): Promise<ContactEngagement[]> {
     return await db.select().from(contactEngagement).orderBy(desc(contactEngagement.createdAt));
   }
@@ -424,6 +683,36 @@ export class DatabaseStorage implements IStorage {
       .orderBy(contactEngagement.nextFollowUp);
   }
 
+  // Count a call attempt against the contact's engagement for the campaign
+  async recordCallAttempt(contactId: string, campaignId: string, outcome: string): Promise<ContactEngagement> {
+    const [existing] = await db.select().from(contactEngagement).where(
+      and(eq(contactEngagement.contactId, contactId), eq(contactEngagement.campaignId, campaignId))
+    );
+
+    if (existing) {
+      const [updated] = await db
+        .update(contactEngagement)
+        .set({
+          callAttempts: sql`${contactEngagement.callAttempts} + 1`,
+          lastCallAt: new Date(),
+          lastCallOutcome: outcome,
+          updatedAt: new Date()
+        })
+        .where(eq(contactEngagement.id, existing.id))
+        .returning();
+      return updated;
+    }
+
+    const [created] = await db.insert(contactEngagement).values({
+      contactId,
+      campaignId,
+      callAttempts: 1,
+      lastCallAt: new Date(),
+      lastCallOutcome: outcome
+    }).returning();
+    return created;
+  }
+
   // Campaign Metrics
   async createCampaignMetrics(metrics: any): Promise<CampaignMetrics> {
     const [newMetrics] = await db.insert(campaignMetrics).values(metrics).returning();
@@ -454,13 +743,13 @@ export class DatabaseStorage implements IStorage {
     return newJob;
   }
 
-  async updateBulkMessageJob(job: BulkMessageJob): Promise<BulkMessageJob> {
+  async updateBulkMessageJob(id: string, updates: Partial<InsertBulkMessageJob>): Promise<BulkMessageJob | undefined> {
     const [updatedJob] = await db
       .update(bulkMessageJobs)
-      .set(job)
-      .where(eq(bulkMessageJobs.id, job.id))
+      .set(updates)
+      .where(eq(bulkMessageJobs.id, id))
       .returning();
-    return updatedJob;
+    return updatedJob || undefined;
   }
 
   async getBulkMessageJob(id: string): Promise<BulkMessageJob | undefined> {
@@ -472,6 +761,92 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(bulkMessageJobs).orderBy(desc(bulkMessageJobs.createdAt));
   }
 
+  // Update only while the job is in one of the given statuses (e.g. edits before it starts)
+  async updateBulkMessageJobIfStatus(id: string, statuses: string[], updates: Partial<InsertBulkMessageJob>): Promise<BulkMessageJob | undefined> {
+    const [updatedJob] = await db
+      .update(bulkMessageJobs)
+      .set(updates)
+      .where(and(eq(bulkMessageJobs.id, id), inArray(bulkMessageJobs.status, statuses)))
+      .returning();
+    return updatedJob || undefined;
+  }
+
+  // Take the oldest due pending job, or an in-progress job whose worker stopped heartbeating
+  async claimBulkMessageJob(staleBefore: Date): Promise<BulkMessageJob | undefined> {
+    const [job] = await db
+      .update(bulkMessageJobs)
+      .set({
+        status: 'in_progress',
+        startedAt: sql`coalesce(${bulkMessageJobs.startedAt}, now())`,
+        heartbeatAt: new Date()
+      })
+      .where(eq(bulkMessageJobs.id, sql`(
+        select ${bulkMessageJobs.id} from ${bulkMessageJobs}
+        where (${bulkMessageJobs.status} = 'pending'
+            and (${bulkMessageJobs.scheduledAt} is null or ${bulkMessageJobs.scheduledAt} <= now()))
+          or (${bulkMessageJobs.status} = 'in_progress'
+            and (${bulkMessageJobs.heartbeatAt} is null or ${bulkMessageJobs.heartbeatAt} < ${staleBefore}))
+        order by ${bulkMessageJobs.createdAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  // Recount sent/failed from the job's message rows and touch the heartbeat
+  async refreshBulkMessageJobCounts(id: string): Promise<BulkMessageJob | undefined> {
+    const [job] = await db
+      .update(bulkMessageJobs)
+      .set({
+        sentMessages: sql`(
+          select count(*) from ${whatsappMessages}
+          where ${whatsappMessages.bulkJobId} = ${id} and ${whatsappMessages.status} in ('sent', 'delivered', 'read')
+        )`,
+        failedMessages: sql`(
+          select count(*) from ${whatsappMessages}
+          where ${whatsappMessages.bulkJobId} = ${id} and ${whatsappMessages.status} = 'failed'
+        )`,
+        heartbeatAt: new Date()
+      })
+      .where(eq(bulkMessageJobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async getBulkJobMessages(jobId: string): Promise<WhatsAppMessage[]> {
+    return await db.select().from(whatsappMessages).where(eq(whatsappMessages.bulkJobId, jobId));
+  }
+
+  async skipBulkJobContact(id: string, contactId: string): Promise<void> {
+    await db
+      .update(bulkMessageJobs)
+      .set({
+        skippedContactIds: sql`coalesce(${bulkMessageJobs.skippedContactIds}, '[]'::jsonb) || jsonb_build_array(${contactId}::text)`,
+        skippedMessages: sql`${bulkMessageJobs.skippedMessages} + 1`
+      })
+      .where(eq(bulkMessageJobs.id, id));
+  }
+
+  // Most recent outbound WhatsApp message to a contact that was not a failure
+  async getLastOutboundWhatsAppAt(contactId: string, excludeBulkJobId?: string): Promise<Date | undefined> {
+    const conditions = [
+      eq(whatsappMessages.contactId, contactId),
+      eq(whatsappMessages.direction, 'outbound'),
+      sql`${whatsappMessages.status} <> 'failed'`
+    ];
+    if (excludeBulkJobId) {
+      conditions.push(sql`${whatsappMessages.bulkJobId} is distinct from ${excludeBulkJobId}`);
+    }
+    const [row] = await db
+      .select({ createdAt: whatsappMessages.createdAt })
+      .from(whatsappMessages)
+      .where(and(...conditions))
+      .orderBy(desc(whatsappMessages.createdAt))
+      .limit(1);
+    return row?.createdAt;
+  }
+
   // Calls
   async createCall(call: InsertCall): Promise<Call> {
     const [newCall] = await db.insert(calls).values(call).returning();
@@ -533,6 +908,16 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(calls).where(eq(calls.status, 'active'));
   }
 
+  // Only transitions calls that are still active, so concurrent completions run post-call work once
+  async finishActiveCall(id: string, call: Partial<InsertCall>): Promise<Call | undefined> {
+    const [updatedCall] = await db
+      .update(calls)
+      .set(call)
+      .where(and(eq(calls.id, id), eq(calls.status, 'active')))
+      .returning();
+    return updatedCall || undefined;
+  }
+
   // Call Messages
   async createCallMessage(message: InsertCallMessage): Promise<CallMessage> {
     const [newMessage] = await db.insert(callMessages).values(message).returning();
@@ -552,6 +937,96 @@ export class DatabaseStorage implements IStorage {
     return (result.rowCount || 0) > 0;
   }
 
+  // Call Sessions
+  async getCallSession(callId: string): Promise<CallSession | undefined> {
+    const [session] = await db.select().from(callSessions).where(eq(callSessions.callId, callId));
+    return session || undefined;
+  }
+
+  async upsertCallSession(session: InsertCallSession): Promise<CallSession> {
+    const [result] = await db
+      .insert(callSessions)
+      .values(session)
+      .onConflictDoUpdate({
+        target: callSessions.callId,
+        set: { ...session, updatedAt: new Date() },
+      })
+      .returning();
+    return result;
+  }
+
+  // Dial Queue
+  async enqueueDials(entries: InsertDialQueueEntry[]): Promise<DialQueueEntry[]> {
+    if (entries.length === 0) return [];
+    return await db.insert(dialQueue).values(entries).returning();
+  }
+
+  // Atomically claim the next due entry; SKIP LOCKED keeps two instances from dialing the same contact
+  async claimNextDial(campaignId: string): Promise<DialQueueEntry | undefined> {
+    const [entry] = await db
+      .update(dialQueue)
+      .set({ status: 'dialing', attempts: sql`${dialQueue.attempts} + 1`, claimedAt: new Date(), updatedAt: new Date() })
+      .where(eq(dialQueue.id, sql`(
+        select ${dialQueue.id} from ${dialQueue}
+        where ${dialQueue.campaignId} = ${campaignId}
+          and ${dialQueue.status} = 'queued'
+          and ${dialQueue.scheduledFor} <= now()
+        order by ${dialQueue.scheduledFor}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return entry || undefined;
+  }
+
+  async updateDialQueueEntry(id: string, updates: Partial<InsertDialQueueEntry>): Promise<DialQueueEntry | undefined> {
+    const [entry] = await db
+      .update(dialQueue)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(dialQueue.id, id))
+      .returning();
+    return entry || undefined;
+  }
+
+  async getDialForCall(callId: string): Promise<DialQueueEntry | undefined> {
+    const [entry] = await db.select().from(dialQueue).where(eq(dialQueue.callId, callId));
+    return entry || undefined;
+  }
+
+  async getDialingEntries(): Promise<DialQueueEntry[]> {
+    return await db.select().from(dialQueue).where(eq(dialQueue.status, 'dialing'));
+  }
+
+  async getDialQueueCounts(campaignId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ status: dialQueue.status, count: count() })
+      .from(dialQueue)
+      .where(eq(dialQueue.campaignId, campaignId))
+      .groupBy(dialQueue.status);
+    return Object.fromEntries(rows.map(row => [row.status, Number(row.count)]));
+  }
+
+  async getLastDialTime(campaignId: string): Promise<Date | undefined> {
+    const [result] = await db
+      .select({ lastClaimedAt: sql<string | null>`max(${dialQueue.claimedAt})` })
+      .from(dialQueue)
+      .where(eq(dialQueue.campaignId, campaignId));
+    return result?.lastClaimedAt ? new Date(result.lastClaimedAt) : undefined;
+  }
+
+  async cancelQueuedDials(campaignId: string): Promise<number> {
+    const cancelled = await db
+      .update(dialQueue)
+      .set({ status: 'cancelled', updatedAt: new Date() })
+      .where(and(eq(dialQueue.campaignId, campaignId), eq(dialQueue.status, 'queued')))
+      .returning({ id: dialQueue.id });
+    return cancelled.length;
+  }
+
+  async getCampaignsByDialerStatus(status: string): Promise<Campaign[]> {
+    return await db.select().from(campaigns).where(eq(campaigns.dialerStatus, status));
+  }
+
   // Call Transcriptions for real-time live transcription display
   async createCallTranscription(transcription: InsertCallTranscription): Promise<CallTranscription> {
     const [result] = await db.insert(callTranscriptions).values(transcription).returning();
@@ -617,6 +1092,15 @@ export class DatabaseStorage implements IStorage {
     return newMessage;
   }
 
+  // Undefined when a message with the same Meta message ID is already stored
+  async createInboundWhatsAppMessage(message: InsertWhatsAppMessage): Promise<WhatsAppMessage | undefined> {
+    const [newMessage] = await db.insert(whatsappMessages)
+      .values(message)
+      .onConflictDoNothing({ target: whatsappMessages.whatsappMessageId })
+      .returning();
+    return newMessage;
+  }
+
   async getWhatsAppMessages(contactId?: string, limit: number = 50): Promise<WhatsAppMessage[]> {
     const query = db.select().from(whatsappMessages).orderBy(desc(whatsappMessages.createdAt)).limit(limit);
     
@@ -649,6 +1133,293 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(whatsappMessages).where(eq(whatsappMessages.whatsappMessageId, whatsappMessageId));
   }
 
+  // WhatsApp Conversations
+  async getWhatsAppConversation(contactId: string): Promise<WhatsAppConversation | undefined> {
+    const [conversation] = await db.select().from(whatsappConversations).where(eq(whatsappConversations.contactId, contactId));
+    return conversation || undefined;
+  }
+
+  async upsertWhatsAppConversation(contactId: string, updates: Partial<InsertWhatsAppConversation>): Promise<WhatsAppConversation> {
+    const [conversation] = await db.insert(whatsappConversations)
+      .values({ ...updates, contactId })
+      .onConflictDoUpdate({
+        target: whatsappConversations.contactId,
+        set: { ...updates, updatedAt: new Date() }
+      })
+      .returning();
+    return conversation;
+  }
+
+  // Email Messages
+  async createEmailMessage(message: InsertEmailMessage): Promise<EmailMessage> {
+    const [newMessage] = await db.insert(emailMessages).values(message).returning();
+    return newMessage;
+  }
+
+  async getEmailMessages(contactId?: string, limit: number = 50): Promise<EmailMessage[]> {
+    const query = db.select().from(emailMessages).orderBy(desc(emailMessages.createdAt)).limit(limit);
+
+    if (contactId) {
+      return await query.where(eq(emailMessages.contactId, contactId));
+    }
+
+    return await query;
+  }
+
+  async getEmailMessage(id: string): Promise<EmailMessage | undefined> {
+    const [message] = await db.select().from(emailMessages).where(eq(emailMessages.id, id));
+    return message || undefined;
+  }
+
+  async getEmailMessageByProviderId(providerMessageId: string): Promise<EmailMessage | undefined> {
+    const [message] = await db.select().from(emailMessages).where(eq(emailMessages.providerMessageId, providerMessageId));
+    return message || undefined;
+  }
+
+  async updateEmailMessage(id: string, message: Partial<InsertEmailMessage>): Promise<EmailMessage | undefined> {
+    const [updated] = await db.update(emailMessages)
+      .set(message)
+      .where(eq(emailMessages.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Contact Imports
+  async createContactImportJob(job: InsertContactImportJob): Promise<ContactImportJob> {
+    const [created] = await db.insert(contactImportJobs).values(job).returning();
+    return created;
+  }
+
+  async getContactImportJob(id: string): Promise<ContactImportJob | undefined> {
+    const [job] = await db.select().from(contactImportJobs).where(eq(contactImportJobs.id, id));
+    return job || undefined;
+  }
+
+  async getContactImportJobs(limit: number = 20): Promise<ContactImportJob[]> {
+    return await db.select().from(contactImportJobs).orderBy(desc(contactImportJobs.createdAt)).limit(limit);
+  }
+
+  async updateContactImportJobIfStatus(id: string, statuses: string[], updates: Partial<InsertContactImportJob>): Promise<ContactImportJob | undefined> {
+    const [job] = await db
+      .update(contactImportJobs)
+      .set(updates)
+      .where(and(eq(contactImportJobs.id, id), inArray(contactImportJobs.status, statuses)))
+      .returning();
+    return job || undefined;
+  }
+
+  // Take the oldest queued import, or a running one whose worker stopped heartbeating
+  async claimContactImportJob(staleBefore: Date): Promise<ContactImportJob | undefined> {
+    const [job] = await db
+      .update(contactImportJobs)
+      .set({
+        status: 'running',
+        startedAt: sql`coalesce(${contactImportJobs.startedAt}, now())`,
+        heartbeatAt: new Date()
+      })
+      .where(eq(contactImportJobs.id, sql`(
+        select ${contactImportJobs.id} from ${contactImportJobs}
+        where ${contactImportJobs.status} = 'queued'
+          or (${contactImportJobs.status} = 'running'
+            and (${contactImportJobs.heartbeatAt} is null or ${contactImportJobs.heartbeatAt} < ${staleBefore}))
+        order by ${contactImportJobs.createdAt}
+        limit 1
+        for update skip locked
+      )`))
+      .returning();
+    return job || undefined;
+  }
+
+  // Insert one batch of rows together with its progress, so a resumed import never inserts a row twice
+  async saveContactImportBatch(
+    jobId: string,
+    rows: number,
+    contactsToInsert: InsertContact[],
+    errors: InsertContactImportError[]
+  ): Promise<ContactImportJob | undefined> {
+    return await db.transaction(async (tx) => {
+      if (contactsToInsert.length > 0) {
+        await tx.insert(contacts).values(contactsToInsert.map(contact => PhoneNumberService.normalizeContact(contact)));
+      }
+      if (errors.length > 0) {
+        await tx.insert(contactImportErrors).values(errors);
+      }
+      const duplicates = errors.filter(error => error.kind === 'duplicate').length;
+      const [job] = await tx
+        .update(contactImportJobs)
+        .set({
+          processedRows: sql`${contactImportJobs.processedRows} + ${rows}`,
+          importedRows: sql`${contactImportJobs.importedRows} + ${contactsToInsert.length}`,
+          duplicateRows: sql`${contactImportJobs.duplicateRows} + ${duplicates}`,
+          invalidRows: sql`${contactImportJobs.invalidRows} + ${errors.length - duplicates}`,
+          heartbeatAt: new Date()
+        })
+        .where(eq(contactImportJobs.id, jobId))
+        .returning();
+      return job || undefined;
+    });
+  }
+
+  async getContactImportErrors(jobId: string): Promise<ContactImportError[]> {
+    return await db.select()
+      .from(contactImportErrors)
+      .where(eq(contactImportErrors.jobId, jobId))
+      .orderBy(contactImportErrors.rowNumber);
+  }
+
+  // Contact Fields
+  async getContactFieldDefinitions(): Promise<ContactFieldDefinition[]> {
+    return await db.select().from(contactFieldDefinitions).orderBy(contactFieldDefinitions.createdAt);
+  }
+
+  async getContactFieldDefinition(id: string): Promise<ContactFieldDefinition | undefined> {
+    const [definition] = await db.select().from(contactFieldDefinitions).where(eq(contactFieldDefinitions.id, id));
+    return definition || undefined;
+  }
+
+  async createContactFieldDefinition(definition: InsertContactFieldDefinition): Promise<ContactFieldDefinition> {
+    const [created] = await db.insert(contactFieldDefinitions).values(definition).returning();
+    return created;
+  }
+
+  async updateContactFieldDefinition(id: string, updates: Partial<InsertContactFieldDefinition>): Promise<ContactFieldDefinition | undefined> {
+    const [updated] = await db.update(contactFieldDefinitions)
+      .set(updates)
+      .where(eq(contactFieldDefinitions.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  // Deleting a field also removes its values from every contact
+  async deleteContactFieldDefinition(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [deleted] = await tx.delete(contactFieldDefinitions)
+        .where(eq(contactFieldDefinitions.id, id))
+        .returning();
+      if (!deleted) return false;
+      await tx.update(contacts)
+        .set({ customFields: sql`${contacts.customFields} - ${deleted.key}` })
+        .where(sql`${contacts.customFields} ? ${deleted.key}`);
+      return true;
+    });
+  }
+
+  // Segments
+  async getSegments(): Promise<Segment[]> {
+    return await db.select().from(segments).orderBy(segments.name);
+  }
+
+  async getSegment(id: string): Promise<Segment | undefined> {
+    const [segment] = await db.select().from(segments).where(eq(segments.id, id));
+    return segment || undefined;
+  }
+
+  async createSegment(segment: InsertSegment): Promise<Segment> {
+    const [created] = await db.insert(segments).values(segment).returning();
+    return created;
+  }
+
+  async updateSegment(id: string, updates: Partial<InsertSegment>): Promise<Segment | undefined> {
+    const [updated] = await db.update(segments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(segments.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteSegment(id: string): Promise<boolean> {
+    const result = await db.delete(segments).where(eq(segments.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Contact Notes
+  async createContactNote(note: InsertContactNote): Promise<ContactNote> {
+    const [created] = await db.insert(contactNotes).values(note).returning();
+    return created;
+  }
+
+  async getContactNotes(contactId: string): Promise<ContactNote[]> {
+    return await db.select()
+      .from(contactNotes)
+      .where(eq(contactNotes.contactId, contactId))
+      .orderBy(desc(contactNotes.createdAt));
+  }
+
+  async deleteContactNote(contactId: string, id: string): Promise<boolean> {
+    const result = await db.delete(contactNotes)
+      .where(and(eq(contactNotes.id, id), eq(contactNotes.contactId, contactId)));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // WhatsApp Webhook Dead Letters
+  async createWhatsAppDeadLetter(deadLetter: InsertWhatsAppDeadLetter): Promise<WhatsAppDeadLetter> {
+    const [created] = await db.insert(whatsappDeadLetters).values(deadLetter).returning();
+    return created;
+  }
+
+  async getWhatsAppDeadLetters(status?: WhatsAppDeadLetterStatus, limit: number = 200): Promise<WhatsAppDeadLetter[]> {
+    return await db.select()
+      .from(whatsappDeadLetters)
+      .where(status ? eq(whatsappDeadLetters.status, status) : undefined)
+      .orderBy(desc(whatsappDeadLetters.createdAt))
+      .limit(limit);
+  }
+
+  async getWhatsAppDeadLetter(id: string): Promise<WhatsAppDeadLetter | undefined> {
+    const [deadLetter] = await db.select().from(whatsappDeadLetters).where(eq(whatsappDeadLetters.id, id));
+    return deadLetter || undefined;
+  }
+
+  async updateWhatsAppDeadLetter(id: string, updates: Partial<InsertWhatsAppDeadLetter>): Promise<WhatsAppDeadLetter | undefined> {
+    const [updated] = await db.update(whatsappDeadLetters)
+      .set(updates)
+      .where(eq(whatsappDeadLetters.id, id))
+      .returning();
+    return updated || undefined;
+  }
+
+  async deleteWhatsAppDeadLetter(id: string): Promise<boolean> {
+    const result = await db.delete(whatsappDeadLetters).where(eq(whatsappDeadLetters.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  // Suppression List
+  async getSuppressionEntries(limit: number = 500): Promise<SuppressionEntry[]> {
+    return await db.select().from(suppressionList).orderBy(desc(suppressionList.createdAt)).limit(limit);
+  }
+
+  async getSuppressedPhones(phones: string[]): Promise<string[]> {
+    if (phones.length === 0) return [];
+    const rows = await db.select({ phone: suppressionList.phone })
+      .from(suppressionList)
+      .where(inArray(suppressionList.phone, phones));
+    return rows.map(row => row.phone);
+  }
+
+  // Already-suppressed numbers keep their original reason and source
+  async addSuppressionEntries(entries: InsertSuppressionEntry[]): Promise<SuppressionEntry[]> {
+    if (entries.length === 0) return [];
+    return await db.insert(suppressionList)
+      .values(entries)
+      .onConflictDoNothing({ target: suppressionList.phone })
+      .returning();
+  }
+
+  // Entries keyed the old way, on the last 10 digits instead of E.164
+  async getUnnormalizedSuppressionEntries(): Promise<SuppressionEntry[]> {
+    return await db.select().from(suppressionList).where(sql`${suppressionList.phone} NOT LIKE '+%'`);
+  }
+
+  async updateSuppressionEntry(id: string, updates: Partial<InsertSuppressionEntry>): Promise<SuppressionEntry | undefined> {
+    const [updated] = await db.update(suppressionList).set(updates).where(eq(suppressionList.id, id)).returning();
+    return updated || undefined;
+  }
+
+  async deleteSuppressionEntry(id: string): Promise<boolean> {
+    const result = await db.delete(suppressionList).where(eq(suppressionList.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
 
 
 
@@ -665,10 +1436,23 @@ export class DatabaseStorage implements IStorage {
         createdAt: whatsappMessages.createdAt,
         status: whatsappMessages.status,
         direction: whatsappMessages.direction,
-        messageType: whatsappMessages.messageType
+        messageType: whatsappMessages.messageType,
+        author: whatsappMessages.author,
+        failedReason: whatsappMessages.failedReason,
+        errorCode: whatsappMessages.errorCode,
+        interactive: whatsappMessages.interactive,
+        interactiveReply: whatsappMessages.interactiveReply,
+        mediaKey: whatsappMessages.mediaKey,
+        mediaId: whatsappMessages.mediaId,
+        mediaMimeType: whatsappMessages.mediaMimeType,
+        mediaFileName: whatsappMessages.mediaFileName,
+        conversationMode: whatsappConversations.mode,
+        handoffReason: whatsappConversations.handoffReason,
+        lastInboundAt: whatsappConversations.lastInboundAt
       })
       .from(whatsappMessages)
       .innerJoin(contacts, eq(whatsappMessages.contactId, contacts.id))
+      .leftJoin(whatsappConversations, eq(whatsappMessages.contactId, whatsappConversations.contactId))
       .orderBy(desc(whatsappMessages.createdAt));
 
       console.log(`📱 Found ${messages.length} WhatsApp messages`);
@@ -684,10 +1468,13 @@ export class DatabaseStorage implements IStorage {
             id: contactId,
             contactPhone: msg.contactPhone,
             contactName: msg.contactName,
-            lastMessage: msg.message,
+            lastMessage: msg.message || `[${msg.messageType}]`,
             lastMessageTime: msg.createdAt.toISOString(),
             unreadCount: 0,
             status: 'active',
+            mode: msg.conversationMode || 'ai',
+            handoffReason: msg.handoffReason,
+            lastInboundAt: msg.lastInboundAt?.toISOString() || null,
             messages: []
           });
         }
@@ -704,12 +1491,23 @@ export class DatabaseStorage implements IStorage {
           direction: msg.direction,
           status: msg.status,
           timestamp: msg.createdAt.toISOString(),
-          messageType: msg.messageType || 'text'
+          messageType: msg.messageType || 'text',
+          author: msg.author,
+          failedReason: msg.failedReason,
+          errorCode: msg.errorCode,
+          interactive: msg.interactive,
+          interactiveReply: msg.interactiveReply,
+          media: msg.mediaId || msg.mediaKey ? {
+            url: `/api/whatsapp/media/${msg.id}`,
+            mimeType: msg.mediaMimeType,
+            fileName: msg.mediaFileName,
+            stored: !!msg.mediaKey
+          } : null
         });
         
         // Update last message if this is newer
         if (new Date(msg.createdAt) > new Date(chat.lastMessageTime)) {
-          chat.lastMessage = msg.message;
+          chat.lastMessage = msg.message || `[${msg.messageType}]`;
           chat.lastMessageTime = msg.createdAt.toISOString();
         }
       });
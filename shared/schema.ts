@@ -8,7 +8,12 @@ import { nanoid } from "nanoid";
 export const users = pgTable("users", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
-  password: text("password").notNull(),
+  password: text("password").notNull(), // scrypt hash as "<hash>.<salt>"
+  displayName: text("display_name"),
+  role: text("role").notNull().default('viewer'), // One of USER_ROLES
+  active: boolean("active").default(true).notNull(), // Inactive users cannot sign in
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
 export const contacts = pgTable("contacts", {
@@ -23,10 +28,27 @@ export const contacts = pgTable("contacts", {
   company: text("company"),
   notes: text("notes"),
   importedFrom: text("imported_from"), // Track if imported from Excel
+  customFields: jsonb("custom_fields"), // Values of user-defined fields, keyed by contactFieldDefinitions.key
+  tags: text("tags").array().default(sql`'{}'::text[]`).notNull(), // Free-form labels, lowercased
+  leadStage: text("lead_stage").default("new").notNull(), // 'new', 'contacted', 'interested', 'demo_scheduled', 'onboarded', 'lost'
+  leadScore: integer("lead_score").default(0).notNull(), // 0-100, recomputed from calls and WhatsApp activity
+  leadStageUpdatedAt: timestamp("lead_stage_updated_at"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Every lead stage change, for the pipeline history and "today" analytics
+export const leadStageHistory = pgTable("lead_stage_history", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").references(() => contacts.id).notNull(),
+  fromStage: text("from_stage"),
+  toStage: text("to_stage").notNull(),
+  reason: text("reason"),
+  source: text("source").notNull(), // 'call', 'whatsapp', 'campaign', 'manual'
+  callId: varchar("call_id").references(() => calls.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const campaigns = pgTable("campaigns", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   name: text("name").notNull(),
@@ -36,10 +58,18 @@ export const campaigns = pgTable("campaigns", {
   introLine: text("intro_line").default("Hi, this is Anvika from LabsCheck. Am I speaking with the owner or manager of the lab?").notNull(),
   agentName: text("agent_name").default("Anvika").notNull(),
   openaiModel: text("openai_model").default("gpt-4o").notNull(),
+  objectives: jsonb("objectives"), // Named conversation objectives: [{ name, description }]
+  callGoals: jsonb("call_goals"), // Data the agent must collect on each call: CallGoal[]
+  dialingConfig: jsonb("dialing_config"), // Concurrency, calling hours and pacing: DialingConfig
+  dialerStatus: text("dialer_status").default("idle").notNull(), // 'idle', 'running', 'paused', 'cancelled', 'completed'
+  retryPolicy: jsonb("retry_policy"), // Redial rules for unanswered calls: RetryPolicy
+  voicemailMessage: text("voicemail_message"), // Left when an answering machine picks up; supports {{agentName}}
+  voicemailAudioFile: text("voicemail_audio_file"), // Pre-rendered ElevenLabs audio for voicemailMessage
   language: text("language").default("en").notNull(), // Language for the campaign
   elevenlabsModel: text("elevenlabs_model").default("eleven_multilingual_v2").notNull(), // ElevenLabs model selection
   voiceId: text("voice_id").default("21m00Tcm4TlvDq8ikWAM").notNull(), // Voice agent selection
   voiceConfig: jsonb("voice_config"), // ElevenLabs voice configuration (deprecated in favor of voiceId)
+  whatsappAutoReply: boolean("whatsapp_auto_reply").default(false).notNull(), // Answer inbound WhatsApp messages with the campaign's AI persona
   isActive: boolean("is_active").default(true).notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
@@ -50,6 +80,8 @@ export const calls = pgTable("calls", {
   campaignId: varchar("campaign_id").references(() => campaigns.id),
   phoneNumber: text("phone_number").notNull(),
   status: text("status").notNull(), // 'active', 'completed', 'failed', 'abandoned'
+  outcome: text("outcome"), // 'answered', 'voicemail', 'busy', 'no-answer', 'failed', 'canceled'
+  attemptNumber: integer("attempt_number").default(1).notNull(), // Dial attempt for this contact within the campaign
   duration: integer("duration"), // in seconds
   startTime: timestamp("start_time").defaultNow().notNull(),
   endTime: timestamp("end_time"),
@@ -60,7 +92,7 @@ export const calls = pgTable("calls", {
   extractedEmail: text("extracted_email"), // Email extracted from call
   whatsappSent: boolean("whatsapp_sent").default(false),
   emailSent: boolean("email_sent").default(false),
-  collectedData: jsonb("collected_data"),
+  collectedData: jsonb("collected_data"), // Call goal values keyed by goal key, plus the post-call analysis under "analysis"
   aiResponseTime: integer("ai_response_time"), // in milliseconds
   successScore: integer("success_score"), // 1-100
 });
@@ -73,6 +105,31 @@ export const callMessages = pgTable("call_messages", {
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
+// Live call session state - survives restarts and is shared between server instances
+export const callSessions = pgTable("call_sessions", {
+  callId: varchar("call_id").primaryKey().references(() => calls.id),
+  turnCount: integer("turn_count").default(0).notNull(), // Completed user/assistant exchanges
+  collectedInfo: jsonb("collected_info"), // Call goal values gathered so far, e.g. { whatsapp, email }
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Persistent dialing queue - one row per contact to be called by a campaign
+export const dialQueue = pgTable("dial_queue", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  campaignId: varchar("campaign_id").references(() => campaigns.id).notNull(),
+  contactId: varchar("contact_id").references(() => contacts.id).notNull(),
+  phoneNumber: text("phone_number").notNull(),
+  status: text("status").default("queued").notNull(), // 'queued', 'dialing', 'completed', 'failed', 'cancelled'
+  attempts: integer("attempts").default(0).notNull(), // Dial attempts made so far
+  callId: varchar("call_id").references(() => calls.id),
+  scheduledFor: timestamp("scheduled_for").defaultNow().notNull(), // Earliest time this entry may be dialed
+  claimedAt: timestamp("claimed_at"), // When a dialer picked the entry up
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 // Call transcriptions for real-time live transcription display
 export const callTranscriptions = pgTable("call_transcriptions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -105,11 +162,14 @@ export const whatsappTemplates = pgTable("whatsapp_templates", {
   variables: jsonb("variables"), // Dynamic variables for template
   // Complete Meta Business API template structure
   metaTemplateId: text("meta_template_id"), // Original Meta template ID
-  status: text("status"), // APPROVED, PENDING, etc.
+  status: text("status"), // PENDING, APPROVED, REJECTED, PAUSED, DISABLED
+  rejectedReason: text("rejected_reason"), // Meta's reason when the template is rejected, paused or disabled
+  statusUpdatedAt: timestamp("status_updated_at"),
   category: text("category"), // MARKETING, UTILITY, etc.
   language: text("language"), // Language code
   components: jsonb("components"), // Complete components structure from Meta
   metaTemplate: jsonb("meta_template"), // Complete template structure as received from Meta API
+  variableMapping: jsonb("variable_mapping"), // TemplateVariableMapping: contact fields or constants for each placeholder
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -118,13 +178,22 @@ export const bulkMessageJobs = pgTable("bulk_message_jobs", {
   name: text("name").notNull(),
   templateId: varchar("template_id").references(() => whatsappTemplates.id),
   contactIds: jsonb("contact_ids").notNull(), // Array of contact IDs
-  status: text("status").default("pending").notNull(), // pending, in_progress, completed, failed
+  status: text("status").default("pending").notNull(), // pending, in_progress, completed, failed, cancelled
+  languageCode: text("language_code").default("en_US").notNull(),
+  variableMapping: jsonb("variable_mapping"), // The template's TemplateVariableMapping when the job was created
+  delayMs: integer("delay_ms").default(1000).notNull(), // Pause between messages to stay under Meta rate limits
   totalMessages: integer("total_messages").default(0).notNull(),
   sentMessages: integer("sent_messages").default(0).notNull(),
   failedMessages: integer("failed_messages").default(0).notNull(),
-  scheduledAt: timestamp("scheduled_at"),
+  skippedMessages: integer("skipped_messages").default(0).notNull(), // Contacts skipped by the cool-down
+  skippedContactIds: jsonb("skipped_contact_ids"), // So a resumed job does not re-check skipped contacts
+  cooldownHours: integer("cooldown_hours").default(0).notNull(), // Skip contacts sent any WhatsApp message this recently
+  scheduledAt: timestamp("scheduled_at"), // Not picked up before this time
+  recurrence: jsonb("recurrence"), // BulkJobRecurrence; the next occurrence is queued when this one completes
   startedAt: timestamp("started_at"),
+  heartbeatAt: timestamp("heartbeat_at"), // Touched after every message; a stale heartbeat means the worker died mid-job
   completedAt: timestamp("completed_at"),
+  lastError: text("last_error"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -140,6 +209,9 @@ export const contactEngagement = pgTable("contact_engagement", {
   engagementScore: integer("engagement_score").default(0), // 0-100
   status: text("status").default("active"), // active, paused, completed
   nextFollowUp: timestamp("next_follow_up"),
+  callAttempts: integer("call_attempts").default(0).notNull(),
+  lastCallAt: timestamp("last_call_at"),
+  lastCallOutcome: text("last_call_outcome"), // Outcome of the most recent call attempt
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
@@ -167,13 +239,139 @@ export const whatsappMessages = pgTable("whatsapp_messages", {
   messageType: varchar("message_type").notNull().default("text"), // text, image, document, etc.
   direction: varchar("direction").notNull(), // 'outbound' or 'inbound'
   status: varchar("status").notNull().default("pending"), // pending, sent, delivered, read, failed
-  whatsappMessageId: varchar("whatsapp_message_id"), // Meta's message ID
+  whatsappMessageId: varchar("whatsapp_message_id").unique(), // Meta's message ID; unique so a redelivered webhook can't store a message twice
   templateName: varchar("template_name"),
   campaignId: varchar("campaign_id").references(() => campaigns.id),
+  bulkJobId: varchar("bulk_job_id").references(() => bulkMessageJobs.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   deliveredAt: timestamp("delivered_at"),
   readAt: timestamp("read_at"),
   failedReason: text("failed_reason"),
+  interactive: jsonb("interactive"), // WhatsAppInteractiveContent for outbound button and list messages
+  interactiveReply: jsonb("interactive_reply"), // WhatsAppInteractiveReply for inbound button and list replies
+  errorCode: integer("error_code"), // Meta's error code for failed sends, e.g. 131047 when the 24-hour window has closed
+  author: varchar("author"), // 'ai' or 'human' for conversation replies; null for inbound and template sends
+  mediaId: varchar("media_id"), // Meta media ID for image, document, audio, video and sticker messages
+  mediaKey: text("media_key"), // Where the file is kept in media storage; null until downloaded
+  mediaMimeType: varchar("media_mime_type"),
+  mediaFileName: text("media_file_name"),
+  mediaSize: integer("media_size"), // Bytes
+  processedAt: timestamp("processed_at"), // Inbound only: when the steps after storing it finished; a dead-letter replay re-runs them while null
+});
+
+// One row per contact we have a WhatsApp conversation with: who is answering it and when the contact last wrote
+export const whatsappConversations = pgTable("whatsapp_conversations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").references(() => contacts.id).notNull().unique(),
+  campaignId: varchar("campaign_id").references(() => campaigns.id), // Campaign whose persona answers
+  mode: text("mode").default("ai").notNull(), // 'ai' or 'human'
+  handoffReason: text("handoff_reason"),
+  handedOffAt: timestamp("handed_off_at"),
+  lastInboundAt: timestamp("last_inbound_at"), // Starts Meta's 24-hour customer service window
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Webhook items that threw while being processed, kept so they can be replayed once the cause is fixed
+export const whatsappDeadLetters = pgTable("whatsapp_dead_letters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  field: text("field").notNull(), // Webhook change field, e.g. 'messages'
+  payload: jsonb("payload").notNull(), // The change value, narrowed to the single message or status that failed
+  error: text("error").notNull(),
+  status: text("status").notNull().default("pending"), // pending, replayed
+  attempts: integer("attempts").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastAttemptAt: timestamp("last_attempt_at").defaultNow().notNull(),
+  replayedAt: timestamp("replayed_at"),
+});
+
+// Do-not-call / opt-out registry, checked before every call and outbound WhatsApp campaign message
+export const suppressionList = pgTable("suppression_list", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  phone: text("phone").notNull().unique(), // E.164, the same form contacts store, so every way of writing a number matches
+  reason: text("reason").notNull(),
+  source: text("source").notNull(), // 'call', 'whatsapp', 'import', 'manual'
+  sourceReference: text("source_reference"), // Call ID, WhatsApp message ID or imported file name
+  contactId: varchar("contact_id").references(() => contacts.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Email Messages Table - every email sent through the email transport, with delivery tracking
+export const emailMessages = pgTable("email_messages", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").references(() => contacts.id),
+  campaignId: varchar("campaign_id").references(() => campaigns.id),
+  callId: varchar("call_id").references(() => calls.id), // Set for post-call follow-ups
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  html: text("html").notNull(),
+  transport: text("transport").notNull(), // 'smtp', 'sendgrid', 'mailbox'
+  status: text("status").notNull().default("pending"), // pending, sent, opened, bounced, failed
+  providerMessageId: text("provider_message_id"),
+  failedReason: text("failed_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  sentAt: timestamp("sent_at"),
+  openedAt: timestamp("opened_at"),
+  bouncedAt: timestamp("bounced_at"),
+});
+
+// Contact imports: the uploaded file waits in media storage while its columns are mapped and dry-run,
+// then the import worker inserts it in batches, persisting progress so a restart resumes the job
+export const contactImportJobs = pgTable("contact_import_jobs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  fileName: text("file_name").notNull(),
+  fileKey: text("file_key").notNull(), // Media storage key of the uploaded file
+  status: text("status").default("draft").notNull(), // draft, queued, running, completed, failed
+  mapping: jsonb("mapping"), // ContactImportColumn[], one per column of the file
+  totalRows: integer("total_rows").default(0).notNull(),
+  processedRows: integer("processed_rows").default(0).notNull(),
+  importedRows: integer("imported_rows").default(0).notNull(),
+  duplicateRows: integer("duplicate_rows").default(0).notNull(),
+  invalidRows: integer("invalid_rows").default(0).notNull(),
+  startedAt: timestamp("started_at"),
+  heartbeatAt: timestamp("heartbeat_at"), // Touched after every batch; a stale heartbeat means the worker died mid-job
+  completedAt: timestamp("completed_at"),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Rows an import skipped, for the downloadable error report
+export const contactImportErrors = pgTable("contact_import_errors", {
+  id: serial("id").primaryKey(),
+  jobId: varchar("job_id").references(() => contactImportJobs.id).notNull(),
+  rowNumber: integer("row_number").notNull(), // As numbered in the spreadsheet, header row being 1
+  kind: text("kind").notNull(), // 'invalid', 'duplicate'
+  error: text("error").notNull(),
+  values: jsonb("values"), // The row's cells keyed by column header
+});
+
+// User-defined contact attributes such as lab type or test volume; values live in contacts.customFields
+export const contactFieldDefinitions = pgTable("contact_field_definitions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  key: text("key").notNull().unique(), // a-z, 0-9 and _; used in filters, imports and {{contact.custom.<key>}}
+  label: text("label").notNull(),
+  type: text("type").notNull(), // 'text', 'number', 'date', 'enum'
+  options: jsonb("options"), // string[] of allowed values for enum fields
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Free-text notes agents leave on a contact's timeline
+export const contactNotes = pgTable("contact_notes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  contactId: varchar("contact_id").references(() => contacts.id).notNull(),
+  body: text("body").notNull(),
+  author: text("author"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Saved audiences: contacts matching AND/OR rules, evaluated whenever the segment is used
+export const segments = pgTable("segments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  description: text("description"),
+  rules: jsonb("rules").notNull(), // SegmentRuleGroup
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
 // Relations
@@ -183,8 +381,12 @@ export const usersRelations = relations(users, ({ many }) => ({
 
 export const contactsRelations = relations(contacts, ({ many }) => ({
   calls: many(calls),
+  stageHistory: many(leadStageHistory),
   engagements: many(contactEngagement),
   whatsappMessages: many(whatsappMessages),
+  whatsappConversations: many(whatsappConversations),
+  emailMessages: many(emailMessages),
+  notes: many(contactNotes),
 }));
 
 export const campaignsRelations = relations(campaigns, ({ many }) => ({
@@ -192,17 +394,19 @@ export const campaignsRelations = relations(campaigns, ({ many }) => ({
   engagements: many(contactEngagement),
   metrics: many(campaignMetrics),
   whatsappMessages: many(whatsappMessages),
+  emailMessages: many(emailMessages),
 }));
 
 export const whatsappTemplatesRelations = relations(whatsappTemplates, ({ many }) => ({
   bulkJobs: many(bulkMessageJobs),
 }));
 
-export const bulkMessageJobsRelations = relations(bulkMessageJobs, ({ one }) => ({
+export const bulkMessageJobsRelations = relations(bulkMessageJobs, ({ one, many }) => ({
   template: one(whatsappTemplates, {
     fields: [bulkMessageJobs.templateId],
     references: [whatsappTemplates.id],
   }),
+  messages: many(whatsappMessages),
 }));
 
 export const contactEngagementRelations = relations(contactEngagement, ({ one }) => ({
@@ -228,6 +432,30 @@ export const callsRelations = relations(calls, ({ one, many }) => ({
   messages: many(callMessages),
   transcriptions: many(callTranscriptions),
   recordings: many(callRecordings),
+  session: one(callSessions),
+  emailMessages: many(emailMessages),
+}));
+
+export const dialQueueRelations = relations(dialQueue, ({ one }) => ({
+  campaign: one(campaigns, {
+    fields: [dialQueue.campaignId],
+    references: [campaigns.id],
+  }),
+  contact: one(contacts, {
+    fields: [dialQueue.contactId],
+    references: [contacts.id],
+  }),
+  call: one(calls, {
+    fields: [dialQueue.callId],
+    references: [calls.id],
+  }),
+}));
+
+export const callSessionsRelations = relations(callSessions, ({ one }) => ({
+  call: one(calls, {
+    fields: [callSessions.callId],
+    references: [calls.id],
+  }),
 }));
 
 export const callMessagesRelations = relations(callMessages, ({ one }) => ({
@@ -269,24 +497,309 @@ export const whatsappMessagesRelations = relations(whatsappMessages, ({ one }) =
     fields: [whatsappMessages.campaignId],
     references: [campaigns.id],
   }),
+  bulkJob: one(bulkMessageJobs, {
+    fields: [whatsappMessages.bulkJobId],
+    references: [bulkMessageJobs.id],
+  }),
+}));
+
+export const whatsappConversationsRelations = relations(whatsappConversations, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [whatsappConversations.contactId],
+    references: [contacts.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [whatsappConversations.campaignId],
+    references: [campaigns.id],
+  }),
+}));
+
+export const leadStageHistoryRelations = relations(leadStageHistory, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [leadStageHistory.contactId],
+    references: [contacts.id],
+  }),
+  call: one(calls, {
+    fields: [leadStageHistory.callId],
+    references: [calls.id],
+  }),
+}));
+
+export const suppressionListRelations = relations(suppressionList, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [suppressionList.contactId],
+    references: [contacts.id],
+  }),
+}));
+
+export const emailMessagesRelations = relations(emailMessages, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [emailMessages.contactId],
+    references: [contacts.id],
+  }),
+  campaign: one(campaigns, {
+    fields: [emailMessages.campaignId],
+    references: [campaigns.id],
+  }),
+  call: one(calls, {
+    fields: [emailMessages.callId],
+    references: [calls.id],
+  }),
+}));
+
+export const contactImportJobsRelations = relations(contactImportJobs, ({ many }) => ({
+  errors: many(contactImportErrors),
+}));
+
+export const contactImportErrorsRelations = relations(contactImportErrors, ({ one }) => ({
+  job: one(contactImportJobs, {
+    fields: [contactImportErrors.jobId],
+    references: [contactImportJobs.id],
+  }),
+}));
+
+export const contactNotesRelations = relations(contactNotes, ({ one }) => ({
+  contact: one(contacts, {
+    fields: [contactNotes.contactId],
+    references: [contacts.id],
+  }),
 }));
 
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
+// A user as sent to the browser
+export type PublicUser = Omit<User, 'password'>;
+
+export const USER_ROLES = ['admin', 'campaign_manager', 'agent', 'viewer'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  campaign_manager: 'Campaign manager',
+  agent: 'Caller / agent',
+  viewer: 'Read-only'
+};
+
+// What a role may do. data.view covers reading contacts, campaigns, calls and messages;
+// settings.manage covers any other change not listed here
+export const PERMISSIONS = [
+  'data.view',
+  'contacts.edit',
+  'contacts.manage',
+  'contacts.export',
+  'calls.make',
+  'messages.send',
+  'campaigns.manage',
+  'settings.manage',
+  'users.manage'
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  campaign_manager: PERMISSIONS.filter(permission => permission !== 'users.manage'),
+  agent: ['data.view', 'contacts.edit', 'calls.make', 'messages.send'],
+  viewer: ['data.view']
+};
+
+export const hasPermission = (user: Pick<User, 'role'> | null | undefined, permission: Permission) =>
+  !!user && (ROLE_PERMISSIONS[user.role as UserRole] || []).includes(permission);
+
 
 export type Contact = typeof contacts.$inferSelect;
 export type InsertContact = typeof contacts.$inferInsert;
 
+// Why contacts were grouped as likely duplicates
+export type DuplicateMatchReason = 'phone' | 'email' | 'name_city';
+
+export interface DuplicateContactGroup {
+  reasons: DuplicateMatchReason[];
+  contacts: Contact[]; // Oldest first
+}
+
+// Lead pipeline, in order; 'lost' can be reached from any stage
+export const LEAD_STAGES = ['new', 'contacted', 'interested', 'demo_scheduled', 'onboarded', 'lost'] as const;
+export type LeadStage = typeof LEAD_STAGES[number];
+
+export type LeadStageHistoryEntry = typeof leadStageHistory.$inferSelect;
+export type InsertLeadStageHistoryEntry = typeof leadStageHistory.$inferInsert;
+
 export type Campaign = typeof campaigns.$inferSelect;
 export type InsertCampaign = typeof campaigns.$inferInsert;
 
+export interface CampaignObjective {
+  name: string;
+  description: string;
+}
+
+export type CallGoalType = 'text' | 'phone' | 'email' | 'number' | 'boolean' | 'choice' | 'datetime';
+
+export interface CallGoal {
+  key: string; // e.g. 'decisionMakerName'
+  label: string; // e.g. 'Decision maker name'
+  type: CallGoalType;
+  required: boolean;
+  description?: string; // Extra guidance for the agent
+  options?: string[]; // Allowed values for 'choice' goals
+  pattern?: string; // Optional regex for 'text' goals
+  min?: number; // Bounds for 'number' goals
+  max?: number;
+}
+
 export type Call = typeof calls.$inferSelect;
 export type InsertCall = typeof calls.$inferInsert;
 
 export type CallMessage = typeof callMessages.$inferSelect;
 export type InsertCallMessage = typeof callMessages.$inferInsert;
 
+export type DialQueueEntry = typeof dialQueue.$inferSelect;
+export type InsertDialQueueEntry = typeof dialQueue.$inferInsert;
+
+export interface DialingConfig {
+  maxConcurrentCalls: number;
+  timezone: string; // IANA name, e.g. 'Asia/Kolkata'
+  callingHoursStart: string; // 'HH:MM' in the campaign timezone
+  callingHoursEnd: string;
+  excludedDays: number[]; // 0 = Sunday ... 6 = Saturday
+  pacingSeconds: number; // Minimum gap between two dials of the same campaign
+}
+
+export type CallOutcome = 'answered' | 'voicemail' | 'busy' | 'no-answer' | 'failed' | 'canceled';
+
+// Structured result of the post-call LLM analysis
+export const callAnalysisSchema = z.object({
+  outcomeCategory: z.enum(['interested', 'callback_requested', 'not_interested', 'already_customer', 'wrong_contact', 'no_decision']),
+  interestLevel: z.enum(['high', 'medium', 'low', 'none']),
+  objections: z.array(z.string()).default([]),
+  callbackAt: z.string().datetime({ offset: true }).nullable().default(null), // When the caller asked to be called back
+  whatsappNumber: z.string().nullable().default(null),
+  email: z.string().nullable().default(null),
+  goalValues: z.record(z.string()).default({}), // Campaign call goal values found anywhere in the transcript
+  successScore: z.number().int().min(1).max(100),
+});
+
+export type CallAnalysis = z.infer<typeof callAnalysisSchema>;
+
+// Model output for one AI reply in a WhatsApp conversation
+export const whatsappAutoReplySchema = z.object({
+  reply: z.string(),
+  handoff: z.boolean(), // The contact asked for a person, or the question needs one
+  handoffReason: z.string().nullable().default(null),
+  confidence: z.number().min(0).max(1), // How sure the model is that the reply is correct and on-brief
+});
+
+export type WhatsAppAutoReply = z.infer<typeof whatsappAutoReplySchema>;
+
+// What happens when a contact taps an interactive reply button or list row
+export const whatsappReplyActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('stage'), stage: z.enum(LEAD_STAGES) }), // Move the lead forward (or to lost)
+  z.object({ type: z.literal('call'), delayMinutes: z.number().int().min(0).max(7 * 24 * 60) }), // Queue a follow-up call
+  z.object({ type: z.literal('handoff') }), // Hand the conversation to a person
+]);
+
+export type WhatsAppReplyAction = z.infer<typeof whatsappReplyActionSchema>;
+
+// Limits from Meta's interactive message reference
+export const whatsappInteractiveOptionSchema = z.object({
+  id: z.string().min(1).max(200),
+  title: z.string().min(1).max(24), // Reply buttons allow 20, list rows 24
+  description: z.string().max(72).optional(), // List rows only
+  section: z.string().max(24).optional(), // List rows with the same section are grouped together
+  action: whatsappReplyActionSchema.optional(),
+});
+
+// An outbound reply-button or list message
+export const whatsappInteractiveSchema = z.object({
+  type: z.enum(['button', 'list']),
+  header: z.string().max(60).optional(),
+  body: z.string().min(1).max(1024),
+  footer: z.string().max(60).optional(),
+  buttonText: z.string().max(20).optional(), // Label of the button that opens a list
+  options: z.array(whatsappInteractiveOptionSchema).min(1).max(10),
+}).superRefine((content, ctx) => {
+  const ids = content.options.map(option => option.id);
+  if (new Set(ids).size !== ids.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Option ids must be unique' });
+  }
+  if (content.type === 'button') {
+    if (content.options.length > 3) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options'], message: 'Reply-button messages allow at most 3 buttons' });
+    }
+    content.options.forEach((option, i) => {
+      if (option.title.length > 20) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['options', i, 'title'], message: 'Button titles allow at most 20 characters' });
+      }
+    });
+  } else if (!content.buttonText) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['buttonText'], message: 'List messages need a button label' });
+  }
+});
+
+export type WhatsAppInteractiveOption = z.infer<typeof whatsappInteractiveOptionSchema>;
+export type WhatsAppInteractiveContent = z.infer<typeof whatsappInteractiveSchema>;
+
+// A button or list reply parsed from an inbound webhook, with what it triggered
+export interface WhatsAppInteractiveReply {
+  kind: 'button_reply' | 'list_reply' | 'template_button';
+  id: string; // Option id (or template button payload)
+  title: string;
+  description?: string;
+  contextMessageId?: string; // Meta ID of the message that carried the buttons
+  action?: WhatsAppReplyAction;
+  result?: string; // What the action did, e.g. "Moved to demo_scheduled"
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total dial attempts per contact, including the first
+  retryDelayMinutes: Partial<Record<Exclude<CallOutcome, 'answered'>, number>>; // Outcomes without a delay are not retried
+}
+
+// Contact values a template placeholder can be bound to
+export const CONTACT_VARIABLE_FIELDS = ['name', 'firstName', 'company', 'city', 'state', 'email', 'phone', 'tags'] as const;
+export type ContactVariableField = typeof CONTACT_VARIABLE_FIELDS[number];
+
+export type TemplateVariableBinding =
+  | { source: 'field'; field: ContactVariableField }
+  | { source: 'custom_field'; key: string } // A contactFieldDefinitions key
+  | { source: 'constant'; value: string };
+
+export interface TemplateVariableMapping {
+  body: TemplateVariableBinding[]; // {{1}}, {{2}}, ... of the body, in order
+  header?: TemplateVariableBinding[]; // Placeholders of a TEXT header
+  headerMedia?: TemplateVariableBinding; // Link for an IMAGE, VIDEO or DOCUMENT header
+  buttons?: Record<string, TemplateVariableBinding>; // Dynamic URL suffix, keyed by button index
+}
+
+// Placeholder values for one recipient
+export interface ResolvedTemplateVariables {
+  header: string[];
+  headerMediaUrl?: string;
+  body: string[];
+  buttons: Record<string, string>;
+}
+
+export interface BulkJobRecurrence {
+  frequency: 'daily' | 'weekly';
+  daysOfWeek?: number[]; // Weekly only: 0 = Sunday ... 6 = Saturday
+  time: string; // 'HH:MM' in the recurrence timezone
+  timezone: string; // IANA name, e.g. 'Asia/Kolkata'
+}
+
+export interface DialQueueProgress {
+  campaignId: string;
+  dialerStatus: string;
+  queued: number;
+  dialing: number;
+  completed: number;
+  failed: number;
+  cancelled: number;
+  total: number;
+}
+
+export type CallSession = typeof callSessions.$inferSelect;
+export type InsertCallSession = typeof callSessions.$inferInsert;
+
 export type CallTranscription = typeof callTranscriptions.$inferSelect;
 export type InsertCallTranscription = typeof callTranscriptions.$inferInsert;
 
@@ -305,6 +818,138 @@ export type CampaignMetrics = typeof campaignMetrics.$inferSelect;
 export type WhatsAppMessage = typeof whatsappMessages.$inferSelect;
 export type InsertWhatsAppMessage = typeof whatsappMessages.$inferInsert;
 
+export type WhatsAppConversation = typeof whatsappConversations.$inferSelect;
+export type InsertWhatsAppConversation = typeof whatsappConversations.$inferInsert;
+export type WhatsAppConversationMode = 'ai' | 'human';
+
+export type WhatsAppDeadLetter = typeof whatsappDeadLetters.$inferSelect;
+export type InsertWhatsAppDeadLetter = typeof whatsappDeadLetters.$inferInsert;
+export type WhatsAppDeadLetterStatus = 'pending' | 'replayed';
+
+export type SuppressionEntry = typeof suppressionList.$inferSelect;
+export type InsertSuppressionEntry = typeof suppressionList.$inferInsert;
+export type SuppressionSource = 'call' | 'whatsapp' | 'import' | 'manual';
+
+export type EmailMessage = typeof emailMessages.$inferSelect;
+export type InsertEmailMessage = typeof emailMessages.$inferInsert;
+export type EmailStatus = 'pending' | 'sent' | 'opened' | 'bounced' | 'failed';
+
+export type ContactImportJob = typeof contactImportJobs.$inferSelect;
+export type InsertContactImportJob = typeof contactImportJobs.$inferInsert;
+export type ContactImportJobStatus = 'draft' | 'queued' | 'running' | 'completed' | 'failed';
+export type ContactImportError = typeof contactImportErrors.$inferSelect;
+export type InsertContactImportError = typeof contactImportErrors.$inferInsert;
+
+// Built-in contact fields a column can be imported into; anything else goes to customFields.
+// Tags are split on commas and semicolons
+export const CONTACT_IMPORT_FIELDS = ['name', 'phone', 'email', 'whatsappNumber', 'company', 'notes', 'city', 'state', 'tags'] as const;
+export type ContactImportField = typeof CONTACT_IMPORT_FIELDS[number];
+
+// Where one column of an import file goes: a built-in field, "custom:<key>" or null to skip it
+export interface ContactImportColumn {
+  header: string;
+  field: ContactImportField | `custom:${string}` | null;
+}
+
+// Result of checking every row of a file against a mapping without importing anything
+export interface ContactImportDryRun {
+  totalRows: number;
+  validRows: number;
+  invalidRows: number;
+  duplicateRows: number;
+  issues: { rowNumber: number; kind: 'invalid' | 'duplicate'; error: string }[]; // The first few, as examples
+}
+
+export const CUSTOM_FIELD_TYPES = ['text', 'number', 'date', 'enum'] as const;
+export type CustomFieldType = typeof CUSTOM_FIELD_TYPES[number];
+export type ContactFieldDefinition = typeof contactFieldDefinitions.$inferSelect;
+export type InsertContactFieldDefinition = typeof contactFieldDefinitions.$inferInsert;
+// Stored custom field values: numbers as numbers, dates as YYYY-MM-DD, text and enum values as strings
+export type CustomFieldValue = string | number;
+
+// One custom field condition of the contact list filters: text matches part of the value,
+// enum matches it exactly, number and date fields match a min/max range (either end optional)
+export interface CustomFieldFilter {
+  key: string;
+  value?: string;
+  min?: string;
+  max?: string;
+}
+
+export type Segment = typeof segments.$inferSelect;
+export type InsertSegment = typeof segments.$inferInsert;
+
+// What a segment field holds, which decides the operators it can be compared with
+export type SegmentFieldKind = 'text' | 'number' | 'date' | 'option' | 'list';
+
+// Built-in fields segment rules can use; custom fields are written "custom:<key>" and take their kind from the field type.
+// lastCallOutcome is the outcome of the latest call that has one, lastWhatsAppStatus the status of the latest outbound message
+export const SEGMENT_FIELDS = {
+  name: { label: 'Name', kind: 'text' },
+  company: { label: 'Company', kind: 'text' },
+  email: { label: 'Email', kind: 'text' },
+  phone: { label: 'Phone', kind: 'text' },
+  city: { label: 'City', kind: 'text' },
+  state: { label: 'State', kind: 'text' },
+  tags: { label: 'Tags', kind: 'list' },
+  leadStage: { label: 'Pipeline stage', kind: 'option', options: LEAD_STAGES },
+  leadScore: { label: 'Lead score', kind: 'number' },
+  lastCallOutcome: { label: 'Last call outcome', kind: 'option', options: ['answered', 'voicemail', 'busy', 'no-answer', 'failed', 'canceled'] },
+  lastWhatsAppStatus: { label: 'Last WhatsApp status', kind: 'option', options: ['pending', 'sent', 'delivered', 'read', 'failed'] },
+  createdAt: { label: 'Added on', kind: 'date' }
+} as const satisfies Record<string, { label: string; kind: SegmentFieldKind; options?: readonly string[] }>;
+export type SegmentBuiltInField = keyof typeof SEGMENT_FIELDS;
+export type SegmentField = SegmentBuiltInField | `custom:${string}`;
+
+export const SEGMENT_OPERATORS = {
+  text: ['equals', 'not_equals', 'contains', 'not_contains', 'is_empty', 'is_not_empty'],
+  number: ['equals', 'not_equals', 'gt', 'gte', 'lt', 'lte', 'is_empty', 'is_not_empty'],
+  date: ['equals', 'before', 'after', 'gte', 'lte', 'is_empty', 'is_not_empty'], // Dates are YYYY-MM-DD
+  option: ['in', 'not_in', 'is_empty', 'is_not_empty'],
+  list: ['has_any', 'has_all', 'has_none', 'is_empty', 'is_not_empty']
+} as const;
+export type SegmentOperator = typeof SEGMENT_OPERATORS[SegmentFieldKind][number];
+
+// One comparison; value is a string for text and date fields, a number for number fields,
+// a list for option and list fields, and absent for is_empty / is_not_empty
+export interface SegmentCondition {
+  field: SegmentField;
+  operator: SegmentOperator;
+  value?: string | number | string[];
+}
+
+export interface SegmentRuleGroup {
+  combinator: 'and' | 'or';
+  rules: SegmentRule[];
+}
+
+export type SegmentRule = SegmentCondition | SegmentRuleGroup;
+
+export interface SegmentPreview {
+  count: number;
+  sample: Contact[]; // The newest few matching contacts
+}
+
+// contactCount is null when the rules refer to a custom field that has since been deleted
+export type SegmentWithCount = Segment & { contactCount: number | null };
+
+export type ContactNote = typeof contactNotes.$inferSelect;
+export type InsertContactNote = typeof contactNotes.$inferInsert;
+
+// One entry on a contact's timeline; every kind carries the time it is ordered by
+export type TimelineEvent =
+  | { kind: 'call'; at: Date; call: Call; campaignName?: string; transcript: { role: string; content: string }[] }
+  | { kind: 'whatsapp'; at: Date; message: WhatsAppMessage }
+  | { kind: 'email'; at: Date; email: EmailMessage }
+  | { kind: 'stage_change'; at: Date; entry: LeadStageHistoryEntry }
+  | { kind: 'note'; at: Date; note: ContactNote };
+
+export interface ContactTimeline {
+  contact: Contact;
+  engagements: ContactEngagement[];
+  events: TimelineEvent[];
+}
+
 export interface DashboardStats {
   totalContacts: number;
   totalCampaigns: number;